@@ -0,0 +1,179 @@
+/**
+ * Chat attachments
+ *
+ * Files pasted or dropped into the composer are uploaded to
+ * `~/.claude/calfins-attachments/<project>/<session>/`, where the session is
+ * the session's ID or, before a new session has one, a draft ID picked by the
+ * composer. A prompt lists the absolute paths of its attachments at the end,
+ * and the run gets `--add-dir` for their folders so Claude can Read them.
+ *
+ * Only images, PDFs and plain-text formats are accepted, judged by extension,
+ * and they are served back with a fixed content type rather than a sniffed one.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const crypto = require('crypto');
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+const MAX_FILE_NAME_LENGTH = 100;
+const KEY_PATTERN = /^[\w.-]{1,200}$/;
+const PROMPT_HEADER = 'Attached files:';
+
+const IMAGE_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// Served as text/plain whatever they contain
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.log', '.md', '.csv', '.tsv', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.ini', '.xml',
+  '.diff', '.patch', '.sql', '.sh', '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.go', '.rs', '.java',
+  '.c', '.h', '.cpp', '.hpp', '.cs', '.css', '.scss'
+]);
+
+class AttachmentError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'AttachmentError';
+    this.statusCode = statusCode;
+  }
+}
+
+function getAttachmentsRoot() {
+  return path.join(process.env.HOME, '.claude', 'calfins-attachments');
+}
+
+// The content type an attachment is served with, or null if it isn't allowed
+function getAttachmentType(fileName) {
+  const extension = path.extname(fileName).toLowerCase();
+  if (IMAGE_TYPES[extension]) return IMAGE_TYPES[extension];
+  if (extension === '.pdf') return 'application/pdf';
+  if (TEXT_EXTENSIONS.has(extension)) return 'text/plain; charset=utf-8';
+  return null;
+}
+
+function validateKey(key, label) {
+  if (typeof key !== 'string' || !KEY_PATTERN.test(key) || key === '.' || key === '..') {
+    throw new AttachmentError(`Invalid ${label}`);
+  }
+  return key;
+}
+
+function getSessionAttachmentsDir(projectName, sessionKey) {
+  return path.join(getAttachmentsRoot(), validateKey(projectName, 'project name'), validateKey(sessionKey, 'session'));
+}
+
+// A name safe to store on disk, keeping the extension the type was judged by
+function toStoredName(originalName) {
+  const extension = path.extname(originalName).toLowerCase();
+  const base = path.basename(originalName, path.extname(originalName))
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(0, MAX_FILE_NAME_LENGTH) || 'attachment';
+  return `${crypto.randomBytes(4).toString('hex')}-${base}${extension}`;
+}
+
+function describeAttachment(projectName, sessionKey, fileName, size) {
+  return {
+    name: fileName.replace(/^[0-9a-f]{8}-/, ''),
+    path: path.join(getSessionAttachmentsDir(projectName, sessionKey), fileName),
+    url: `/api/projects/${encodeURIComponent(projectName)}/attachments/${encodeURIComponent(sessionKey)}/${encodeURIComponent(fileName)}`,
+    mimeType: getAttachmentType(fileName),
+    size
+  };
+}
+
+/**
+ * Store uploaded files (multer's in-memory files) for a session.
+ * Throws AttachmentError if any of them is too big or of a type not accepted.
+ */
+async function saveAttachments(projectName, sessionKey, files) {
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new AttachmentError('No files provided');
+  }
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`At most ${MAX_ATTACHMENTS} files can be attached at once`);
+  }
+  for (const file of files) {
+    if (!getAttachmentType(file.originalname)) {
+      throw new AttachmentError(`Unsupported file type: ${file.originalname}`, 415);
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new AttachmentError(`${file.originalname} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`, 413);
+    }
+  }
+
+  const dir = getSessionAttachmentsDir(projectName, sessionKey);
+  await fs.mkdir(dir, { recursive: true });
+
+  const attachments = [];
+  for (const file of files) {
+    const fileName = toStoredName(file.originalname);
+    await fs.writeFile(path.join(dir, fileName), file.buffer);
+    attachments.push(describeAttachment(projectName, sessionKey, fileName, file.size));
+  }
+  console.log(`📎 Saved ${attachments.length} attachment${attachments.length === 1 ? '' : 's'} in ${dir}`);
+  return attachments;
+}
+
+// The file behind an attachment URL, with the type to serve it as
+async function getAttachmentFile(projectName, sessionKey, fileName) {
+  const contentType = getAttachmentType(validateKey(fileName, 'file name'));
+  const filePath = path.join(getSessionAttachmentsDir(projectName, sessionKey), fileName);
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!contentType || !stats || !stats.isFile()) {
+    throw new AttachmentError('Attachment not found', 404);
+  }
+  return { filePath, contentType };
+}
+
+/**
+ * Check the attachment paths a command was sent with: each must be a stored
+ * attachment of this project. Returns the absolute paths.
+ */
+async function resolveAttachments(projectName, attachmentPaths) {
+  if (attachmentPaths === undefined || attachmentPaths === null) return [];
+  if (!Array.isArray(attachmentPaths) || attachmentPaths.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`Attachments must be a list of at most ${MAX_ATTACHMENTS} files`);
+  }
+  if (attachmentPaths.length > 0 && !projectName) {
+    throw new AttachmentError('Attachments need a project');
+  }
+
+  const resolved = [];
+  for (const attachmentPath of attachmentPaths) {
+    if (typeof attachmentPath !== 'string' || !path.isAbsolute(attachmentPath)) {
+      throw new AttachmentError('Attachments must be absolute paths');
+    }
+    const relative = path.relative(path.join(getAttachmentsRoot(), validateKey(projectName, 'project name')), attachmentPath);
+    const [sessionKey, fileName, ...rest] = relative.split(path.sep);
+    if (rest.length > 0 || !fileName) {
+      throw new AttachmentError(`Not an attachment of this project: ${attachmentPath}`);
+    }
+    const { filePath } = await getAttachmentFile(projectName, sessionKey, fileName);
+    resolved.push(filePath);
+  }
+  return [...new Set(resolved)];
+}
+
+// The prompt with its attachments listed at the end
+function appendAttachmentsToPrompt(prompt, attachmentPaths) {
+  if (attachmentPaths.length === 0) return prompt;
+  const list = `${PROMPT_HEADER}\n${attachmentPaths.map(filePath => `- ${filePath}`).join('\n')}`;
+  return prompt && prompt.trim() ? `${prompt}\n\n${list}` : list;
+}
+
+module.exports = {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS,
+  AttachmentError,
+  saveAttachments,
+  getAttachmentFile,
+  resolveAttachments,
+  appendAttachmentsToPrompt
+};
@@ -0,0 +1,320 @@
+/**
+ * Local authentication for the Calfins Code server
+ *
+ * Users are kept in a small JSON store under ~/.claude so no external identity
+ * provider is needed. Tokens are HMAC-signed with a secret that lives in the
+ * same store, which keeps logins valid across server restarts.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+const { promisify } = require('util');
+
+const scryptAsync = promisify(crypto.scrypt);
+
+const AUTH_COOKIE_NAME = 'calfins_token';
+const TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+const MIN_PASSWORD_LENGTH = 8;
+
+let storeCache = null;
+let storeUpdate = Promise.resolve();
+
+class AuthError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'AuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+function getStorePath() {
+  return path.join(process.env.HOME, '.claude', 'calfins-users.json');
+}
+
+// Load the user store, creating it (with a fresh signing secret) on first use.
+// Only a missing file means first use: a store that can't be read is an
+// error, since starting over empty would reopen admin registration.
+async function loadStore() {
+  if (storeCache) {
+    return storeCache;
+  }
+
+  let store;
+  try {
+    store = JSON.parse(await fs.readFile(getStorePath(), 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Could not read the user store ${getStorePath()}: ${error.message}`);
+    }
+    store = { secret: null, users: [] };
+  }
+  if (!store || !Array.isArray(store.users)) {
+    throw new Error(`The user store ${getStorePath()} has no user list`);
+  }
+
+  if (!store.secret) {
+    store.secret = crypto.randomBytes(48).toString('hex');
+    await saveStore(store);
+  }
+
+  storeCache = store;
+  return storeCache;
+}
+
+// Run a read-modify-write of the store after the ones already in progress, so
+// concurrent requests can't overwrite each other's changes
+function updateStore(update) {
+  const result = storeUpdate.then(async () => update(await loadStore()));
+  storeUpdate = result.catch(() => {});
+  return result;
+}
+
+async function saveStore(store) {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  // The store holds password hashes and the token secret, so keep it private.
+  // Written aside and renamed into place, so the file is never half-written
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempPath, storePath);
+  storeCache = store;
+}
+
+async function hashPassword(password, salt = crypto.randomBytes(16).toString('hex')) {
+  const derived = await scryptAsync(password, salt, 64);
+  return { salt, hash: derived.toString('hex') };
+}
+
+function toPublicUser(user) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    createdAt: user.createdAt,
+    lastLogin: user.lastLogin || null
+  };
+}
+
+async function hasUsers() {
+  const store = await loadStore();
+  return store.users.length > 0;
+}
+
+async function listUsers() {
+  const store = await loadStore();
+  return store.users.map(toPublicUser);
+}
+
+// Create a user. The very first account becomes the admin. With
+// `firstUserOnly`, fails unless there are no users yet; the check and the
+// write happen together, so two setup requests can't both create an admin.
+async function createUser(username, password, role = null, { firstUserOnly = false } = {}) {
+  const normalizedName = (username || '').trim();
+
+  if (!/^[a-zA-Z0-9._-]{3,32}$/.test(normalizedName)) {
+    throw new AuthError('Username must be 3-32 characters (letters, numbers, ".", "_" or "-")');
+  }
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const { salt, hash } = await hashPassword(password);
+  return updateStore(async (store) => {
+    if (firstUserOnly && store.users.length > 0) {
+      throw new AuthError('Setup has already been completed', 403);
+    }
+    if (store.users.some(u => u.username.toLowerCase() === normalizedName.toLowerCase())) {
+      throw new AuthError(`User ${normalizedName} already exists`);
+    }
+
+    const user = {
+      id: crypto.randomUUID(),
+      username: normalizedName,
+      role: role || (store.users.length === 0 ? 'admin' : 'user'),
+      salt,
+      passwordHash: hash,
+      createdAt: new Date().toISOString()
+    };
+
+    await saveStore({ ...store, users: [...store.users, user] });
+    return toPublicUser(user);
+  });
+}
+
+async function deleteUser(userId) {
+  return updateStore(async (store) => {
+    const user = store.users.find(u => u.id === userId);
+
+    if (!user) {
+      throw new AuthError('User not found', 404);
+    }
+    if (user.role === 'admin' && store.users.filter(u => u.role === 'admin').length === 1) {
+      throw new AuthError('Cannot delete the last admin user');
+    }
+
+    await saveStore({ ...store, users: store.users.filter(u => u.id !== userId) });
+    return true;
+  });
+}
+
+// Check credentials and return the public user, or null when they don't match
+async function verifyCredentials(username, password) {
+  const store = await loadStore();
+  const user = store.users.find(u => u.username.toLowerCase() === (username || '').trim().toLowerCase());
+
+  if (!user || !password) {
+    return null;
+  }
+
+  const { hash } = await hashPassword(password, user.salt);
+  const matches = crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.passwordHash, 'hex'));
+  if (!matches) {
+    return null;
+  }
+
+  return updateStore(async (current) => {
+    const loggedIn = { ...user, lastLogin: new Date().toISOString() };
+    await saveStore({ ...current, users: current.users.map(u => (u.id === user.id ? loggedIn : u)) });
+    return toPublicUser(loggedIn);
+  });
+}
+
+function sign(data, secret) {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+async function createToken(user) {
+  const store = await loadStore();
+  const payload = {
+    sub: user.id,
+    username: user.username,
+    role: user.role,
+    exp: Date.now() + TOKEN_TTL_MS
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, store.secret)}`;
+}
+
+// Validate a token and return the user it belongs to, or null
+async function verifyToken(token) {
+  if (!token || typeof token !== 'string' || !token.includes('.')) {
+    return null;
+  }
+
+  const store = await loadStore();
+  const [encoded, signature] = token.split('.');
+  const signatureBytes = Buffer.from(signature);
+  const expectedBytes = Buffer.from(sign(encoded, store.secret));
+
+  // timingSafeEqual throws on buffers of different lengths, and a string's
+  // length isn't its byte length once it has non-ASCII characters
+  if (signatureBytes.length !== expectedBytes.length ||
+      !crypto.timingSafeEqual(signatureBytes, expectedBytes)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!payload.exp || payload.exp < Date.now()) {
+      return null;
+    }
+
+    // Tokens for deleted users stop working immediately
+    const user = store.users.find(u => u.id === payload.sub);
+    return user ? toPublicUser(user) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function parseCookies(header) {
+  const cookies = {};
+  if (!header) return cookies;
+
+  header.split(';').forEach(part => {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      cookies[name] = decodeURIComponent(rest.join('='));
+    }
+  });
+  return cookies;
+}
+
+// Tokens can come from a Bearer header, the auth cookie, or a ?token= query
+// parameter (browsers cannot set headers on WebSocket upgrades)
+function getTokenFromRequest(req) {
+  const authHeader = req.headers['authorization'];
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  const cookies = parseCookies(req.headers['cookie']);
+  if (cookies[AUTH_COOKIE_NAME]) {
+    return cookies[AUTH_COOKIE_NAME];
+  }
+
+  try {
+    const url = new URL(req.url, 'http://localhost');
+    return url.searchParams.get('token');
+  } catch {
+    return null;
+  }
+}
+
+// Express middleware that rejects requests without a valid token
+async function authenticateToken(req, res, next) {
+  try {
+    const user = await verifyToken(getTokenFromRequest(req));
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('❌ Authentication error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+  }
+}
+
+function requireAdmin(req, res, next) {
+  if (!req.user || req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+}
+
+// Resolve the user for a WebSocket upgrade request, or null if unauthenticated
+async function authenticateWebSocket(req) {
+  return verifyToken(getTokenFromRequest(req));
+}
+
+function setAuthCookie(res, token, secure) {
+  res.cookie(AUTH_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: !!secure,
+    maxAge: TOKEN_TTL_MS
+  });
+}
+
+function clearAuthCookie(res) {
+  res.clearCookie(AUTH_COOKIE_NAME);
+}
+
+module.exports = {
+  AuthError,
+  hasUsers,
+  listUsers,
+  createUser,
+  deleteUser,
+  verifyCredentials,
+  createToken,
+  verifyToken,
+  getTokenFromRequest,
+  authenticateToken,
+  authenticateWebSocket,
+  requireAdmin,
+  setAuthCookie,
+  clearAuthCookie
+};
@@ -1,129 +1,154 @@
 const { spawn } = require('child_process');
+const crypto = require('crypto');
+const path = require('path');
+const { createRun, publish, finishRun } = require('./run-registry');
+const { getPermissionBridgeArgs, releaseRun } = require('./permissions');
+const { getEffectiveToolsSettings } = require('./settings');
+const { buildOptionArgs, resolveRunDirectory } = require('./claude-options');
+const { expandSlashCommand } = require('./slash-commands');
+const { resolveAttachments, appendAttachmentsToPrompt } = require('./attachments');
+const { createRunUsage, applyRunUsage, recordRun } = require('./usage');
 
 let activeClaudeProcesses = new Map(); // Track active processes by session ID
+let requestProcesses = new Map(); // Track active processes by request ID (known before the session ID)
 
-async function spawnClaude(command, options = {}, ws) {
-  return new Promise(async (resolve, reject) => {
-    const { sessionId, projectPath, cwd, resume, toolsSettings } = options;
-    let capturedSessionId = sessionId; // Track session ID throughout the process
-    let sessionCreatedSent = false; // Track if we've already sent session-created event
-    
-    // Use tools settings passed from frontend, or defaults
-    const settings = toolsSettings || {
-      allowedTools: [],
-      disallowedTools: [],
-      skipPermissions: false
-    };
+// `ws` receives the run's frames: a chat socket, a headless sink from the run
+// registry, or null. `runConfig` comes from server-side callers only, never
+// from a client's options: `user` is who sent the command, `toolsSettings`
+// replaces the project's tool settings, and `headless` runs without
+// interactive permission prompts, so tools that aren't allowed are denied.
+async function spawnClaude(command, options = {}, ws, runConfig = {}) {
+  const { sessionId, projectPath, cwd, resume } = options;
+  const requestId = options.requestId || crypto.randomUUID();
+  // Settings are keyed by the encoded project name, same as Claude's project folders
+  const projectName = options.projectName || (cwd ? cwd.replace(/\//g, '-') : null);
+  let capturedSessionId = sessionId; // Track session ID throughout the process
+  let sessionCreatedSent = false; // Track if we've already sent session-created event
   
-    // Build Claude CLI command - start with print/resume flags first
-    const args = [];
-    
-    // Add print flag with command if we have a command
-    if (command && command.trim()) {
-      args.push('--print', command);
-    }
-    
-    // Add resume flag if resuming
-    if (resume && sessionId) {
-      args.push('--resume', sessionId);
-    }
-    
-    // Add basic flags
-    args.push('--output-format', 'stream-json', '--verbose');
-    
-    // Add model for new sessions
-    if (!resume) {
-      args.push('--model', 'sonnet');
+  // Frames go through the run registry rather than straight to `ws`, so the
+  // run survives the socket closing and clients can resume the stream.
+  // Every frame is tagged with the request and session it belongs to.
+  const run = createRun({ requestId, sessionId, projectName, projectPath, cwd, userId: runConfig.user?.id }, ws);
+  run.usage = createRunUsage();
+  const sendFrame = (frame) => {
+    publish(run, {
+      ...frame,
+      sessionId: frame.sessionId || capturedSessionId || null
+    });
+  };
+
+  // A run that fails before the CLI is running still has to finish, or the
+  // session would look busy forever
+  const failRun = (error) => {
+    sendFrame({ type: 'claude-error', error: error.message });
+    sendFrame({ type: 'claude-complete', exitCode: 1, isNewSession: false });
+    finishRun(run, 'failed');
+    releaseRun(requestId);
+  };
+
+  // Runs start in the project's directory (not projectPath, Claude's
+  // metadata directory); a cwd sent by the client must name it
+  let workingDir;
+  let args;
+  try {
+    workingDir = await resolveRunDirectory(projectName, cwd);
+    args = await buildClaudeArgs(command, { ...options, cwd: workingDir }, { requestId, projectName, runConfig });
+  } catch (error) {
+    console.error('❌ Could not start Claude:', error.message);
+    failRun(error);
+    throw error;
+  }
+  
+  console.log('Spawning Claude CLI:', 'claude', args.map(arg => {
+    const cleanArg = arg.replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+    return cleanArg.includes(' ') ? `"${cleanArg}"` : cleanArg;
+  }).join(' '));
+  console.log('Working directory:', workingDir);
+  console.log('Session info - Input sessionId:', sessionId, 'Resume:', resume);
+  console.log('🔍 Full command args:', args);
+  
+  return new Promise((resolve, reject) => {
+    let claudeProcess;
+    try {
+      claudeProcess = spawn('claude', args, {
+        cwd: workingDir,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env } // Inherit all environment variables
+      });
+    } catch (error) {
+      // e.g. a prompt containing a NUL byte
+      console.error('❌ Could not start Claude:', error.message);
+      failRun(error);
+      return reject(error);
     }
     
-    // Add tools settings flags
-    if (settings.skipPermissions) {
-      args.push('--dangerously-skip-permissions');
-      console.log('⚠️  Using --dangerously-skip-permissions (skipping other tool settings)');
-    } else {
-      // Only add allowed/disallowed tools if not skipping permissions
-      // Add allowed tools
-      if (settings.allowedTools && settings.allowedTools.length > 0) {
-        for (const tool of settings.allowedTools) {
-          args.push('--allowedTools', tool);
-          console.log('✅ Allowing tool:', tool);
+    // Store process reference for potential abort
+    const processKey = capturedSessionId || sessionId || requestId;
+    activeClaudeProcesses.set(processKey, claudeProcess);
+    requestProcesses.set(requestId, claudeProcess);
+
+    const handleLine = (line) => {
+      try {
+        const response = JSON.parse(line);
+        console.log('📄 Parsed JSON response:', response);
+        
+        // Capture session ID if it's in the response. Resumed sessions can
+        // come back under a new ID, so follow it rather than keeping the old one.
+        if (response.session_id && response.session_id !== capturedSessionId) {
+          const previousKey = capturedSessionId || processKey;
+          capturedSessionId = response.session_id;
+          console.log('📝 Captured session ID:', capturedSessionId);
+          
+          // Update process key with captured session ID
+          activeClaudeProcesses.delete(previousKey);
+          activeClaudeProcesses.set(capturedSessionId, claudeProcess);
+          
+          // Send session-created event only once for new sessions
+          if (!sessionId && !sessionCreatedSent) {
+            sessionCreatedSent = true;
+            sendFrame({
+              type: 'session-created',
+              sessionId: capturedSessionId
+            });
+          }
         }
-      }
-      
-      // Add disallowed tools
-      if (settings.disallowedTools && settings.disallowedTools.length > 0) {
-        for (const tool of settings.disallowedTools) {
-          args.push('--disallowedTools', tool);
-          console.log('❌ Disallowing tool:', tool);
+        
+        // Send parsed response to WebSocket
+        sendFrame({
+          type: 'claude-response',
+          data: response
+        });
+
+        if (applyRunUsage(run, response)) {
+          sendFrame({
+            type: 'usage-updated',
+            usage: run.usage
+          });
         }
+      } catch (parseError) {
+        console.log('📄 Non-JSON response:', line);
+        // If not JSON, send as raw text
+        sendFrame({
+          type: 'claude-output',
+          data: line
+        });
       }
-    }
-    
-    // Use cwd (actual project directory) instead of projectPath (Claude's metadata directory)
-    const workingDir = cwd || process.cwd();
-    console.log('Spawning Claude CLI:', 'claude', args.map(arg => {
-      const cleanArg = arg.replace(/\n/g, '\\n').replace(/\r/g, '\\r');
-      return cleanArg.includes(' ') ? `"${cleanArg}"` : cleanArg;
-    }).join(' '));
-    console.log('Working directory:', workingDir);
-    console.log('Session info - Input sessionId:', sessionId, 'Resume:', resume);
-    console.log('🔍 Full command args:', args);
-    
-    const claudeProcess = spawn('claude', args, {
-      cwd: workingDir,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env } // Inherit all environment variables
-    });
-    
-    // Store process reference for potential abort
-    const processKey = capturedSessionId || sessionId || Date.now().toString();
-    activeClaudeProcesses.set(processKey, claudeProcess);
+    };
     
-    // Handle stdout (streaming JSON responses)
+    // Handle stdout (streaming JSON responses). A chunk can end in the middle
+    // of a line (or of a UTF-8 character), so keep the unfinished part for the
+    // next chunk.
+    let pendingOutput = '';
+    claudeProcess.stdout.setEncoding('utf8');
     claudeProcess.stdout.on('data', (data) => {
-      const rawOutput = data.toString();
-      console.log('📤 Claude CLI stdout:', rawOutput);
+      console.log('📤 Claude CLI stdout:', data);
       
-      const lines = rawOutput.split('\n').filter(line => line.trim());
+      const lines = (pendingOutput + data).split('\n');
+      pendingOutput = lines.pop();
       
       for (const line of lines) {
-        try {
-          const response = JSON.parse(line);
-          console.log('📄 Parsed JSON response:', response);
-          
-          // Capture session ID if it's in the response
-          if (response.session_id && !capturedSessionId) {
-            capturedSessionId = response.session_id;
-            console.log('📝 Captured session ID:', capturedSessionId);
-            
-            // Update process key with captured session ID
-            if (processKey !== capturedSessionId) {
-              activeClaudeProcesses.delete(processKey);
-              activeClaudeProcesses.set(capturedSessionId, claudeProcess);
-            }
-            
-            // Send session-created event only once for new sessions
-            if (!sessionId && !sessionCreatedSent) {
-              sessionCreatedSent = true;
-              ws.send(JSON.stringify({
-                type: 'session-created',
-                sessionId: capturedSessionId
-              }));
-            }
-          }
-          
-          // Send parsed response to WebSocket
-          ws.send(JSON.stringify({
-            type: 'claude-response',
-            data: response
-          }));
-        } catch (parseError) {
-          console.log('📄 Non-JSON response:', line);
-          // If not JSON, send as raw text
-          ws.send(JSON.stringify({
-            type: 'claude-output',
-            data: line
-          }));
+        if (line.trim()) {
+          handleLine(line);
         }
       }
     });
@@ -131,28 +156,38 @@ async function spawnClaude(command, options = {}, ws) {
     // Handle stderr
     claudeProcess.stderr.on('data', (data) => {
       console.error('Claude CLI stderr:', data.toString());
-      ws.send(JSON.stringify({
+      sendFrame({
         type: 'claude-error',
         error: data.toString()
-      }));
+      });
     });
     
     // Handle process completion
     claudeProcess.on('close', (code) => {
       console.log(`Claude CLI process exited with code ${code}`);
+
+      // Output that didn't end with a newline
+      if (pendingOutput.trim()) {
+        handleLine(pendingOutput);
+      }
+      pendingOutput = '';
       
       // Clean up process reference
       const finalSessionId = capturedSessionId || sessionId || processKey;
       activeClaudeProcesses.delete(finalSessionId);
+      requestProcesses.delete(requestId);
       
-      ws.send(JSON.stringify({
+      sendFrame({
         type: 'claude-complete',
         exitCode: code,
-        isNewSession: !sessionId && !!command // Flag to indicate this was a new session
-      }));
+        isNewSession: (!sessionId || !resume) && !!command // Flag to indicate this was a new session
+      });
+      finishRun(run, code === 0 ? 'completed' : claudeProcess.killed ? 'aborted' : 'failed');
+      releaseRun(requestId);
+      recordRun(run);
       
       if (code === 0) {
-        resolve();
+        resolve(capturedSessionId);
       } else {
         reject(new Error(`Claude CLI exited with code ${code}`));
       }
@@ -165,11 +200,14 @@ async function spawnClaude(command, options = {}, ws) {
       // Clean up process reference on error
       const finalSessionId = capturedSessionId || sessionId || processKey;
       activeClaudeProcesses.delete(finalSessionId);
+      requestProcesses.delete(requestId);
       
-      ws.send(JSON.stringify({
+      sendFrame({
         type: 'claude-error',
         error: error.message
-      }));
+      });
+      finishRun(run, 'failed');
+      releaseRun(requestId);
       
       reject(error);
     });
@@ -190,12 +228,101 @@ async function spawnClaude(command, options = {}, ws) {
   });
 }
 
-function abortClaudeSession(sessionId) {
-  const process = activeClaudeProcesses.get(sessionId);
+// The CLI arguments for a run: prompt, session, options and tool permissions.
+// Throws if the options, attachments or settings can't be used.
+async function buildClaudeArgs(command, options, { requestId, projectName, runConfig }) {
+  const { sessionId, cwd, resume } = options;
+
+  // Tool permissions come from the server-side settings store, never from
+  // the client
+  const settings = runConfig.toolsSettings || await getEffectiveToolsSettings(projectName);
+
+  // A custom slash command runs the prompt in its file, which may also pick
+  // the model and allow extra tools
+  const slashCommand = await expandSlashCommand(cwd, command).catch(error => {
+    console.error('❌ Error expanding slash command:', error.message);
+    return null;
+  });
+  if (slashCommand) {
+    console.log('⚡ Slash command:', slashCommand.name);
+  }
+
+  // Model, permission mode and other per-session flags chosen in the chat,
+  // and the files attached to the prompt
+  const model = options.model || slashCommand?.model || undefined;
+  const optionArgs = await buildOptionArgs({ ...options, model }, projectName, runConfig.user);
+  const attachments = await resolveAttachments(projectName, options.attachments);
+
+  // Attachments live outside the project, so their folders are added for Read
+  const prompt = appendAttachmentsToPrompt(slashCommand ? slashCommand.prompt : command, attachments);
+  for (const dir of new Set(attachments.map(filePath => path.dirname(filePath)))) {
+    optionArgs.push('--add-dir', dir);
+  }
+
+  // Build Claude CLI command - start with print/resume flags first
+  const args = [];
+  
+  // Add print flag with command if we have a command
+  if (prompt && prompt.trim()) {
+    args.push('--print', prompt);
+  }
+  
+  // Add resume flag if resuming; a session ID without resume names a new
+  // session (branches of an edited first prompt are started this way)
+  if (resume && sessionId) {
+    args.push('--resume', sessionId);
+  } else if (sessionId) {
+    args.push('--session-id', sessionId);
+  }
+  
+  // Add basic flags
+  args.push('--output-format', 'stream-json', '--verbose');
+  
+  args.push(...optionArgs);
+  
+  // Add tools settings flags
+  if (settings.skipPermissions) {
+    args.push('--dangerously-skip-permissions');
+    console.log('⚠️  Using --dangerously-skip-permissions (skipping other tool settings)');
+  } else {
+    // Only add allowed/disallowed tools if not skipping permissions
+    // Add allowed tools
+    const allowedTools = [...new Set([...(settings.allowedTools || []), ...(slashCommand?.allowedTools || [])])];
+    if (allowedTools.length > 0) {
+      for (const tool of allowedTools) {
+        args.push('--allowedTools', tool);
+        console.log('✅ Allowing tool:', tool);
+      }
+    }
+    
+    // Add disallowed tools
+    if (settings.disallowedTools && settings.disallowedTools.length > 0) {
+      for (const tool of settings.disallowedTools) {
+        args.push('--disallowedTools', tool);
+        console.log('❌ Disallowing tool:', tool);
+      }
+    }
+    
+    // Anything not covered above is asked about interactively in the chat
+    if (!runConfig.headless) {
+      args.push(...getPermissionBridgeArgs(requestId));
+    }
+  }
+
+  return args;
+}
+
+// Abort a running process by session ID, or by request ID for new sessions
+// that don't have a session ID yet
+function abortClaudeSession(sessionId, requestId) {
+  const process = (requestId && requestProcesses.get(requestId)) || activeClaudeProcesses.get(sessionId);
   if (process) {
-    console.log(`🛑 Aborting Claude session: ${sessionId}`);
+    console.log(`🛑 Aborting Claude session: ${sessionId || requestId}`);
     process.kill('SIGTERM');
     activeClaudeProcesses.delete(sessionId);
+    if (requestId) {
+      requestProcesses.delete(requestId);
+    }
     return true;
   }
   return false;
@@ -0,0 +1,157 @@
+/**
+ * Per-session Claude CLI options
+ *
+ * Validates the model, permission mode, max turns, extra directories and
+ * appended system prompt the chat sends with a command, and maps them to CLI
+ * arguments. Nothing from the client reaches the command line unchecked.
+ * The bypassPermissions mode skips every permission prompt, like
+ * --dangerously-skip-permissions, so only admins may pick it. A run always
+ * starts in its project's directory.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const { PathAccessError, resolveProjectPath } = require('./sandbox');
+const { isKnownProject } = require('./projects');
+
+const DEFAULT_MODEL = 'sonnet';
+const PERMISSION_MODES = ['default', 'plan', 'acceptEdits', 'bypassPermissions'];
+const MAX_TURNS_LIMIT = 500;
+const MAX_SYSTEM_PROMPT_LENGTH = 20000;
+const MAX_ADD_DIRS = 20;
+
+// Aliases or full model IDs such as "claude-sonnet-4-20250514"
+const MODEL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:[\]-]{0,99}$/;
+
+class ClaudeOptionsError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'ClaudeOptionsError';
+    this.statusCode = statusCode;
+  }
+}
+
+function validateModel(model) {
+  if (typeof model !== 'string' || !MODEL_ID_PATTERN.test(model)) {
+    throw new ClaudeOptionsError(`Invalid model: ${model}`);
+  }
+  return model;
+}
+
+// `user` is who sends the command; server-side runs have none and can't
+// bypass permissions this way
+function validatePermissionMode(permissionMode, user) {
+  if (!PERMISSION_MODES.includes(permissionMode)) {
+    throw new ClaudeOptionsError(`Invalid permission mode: ${permissionMode}`);
+  }
+  if (permissionMode === 'bypassPermissions' && user?.role !== 'admin') {
+    throw new ClaudeOptionsError('Only admins can bypass permission prompts', 403);
+  }
+  return permissionMode;
+}
+
+function validateMaxTurns(maxTurns) {
+  if (!Number.isInteger(maxTurns) || maxTurns < 1 || maxTurns > MAX_TURNS_LIMIT) {
+    throw new ClaudeOptionsError(`Max turns must be a whole number between 1 and ${MAX_TURNS_LIMIT}`);
+  }
+  return maxTurns;
+}
+
+function validateSystemPrompt(prompt) {
+  if (typeof prompt !== 'string' || prompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new ClaudeOptionsError(`Appended system prompt must be text of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`);
+  }
+  return prompt.trim();
+}
+
+// Extra directories must be inside the project's permitted roots, like any
+// other path the UI hands to the server
+async function validateAddDirs(projectName, addDirs) {
+  if (!Array.isArray(addDirs) || addDirs.length > MAX_ADD_DIRS) {
+    throw new ClaudeOptionsError(`Additional directories must be a list of at most ${MAX_ADD_DIRS} paths`);
+  }
+  if (!projectName) {
+    throw new ClaudeOptionsError('Additional directories need a project');
+  }
+
+  const resolved = [];
+  for (const dir of addDirs) {
+    if (typeof dir !== 'string' || !dir.trim()) {
+      throw new ClaudeOptionsError('Additional directories must be paths');
+    }
+    const dirPath = await resolveProjectPath(projectName, dir.trim());
+    const stats = await fs.stat(dirPath).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+      throw new ClaudeOptionsError(`Not a directory: ${dir}`);
+    }
+    resolved.push(dirPath);
+  }
+  return [...new Set(resolved)];
+}
+
+/**
+ * The directory a run of the project starts in: the project's own directory,
+ * which a cwd sent by the client must name.
+ */
+async function resolveRunDirectory(projectName, cwd) {
+  if (!projectName || !(await isKnownProject(projectName))) {
+    throw new ClaudeOptionsError(`Unknown project: ${projectName}`);
+  }
+
+  const projectDir = await resolveProjectPath(projectName, '.');
+  if (cwd !== undefined && cwd !== null) {
+    const realCwd = typeof cwd === 'string' ? await fs.realpath(path.resolve(cwd)).catch(() => cwd) : cwd;
+    if (realCwd !== projectDir) {
+      console.warn('🔒 Blocked run outside the project directory:', projectName, cwd);
+      throw new PathAccessError('A run must start in its project\'s directory', cwd);
+    }
+  }
+  return projectDir;
+}
+
+/**
+ * CLI arguments for the per-session options of a command sent by `user`.
+ * Throws ClaudeOptionsError (or PathAccessError for --add-dir) on bad input.
+ */
+async function buildOptionArgs(options, projectName, user = null) {
+  const { model, permissionMode, maxTurns, addDirs, appendSystemPrompt, resume } = options;
+  const args = [];
+
+  if (model) {
+    args.push('--model', validateModel(model));
+  } else if (!resume) {
+    // Resumed sessions keep the model they were started with
+    args.push('--model', DEFAULT_MODEL);
+  }
+
+  if (permissionMode && validatePermissionMode(permissionMode, user) !== 'default') {
+    args.push('--permission-mode', permissionMode);
+  }
+
+  if (maxTurns !== undefined && maxTurns !== null) {
+    args.push('--max-turns', String(validateMaxTurns(maxTurns)));
+  }
+
+  if (addDirs && addDirs.length > 0) {
+    for (const dir of await validateAddDirs(projectName, addDirs)) {
+      args.push('--add-dir', dir);
+    }
+  }
+
+  if (appendSystemPrompt) {
+    const prompt = validateSystemPrompt(appendSystemPrompt);
+    if (prompt) {
+      args.push('--append-system-prompt', prompt);
+    }
+  }
+
+  return args;
+}
+
+module.exports = {
+  ClaudeOptionsError,
+  validateModel,
+  validatePermissionMode,
+  resolveRunDirectory,
+  buildOptionArgs
+};
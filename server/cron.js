@@ -0,0 +1,164 @@
+/**
+ * Cron expressions
+ *
+ * The standard five fields (minute, hour, day of month, month, day of week)
+ * with `*`, lists, ranges, steps and month/day names, plus the @hourly,
+ * @daily, @weekly, @monthly and @yearly shorthands. Times are the server's
+ * local time. As in cron, when both day fields are restricted a day matching
+ * either one runs.
+ */
+
+const ALIASES = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+];
+
+// Looking further ahead than this means the expression never matches (e.g. Feb 30)
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+class CronError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CronError';
+    this.statusCode = 400;
+  }
+}
+
+function parseValue(value, field) {
+  const named = field.names ? field.names.indexOf(value.toLowerCase()) : -1;
+  const number = named !== -1 ? named + field.nameOffset : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < field.min || number > field.max) {
+    throw new CronError(`Invalid ${field.name}: ${value}`);
+  }
+  return number;
+}
+
+function parseField(text, field) {
+  const values = new Set();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid step in ${field.name}: ${part}`);
+    }
+
+    let start;
+    let end;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new CronError(`Invalid range in ${field.name}: ${part}`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means from 5 to the end, every 15
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse an expression into the values each field allows.
+ * Throws CronError if it isn't valid.
+ */
+function parseCron(expression) {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    throw new CronError('A schedule needs a cron expression');
+  }
+  const trimmed = expression.trim();
+  const fields = (ALIASES[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new CronError('A cron expression has five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((text, index) => parseField(text, FIELDS[index]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: !fields[2].startsWith('*'),
+    weekdaysRestricted: !fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule, date) {
+  const dayMatches = schedule.days.has(date.getDate());
+  const weekdayMatches = schedule.weekdays.has(date.getDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+    return dayMatches || weekdayMatches;
+  }
+  return (!schedule.daysRestricted || dayMatches) && (!schedule.weekdaysRestricted || weekdayMatches);
+}
+
+// Whether a parsed schedule runs in the minute of `date`
+function matchesCron(schedule, date) {
+  return schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date);
+}
+
+// The first minute after `after` a parsed schedule runs in, or null if none
+// comes within a few years
+function getNextRun(schedule, after = new Date()) {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
+
+module.exports = {
+  CronError,
+  parseCron,
+  matchesCron,
+  getNextRun
+};
@@ -0,0 +1,291 @@
+/**
+ * Project file index
+ *
+ * The files and directories of a project, for the chat's @-mention picker.
+ * A project is walked on its first search, skipping whatever its .gitignore
+ * files (and .git/info/exclude) ignore, along with .git and node_modules.
+ * A watcher then keeps the list current; a changed .gitignore marks it for a
+ * fresh walk before the next search. Projects nobody has searched for a while
+ * are dropped, watcher and all.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const chokidar = require('chokidar');
+
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+const MAX_FILES = 50000;
+const MAX_DEPTH = 20;
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const indexes = new Map(); // project root -> index
+
+// A gitignore pattern as a regular expression over paths relative to the
+// directory of the .gitignore holding it
+function compileIgnorePattern(line, base) {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  // A slash anywhere but the end ties the pattern to this directory
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) return null;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  // The trailing group catches paths inside a matched directory
+  const regex = new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}(/.*)?$`);
+  return { base, regex, negate, dirOnly };
+}
+
+async function readIgnoreFile(filePath, base) {
+  let text;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    return [];
+  }
+  return text.split(/\r?\n/).map(line => compileIgnorePattern(line, base)).filter(Boolean);
+}
+
+// Whether a project-relative path is ignored; the last matching rule wins
+function isIgnored(rules, relativePath, isDirectory) {
+  const segments = relativePath.split('/');
+  if (segments.some(segment => ALWAYS_IGNORED.has(segment))) return true;
+
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+    const match = rule.regex.exec(rule.base ? relativePath.slice(rule.base.length + 1) : relativePath);
+    if (!match) continue;
+    // A directory-only rule matches the directory itself or what's inside it
+    if (rule.dirOnly && match[1] === undefined && !isDirectory) continue;
+    ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+async function walk(listing, dir, relativeDir, depth) {
+  const rules = await readIgnoreFile(path.join(dir, '.gitignore'), relativeDir);
+  listing.rules.push(...rules);
+
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (listing.entries.size >= MAX_FILES) {
+      listing.truncated = true;
+      return;
+    }
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    const isDirectory = entry.isDirectory();
+    if (!isDirectory && !entry.isFile()) continue;
+    if (isIgnored(listing.rules, relativePath, isDirectory)) continue;
+
+    listing.entries.set(relativePath, isDirectory ? 'directory' : 'file');
+    if (isDirectory && depth < MAX_DEPTH) {
+      await walk(listing, path.join(dir, entry.name), relativePath, depth + 1);
+    }
+  }
+}
+
+// Walk the project, then start watching it with the ignore rules just read
+async function buildIndex(index) {
+  const listing = {
+    entries: new Map(),
+    rules: await readIgnoreFile(path.join(index.root, '.git', 'info', 'exclude'), ''),
+    truncated: false
+  };
+  await walk(listing, index.root, '', 0);
+
+  Object.assign(index, listing, { stale: false });
+  // Dropped for being idle while it was walked
+  if (indexes.get(index.root) !== index) return;
+  if (index.watcher) {
+    await index.watcher.close().catch(() => {});
+  }
+  startWatcher(index);
+  console.log(`🗂️  Indexed ${index.entries.size} files in ${index.root}${index.truncated ? ' (truncated)' : ''}`);
+}
+
+function toRelative(index, filePath) {
+  return path.relative(index.root, filePath).split(path.sep).join('/');
+}
+
+function handleWatchEvent(index, eventType, filePath) {
+  const relativePath = toRelative(index, filePath);
+  if (!relativePath || relativePath.startsWith('..')) return;
+
+  if (path.basename(relativePath) === '.gitignore') {
+    index.stale = true;
+    return;
+  }
+  if (eventType === 'unlink' || eventType === 'unlinkDir') {
+    index.entries.delete(relativePath);
+    if (eventType === 'unlinkDir') {
+      for (const entryPath of index.entries.keys()) {
+        if (entryPath.startsWith(`${relativePath}/`)) index.entries.delete(entryPath);
+      }
+    }
+  } else if ((eventType === 'add' || eventType === 'addDir') && index.entries.size < MAX_FILES) {
+    const isDirectory = eventType === 'addDir';
+    if (!isIgnored(index.rules, relativePath, isDirectory)) {
+      index.entries.set(relativePath, isDirectory ? 'directory' : 'file');
+    }
+  }
+}
+
+function startWatcher(index) {
+  index.watcher = chokidar.watch(index.root, {
+    ignored: (filePath, stats) => {
+      const relativePath = toRelative(index, filePath);
+      return !!relativePath && !relativePath.startsWith('..') &&
+        isIgnored(index.rules, relativePath, !!stats?.isDirectory());
+    },
+    persistent: true,
+    ignoreInitial: true,
+    followSymlinks: false,
+    depth: MAX_DEPTH
+  });
+
+  for (const eventType of ['add', 'addDir', 'unlink', 'unlinkDir', 'change']) {
+    index.watcher.on(eventType, (filePath) => handleWatchEvent(index, eventType, filePath));
+  }
+  index.watcher.on('error', (error) => {
+    console.error('❌ File index watcher error:', error.message);
+  });
+}
+
+function closeIndex(root) {
+  const index = indexes.get(root);
+  if (!index) return;
+  indexes.delete(root);
+  clearTimeout(index.idleTimer);
+  index.watcher?.close().catch(() => {});
+}
+
+async function getIndex(root) {
+  let index = indexes.get(root);
+  if (!index) {
+    index = { root, entries: new Map(), rules: [], stale: true, truncated: false, building: null, watcher: null };
+    indexes.set(root, index);
+  }
+
+  clearTimeout(index.idleTimer);
+  index.idleTimer = setTimeout(() => closeIndex(root), IDLE_TIMEOUT_MS);
+  index.idleTimer.unref();
+
+  if (index.stale && !index.building) {
+    index.building = buildIndex(index).finally(() => {
+      index.building = null;
+    });
+  }
+  if (index.building) {
+    await index.building;
+  }
+  return index;
+}
+
+// How well a query matches a path, with its characters in order; null if it
+// doesn't. Matches in the file name, at word starts and in runs score higher.
+function scorePath(query, relativePath) {
+  const target = relativePath.toLowerCase();
+  const nameStart = target.lastIndexOf('/') + 1;
+  const name = target.slice(nameStart);
+
+  let score = 0;
+  if (name.startsWith(query)) score += 100;
+  else if (name.includes(query)) score += 60;
+  else if (target.includes(query)) score += 30;
+
+  let position = 0;
+  let previousMatch = -2;
+  for (const char of query) {
+    const index = target.indexOf(char, position);
+    if (index === -1) return null;
+    if (index === previousMatch + 1) score += 3;
+    if (index === 0 || '/._-'.includes(target[index - 1])) score += 2;
+    if (index >= nameStart) score += 1;
+    previousMatch = index;
+    position = index + 1;
+  }
+  return score - target.length / 100;
+}
+
+/**
+ * Files and directories of a project matching a fuzzy query, best first.
+ * An empty query lists the shallowest paths.
+ * @returns {Promise<{files: object[], truncated: boolean}>}
+ */
+async function searchProjectFiles(root, query = '', limit = DEFAULT_LIMIT) {
+  const index = await getIndex(path.resolve(root));
+  const normalized = query.trim().toLowerCase().replace(/\\/g, '/');
+  const max = Math.min(Math.max(1, limit), MAX_LIMIT);
+
+  const matches = [];
+  for (const [relativePath, type] of index.entries) {
+    const score = normalized
+      ? scorePath(normalized, relativePath)
+      : -relativePath.split('/').length - relativePath.length / 1000;
+    if (score !== null) {
+      matches.push({ relativePath, type, score });
+    }
+  }
+  matches.sort((a, b) => b.score - a.score);
+
+  return {
+    files: matches.slice(0, max).map(({ relativePath, type }) => ({
+      name: path.posix.basename(relativePath),
+      path: path.join(index.root, relativePath),
+      relativePath,
+      type
+    })),
+    truncated: index.truncated
+  };
+}
+
+module.exports = {
+  searchProjectFiles,
+  compileIgnorePattern,
+  isIgnored
+};
@@ -0,0 +1,324 @@
+/**
+ * Git service layer
+ *
+ * All git commands run through execFile with an argument array, so branch
+ * names, file paths and commit messages are never interpreted by a shell.
+ * Anything user-supplied that git could mistake for an option is validated
+ * or placed after "--".
+ */
+
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const path = require('path');
+const fs = require('fs').promises;
+
+const execFileAsync = promisify(execFile);
+
+/** @typedef {import('./types/api').GitStatus} GitStatus */
+/** @typedef {import('./types/api').GitStatusResponse} GitStatusResponse */
+/** @typedef {import('./types/api').GitCommit} GitCommit */
+
+const MAX_BUFFER = 10 * 1024 * 1024;
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{4,40}$/i;
+
+// A non-empty list of non-empty paths, as commands that take files expect
+function isFileList(files) {
+  return Array.isArray(files) && files.length > 0 &&
+    files.every(file => typeof file === 'string' && file.length > 0 && !file.includes('\0'));
+}
+
+class GitService {
+  /**
+   * @param {string} repoPath - Absolute path of the repository root
+   */
+  constructor(repoPath) {
+    this.repoPath = repoPath;
+  }
+
+  /**
+   * Run git with the given arguments in the repository
+   * @param {string[]} args
+   * @returns {Promise<string>} stdout
+   */
+  async run(args) {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.repoPath,
+      maxBuffer: MAX_BUFFER,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+    });
+    return stdout;
+  }
+
+  // Make sure the project directory is the root of a git repository
+  async validateRepository() {
+    try {
+      // Check if directory exists
+      await fs.access(this.repoPath);
+    } catch {
+      throw new Error(`Project path not found: ${this.repoPath}`);
+    }
+
+    let gitRoot;
+    try {
+      // Use --show-toplevel to get the root of the git repository
+      gitRoot = path.resolve((await this.run(['rev-parse', '--show-toplevel'])).trim());
+    } catch (error) {
+      throw new Error('Not a git repository. This directory does not contain a .git folder. Initialize a git repository with "git init" to use source control features.');
+    }
+
+    // Ensure the git root matches our project path (prevent using parent git repos)
+    if (gitRoot !== path.resolve(this.repoPath)) {
+      throw new Error(`Project directory is not a git repository. This directory is inside a git repository at ${gitRoot}, but git operations should be run from the repository root.`);
+    }
+  }
+
+  /**
+   * Working tree status, parsed from porcelain v2 output
+   * @returns {Promise<GitStatusResponse>}
+   */
+  async getStatus() {
+    const output = await this.run(['status', '--porcelain=v2', '--branch', '-z']);
+    return parseStatusV2(output);
+  }
+
+  /**
+   * Diff for a single file: working tree against HEAD, falling back to the
+   * staged diff. Untracked files are rendered as a full addition.
+   * @param {string} file - Path relative to the repository root
+   */
+  async getFileDiff(file) {
+    const status = parseStatusV2(await this.run(['status', '--porcelain=v2', '-z', '--', file]));
+
+    if (status.untracked.includes(file)) {
+      const fileContent = await fs.readFile(path.join(this.repoPath, file), 'utf-8');
+      const lines = fileContent.split('\n');
+      return `--- /dev/null\n+++ b/${file}\n@@ -0,0 +1,${lines.length} @@\n` +
+             lines.map(line => `+${line}`).join('\n');
+    }
+
+    const diff = await this.run(['diff', 'HEAD', '--', file]);
+    if (diff) {
+      return diff;
+    }
+
+    // If no unstaged changes, check for staged changes
+    return this.run(['diff', '--cached', '--', file]);
+  }
+
+  /**
+   * Diff of a file against HEAD
+   * @param {string} file
+   */
+  async getHeadDiff(file) {
+    return this.run(['diff', 'HEAD', '--', file]);
+  }
+
+  /**
+   * Stage the given files and commit them
+   * @param {string} message
+   * @param {string[]} files
+   */
+  async commit(message, files) {
+    if (typeof message !== 'string' || !message.trim()) {
+      throw new Error('Invalid commit message');
+    }
+    if (!isFileList(files)) {
+      throw new Error('Files must be a list of paths');
+    }
+    await this.run(['add', '--', ...files]);
+    return this.run(['commit', '-m', message]);
+  }
+
+  /**
+   * Local and remote branch names, without the remotes/origin/ prefix
+   * @returns {Promise<string[]>}
+   */
+  async getBranches() {
+    const output = await this.run(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes']);
+
+    const branches = output
+      .split('\n')
+      .filter(ref => ref && !ref.endsWith('/HEAD'))
+      .map(ref => ref.replace(/^refs\/heads\//, '').replace(/^refs\/remotes\/origin\//, '').replace(/^refs\/remotes\//, ''));
+
+    return [...new Set(branches)];
+  }
+
+  /**
+   * @param {string} branch
+   */
+  async checkout(branch) {
+    await this.validateBranchName(branch);
+    return this.run(['checkout', branch, '--']);
+  }
+
+  /**
+   * Create a branch and switch to it
+   * @param {string} branch
+   */
+  async createBranch(branch) {
+    await this.validateBranchName(branch);
+    return this.run(['checkout', '-b', branch]);
+  }
+
+  /**
+   * Recent commits with a one-line stat summary
+   * @param {number} limit
+   * @returns {Promise<GitCommit[]>}
+   */
+  async getCommits(limit = 10) {
+    const count = Math.min(Math.max(parseInt(limit, 10) || 10, 1), 500);
+    const output = await this.run([
+      'log',
+      '--pretty=format:%H%x1f%an%x1f%ae%x1f%ad%x1f%s%x1e',
+      '--date=relative',
+      '-n', String(count)
+    ]);
+
+    const commits = output
+      .split('\x1e')
+      .map(record => record.replace(/^\n/, ''))
+      .filter(record => record.trim())
+      .map(record => {
+        const [hash, author, email, date, message] = record.split('\x1f');
+        return { hash, author, email, date, message };
+      });
+
+    // Get stats for each commit
+    for (const commit of commits) {
+      try {
+        const stats = await this.run(['show', '--stat', '--format=', commit.hash]);
+        commit.stats = stats.trim().split('\n').pop(); // Get the summary line
+      } catch (error) {
+        commit.stats = '';
+      }
+    }
+
+    return commits;
+  }
+
+  /**
+   * Full patch for a single commit
+   * @param {string} hash
+   */
+  async getCommitDiff(hash) {
+    if (!COMMIT_HASH_PATTERN.test(hash)) {
+      throw new Error('Invalid commit hash');
+    }
+    return this.run(['show', hash]);
+  }
+
+  // Reject anything git wouldn't accept as a branch name (including names that
+  // look like options)
+  async validateBranchName(branch) {
+    if (typeof branch !== 'string' || !branch || branch.startsWith('-')) {
+      throw new Error('Invalid branch name');
+    }
+    try {
+      await this.run(['check-ref-format', '--branch', branch]);
+    } catch {
+      throw new Error(`Invalid branch name: ${branch}`);
+    }
+  }
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output.
+ *
+ * Besides the GitStatus buckets (staged/unstaged/untracked/conflicted), the
+ * result keeps the modified/added/deleted lists the Git panel renders.
+ * @param {string} output
+ * @returns {GitStatusResponse}
+ */
+function parseStatusV2(output) {
+  const status = {
+    branch: '',
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+    modified: [],
+    added: [],
+    deleted: []
+  };
+
+  const entries = output.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    if (entry.startsWith('# branch.head ')) {
+      status.branch = entry.substring('# branch.head '.length);
+      continue;
+    }
+    if (entry.startsWith('# branch.ab ')) {
+      const [ahead, behind] = entry.substring('# branch.ab '.length).split(' ');
+      status.ahead = Math.abs(parseInt(ahead, 10)) || 0;
+      status.behind = Math.abs(parseInt(behind, 10)) || 0;
+      continue;
+    }
+    if (entry.startsWith('# ')) continue;
+
+    const kind = entry[0];
+    if (kind === '?') {
+      status.untracked.push(entry.substring(2));
+      continue;
+    }
+    if (kind === '!') continue;
+
+    let file;
+    if (kind === '1') {
+      // 1 XY sub mH mI mW hH hI path
+      file = splitFields(entry, 8);
+    } else if (kind === '2') {
+      // 2 XY sub mH mI mW hH hI Xscore path, followed by the original path
+      file = splitFields(entry, 9);
+      i++;
+    } else if (kind === 'u') {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      status.conflicted.push(splitFields(entry, 10));
+      continue;
+    } else {
+      continue;
+    }
+
+    const indexStatus = entry[2];
+    const worktreeStatus = entry[3];
+
+    if (indexStatus !== '.') status.staged.push(file);
+    if (worktreeStatus !== '.') status.unstaged.push(file);
+
+    if (indexStatus === 'A') {
+      status.added.push(file);
+    } else if (indexStatus === 'D' || worktreeStatus === 'D') {
+      status.deleted.push(file);
+    } else {
+      status.modified.push(file);
+    }
+  }
+
+  // Detached HEAD reports "(detached)"
+  if (status.branch === '(detached)') {
+    status.branch = 'HEAD';
+  }
+
+  return status;
+}
+
+// Return everything after the first `count` space-separated fields (the path,
+// which may itself contain spaces)
+function splitFields(entry, count) {
+  let index = 0;
+  for (let i = 0; i < count; i++) {
+    index = entry.indexOf(' ', index) + 1;
+  }
+  return entry.substring(index);
+}
+
+module.exports = {
+  GitService,
+  isFileList,
+  parseStatusV2
+};
@@ -24,16 +24,40 @@ const { WebSocketServer } = require('ws');
 const http = require('http');
 const path = require('path');
 const cors = require('cors');
+const multer = require('multer');
 const fs = require('fs').promises;
 const { spawn } = require('child_process');
 const os = require('os');
 const pty = require('node-pty');
 const fetch = require('node-fetch');
 
-const { getProjects, getSessions, getSessionMessages, renameProject, deleteSession, updateSessionSummary, deleteProject, addProjectManually, extractProjectDirectory, clearProjectDirectoryCache } = require('./projects');
+const { getProjects, getSessions, getSessionMessages, getSessionMessagesPage, renameProject, deleteSession, updateSessionSummary, summarizeSession, forkSession, getSessionBranches, deleteProject, addProjectManually, extractProjectDirectory, clearProjectDirectoryCache } = require('./projects');
+const { isValidProjectName } = require('./project-names');
 const { spawnClaude, abortClaudeSession } = require('./claude-cli');
+const { getRun, getRunBySession, subscribe, unsubscribeAll, listRuns } = require('./run-registry');
+const { answerPermission, getPendingPermissionFrames } = require('./permissions');
+const { PathAccessError, resolveProjectPath, getAllowedRoots, setAllowedRoots, pathAccessErrorResponse } = require('./sandbox');
+const { authenticateToken, authenticateWebSocket, requireAdmin } = require('./auth');
+const { getGlobalSettings, onSettingsChange } = require('./settings');
+const { notifyFileChange } = require('./search-index');
+const { EXPORT_FORMATS, exportSession } = require('./session-export');
+const { getSlashCommands } = require('./slash-commands');
+const { searchProjectFiles } = require('./file-index');
+const { MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS, AttachmentError, saveAttachments, getAttachmentFile } = require('./attachments');
+const { refreshProjects, getProjectsSnapshot, getProjectsVersion, onProjectEvent } = require('./project-events');
+const { startTrashPurge } = require('./trash');
+const { startScheduler } = require('./scheduler');
+const { PromptQueueError, getPromptQueue, enqueuePrompt, updateQueuedPrompt, removeQueuedPrompt, reorderPromptQueue, resumePromptQueue, onQueueEvent } = require('./prompt-queue');
+const { getProjectSessionMetadata, updateSessionMetadata, validateSessionAnnotations, clearSessionAnnotations } = require('./session-metadata');
+const authRoutes = require('./routes/auth');
+const permissionRoutes = require('./routes/permissions');
+const settingsRoutes = require('./routes/settings');
+const usageRoutes = require('./routes/usage');
+const searchRoutes = require('./routes/search');
 const gitRoutes = require('./routes/git');
 const mcpRoutes = require('./routes/mcp');
+const trashRoutes = require('./routes/trash');
+const scheduleRoutes = require('./routes/schedules');
 
 // File system watcher for projects folder
 let projectsWatcher = null;
@@ -73,6 +97,8 @@ function setupProjectsWatcher() {
     // Debounce function to prevent excessive notifications
     let debounceTimer;
     const debouncedUpdate = async (eventType, filePath) => {
+      // The search index needs every changed file, not just the last one
+      notifyFileChange(eventType, filePath);
       clearTimeout(debounceTimer);
       debounceTimer = setTimeout(async () => {
         try {
@@ -80,23 +106,8 @@ function setupProjectsWatcher() {
           // Clear project directory cache when files change
           clearProjectDirectoryCache();
           
-          // Get updated projects list
-          const updatedProjects = await getProjects();
-          
-          // Notify all connected clients about the project changes
-          const updateMessage = JSON.stringify({
-            type: 'projects_updated',
-            projects: updatedProjects,
-            timestamp: new Date().toISOString(),
-            changeType: eventType,
-            changedFile: path.relative(claudeProjectsPath, filePath)
-          });
-          
-          connectedClients.forEach(client => {
-            if (client.readyState === client.OPEN) {
-              client.send(updateMessage);
-            }
-          });
+          // Work out what changed; clients get one event per change
+          await refreshProjects();
           
         } catch (error) {
           console.error('❌ Error handling project changes:', error);
@@ -138,25 +149,128 @@ function getServerIP() {
 const app = express();
 const server = http.createServer(app);
 
+const corsOrigins = process.env.CORS_ORIGINS
+  ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : [];
+
+// Browsers send the auth cookie on WebSocket upgrades from any site on the same
+// host (including other localhost ports), so only accept upgrades from this
+// server's own origin or a configured CORS origin. Non-browser clients send no
+// Origin and authenticate with a token.
+function isAllowedWebSocketOrigin(req) {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (corsOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
 // Single WebSocket server that handles both paths
 const wss = new WebSocketServer({ 
   server,
-  verifyClient: (info) => {
-    console.log('WebSocket connection attempt to:', info.req.url);
-    return true; // Accept all connections for now
+  verifyClient: (info, callback) => {
+    console.log('WebSocket connection attempt to:', info.req.url.split('?')[0]);
+
+    if (!isAllowedWebSocketOrigin(info.req)) {
+      console.warn('🔒 Rejected WebSocket connection from origin:', info.req.headers.origin);
+      return callback(false, 403, 'Forbidden');
+    }
+    
+    // Reject upgrades that don't carry a valid token
+    authenticateWebSocket(info.req)
+      .then(user => {
+        if (!user) {
+          console.warn('🔒 Rejected unauthenticated WebSocket connection');
+          return callback(false, 401, 'Unauthorized');
+        }
+        info.req.user = user;
+        callback(true);
+      })
+      .catch(error => {
+        console.error('❌ WebSocket authentication error:', error);
+        callback(false, 500, 'Authentication failed');
+      });
   }
 });
 
-app.use(cors());
+// Only allow cross-origin requests from explicitly configured origins
+if (corsOrigins.length > 0) {
+  app.use(cors({
+    origin: corsOrigins,
+    credentials: true
+  }));
+}
 app.use(express.json());
 app.use(express.static(path.join(__dirname, '../dist')));
 
+// Auth API Routes (public: login, setup and status)
+app.use('/api/auth', authRoutes);
+
+// Permission bridge API Routes (authenticated with per-run tokens)
+app.use('/api/permissions', permissionRoutes);
+
+// Every other API route requires an authenticated user
+app.use('/api', authenticateToken);
+
 // Git API Routes
 app.use('/api/git', gitRoutes);
 
 // MCP API Routes
 app.use('/api/mcp', mcpRoutes);
 
+// Settings API Routes
+app.use('/api/settings', settingsRoutes);
+
+// Usage API Routes
+app.use('/api/usage', usageRoutes);
+
+// Search API Routes
+app.use('/api/search', searchRoutes);
+
+// Trash API Routes
+app.use('/api/trash', trashRoutes);
+
+// Scheduled Jobs API Routes
+app.use('/api/schedules', scheduleRoutes);
+
+// Send project and session changes to every open tab
+onProjectEvent((event) => {
+  const eventMessage = JSON.stringify(event);
+  connectedClients.forEach(client => {
+    if (client.readyState === client.OPEN) {
+      client.send(eventMessage);
+    }
+  });
+});
+
+// Queued prompts are shown in every tab, and any of them can follow a queued run
+onQueueEvent((event) => {
+  const eventMessage = JSON.stringify(event);
+  connectedClients.forEach(client => {
+    if (client.readyState === client.OPEN) {
+      client.send(eventMessage);
+    }
+  });
+});
+
+// Keep every open tab in sync when settings change
+onSettingsChange((change) => {
+  const updateMessage = JSON.stringify({
+    type: 'settings-updated',
+    ...change,
+    timestamp: new Date().toISOString()
+  });
+
+  connectedClients.forEach(client => {
+    if (client.readyState === client.OPEN) {
+      client.send(updateMessage);
+    }
+  });
+});
+
 // API Routes
 app.get('/api/config', (req, res) => {
   // Always use the server's actual IP and port for WebSocket connections
@@ -181,23 +295,97 @@ app.get('/api/projects', async (req, res) => {
   }
 });
 
+// Project tree with the version of the last change event it includes
+app.get('/api/projects/snapshot', async (req, res) => {
+  try {
+    res.json(await getProjectsSnapshot());
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Project names are joined into paths under ~/.claude/projects, so names
+// such as "..%2F..%2FDocuments" are refused before any route sees them
+app.param('projectName', (req, res, next, projectName) => {
+  if (!isValidProjectName(projectName)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+  next();
+});
+
 app.get('/api/projects/:projectName/sessions', async (req, res) => {
   try {
-    const { limit = 5, offset = 0 } = req.query;
-    const result = await getSessions(req.params.projectName, parseInt(limit), parseInt(offset));
+    const { limit = 5, offset = 0, tag } = req.query;
+    const result = await getSessions(req.params.projectName, parseInt(limit), parseInt(offset), { tag });
     res.json(result);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Get messages for a specific session
+const MAX_MESSAGES_PAGE_SIZE = 1000;
+
+// Get messages for a specific session. Pass limit (and before or after, a
+// message UUID) to get one page at a time; without them the whole session is
+// returned.
 app.get('/api/projects/:projectName/sessions/:sessionId/messages', async (req, res) => {
+  const { before, after } = req.query;
+  const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_MESSAGES_PAGE_SIZE)) {
+    return res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_MESSAGES_PAGE_SIZE}` });
+  }
+  if (before && after) {
+    return res.status(400).json({ error: 'Pass either before or after, not both' });
+  }
+
   try {
     const { projectName, sessionId } = req.params;
-    const messages = await getSessionMessages(projectName, sessionId);
-    res.json({ messages });
+    if (limit === undefined && !before && !after) {
+      const messages = await getSessionMessages(projectName, sessionId);
+      return res.json({ messages });
+    }
+
+    const page = await getSessionMessagesPage(projectName, sessionId, { before, after, limit });
+    if (!page) {
+      return res.status(404).json({ error: 'Message not found in session' });
+    }
+    res.json(page);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Export a session as a Markdown, HTML or JSON document
+app.get('/api/projects/:projectName/sessions/:sessionId/export', async (req, res) => {
+  const format = req.query.format || 'md';
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  try {
+    const { projectName, sessionId } = req.params;
+    const entries = await getSessionMessages(projectName, sessionId);
+    if (entries.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const { sessions } = await getSessions(projectName, Number.MAX_SAFE_INTEGER, 0);
+    const session = sessions.find(s => s.id === sessionId);
+    const projectPath = await extractProjectDirectory(projectName).catch(() => null);
+
+    const { content, contentType, fileName } = exportSession({
+      projectName,
+      projectPath,
+      sessionId,
+      summary: session?.summary,
+      entries
+    }, format);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(content);
   } catch (error) {
+    console.error('❌ Error exporting session:', error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -208,18 +396,90 @@ app.put('/api/projects/:projectName/rename', async (req, res) => {
     const { displayName } = req.body;
     await renameProject(req.params.projectName, displayName);
     res.json({ success: true });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Delete session endpoint
+// Delete session endpoint (moves it to the trash)
 app.delete('/api/projects/:projectName/sessions/:sessionId', async (req, res) => {
   try {
     const { projectName, sessionId } = req.params;
-    await deleteSession(projectName, sessionId);
-    res.json({ success: true });
+    const trashItem = await deleteSession(projectName, sessionId);
+    res.json({ success: true, trashItemId: trashItem.id });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Fork a session from one of its messages into a new session. With
+// `before: true` the message itself is left out, to be sent again edited.
+app.post('/api/projects/:projectName/sessions/:sessionId/fork', async (req, res) => {
+  const { messageId, before = false } = req.body;
+  if (typeof messageId !== 'string' || !messageId) {
+    return res.status(400).json({ error: 'messageId is required' });
+  }
+
+  try {
+    const { projectName, sessionId } = req.params;
+    const result = await forkSession(projectName, sessionId, messageId, { before: before === true });
+    res.json(result);
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
+  } catch (error) {
+    console.error('❌ Error forking session:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Edited prompts of a session and the branches holding each version
+app.get('/api/projects/:projectName/sessions/:sessionId/branches', async (req, res) => {
+  try {
+    const { projectName, sessionId } = req.params;
+    res.json({ branchPoints: await getSessionBranches(projectName, sessionId) });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Session metadata: tags, pinned, color and note (plus forkedFrom, read-only)
+app.get('/api/projects/:projectName/sessions/:sessionId/metadata', async (req, res) => {
+  try {
+    const { projectName, sessionId } = req.params;
+    res.json({ metadata: (await getProjectSessionMetadata(projectName))[sessionId] || {} });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change some of a session's metadata; null clears a value
+app.patch('/api/projects/:projectName/sessions/:sessionId/metadata', async (req, res) => {
+  let changes;
+  try {
+    changes = validateSessionAnnotations(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const { projectName, sessionId } = req.params;
+    res.json({ metadata: await updateSessionMetadata(projectName, sessionId, changes) });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
+  } catch (error) {
+    console.error('❌ Error updating session metadata:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Clear a session's tags, pin, color and note
+app.delete('/api/projects/:projectName/sessions/:sessionId/metadata', async (req, res) => {
+  try {
+    const { projectName, sessionId } = req.params;
+    res.json({ metadata: await clearSessionAnnotations(projectName, sessionId) });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
   } catch (error) {
+    console.error('❌ Error clearing session metadata:', error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -241,12 +501,99 @@ app.patch('/api/projects/:projectName/sessions/:sessionId', async (req, res) =>
   }
 });
 
-// Delete project endpoint (only if empty)
+// Have Claude title a session from its transcript
+app.post('/api/projects/:projectName/sessions/:sessionId/summarize', async (req, res) => {
+  try {
+    const { projectName, sessionId } = req.params;
+    const summary = await summarizeSession(projectName, sessionId);
+    res.json({ success: true, summary });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
+  } catch (error) {
+    console.error('❌ Error summarizing session:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Prompts waiting for the session's current run to finish
+function sendPromptQueueError(res, error) {
+  if (error instanceof PromptQueueError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error('❌ Prompt queue error:', error);
+  res.status(500).json({ error: error.message });
+}
+
+app.get('/api/projects/:projectName/sessions/:sessionId/queue', (req, res) => {
+  res.json(getPromptQueue(req.params.sessionId));
+});
+
+// Queue a prompt with the options it would have been sent with; it starts at
+// once if the session is idle
+app.post('/api/projects/:projectName/sessions/:sessionId/queue', (req, res) => {
+  try {
+    const { projectName, sessionId } = req.params;
+    const id = enqueuePrompt(projectName, sessionId, req.body.command, req.body.options || {}, req.user);
+    res.json({ id, ...getPromptQueue(sessionId) });
+  } catch (error) {
+    sendPromptQueueError(res, error);
+  }
+});
+
+app.put('/api/projects/:projectName/sessions/:sessionId/queue/order', (req, res) => {
+  try {
+    reorderPromptQueue(req.params.sessionId, req.body.itemIds);
+    res.json(getPromptQueue(req.params.sessionId));
+  } catch (error) {
+    sendPromptQueueError(res, error);
+  }
+});
+
+app.post('/api/projects/:projectName/sessions/:sessionId/queue/resume', (req, res) => {
+  try {
+    resumePromptQueue(req.params.sessionId);
+    res.json(getPromptQueue(req.params.sessionId));
+  } catch (error) {
+    sendPromptQueueError(res, error);
+  }
+});
+
+app.patch('/api/projects/:projectName/sessions/:sessionId/queue/:itemId', (req, res) => {
+  try {
+    updateQueuedPrompt(req.params.sessionId, req.params.itemId, req.body.command, req.user);
+    res.json(getPromptQueue(req.params.sessionId));
+  } catch (error) {
+    sendPromptQueueError(res, error);
+  }
+});
+
+app.delete('/api/projects/:projectName/sessions/:sessionId/queue/:itemId', (req, res) => {
+  try {
+    removeQueuedPrompt(req.params.sessionId, req.params.itemId);
+    res.json(getPromptQueue(req.params.sessionId));
+  } catch (error) {
+    sendPromptQueueError(res, error);
+  }
+});
+
+// Title a session that doesn't have one yet after a run, if enabled
+async function autoSummarizeSession(projectName, sessionId) {
+  if (!projectName || !sessionId || !(await getGlobalSettings()).autoSummarizeSessions) {
+    return;
+  }
+  const summary = await summarizeSession(projectName, sessionId, { onlyUntitled: true });
+  if (summary) {
+    console.log('✨ Titled session:', sessionId, '-', summary);
+    await refreshProjects();
+  }
+}
+
+// Delete project endpoint (only if empty; moves it to the trash)
 app.delete('/api/projects/:projectName', async (req, res) => {
   try {
     const { projectName } = req.params;
-    await deleteProject(projectName);
-    res.json({ success: true });
+    const trashItem = await deleteProject(projectName);
+    res.json({ success: true, trashItemId: trashItem.id });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -263,6 +610,7 @@ app.post('/api/projects/create', async (req, res) => {
     
     const project = await addProjectManually(projectPath.trim());
     res.json({ success: true, project });
+    refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
   } catch (error) {
     console.error('Error creating project:', error);
     res.status(500).json({ error: error.message });
@@ -279,16 +627,20 @@ app.get('/api/projects/:projectName/file', async (req, res) => {
     
     const fs = require('fs').promises;
     
-    // Security check - ensure the path is safe and absolute
-    if (!filePath || !path.isAbsolute(filePath)) {
+    if (!filePath) {
       return res.status(400).json({ error: 'Invalid file path' });
     }
     
-    const content = await fs.readFile(filePath, 'utf8');
+    // Security check - the file must live inside the project (or an allowed root)
+    const resolvedPath = await resolveProjectPath(projectName, filePath);
+    
+    const content = await fs.readFile(resolvedPath, 'utf8');
     res.json({ content, path: filePath });
   } catch (error) {
     console.error('Error reading file:', error);
-    if (error.code === 'ENOENT') {
+    if (error instanceof PathAccessError) {
+      res.status(403).json(pathAccessErrorResponse(error));
+    } else if (error.code === 'ENOENT') {
       res.status(404).json({ error: 'File not found' });
     } else if (error.code === 'EACCES') {
       res.status(403).json({ error: 'Permission denied' });
@@ -309,24 +661,26 @@ app.get('/api/projects/:projectName/files/content', async (req, res) => {
     const fs = require('fs');
     const mime = require('mime-types');
     
-    // Security check - ensure the path is safe and absolute
-    if (!filePath || !path.isAbsolute(filePath)) {
+    if (!filePath) {
       return res.status(400).json({ error: 'Invalid file path' });
     }
     
+    // Security check - the file must live inside the project (or an allowed root)
+    const resolvedPath = await resolveProjectPath(projectName, filePath);
+    
     // Check if file exists
     try {
-      await fs.promises.access(filePath);
+      await fs.promises.access(resolvedPath);
     } catch (error) {
       return res.status(404).json({ error: 'File not found' });
     }
     
     // Get file extension and set appropriate content type
-    const mimeType = mime.lookup(filePath) || 'application/octet-stream';
+    const mimeType = mime.lookup(resolvedPath) || 'application/octet-stream';
     res.setHeader('Content-Type', mimeType);
     
     // Stream the file
-    const fileStream = fs.createReadStream(filePath);
+    const fileStream = fs.createReadStream(resolvedPath);
     fileStream.pipe(res);
     
     fileStream.on('error', (error) => {
@@ -338,7 +692,12 @@ app.get('/api/projects/:projectName/files/content', async (req, res) => {
     
   } catch (error) {
     console.error('Error serving binary file:', error);
-    if (!res.headersSent) {
+    if (res.headersSent) {
+      return;
+    }
+    if (error instanceof PathAccessError) {
+      res.status(403).json(pathAccessErrorResponse(error));
+    } else {
       res.status(500).json({ error: error.message });
     }
   }
@@ -354,8 +713,7 @@ app.put('/api/projects/:projectName/file', async (req, res) => {
     
     const fs = require('fs').promises;
     
-    // Security check - ensure the path is safe and absolute
-    if (!filePath || !path.isAbsolute(filePath)) {
+    if (!filePath) {
       return res.status(400).json({ error: 'Invalid file path' });
     }
     
@@ -363,17 +721,20 @@ app.put('/api/projects/:projectName/file', async (req, res) => {
       return res.status(400).json({ error: 'Content is required' });
     }
     
+    // Security check - the file must live inside the project (or an allowed root)
+    const resolvedPath = await resolveProjectPath(projectName, filePath);
+    
     // Create backup of original file
     try {
-      const backupPath = filePath + '.backup.' + Date.now();
-      await fs.copyFile(filePath, backupPath);
+      const backupPath = resolvedPath + '.backup.' + Date.now();
+      await fs.copyFile(resolvedPath, backupPath);
       console.log('📋 Created backup:', backupPath);
     } catch (backupError) {
       console.warn('Could not create backup:', backupError.message);
     }
     
     // Write the new content
-    await fs.writeFile(filePath, content, 'utf8');
+    await fs.writeFile(resolvedPath, content, 'utf8');
     
     res.json({ 
       success: true, 
@@ -382,7 +743,9 @@ app.put('/api/projects/:projectName/file', async (req, res) => {
     });
   } catch (error) {
     console.error('Error saving file:', error);
-    if (error.code === 'ENOENT') {
+    if (error instanceof PathAccessError) {
+      res.status(403).json(pathAccessErrorResponse(error));
+    } else if (error.code === 'ENOENT') {
       res.status(404).json({ error: 'File or directory not found' });
     } else if (error.code === 'EACCES') {
       res.status(403).json({ error: 'Permission denied' });
@@ -392,6 +755,104 @@ app.put('/api/projects/:projectName/file', async (req, res) => {
   }
 });
 
+// Get the extra roots file endpoints may access for a project
+app.get('/api/projects/:projectName/allowed-roots', async (req, res) => {
+  try {
+    const allowedRoots = await getAllowedRoots(req.params.projectName);
+    res.json({ allowedRoots });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Replace the extra roots file endpoints may access for a project (admin only)
+app.put('/api/projects/:projectName/allowed-roots', requireAdmin, async (req, res) => {
+  try {
+    const allowedRoots = await setAllowedRoots(req.params.projectName, req.body.allowedRoots);
+    console.log('🔓 Updated allowed roots for', req.params.projectName, allowedRoots);
+    res.json({ success: true, allowedRoots });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Slash commands for the chat's "/" menu: the project's and the user's custom
+// commands, and the CLI's built-in ones
+app.get('/api/projects/:projectName/commands', async (req, res) => {
+  try {
+    const projectDir = await extractProjectDirectory(req.params.projectName);
+    res.json({ commands: await getSlashCommands(projectDir) });
+  } catch (error) {
+    console.error('❌ Error listing slash commands:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Fuzzy search over the project's files (minus .gitignored ones), for @-mentions
+app.get('/api/projects/:projectName/files/search', async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (limit !== undefined && !Number.isInteger(limit)) {
+    return res.status(400).json({ error: 'limit must be a whole number' });
+  }
+
+  try {
+    const projectDir = await extractProjectDirectory(req.params.projectName);
+    const stats = await fs.stat(projectDir).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+      return res.status(404).json({ error: `Project path not found: ${projectDir}` });
+    }
+    res.json(await searchProjectFiles(projectDir, query, limit));
+  } catch (error) {
+    console.error('❌ Error searching project files:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Upload files pasted or dropped into the chat composer for a session (or a
+// draft ID before the session exists)
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: MAX_ATTACHMENTS }
+}).array('files');
+
+app.post('/api/projects/:projectName/attachments', (req, res) => {
+  attachmentUpload(req, res, async (err) => {
+    if (err) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: err.code === 'LIMIT_FILE_SIZE'
+        ? `Attachments can be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`
+        : err.message });
+    }
+
+    try {
+      const attachments = await saveAttachments(req.params.projectName, req.body.sessionKey, req.files);
+      res.json({ attachments });
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('❌ Error saving attachments:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+});
+
+app.get('/api/projects/:projectName/attachments/:sessionKey/:fileName', async (req, res) => {
+  try {
+    const { filePath, contentType } = await getAttachmentFile(req.params.projectName, req.params.sessionKey, req.params.fileName);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(filePath);
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('❌ Error reading attachment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 app.get('/api/projects/:projectName/files', async (req, res) => {
   try {
     
@@ -427,26 +888,38 @@ app.get('/api/projects/:projectName/files', async (req, res) => {
 
 // WebSocket connection handler that routes based on URL path
 wss.on('connection', (ws, request) => {
-  const url = request.url;
-  console.log('🔗 Client connected to:', url);
+  const url = request.url.split('?')[0];
+  console.log('🔗 Client connected to:', url, 'as', request.user?.username);
   
   if (url === '/shell') {
     handleShellConnection(ws);
   } else if (url === '/ws') {
-    handleChatConnection(ws);
+    handleChatConnection(ws, request.user);
   } else {
     console.log('❌ Unknown WebSocket path:', url);
     ws.close();
   }
 });
 
-// Handle chat WebSocket connections
-function handleChatConnection(ws) {
+// Handle chat WebSocket connections; `user` is who signed in on this socket
+function handleChatConnection(ws, user) {
   console.log('💬 Chat WebSocket connected');
   
   // Add to connected clients for project updates
   connectedClients.add(ws);
   
+  // Let the client know which runs it can resume (e.g. after a reload)
+  ws.send(JSON.stringify({
+    type: 'active-runs',
+    runs: listRuns()
+  }));
+  
+  // Clients that missed change events while disconnected resync from this
+  ws.send(JSON.stringify({
+    type: 'projects-version',
+    version: getProjectsVersion()
+  }));
+  
   ws.on('message', async (message) => {
     try {
       const data = JSON.parse(message);
@@ -455,15 +928,39 @@ function handleChatConnection(ws) {
         console.log('💬 User message:', data.command || '[Continue/Resume]');
         console.log('📁 Project:', data.options?.projectPath || 'Unknown');
         console.log('🔄 Session:', data.options?.sessionId ? 'Resume' : 'New');
-        await spawnClaude(data.command, data.options, ws);
+        const sessionId = await spawnClaude(data.command, { ...data.options, requestId: data.requestId }, ws, { user });
+        autoSummarizeSession(data.options?.projectName, sessionId).catch(error => {
+          console.error('❌ Error titling session:', error.message);
+        });
       } else if (data.type === 'abort-session') {
-        console.log('🛑 Abort session request:', data.sessionId);
-        const success = abortClaudeSession(data.sessionId);
+        console.log('🛑 Abort session request:', data.sessionId || data.requestId);
+        const success = abortClaudeSession(data.sessionId, data.requestId);
         ws.send(JSON.stringify({
           type: 'session-aborted',
           sessionId: data.sessionId,
+          requestId: data.requestId,
           success
         }));
+      } else if (data.type === 'resume-stream') {
+        // Re-attach to a run started on an earlier connection and replay
+        // whatever was emitted after the client's cursor
+        const run = data.requestId ? getRun(data.requestId) : getRunBySession(data.sessionId);
+        if (!run) {
+          ws.send(JSON.stringify({
+            type: 'stream-not-found',
+            requestId: data.requestId,
+            sessionId: data.sessionId
+          }));
+          return;
+        }
+        console.log('🔁 Resuming stream:', run.requestId, 'from cursor', data.cursor ?? 'live');
+        subscribe(run, ws, data.cursor);
+        
+        // Re-send prompts still waiting for an answer, which may predate the cursor
+        getPendingPermissionFrames(run.requestId).forEach(frame => ws.send(JSON.stringify(frame)));
+      } else if (data.type === 'permission-response') {
+        console.log('🔐 Permission response:', data.permissionId, data.decision);
+        await answerPermission(data.permissionId, data.decision, user);
       }
     } catch (error) {
       console.error('❌ Chat WebSocket error:', error.message);
@@ -478,6 +975,8 @@ function handleChatConnection(ws) {
     console.log('🔌 Chat client disconnected');
     // Remove from connected clients
     connectedClients.delete(ws);
+    // Runs keep going; they just stop sending to this socket
+    unsubscribeAll(ws);
   });
 }
 
@@ -855,9 +1354,13 @@ async function getFileTree(dirPath, maxDepth = 3, currentDepth = 0, showHidden =
 }
 
 const PORT = process.env.PORT || 3000;
-server.listen(PORT, '0.0.0.0', () => {
-  console.log(`Claude Code UI server running on http://0.0.0.0:${PORT}`);
+const HOST = process.env.HOST || '0.0.0.0';
+server.listen(PORT, HOST, () => {
+  console.log(`Claude Code UI server running on http://${HOST}:${PORT}`);
   
-  // Start watching the projects folder for changes
+  // Start watching the projects folder for changes, from a known starting tree
   setupProjectsWatcher();
+  refreshProjects().catch(error => console.error('❌ Error loading projects:', error));
+  startTrashPurge();
+  startScheduler();
 });
\ No newline at end of file
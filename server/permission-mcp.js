@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * Permission prompt bridge
+ *
+ * A minimal MCP server (JSON-RPC over stdio) that Claude CLI starts as its
+ * --permission-prompt-tool. Each approval request is forwarded to the
+ * Calfins Code server, which asks the user in the browser and answers once
+ * they decide.
+ *
+ * Configured through environment variables set by permissions.js:
+ *   CALFINS_PERMISSION_URL   - endpoint to forward requests to
+ *   CALFINS_PERMISSION_TOKEN - secret identifying this run to the server
+ *   CALFINS_REQUEST_ID       - the run this bridge belongs to
+ */
+
+const http = require('http');
+const https = require('https');
+const readline = require('readline');
+
+const TOOL_NAME = 'approval_prompt';
+
+const {
+  CALFINS_PERMISSION_URL: permissionUrl,
+  CALFINS_PERMISSION_TOKEN: permissionToken,
+  CALFINS_REQUEST_ID: requestId
+} = process.env;
+
+function send(message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+// POST the request to the server and wait (as long as it takes) for the answer
+function forwardPermissionRequest(args) {
+  return new Promise((resolve, reject) => {
+    const body = JSON.stringify({
+      requestId,
+      token: permissionToken,
+      toolName: args.tool_name,
+      input: args.input || {},
+      toolUseId: args.tool_use_id
+    });
+    const url = new URL(permissionUrl);
+    const client = url.protocol === 'https:' ? https : http;
+
+    const req = client.request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body)
+      }
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => {
+        try {
+          const parsed = JSON.parse(data);
+          if (res.statusCode !== 200) {
+            return reject(new Error(parsed.error || `Permission request failed (${res.statusCode})`));
+          }
+          resolve(parsed);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function handleToolCall(id, params) {
+  if (params?.name !== TOOL_NAME) {
+    return send({ id, error: { code: -32602, message: `Unknown tool: ${params?.name}` } });
+  }
+
+  let decision;
+  try {
+    decision = await forwardPermissionRequest(params.arguments || {});
+  } catch (error) {
+    decision = { behavior: 'deny', message: `Could not get permission: ${error.message}` };
+  }
+
+  send({
+    id,
+    result: {
+      content: [{ type: 'text', text: JSON.stringify(decision) }]
+    }
+  });
+}
+
+function handleMessage(message) {
+  const { id, method, params } = message;
+
+  switch (method) {
+    case 'initialize':
+      return send({
+        id,
+        result: {
+          protocolVersion: params?.protocolVersion || '2024-11-05',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'calfins-permissions', version: '1.0.0' }
+        }
+      });
+    case 'tools/list':
+      return send({
+        id,
+        result: {
+          tools: [{
+            name: TOOL_NAME,
+            description: 'Ask the Calfins Code user whether a tool call may run',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                tool_name: { type: 'string' },
+                input: { type: 'object' },
+                tool_use_id: { type: 'string' }
+              },
+              required: ['tool_name', 'input']
+            }
+          }]
+        }
+      });
+    case 'tools/call':
+      return handleToolCall(id, params);
+    case 'ping':
+      return send({ id, result: {} });
+    default:
+      // Notifications (no id) need no reply
+      if (id !== undefined) {
+        send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+      }
+  }
+}
+
+const rl = readline.createInterface({ input: process.stdin });
+rl.on('line', (line) => {
+  if (!line.trim()) return;
+  try {
+    handleMessage(JSON.parse(line));
+  } catch (error) {
+    send({ id: null, error: { code: -32700, message: 'Parse error' } });
+  }
+});
@@ -0,0 +1,247 @@
+/**
+ * Interactive tool permissions
+ *
+ * Claude runs are started with a small MCP server (permission-mcp.js) as their
+ * --permission-prompt-tool. Whenever the CLI needs approval for a tool, that
+ * bridge calls back into this server, which pushes a `permission-request`
+ * frame to the chat and waits for the user to answer. "Always allow" adds a
+ * rule scoped to the request (a command prefix, a file or a domain) to the
+ * project's allowed tools in the settings store; the prompt shows that rule.
+ * Only the user who started a run can answer its prompts.
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+const { getRun, publish } = require('./run-registry');
+const { getEffectiveToolsSettings, addProjectAllowedTool } = require('./settings');
+
+const PERMISSION_SERVER_NAME = 'calfins_permissions';
+const PERMISSION_TOOL_NAME = 'approval_prompt';
+const PERMISSION_TIMEOUT_MS = 30 * 60 * 1000; // Deny if nobody answers within 30 minutes
+const FILE_TOOLS = new Set(['Read', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+// Commands with these can run more than the program they start with
+const SHELL_OPERATORS = /[;&|`<>\n]|\$\(/;
+
+const runTokens = new Map(); // requestId -> bridge token
+const pendingPermissions = new Map(); // permissionId -> pending request
+
+function getBridgeUrl() {
+  const host = process.env.HOST && process.env.HOST !== '0.0.0.0' ? process.env.HOST : '127.0.0.1';
+  return `http://${host}:${process.env.PORT || 3000}/api/permissions/request`;
+}
+
+// CLI arguments that route permission prompts for a run through the bridge
+function getPermissionBridgeArgs(requestId) {
+  const token = crypto.randomBytes(24).toString('hex');
+  runTokens.set(requestId, token);
+
+  const mcpConfig = {
+    mcpServers: {
+      [PERMISSION_SERVER_NAME]: {
+        command: process.execPath,
+        args: [path.join(__dirname, 'permission-mcp.js')],
+        env: {
+          CALFINS_PERMISSION_URL: getBridgeUrl(),
+          CALFINS_PERMISSION_TOKEN: token,
+          CALFINS_REQUEST_ID: requestId
+        }
+      }
+    }
+  };
+
+  return [
+    '--mcp-config', JSON.stringify(mcpConfig),
+    '--permission-prompt-tool', `mcp__${PERMISSION_SERVER_NAME}__${PERMISSION_TOOL_NAME}`
+  ];
+}
+
+// Check a tool call against a rule such as "Write", "Bash(git log:*)",
+// "Bash(npm test)", "Edit(/path/to/file)" or "WebFetch(domain:example.com)"
+function matchesToolRule(rule, toolName, input) {
+  if (rule === toolName) return true;
+
+  const match = rule.match(/^([^(]+)\((.*)\)$/);
+  if (!match || match[1] !== toolName) return false;
+
+  const pattern = match[2];
+  const value = input?.command ?? input?.file_path ?? input?.notebook_path ?? input?.url ?? '';
+  if (pattern.startsWith('domain:')) {
+    return getHostname(value) === pattern.slice('domain:'.length);
+  }
+  if (pattern.endsWith(':*')) {
+    // A prefix never covers chained commands such as "git log; rm -rf ~", and
+    // covers whole words only: "git log" isn't "git logx"
+    if (toolName === 'Bash' && SHELL_OPERATORS.test(value)) return false;
+    const prefix = pattern.slice(0, -2);
+    return value === prefix || value.startsWith(`${prefix} `);
+  }
+  return value === pattern;
+}
+
+function getHostname(url) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+// The rule "Always allow" saves for a tool call: no broader than the call
+// itself, so allowing one shell command doesn't allow every other. A command
+// with a plain subcommand is allowed by its program and subcommand
+// ("git log:*"); anything else, e.g. "rm -rf build" or "bash -c ...", only
+// exactly. File tools are allowed by the file and WebFetch by the domain.
+// Tools whose input can't be scoped are allowed by name.
+function getAlwaysAllowRule(toolName, input) {
+  if (toolName === 'Bash' && typeof input?.command === 'string' && input.command.trim()) {
+    const command = input.command.trim();
+    const [program, subcommand] = command.split(/\s+/);
+    if (SHELL_OPERATORS.test(command) || !subcommand || !/^[a-z][\w-]*$/i.test(subcommand)) {
+      return `Bash(${command})`;
+    }
+    return `Bash(${program} ${subcommand}:*)`;
+  }
+
+  const filePath = input?.file_path ?? input?.notebook_path;
+  if (FILE_TOOLS.has(toolName) && typeof filePath === 'string' && filePath) {
+    return `${toolName}(${filePath})`;
+  }
+
+  const hostname = toolName === 'WebFetch' ? getHostname(input?.url) : null;
+  if (hostname) {
+    return `WebFetch(domain:${hostname})`;
+  }
+
+  return toolName;
+}
+
+function isValidBridgeToken(requestId, token) {
+  const expected = runTokens.get(requestId);
+  return !!expected && typeof token === 'string' && token.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+/**
+ * Ask the user whether a tool call may run. Resolves with the response the
+ * permission prompt tool has to return to the CLI.
+ */
+async function requestPermission({ requestId, toolName, input, toolUseId }) {
+  const run = getRun(requestId);
+  if (!run) {
+    return { behavior: 'deny', message: 'The run requesting permission is no longer active' };
+  }
+
+  // Rules may have been added since the run started (e.g. "Always allow" in
+  // another session)
+  const { allowedTools } = await getEffectiveToolsSettings(run.projectName);
+  if (allowedTools.some(rule => matchesToolRule(rule, toolName, input))) {
+    return { behavior: 'allow', updatedInput: input };
+  }
+
+  const permissionId = crypto.randomUUID();
+  const alwaysAllowRule = getAlwaysAllowRule(toolName, input);
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      resolvePermission(permissionId, 'deny', 'Permission request timed out');
+    }, PERMISSION_TIMEOUT_MS);
+
+    const frame = publish(run, {
+      type: 'permission-request',
+      permissionId,
+      toolName,
+      input,
+      toolUseId: toolUseId || null,
+      projectPath: run.cwd,
+      alwaysAllowRule
+    });
+
+    pendingPermissions.set(permissionId, { run, toolName, input, alwaysAllowRule, frame, resolve, timer });
+    console.log('🔐 Permission requested:', toolName, permissionId);
+  });
+}
+
+/**
+ * Apply the user's decision: 'allow-once', 'allow-always' or 'deny'
+ * @returns {Promise<boolean>} false if the request is unknown or already answered
+ */
+async function resolvePermission(permissionId, decision, message) {
+  const pending = pendingPermissions.get(permissionId);
+  if (!pending) {
+    return false;
+  }
+
+  pendingPermissions.delete(permissionId);
+  clearTimeout(pending.timer);
+
+  const allowed = decision === 'allow-once' || decision === 'allow-always';
+  if (decision === 'allow-always') {
+    try {
+      await addProjectAllowedTool(pending.run.projectName, pending.alwaysAllowRule);
+      console.log('🔓 Always allowing', pending.alwaysAllowRule, 'for', pending.run.projectName);
+    } catch (error) {
+      console.error('❌ Failed to save always-allowed tool:', error);
+    }
+  }
+
+  pending.resolve(allowed
+    ? { behavior: 'allow', updatedInput: pending.input }
+    : { behavior: 'deny', message: message || 'The user denied permission for this tool' });
+
+  // Let every client following the run clear the prompt
+  publish(pending.run, {
+    type: 'permission-resolved',
+    permissionId,
+    decision: allowed ? decision : 'deny'
+  });
+
+  console.log('🔐 Permission', permissionId, '->', decision);
+  return true;
+}
+
+/**
+ * A client's answer to a permission prompt, from `user`. Only the user who
+ * started the run may answer; runs started by the server itself take no
+ * answers from clients.
+ * @returns {Promise<boolean>} false if the request is unknown, already answered or not theirs
+ */
+async function answerPermission(permissionId, decision, user) {
+  const pending = pendingPermissions.get(permissionId);
+  if (!pending) {
+    return false;
+  }
+  if (!pending.run.userId || pending.run.userId !== user?.id) {
+    console.warn('🔒 Ignored permission response from another user:', permissionId, user?.username);
+    return false;
+  }
+  return resolvePermission(permissionId, decision);
+}
+
+// Permission requests still waiting for an answer (for clients that attach late)
+function getPendingPermissionFrames(requestId) {
+  return [...pendingPermissions.values()]
+    .filter(pending => pending.run.requestId === requestId)
+    .map(pending => pending.frame);
+}
+
+// Deny anything still pending once a run ends and forget its bridge token
+function releaseRun(requestId) {
+  runTokens.delete(requestId);
+  for (const [permissionId, pending] of pendingPermissions) {
+    if (pending.run.requestId === requestId) {
+      resolvePermission(permissionId, 'deny', 'The run ended before permission was granted');
+    }
+  }
+}
+
+module.exports = {
+  matchesToolRule,
+  getAlwaysAllowRule,
+  getPermissionBridgeArgs,
+  isValidBridgeToken,
+  requestPermission,
+  resolvePermission,
+  answerPermission,
+  getPendingPermissionFrames,
+  releaseRun
+};
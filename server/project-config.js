@@ -0,0 +1,57 @@
+/**
+ * Project configuration
+ *
+ * ~/.claude/project-config.json, keyed by encoded project name. Each entry
+ * holds what the UI adds to a project: a custom display name, whether it was
+ * added by hand, extra allowed roots, and a `sessions` map of per-session
+ * metadata (see session-metadata.js).
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+
+let configUpdate = Promise.resolve();
+
+function getConfigPath() {
+  return path.join(process.env.HOME, '.claude', 'project-config.json');
+}
+
+// Load project configuration file
+async function loadProjectConfig() {
+  try {
+    const configData = await fs.readFile(getConfigPath(), 'utf8');
+    return JSON.parse(configData);
+  } catch (error) {
+    // Return empty config if file doesn't exist
+    return {};
+  }
+}
+
+// Save project configuration file
+async function saveProjectConfig(config) {
+  const configPath = getConfigPath();
+  await fs.mkdir(path.dirname(configPath), { recursive: true });
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2), 'utf8');
+}
+
+/**
+ * Change the config in place and save it, after the updates already in
+ * progress, so concurrent requests can't overwrite each other's changes.
+ * @param {(config: object) => any} update changes `config`; may be async
+ * @returns {Promise<any>} what `update` returned
+ */
+function updateProjectConfig(update) {
+  const result = configUpdate.then(async () => {
+    const config = await loadProjectConfig();
+    const value = await update(config);
+    await saveProjectConfig(config);
+    return value;
+  });
+  configUpdate = result.catch(() => {});
+  return result;
+}
+
+module.exports = {
+  loadProjectConfig,
+  updateProjectConfig
+};
@@ -0,0 +1,152 @@
+/**
+ * Project and session change events
+ *
+ * Keeps the last known project tree and, when something changes, works out
+ * what did: projects added, removed or renamed, and sessions added, updated
+ * or removed. Each change is an event with a version number one higher than
+ * the last, so a client that misses one can tell and fetch a fresh snapshot.
+ */
+
+const { getProjects, getSessions } = require('./projects');
+
+// First page of sessions sent with each project, as /api/projects does
+const SESSIONS_PER_PROJECT = 5;
+const PROJECT_FIELDS = ['displayName', 'fullPath', 'path', 'isCustomName', 'isManuallyAdded', 'sessionTags'];
+
+// Start from the clock so versions keep increasing across server restarts
+let version = Date.now();
+let state = null; // Map projectName -> { project, sessions: Map sessionId -> session }
+let refreshPromise = null;
+let refreshQueued = false;
+const listeners = new Set();
+
+async function loadState() {
+  const next = new Map();
+  for (const project of await getProjects()) {
+    const { sessions } = await getSessions(project.name, Number.MAX_SAFE_INTEGER, 0);
+    next.set(project.name, {
+      project,
+      sessions: new Map(sessions.map(session => [session.id, session]))
+    });
+  }
+  return next;
+}
+
+function projectMeta(project) {
+  const meta = { name: project.name };
+  for (const field of PROJECT_FIELDS) {
+    if (project[field] !== undefined) meta[field] = project[field];
+  }
+  return meta;
+}
+
+function sessionMeta(entry) {
+  return { total: entry.sessions.size, hasMore: entry.sessions.size > SESSIONS_PER_PROJECT };
+}
+
+function diffState(previous, next) {
+  const changes = [];
+
+  for (const [projectName, entry] of next) {
+    const before = previous.get(projectName);
+    if (!before) {
+      changes.push({ type: 'project-added', project: entry.project });
+      continue;
+    }
+
+    const meta = projectMeta(entry.project);
+    if (JSON.stringify(meta) !== JSON.stringify(projectMeta(before.project))) {
+      changes.push({ type: 'project-updated', project: meta });
+    }
+
+    for (const [sessionId, session] of entry.sessions) {
+      const old = before.sessions.get(sessionId);
+      if (!old) {
+        changes.push({ type: 'session-added', projectName, session, sessionMeta: sessionMeta(entry) });
+      } else if (JSON.stringify(old) !== JSON.stringify(session)) {
+        changes.push({ type: 'session-updated', projectName, session });
+      }
+    }
+    for (const sessionId of before.sessions.keys()) {
+      if (!entry.sessions.has(sessionId)) {
+        changes.push({ type: 'session-removed', projectName, sessionId, sessionMeta: sessionMeta(entry) });
+      }
+    }
+  }
+
+  for (const projectName of previous.keys()) {
+    if (!next.has(projectName)) {
+      changes.push({ type: 'project-removed', projectName });
+    }
+  }
+
+  return changes;
+}
+
+async function runRefresh() {
+  const next = await loadState();
+  const previous = state;
+  state = next;
+  if (!previous) return;
+
+  for (const change of diffState(previous, next)) {
+    const event = { ...change, version: ++version, timestamp: new Date().toISOString() };
+    listeners.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Re-read the project tree and emit an event for every change since the last
+ * refresh. Calls made while a refresh is running are folded into one more.
+ */
+async function refreshProjects() {
+  if (refreshPromise) {
+    refreshQueued = true;
+    return refreshPromise;
+  }
+
+  refreshPromise = (async () => {
+    try {
+      do {
+        refreshQueued = false;
+        await runRefresh();
+      } while (refreshQueued);
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+  return refreshPromise;
+}
+
+// The project tree as of the current version
+async function getProjectsSnapshot() {
+  if (refreshPromise) {
+    await refreshPromise.catch(() => {});
+  }
+  if (!state) {
+    await refreshProjects();
+  }
+
+  const projects = [...state.values()].map(({ project, sessions }) => ({
+    ...project,
+    sessions: [...sessions.values()].slice(0, SESSIONS_PER_PROJECT),
+    sessionMeta: sessionMeta({ sessions })
+  }));
+  return { version, projects };
+}
+
+function getProjectsVersion() {
+  return version;
+}
+
+function onProjectEvent(listener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+module.exports = {
+  refreshProjects,
+  getProjectsSnapshot,
+  getProjectsVersion,
+  onProjectEvent
+};
@@ -0,0 +1,17 @@
+/**
+ * Project names
+ *
+ * A project is named after its encoded folder under ~/.claude/projects, and
+ * names taken from requests are joined into paths, so every route and module
+ * that does so first checks the name is a single folder name.
+ */
+
+// Encoded project folder names, which are joined into paths
+function isValidProjectName(projectName) {
+  return typeof projectName === 'string' && projectName.length > 0 &&
+    projectName !== '.' && projectName !== '..' && !/[/\\\0]/.test(projectName);
+}
+
+module.exports = {
+  isValidProjectName
+};
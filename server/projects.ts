@@ -1,29 +1,43 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import * as readline from 'readline';
-import { 
-  Project, 
-  Session, 
-  SessionMeta
+import * as crypto from 'crypto';
+import {
+  Project,
+  Session,
+  IndexedSession,
+  SessionIndex,
+  SessionForkOrigin,
+  ProjectConfigStore,
+  ProjectNames,
+  SessionMetadataStore,
+  SessionSummaryGenerator,
+  SessionTrashItem,
+  ProjectTrashItem,
+  TrashItem,
+  TrashStore
 } from './types/api';
 
-interface ProjectConfig {
-  [projectName: string]: {
-    displayName?: string;
-    manuallyAdded?: boolean;
-    originalPath?: string;
-  };
-}
+// CommonJS runtime modules, typed by their interfaces
+const sessionIndex: SessionIndex = require('./session-index');
+const projectConfig: ProjectConfigStore = require('./project-config');
+const sessionMetadata: SessionMetadataStore = require('./session-metadata');
+const sessionSummary: SessionSummaryGenerator = require('./session-summary');
+const trash: TrashStore = require('./trash');
+const projectNames: ProjectNames = require('./project-names');
 
 interface SessionEntry {
   sessionId?: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  logicalParentUuid?: string | null;
   type?: string;
   timestamp?: string;
   cwd?: string;
   summary?: string;
+  isMeta?: boolean;
   message?: {
     role: string;
-    content: string;
+    content: string | { type: string; text?: string }[];
   };
 }
 
@@ -41,6 +55,26 @@ interface SessionsResult {
   total: number;
   offset?: number;
   limit?: number;
+  tags: string[];
+}
+
+interface SessionMessagesPage {
+  messages: SessionEntry[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+  total: number;
+}
+
+interface ForkResult {
+  sessionId: string;
+  resume: boolean;
+  forkedFrom: SessionForkOrigin;
+}
+
+interface SessionBranchPoint {
+  messageId: string;
+  siblings: { sessionId: string; summary: string; lastActivity: string }[];
+  currentIndex: number;
 }
 
 interface ProjectReturn {
@@ -52,6 +86,10 @@ interface ProjectReturn {
   sessions: Session[];
 }
 
+// Title runs in progress, by project and session, so a session is only
+// summarized once at a time
+const summariesInProgress = new Map<string, Promise<string | null>>();
+
 // Cache for extracted project directories
 const projectDirectoryCache = new Map<string, string>();
 let cacheTimestamp = Date.now();
@@ -63,35 +101,17 @@ export function clearProjectDirectoryCache(): void {
   console.log('🗑️ Project directory cache cleared');
 }
 
-// Load project configuration file
-export async function loadProjectConfig(): Promise<ProjectConfig> {
-  const configPath = path.join(process.env.HOME || '', '.claude', 'project-config.json');
-  try {
-    const configData = await fs.readFile(configPath, 'utf8');
-    return JSON.parse(configData);
-  } catch (error) {
-    // Return empty config if file doesn't exist
-    return {};
-  }
-}
-
-// Save project configuration file
-export async function saveProjectConfig(config: ProjectConfig): Promise<void> {
-  const configPath = path.join(process.env.HOME || '', '.claude', 'project-config.json');
-  await fs.writeFile(configPath, JSON.stringify(config, null, 2), 'utf8');
-}
-
 // Generate better display name from path
 export async function generateDisplayName(projectName: string, actualProjectDir: string | null = null): Promise<string> {
   // Use actual project directory if provided, otherwise decode from project name
   const projectPath = actualProjectDir || projectName.replace(/-/g, '/');
-  
+
   // Try to read package.json from the project path
   try {
     const packageJsonPath = path.join(projectPath, 'package.json');
     const packageData = await fs.readFile(packageJsonPath, 'utf8');
     const packageJson = JSON.parse(packageData);
-    
+
     // Return the name from package.json if it exists
     if (packageJson.name) {
       return packageJson.name;
@@ -99,7 +119,7 @@ export async function generateDisplayName(projectName: string, actualProjectDir:
   } catch (error) {
     // Fall back to path-based naming if package.json doesn't exist or can't be read
   }
-  
+
   // If it starts with /, it's an absolute path
   if (projectPath.startsWith('/')) {
     const parts = projectPath.split('/').filter(Boolean);
@@ -111,7 +131,7 @@ export async function generateDisplayName(projectName: string, actualProjectDir:
       return projectPath;
     }
   }
-  
+
   return projectPath;
 }
 
@@ -121,143 +141,121 @@ export async function extractProjectDirectory(projectName: string): Promise<stri
   if (projectDirectoryCache.has(projectName)) {
     return projectDirectoryCache.get(projectName)!;
   }
-  
+
   console.log(`🔍 Extracting project directory for: ${projectName}`);
-  
-  const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  const cwdCounts = new Map<string, number>();
-  let latestTimestamp = 0;
-  let latestCwd: string | null = null;
+
   let extractedPath: string;
-  
+
   try {
-    const files = await fs.readdir(projectDir);
-    const jsonlFiles = files.filter(file => file.endsWith('.jsonl'));
-    
-    if (jsonlFiles.length === 0) {
-      // Fall back to decoded project name if no sessions
-      extractedPath = projectName.replace(/-/g, '/');
+    // cwd values across all of the project's sessions, from the session index
+    const { counts: cwdCounts, latestCwd } = await sessionIndex.getProjectCwds(projectName);
+
+    // Determine the best cwd to use
+    if (cwdCounts.size === 0) {
+      // No cwd found: a project added by hand keeps its path, otherwise fall
+      // back to the decoded project name
+      const config = await projectConfig.loadProjectConfig();
+      extractedPath = config[projectName]?.originalPath || projectName.replace(/-/g, '/');
+    } else if (cwdCounts.size === 1) {
+      // Only one cwd, use it
+      extractedPath = Array.from(cwdCounts.keys())[0];
     } else {
-      // Process all JSONL files to collect cwd values
-      for (const file of jsonlFiles) {
-        const jsonlFile = path.join(projectDir, file);
-        const fileStream = require('fs').createReadStream(jsonlFile);
-        const rl = readline.createInterface({
-          input: fileStream,
-          crlfDelay: Infinity
-        });
-        
-        for await (const line of rl) {
-          if (line.trim()) {
-            try {
-              const entry: SessionEntry = JSON.parse(line);
-              
-              if (entry.cwd) {
-                // Count occurrences of each cwd
-                cwdCounts.set(entry.cwd, (cwdCounts.get(entry.cwd) || 0) + 1);
-                
-                // Track the most recent cwd
-                const timestamp = new Date(entry.timestamp || 0).getTime();
-                if (timestamp > latestTimestamp) {
-                  latestTimestamp = timestamp;
-                  latestCwd = entry.cwd;
-                }
-              }
-            } catch (parseError) {
-              // Skip malformed lines
-            }
-          }
-        }
-      }
-      
-      // Determine the best cwd to use
-      if (cwdCounts.size === 0) {
-        // No cwd found, fall back to decoded project name
-        extractedPath = projectName.replace(/-/g, '/');
-      } else if (cwdCounts.size === 1) {
-        // Only one cwd, use it
-        extractedPath = Array.from(cwdCounts.keys())[0];
+      // Multiple cwd values - prefer the most recent one if it has reasonable usage
+      const mostRecentCount = cwdCounts.get(latestCwd!) || 0;
+      const maxCount = Math.max(...cwdCounts.values());
+
+      // Use most recent if it has at least 25% of the max count
+      if (mostRecentCount >= maxCount * 0.25) {
+        extractedPath = latestCwd!;
       } else {
-        // Multiple cwd values - prefer the most recent one if it has reasonable usage
-        const mostRecentCount = cwdCounts.get(latestCwd!) || 0;
-        const maxCount = Math.max(...cwdCounts.values());
-        
-        // Use most recent if it has at least 25% of the max count
-        if (mostRecentCount >= maxCount * 0.25) {
-          extractedPath = latestCwd!;
-        } else {
-          // Otherwise use the most frequently used cwd
-          for (const [cwd, count] of cwdCounts.entries()) {
-            if (count === maxCount) {
-              extractedPath = cwd;
-              break;
-            }
+        // Otherwise use the most frequently used cwd
+        for (const [cwd, count] of cwdCounts.entries()) {
+          if (count === maxCount) {
+            extractedPath = cwd;
+            break;
           }
         }
-        
-        // Fallback (shouldn't reach here)
-        if (!extractedPath!) {
-          extractedPath = latestCwd || projectName.replace(/-/g, '/');
-        }
+      }
+
+      // Fallback (shouldn't reach here)
+      if (!extractedPath!) {
+        extractedPath = latestCwd || projectName.replace(/-/g, '/');
       }
     }
-    
+
     // Cache the result
     projectDirectoryCache.set(projectName, extractedPath);
     console.log(`💾 Cached project directory: ${projectName} -> ${extractedPath}`);
-    
+
     return extractedPath;
-    
+
   } catch (error) {
     console.error(`Error extracting project directory for ${projectName}:`, error);
     // Fall back to decoded project name
     extractedPath = projectName.replace(/-/g, '/');
-    
+
     // Cache the fallback result too
     projectDirectoryCache.set(projectName, extractedPath);
-    
+
     return extractedPath;
   }
 }
 
+// A project's folder under ~/.claude/projects; throws for a name that would
+// lead anywhere else
+function getProjectDir(projectName: string): string {
+  if (!projectNames.isValidProjectName(projectName)) {
+    throw new Error(`Invalid project name: ${projectName}`);
+  }
+  return path.join(process.env.HOME || '', '.claude', 'projects', projectName);
+}
+
+// Whether the server lists the project: a folder under ~/.claude/projects or
+// one added by hand
+export async function isKnownProject(projectName: string): Promise<boolean> {
+  const config = await projectConfig.loadProjectConfig();
+  if (config[projectName]?.manuallyAdded) return true;
+  const folders = await fs.readdir(path.join(process.env.HOME || '', '.claude', 'projects')).catch(() => [] as string[]);
+  return folders.includes(projectName);
+}
+
 export async function getProjects(): Promise<Project[]> {
   const claudeDir = path.join(process.env.HOME || '', '.claude', 'projects');
-  const config = await loadProjectConfig();
+  const config = await projectConfig.loadProjectConfig();
   const projects: Project[] = [];
   const existingProjects = new Set<string>();
-  
+
   try {
     // First, get existing projects from the file system
     const entries = await fs.readdir(claudeDir, { withFileTypes: true });
-    
+
     for (const entry of entries) {
-      if (entry.isDirectory()) {
+      // Title runs leave a folder of their own behind for a moment
+      if (entry.isDirectory() && !(await sessionSummary.isSummaryProject(entry.name))) {
         existingProjects.add(entry.name);
-        const projectPath = path.join(claudeDir, entry.name);
-        
+
         // Extract actual project directory from JSONL sessions
         const actualProjectDir = await extractProjectDirectory(entry.name);
-        
+
         // Get display name from config or generate one
         const customName = config[entry.name]?.displayName;
         const autoDisplayName = await generateDisplayName(entry.name, actualProjectDir);
         const fullPath = actualProjectDir;
-        
+
         const project: Project = {
           name: entry.name,
+          path: actualProjectDir,
           displayName: customName || autoDisplayName,
           fullPath: fullPath,
-          sessionMeta: {
-            hasMore: false,
-            total: 0
-          },
+          isCustomName: !!customName,
           sessions: []
         };
-        
+
         // Try to get sessions for this project (just first 5 for performance)
         try {
           const sessionResult = await getSessions(entry.name, 5, 0);
           project.sessions = sessionResult.sessions || [];
+          project.sessionTags = sessionResult.tags;
           project.sessionMeta = {
             hasMore: sessionResult.hasMore,
             total: sessionResult.total
@@ -265,20 +263,20 @@ export async function getProjects(): Promise<Project[]> {
         } catch (e) {
           console.warn(`Could not load sessions for project ${entry.name}:`, (e as Error).message);
         }
-        
+
         projects.push(project);
       }
     }
   } catch (error) {
     console.error('Error reading projects directory:', error);
   }
-  
+
   // Add manually configured projects that don't exist as folders yet
-  for (const [projectName, projectConfig] of Object.entries(config)) {
-    if (!existingProjects.has(projectName) && projectConfig.manuallyAdded) {
+  for (const [projectName, entryConfig] of Object.entries(config)) {
+    if (!existingProjects.has(projectName) && entryConfig.manuallyAdded) {
       // Use the original path if available, otherwise extract from potential sessions
-      let actualProjectDir = projectConfig.originalPath;
-      
+      let actualProjectDir = entryConfig.originalPath;
+
       if (!actualProjectDir) {
         try {
           actualProjectDir = await extractProjectDirectory(projectName);
@@ -287,206 +285,77 @@ export async function getProjects(): Promise<Project[]> {
           actualProjectDir = projectName.replace(/-/g, '/');
         }
       }
-      
+
       const project: Project = {
         name: projectName,
-        displayName: projectConfig.displayName || await generateDisplayName(projectName, actualProjectDir),
+        path: actualProjectDir,
+        displayName: entryConfig.displayName || await generateDisplayName(projectName, actualProjectDir),
         fullPath: actualProjectDir,
-        sessionMeta: {
-          hasMore: false,
-          total: 0
-        },
+        isCustomName: !!entryConfig.displayName,
+        isManuallyAdded: true,
         sessions: []
       };
-      
+
       projects.push(project);
     }
   }
-  
+
   return projects;
 }
 
-export async function getSessions(projectName: string, limit: number = 5, offset: number = 0): Promise<SessionsResult> {
-  const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  
+/**
+ * A page of a project's sessions, pinned first and then by last activity,
+ * optionally only those with a tag. `tags` lists every tag in the project.
+ */
+export async function getSessions(projectName: string, limit: number = 5, offset: number = 0, { tag }: { tag?: string } = {}): Promise<SessionsResult> {
   try {
-    const files = await fs.readdir(projectDir);
-    const jsonlFiles = files.filter(file => file.endsWith('.jsonl'));
-    
-    if (jsonlFiles.length === 0) {
-      return { sessions: [], hasMore: false, total: 0 };
-    }
-    
-    // For performance, get file stats to sort by modification time
-    const filesWithStats = await Promise.all(
-      jsonlFiles.map(async (file) => {
-        const filePath = path.join(projectDir, file);
-        const stats = await fs.stat(filePath);
-        return { file, mtime: stats.mtime };
-      })
-    );
-    
-    // Sort files by modification time (newest first) for better performance
-    filesWithStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-    
-    const allSessions = new Map<string, SessionData>();
-    let processedCount = 0;
-    
-    // Process files in order of modification time
-    for (const { file } of filesWithStats) {
-      const jsonlFile = path.join(projectDir, file);
-      const sessions = await parseJsonlSessions(jsonlFile);
-      
-      // Merge sessions, avoiding duplicates by session ID
-      sessions.forEach(session => {
-        if (!allSessions.has(session.id)) {
-          allSessions.set(session.id, session);
-        }
-      });
-      
-      processedCount++;
-      
-      // Early exit optimization: if we have enough sessions and processed recent files
-      if (allSessions.size >= (limit + offset) * 2 && processedCount >= Math.min(3, filesWithStats.length)) {
-        break;
-      }
-    }
-    
-    // Convert to array and sort by last activity
-    const sortedSessions = Array.from(allSessions.values())
-      .map((session): Session => ({
-        id: session.id,
-        title: session.summary,
-        created_at: session.lastActivity.toISOString(),
-        updated_at: session.lastActivity.toISOString(),
-        message_count: session.messageCount
-      }))
-      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
-    
+    // Only files that changed since the last call are read (see session-index.js)
+    const metadata = await sessionMetadata.getProjectSessionMetadata(projectName);
+    const allSessions: Session[] = (await sessionIndex.getProjectSessions(projectName))
+      .map(session => (metadata[session.id] ? { ...session, ...metadata[session.id] } : session));
+    const tags = [...new Set(allSessions.flatMap(session => session.tags || []))].sort();
+    const sortedSessions = (tag ? allSessions.filter(session => session.tags?.includes(tag)) : allSessions)
+      .sort(sessionMetadata.compareSessions);
+
     const total = sortedSessions.length;
     const paginatedSessions = sortedSessions.slice(offset, offset + limit);
     const hasMore = offset + limit < total;
-    
+
     return {
       sessions: paginatedSessions,
       hasMore,
       total,
       offset,
-      limit
+      limit,
+      tags
     };
   } catch (error) {
     console.error(`Error reading sessions for project ${projectName}:`, error);
-    return { sessions: [], hasMore: false, total: 0 };
+    return { sessions: [], hasMore: false, total: 0, tags: [] };
   }
 }
 
 export async function parseJsonlSessions(filePath: string): Promise<SessionData[]> {
-  const sessions = new Map<string, SessionData>();
-  
   try {
-    const fileStream = require('fs').createReadStream(filePath);
-    const rl = readline.createInterface({
-      input: fileStream,
-      crlfDelay: Infinity
-    });
-    
-    let lineCount = 0;
-    
-    for await (const line of rl) {
-      if (line.trim()) {
-        lineCount++;
-        try {
-          const entry: SessionEntry = JSON.parse(line);
-          
-          if (entry.sessionId) {
-            if (!sessions.has(entry.sessionId)) {
-              sessions.set(entry.sessionId, {
-                id: entry.sessionId,
-                summary: 'New Session',
-                messageCount: 0,
-                lastActivity: new Date(),
-                cwd: entry.cwd || ''
-              });
-            }
-            
-            const session = sessions.get(entry.sessionId)!;
-            
-            // Update summary if this is a summary entry
-            if (entry.type === 'summary' && entry.summary) {
-              session.summary = entry.summary;
-            } else if (entry.message?.role === 'user' && entry.message?.content && session.summary === 'New Session') {
-              // Use first user message as summary if no summary entry exists
-              const content = entry.message.content;
-              if (typeof content === 'string' && content.length > 0) {
-                // Skip command messages that start with <command-name>
-                if (!content.startsWith('<command-name>')) {
-                  session.summary = content.length > 50 ? content.substring(0, 50) + '...' : content;
-                }
-              }
-            }
-            
-            // Count messages instead of storing them all
-            session.messageCount = (session.messageCount || 0) + 1;
-            
-            // Update last activity
-            if (entry.timestamp) {
-              session.lastActivity = new Date(entry.timestamp);
-            }
-          }
-        } catch (parseError) {
-          console.warn(`[JSONL Parser] Error parsing line ${lineCount}:`, (parseError as Error).message);
-        }
-      }
-    }
+    const sessions = await sessionIndex.getFileSessions(filePath);
+    return sessions.map((session: IndexedSession): SessionData => ({
+      ...session,
+      lastActivity: new Date(session.lastActivity)
+    }));
   } catch (error) {
     console.error('Error reading JSONL file:', error);
+    return [];
   }
-  
-  // Convert Map to Array and sort by last activity
-  return Array.from(sessions.values()).sort((a, b) => 
-    new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime()
-  );
 }
 
 // Get messages for a specific session
 export async function getSessionMessages(projectName: string, sessionId: string): Promise<SessionEntry[]> {
-  const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  
   try {
-    const files = await fs.readdir(projectDir);
-    const jsonlFiles = files.filter(file => file.endsWith('.jsonl'));
-    
-    if (jsonlFiles.length === 0) {
-      return [];
-    }
-    
-    const messages: SessionEntry[] = [];
-    
-    // Process all JSONL files to find messages for this session
-    for (const file of jsonlFiles) {
-      const jsonlFile = path.join(projectDir, file);
-      const fileStream = require('fs').createReadStream(jsonlFile);
-      const rl = readline.createInterface({
-        input: fileStream,
-        crlfDelay: Infinity
-      });
-      
-      for await (const line of rl) {
-        if (line.trim()) {
-          try {
-            const entry: SessionEntry = JSON.parse(line);
-            if (entry.sessionId === sessionId) {
-              messages.push(entry);
-            }
-          } catch (parseError) {
-            console.warn('Error parsing line:', (parseError as Error).message);
-          }
-        }
-      }
-    }
-    
+    // Only the session's own lines are read, using the index's byte ranges
+    const messages = await sessionIndex.readSessionEntries<SessionEntry>(projectName, sessionId);
+
     // Sort messages by timestamp
-    return messages.sort((a, b) => 
+    return messages.sort((a, b) =>
       new Date(a.timestamp || 0).getTime() - new Date(b.timestamp || 0).getTime()
     );
   } catch (error) {
@@ -495,77 +364,342 @@ export async function getSessionMessages(projectName: string, sessionId: string)
   }
 }
 
+/**
+ * A page of a session's messages, oldest first. `before` and `after` are
+ * message UUIDs: the page holds the `limit` messages just before (or after)
+ * that message; with neither, the latest `limit` messages. The session is
+ * read backwards from its end only as far as the page reaches.
+ * @returns the page, or null if the cursor message isn't in the session
+ */
+export async function getSessionMessagesPage(
+  projectName: string,
+  sessionId: string,
+  { before, after, limit = 100 }: { before?: string; after?: string; limit?: number } = {}
+): Promise<SessionMessagesPage | null> {
+  const cursor = before || after;
+  // Messages after the cursor, latest first
+  const newer: SessionEntry[] = [];
+  const page: SessionEntry[] = [];
+  let foundCursor = !cursor;
+  let hasOlder = false;
+
+  for await (const entry of sessionIndex.readSessionEntriesBackward<SessionEntry>(projectName, sessionId)) {
+    if (!foundCursor) {
+      if (entry.uuid === cursor) {
+        foundCursor = true;
+        hasOlder = !!after;
+        if (after) break;
+      } else if (after) {
+        newer.push(entry);
+      }
+      continue;
+    }
+    if (page.length === limit) {
+      hasOlder = true;
+      break;
+    }
+    page.push(entry);
+  }
+
+  if (!foundCursor) {
+    return null;
+  }
+
+  const total = await sessionIndex.countSessionEntries(projectName, sessionId);
+  if (after) {
+    const messages = newer.reverse().slice(0, limit);
+    return { messages, hasOlder, hasNewer: newer.length > limit, total };
+  }
+  return { messages: page.reverse(), hasOlder, hasNewer: !!before, total };
+}
+
 // Rename a project's display name
 export async function renameProject(projectName: string, newDisplayName: string): Promise<boolean> {
-  const config = await loadProjectConfig();
-  
-  if (!newDisplayName || newDisplayName.trim() === '') {
-    // Remove custom name if empty, will fall back to auto-generated
-    delete config[projectName];
-  } else {
-    // Set custom display name
-    config[projectName] = {
-      ...config[projectName],
-      displayName: newDisplayName.trim()
-    };
-  }
-  
-  await saveProjectConfig(config);
+  await projectConfig.updateProjectConfig((config) => {
+    // Keep the rest of the project's entry, such as its session metadata
+    const { displayName, ...entryConfig } = config[projectName] || {};
+
+    if (!newDisplayName || newDisplayName.trim() === '') {
+      // Remove custom name if empty, will fall back to auto-generated
+      if (Object.keys(entryConfig).length > 0) {
+        config[projectName] = entryConfig;
+      } else {
+        delete config[projectName];
+      }
+    } else {
+      // Set custom display name
+      config[projectName] = {
+        ...entryConfig,
+        displayName: newDisplayName.trim()
+      };
+    }
+  });
   return true;
 }
 
-// Delete a session from a project
-export async function deleteSession(projectName: string, sessionId: string): Promise<boolean> {
-  const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  
+/**
+ * Move a session to the trash: its lines are taken out of the project's JSONL
+ * files and kept in the trash item, along with its metadata, until restored
+ * or purged.
+ */
+export async function deleteSession(projectName: string, sessionId: string): Promise<SessionTrashItem> {
   try {
-    const files = await fs.readdir(projectDir);
-    const jsonlFiles = files.filter(file => file.endsWith('.jsonl'));
-    
+    const jsonlFiles = await sessionIndex.findSessionFiles(projectName, sessionId);
     if (jsonlFiles.length === 0) {
-      throw new Error('No session files found for this project');
+      throw new Error(`Session ${sessionId} not found in any files`);
     }
-    
-    // Check all JSONL files to find which one contains the session
-    for (const file of jsonlFiles) {
-      const jsonlFile = path.join(projectDir, file);
+
+    const session = (await sessionIndex.getProjectSessions(projectName)).find(s => s.id === sessionId);
+    const item: SessionTrashItem = {
+      id: trash.createTrashItemId(),
+      type: 'session',
+      projectName,
+      sessionId,
+      summary: session?.summary || 'New Session',
+      deletedAt: new Date().toISOString(),
+      metadata: (await sessionMetadata.getProjectSessionMetadata(projectName))[sessionId] || null,
+      files: []
+    };
+    const itemDir = trash.getTrashItemDir(item.id);
+
+    // Each file's lines are copied to the trash before the file is rewritten
+    // without them, so nothing is lost if this stops halfway
+    const rewrites: { jsonlFile: string; keptLines: string[] }[] = [];
+    for (const [index, jsonlFile] of jsonlFiles.entries()) {
       const content = await fs.readFile(jsonlFile, 'utf8');
-      const lines = content.split('\n').filter(line => line.trim());
-      
-      // Check if this file contains the session
-      const hasSession = lines.some(line => {
+      const keptLines: string[] = [];
+      const removedLines: string[] = [];
+      for (const line of content.split('\n').filter(line => line.trim())) {
+        let isSessionLine = false;
         try {
-          const data = JSON.parse(line);
-          return data.sessionId === sessionId;
+          isSessionLine = JSON.parse(line).sessionId === sessionId;
         } catch {
-          return false;
+          // Keep malformed lines
         }
-      });
-      
-      if (hasSession) {
-        // Filter out all entries for this session
-        const filteredLines = lines.filter(line => {
-          try {
-            const data = JSON.parse(line);
-            return data.sessionId !== sessionId;
-          } catch {
-            return true; // Keep malformed lines
-          }
-        });
-        
-        // Write back the filtered content
-        await fs.writeFile(jsonlFile, filteredLines.join('\n') + (filteredLines.length > 0 ? '\n' : ''));
-        return true;
+        (isSessionLine ? removedLines : keptLines).push(line);
       }
+      if (removedLines.length === 0) continue;
+
+      const trashFile = `session-${index}.jsonl`;
+      await fs.mkdir(itemDir, { recursive: true });
+      await fs.writeFile(path.join(itemDir, trashFile), removedLines.join('\n') + '\n', 'utf8');
+      item.files.push({ fileName: path.basename(jsonlFile), trashFile, lineCount: removedLines.length });
+      rewrites.push({ jsonlFile, keptLines });
     }
-    
-    throw new Error(`Session ${sessionId} not found in any files`);
+    await trash.saveTrashItem(item);
+
+    for (const { jsonlFile, keptLines } of rewrites) {
+      await fs.writeFile(jsonlFile, keptLines.join('\n') + (keptLines.length > 0 ? '\n' : ''));
+    }
+    await sessionMetadata.deleteSessionMetadata(projectName, sessionId);
+    return item;
   } catch (error) {
     console.error(`Error deleting session ${sessionId} from project ${projectName}:`, error);
     throw error;
   }
 }
 
+// Update session summary
+export async function updateSessionSummary(projectName: string, sessionId: string, summary: string): Promise<boolean> {
+  try {
+    const [jsonlFile] = await sessionIndex.findSessionFiles(projectName, sessionId);
+    if (!jsonlFile) {
+      throw new Error(`Session ${sessionId} not found in any files`);
+    }
+
+    // Create a summary entry
+    const summaryEntry: SessionEntry = {
+      type: 'summary',
+      summary: summary,
+      sessionId: sessionId,
+      timestamp: new Date().toISOString()
+    };
+
+    // Append the summary entry to the file, on a line of its own
+    const content = await fs.readFile(jsonlFile, 'utf8');
+    const separator = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+    await fs.appendFile(jsonlFile, separator + JSON.stringify(summaryEntry) + '\n');
+    return true;
+  } catch (error) {
+    console.error(`Error updating session summary for ${sessionId} in project ${projectName}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Give a session a title written by Claude from its transcript, stored as a
+ * summary entry like a rename. With `onlyUntitled`, sessions that already
+ * have a summary entry are left as they are.
+ * @returns the new title, or null if skipped
+ */
+export async function summarizeSession(projectName: string, sessionId: string, { onlyUntitled = false }: { onlyUntitled?: boolean } = {}): Promise<string | null> {
+  const key = `${projectName}/${sessionId}`;
+  if (summariesInProgress.has(key)) {
+    return summariesInProgress.get(key)!;
+  }
+
+  const summarize = async (): Promise<string | null> => {
+    const entries = await getSessionMessages(projectName, sessionId);
+    if (entries.length === 0) {
+      throw new Error(`Session ${sessionId} not found in any files`);
+    }
+    if (onlyUntitled && entries.some(entry => entry.type === 'summary')) {
+      return null;
+    }
+
+    const summary = await sessionSummary.generateSessionTitle(entries);
+    await updateSessionSummary(projectName, sessionId, summary);
+    return summary;
+  };
+
+  const promise = summarize().finally(() => summariesInProgress.delete(key));
+  summariesInProgress.set(key, promise);
+  return promise;
+}
+
+// A prompt typed by the user, as opposed to tool results sent back as user messages
+function isUserPrompt(entry: SessionEntry): boolean {
+  const content = entry.message?.content;
+  if (entry.message?.role !== 'user' || entry.isMeta || !content) return false;
+  return typeof content === 'string' || (Array.isArray(content) && content.some(part => part.type === 'text'));
+}
+
+/**
+ * Copy a session up to one message, and the reply to it, into a new session
+ * file so the conversation can carry on differently from there. Entries get
+ * new IDs so the CLI resumes the copy as a session of its own.
+ *
+ * With `before`, the copy stops short of the message instead: the new session
+ * is a branch where that prompt is sent again, edited. Branches of the same
+ * prompt all point at the session and message the prompt was first sent in.
+ * If the prompt was the first one there is nothing to copy; the branch is then
+ * started fresh under the returned ID (`resume` is false).
+ */
+export async function forkSession(projectName: string, sessionId: string, messageId: string, { before = false }: { before?: boolean } = {}): Promise<ForkResult> {
+  const entries = await getSessionMessages(projectName, sessionId);
+  const forkIndex = entries.findIndex(entry => entry.uuid === messageId);
+  if (forkIndex === -1) {
+    throw new Error(`Message ${messageId} not found in session ${sessionId}`);
+  }
+
+  let endIndex = forkIndex;
+  if (!before) {
+    // The fork ends where the next prompt would have started
+    endIndex = entries.findIndex((entry, index) => index > forkIndex && isUserPrompt(entry));
+    if (endIndex === -1) {
+      endIndex = entries.length;
+    }
+  }
+
+  const newSessionId = crypto.randomUUID();
+  const newUuids = new Map<string, string>();
+  const lines: string[] = [];
+
+  for (const entry of entries.slice(0, endIndex)) {
+    // Summaries describe the original session's messages
+    if (entry.type === 'summary') continue;
+
+    const copy: SessionEntry = { ...entry, sessionId: newSessionId };
+    if (entry.uuid) {
+      copy.uuid = crypto.randomUUID();
+      newUuids.set(entry.uuid, copy.uuid);
+    }
+    if (entry.parentUuid) {
+      copy.parentUuid = newUuids.get(entry.parentUuid) || null;
+    }
+    if (entry.logicalParentUuid) {
+      copy.logicalParentUuid = newUuids.get(entry.logicalParentUuid) || null;
+    }
+    lines.push(JSON.stringify(copy));
+  }
+
+  let forkedFrom: SessionForkOrigin = { sessionId, messageId, forkedAt: new Date().toISOString() };
+  if (before) {
+    const promptIndex = entries.slice(0, forkIndex).filter(isUserPrompt).length;
+    const origin = (await sessionMetadata.getProjectSessionMetadata(projectName))[sessionId]?.forkedFrom;
+    // Editing a branch's own edited prompt makes another branch of the original
+    forkedFrom = origin?.edited && origin.promptIndex === promptIndex
+      ? { ...origin, forkedAt: forkedFrom.forkedAt }
+      : { ...forkedFrom, promptIndex, edited: true };
+  }
+
+  // Recorded before the file exists, so the first listing of the fork has it
+  await sessionMetadata.updateSessionMetadata(projectName, newSessionId, { forkedFrom });
+
+  if (lines.length === 0) {
+    return { sessionId: newSessionId, resume: false, forkedFrom };
+  }
+
+  // Name the fork after its parent. The summary's timestamp also makes the
+  // fork the most recently active session, so it shows at the top of the list.
+  const parent = (await sessionIndex.getProjectSessions(projectName)).find(session => session.id === sessionId);
+  const parentSummary = parent && parent.summary !== 'New Session' ? parent.summary : undefined;
+  lines.push(JSON.stringify({
+    type: 'summary',
+    summary: parentSummary,
+    leafUuid: [...newUuids.values()].pop() || null,
+    sessionId: newSessionId,
+    timestamp: new Date().toISOString()
+  }));
+
+  const filePath = path.join(getProjectDir(projectName), `${newSessionId}.jsonl`);
+  await fs.writeFile(filePath, lines.join('\n') + '\n', 'utf8');
+
+  return { sessionId: newSessionId, resume: true, forkedFrom };
+}
+
+/**
+ * The prompts of a session that have been edited into other branches, each
+ * with the sessions that hold its versions: the session it was first sent in,
+ * then its edits in the order they were made.
+ */
+export async function getSessionBranches(projectName: string, sessionId: string): Promise<SessionBranchPoint[]> {
+  const metadata = await sessionMetadata.getProjectSessionMetadata(projectName);
+  const sessions = new Map((await sessionIndex.getProjectSessions(projectName)).map(session => [session.id, session]));
+
+  const versionsOf = (originSessionId: string, originMessageId: string): SessionBranchPoint['siblings'] => {
+    const edits = Object.entries(metadata)
+      .filter(([id, { forkedFrom }]) => sessions.has(id) && forkedFrom?.edited &&
+        forkedFrom.sessionId === originSessionId && forkedFrom.messageId === originMessageId)
+      .sort(([, a], [, b]) => (a.forkedFrom!.forkedAt || '').localeCompare(b.forkedFrom!.forkedAt || ''))
+      .map(([id]) => id);
+    return [originSessionId, ...edits]
+      .filter(id => sessions.has(id))
+      .map(id => ({ sessionId: id, summary: sessions.get(id)!.summary, lastActivity: sessions.get(id)!.lastActivity }));
+  };
+
+  const branchPoints: SessionBranchPoint[] = [];
+
+  // Prompts of this session that were edited elsewhere
+  const editedMessageIds = new Set(Object.values(metadata)
+    .map(({ forkedFrom }) => forkedFrom)
+    .filter((forkedFrom): forkedFrom is SessionForkOrigin => !!forkedFrom?.edited && forkedFrom.sessionId === sessionId)
+    .map(forkedFrom => forkedFrom.messageId));
+  for (const messageId of editedMessageIds) {
+    const siblings = versionsOf(sessionId, messageId);
+    if (siblings.length > 1) {
+      branchPoints.push({ messageId, siblings, currentIndex: 0 });
+    }
+  }
+
+  // This session's own edited prompt
+  const origin = metadata[sessionId]?.forkedFrom;
+  if (origin?.edited) {
+    const prompts = (await getSessionMessages(projectName, sessionId)).filter(isUserPrompt);
+    const editedPrompt = prompts[origin.promptIndex!];
+    const siblings = versionsOf(origin.sessionId, origin.messageId);
+    if (editedPrompt?.uuid && siblings.length > 1) {
+      branchPoints.push({
+        messageId: editedPrompt.uuid,
+        siblings,
+        currentIndex: siblings.findIndex(sibling => sibling.sessionId === sessionId)
+      });
+    }
+  }
+
+  return branchPoints;
+}
+
 // Check if a project is empty (has no sessions)
 export async function isProjectEmpty(projectName: string): Promise<boolean> {
   try {
@@ -577,50 +711,127 @@ export async function isProjectEmpty(projectName: string): Promise<boolean> {
   }
 }
 
-// Delete an empty project
-export async function deleteProject(projectName: string): Promise<boolean> {
-  const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  
+/**
+ * Move an empty project to the trash: its folder (if it has one) and its
+ * entry in the project config are kept in the trash item until restored or
+ * purged.
+ */
+export async function deleteProject(projectName: string): Promise<ProjectTrashItem> {
+  const projectDir = getProjectDir(projectName);
+
   try {
     // First check if the project is empty
     const isEmpty = await isProjectEmpty(projectName);
     if (!isEmpty) {
       throw new Error('Cannot delete project with existing sessions');
     }
-    
-    // Remove the project directory
-    await fs.rm(projectDir, { recursive: true, force: true });
-    
+
+    let hasFolder = true;
+    try {
+      await fs.access(projectDir);
+    } catch {
+      // Manually added projects may not have a folder yet
+      hasFolder = false;
+    }
+
+    const config = await projectConfig.loadProjectConfig();
+    const item = await trash.saveTrashItem<ProjectTrashItem>({
+      id: trash.createTrashItemId(),
+      type: 'project',
+      projectName,
+      displayName: config[projectName]?.displayName || await generateDisplayName(projectName, await extractProjectDirectory(projectName)),
+      deletedAt: new Date().toISOString(),
+      config: config[projectName] || null,
+      hasFolder
+    });
+
+    if (hasFolder) {
+      await fs.rename(projectDir, path.join(trash.getTrashItemDir(item.id), 'project'));
+    }
+    await sessionIndex.forgetProject(projectName);
+
     // Remove from project config
-    const config = await loadProjectConfig();
-    delete config[projectName];
-    await saveProjectConfig(config);
-    
-    return true;
+    await projectConfig.updateProjectConfig((latest) => {
+      delete latest[projectName];
+    });
+
+    return item;
   } catch (error) {
     console.error(`Error deleting project ${projectName}:`, error);
     throw error;
   }
 }
 
+/**
+ * Put a deleted session or project back where it was and remove it from the
+ * trash. Returns null if there is no such item.
+ */
+export async function restoreTrashItem(itemId: string): Promise<TrashItem | null> {
+  const item = await trash.getTrashItem(itemId);
+  if (!item) return null;
+
+  const itemDir = trash.getTrashItemDir(item.id);
+  const projectDir = getProjectDir(item.projectName);
+
+  if (item.type === 'session') {
+    // The project may have been deleted since, once it had no sessions left
+    await fs.mkdir(projectDir, { recursive: true });
+    for (const { fileName, trashFile } of item.files) {
+      const lines = await fs.readFile(path.join(itemDir, trashFile), 'utf8');
+      const jsonlFile = path.join(projectDir, fileName);
+      let content = '';
+      try {
+        content = await fs.readFile(jsonlFile, 'utf8');
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'ENOENT') throw error;
+      }
+      const separator = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+      await fs.appendFile(jsonlFile, separator + lines);
+    }
+    if (item.metadata) {
+      await sessionMetadata.updateSessionMetadata(item.projectName, item.sessionId, item.metadata);
+    }
+  } else {
+    try {
+      await fs.access(projectDir);
+      throw new Error(`A project named ${item.projectName} already exists`);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') throw error;
+    }
+
+    if (item.hasFolder) {
+      await fs.rename(path.join(itemDir, 'project'), projectDir);
+    }
+    const restoredConfig = item.config;
+    if (restoredConfig) {
+      await projectConfig.updateProjectConfig((config) => {
+        config[item.projectName] = restoredConfig;
+      });
+    }
+    clearProjectDirectoryCache();
+  }
+
+  await trash.removeTrashItem(item.id);
+  return item;
+}
+
 // Add a project manually to the config (without creating folders)
 export async function addProjectManually(projectPath: string, displayName: string | null = null): Promise<ProjectReturn> {
   const absolutePath = path.resolve(projectPath);
-  
+
   try {
     // Check if the path exists
     await fs.access(absolutePath);
   } catch (error) {
     throw new Error(`Path does not exist: ${absolutePath}`);
   }
-  
+
   // Generate project name (encode path for use as directory name)
   const projectName = absolutePath.replace(/\//g, '-');
-  
-  // Check if project already exists in config or as a folder
-  const config = await loadProjectConfig();
+
+  // Check if project already exists as a folder or in the config
   const projectDir = path.join(process.env.HOME || '', '.claude', 'projects', projectName);
-  
+
   try {
     await fs.access(projectDir);
     throw new Error(`Project already exists for path: ${absolutePath}`);
@@ -629,23 +840,23 @@ export async function addProjectManually(projectPath: string, displayName: strin
       throw error;
     }
   }
-  
-  if (config[projectName]) {
-    throw new Error(`Project already configured for path: ${absolutePath}`);
-  }
-  
-  // Add to config as manually added project
-  config[projectName] = {
-    manuallyAdded: true,
-    originalPath: absolutePath
-  };
-  
-  if (displayName) {
-    config[projectName].displayName = displayName;
-  }
-  
-  await saveProjectConfig(config);
-  
+
+  await projectConfig.updateProjectConfig((config) => {
+    if (config[projectName]) {
+      throw new Error(`Project already configured for path: ${absolutePath}`);
+    }
+
+    // Add to config as manually added project
+    config[projectName] = {
+      manuallyAdded: true,
+      originalPath: absolutePath
+    };
+
+    if (displayName) {
+      config[projectName].displayName = displayName;
+    }
+  });
+
   return {
     name: projectName,
     path: absolutePath,
@@ -654,4 +865,4 @@ export async function addProjectManually(projectPath: string, displayName: strin
     isManuallyAdded: true,
     sessions: []
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,231 @@
+/**
+ * Prompt queue
+ *
+ * Prompts sent while a session's run is still going wait here, per session,
+ * and are run with --resume one after another: whenever a run of the session
+ * finishes, the next queued prompt is started. An aborted run pauses the
+ * queue until it is resumed. Queues live on the server, so they survive page
+ * reloads; every change is broadcast so all open tabs show the same list.
+ * A queued prompt runs as the user who queued it, so only an admin may queue
+ * or edit one that bypasses permission prompts.
+ */
+
+const crypto = require('crypto');
+const { spawnClaude } = require('./claude-cli');
+const { getRunBySession, onRunFinished } = require('./run-registry');
+const { validatePermissionMode } = require('./claude-options');
+
+const MAX_QUEUED_PROMPTS = 50;
+const MAX_PROMPT_LENGTH = 100000;
+// Per-session options a queued prompt keeps; the session and resume flag are
+// set when it runs
+const QUEUED_OPTION_KEYS = ['projectPath', 'cwd', 'model', 'permissionMode', 'maxTurns', 'addDirs', 'appendSystemPrompt', 'attachments'];
+
+const queues = new Map(); // sessionId -> { projectName, paused, items }
+const listeners = new Set();
+
+class PromptQueueError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'PromptQueueError';
+    this.statusCode = statusCode;
+  }
+}
+
+// The permission mode is checked against whoever queues or edits the prompt
+function checkPermissionMode(options, user) {
+  if (options.permissionMode === undefined) return;
+  try {
+    validatePermissionMode(options.permissionMode, user);
+  } catch (error) {
+    throw new PromptQueueError(error.message, error.statusCode);
+  }
+}
+
+function validatePrompt(command) {
+  if (typeof command !== 'string' || !command.trim() || command.length > MAX_PROMPT_LENGTH) {
+    throw new PromptQueueError(`A queued prompt must be text of at most ${MAX_PROMPT_LENGTH} characters`);
+  }
+  return command;
+}
+
+// The queue as clients see it: prompts without their run options
+function describeQueue(sessionId) {
+  const queue = queues.get(sessionId);
+  return {
+    sessionId,
+    paused: queue ? queue.paused : false,
+    items: queue
+      ? queue.items.map(({ id, command, createdAt, options }) => ({
+        id,
+        command,
+        createdAt,
+        attachments: options.attachments || []
+      }))
+      : []
+  };
+}
+
+function emitQueueUpdated(sessionId, projectName) {
+  const event = { type: 'prompt-queue-updated', projectName, ...describeQueue(sessionId) };
+  listeners.forEach(listener => listener(event));
+}
+
+function isSessionRunning(sessionId) {
+  return getRunBySession(sessionId)?.status === 'running';
+}
+
+function getQueueItem(sessionId, itemId) {
+  const item = queues.get(sessionId)?.items.find(candidate => candidate.id === itemId);
+  if (!item) {
+    throw new PromptQueueError('Queued prompt not found', 404);
+  }
+  return item;
+}
+
+// Start the session's next prompt if nothing is running for it
+function runNext(sessionId) {
+  const queue = queues.get(sessionId);
+  if (!queue || queue.paused || isSessionRunning(sessionId)) return;
+
+  const item = queue.items.shift();
+  if (!item) return;
+  if (queue.items.length === 0) {
+    queues.delete(sessionId);
+  }
+
+  const requestId = crypto.randomUUID();
+  console.log('📬 Running queued prompt for session:', sessionId);
+  listeners.forEach(listener => listener({
+    type: 'queued-prompt-started',
+    projectName: queue.projectName,
+    sessionId,
+    requestId,
+    command: item.command,
+    attachments: item.options.attachments || []
+  }));
+  emitQueueUpdated(sessionId, queue.projectName);
+
+  // Nobody is subscribed yet; clients attach through resume-stream
+  spawnClaude(item.command, {
+    ...item.options,
+    projectName: queue.projectName,
+    sessionId,
+    resume: true,
+    requestId
+  }, null, { user: item.user }).catch(error => {
+    console.error('❌ Queued prompt failed:', error.message);
+  });
+}
+
+function getPromptQueue(sessionId) {
+  return describeQueue(sessionId);
+}
+
+/**
+ * Add a prompt to a session's queue for `user`. It starts right away when the
+ * session has nothing running (and its queue isn't paused).
+ */
+function enqueuePrompt(projectName, sessionId, command, options = {}, user = null) {
+  validatePrompt(command);
+  checkPermissionMode(options, user);
+  let queue = queues.get(sessionId);
+  if (queue && queue.items.length >= MAX_QUEUED_PROMPTS) {
+    throw new PromptQueueError(`At most ${MAX_QUEUED_PROMPTS} prompts can be queued per session`);
+  }
+  if (!queue) {
+    queue = { projectName, paused: false, items: [] };
+    queues.set(sessionId, queue);
+  }
+
+  const queuedOptions = {};
+  for (const key of QUEUED_OPTION_KEYS) {
+    if (options[key] !== undefined) queuedOptions[key] = options[key];
+  }
+  const item = { id: crypto.randomUUID(), command, options: queuedOptions, user, createdAt: new Date().toISOString() };
+  queue.items.push(item);
+
+  emitQueueUpdated(sessionId, projectName);
+  runNext(sessionId);
+  return item.id;
+}
+
+function updateQueuedPrompt(sessionId, itemId, command, user = null) {
+  const item = getQueueItem(sessionId, itemId);
+  checkPermissionMode(item.options, user);
+  item.command = validatePrompt(command);
+  emitQueueUpdated(sessionId, queues.get(sessionId).projectName);
+}
+
+function removeQueuedPrompt(sessionId, itemId) {
+  getQueueItem(sessionId, itemId);
+  const queue = queues.get(sessionId);
+  queue.items = queue.items.filter(item => item.id !== itemId);
+  if (queue.items.length === 0) {
+    queues.delete(sessionId);
+  }
+  emitQueueUpdated(sessionId, queue.projectName);
+}
+
+// Put the queue in the given order; the IDs must be exactly the queued ones
+function reorderPromptQueue(sessionId, itemIds) {
+  const queue = queues.get(sessionId);
+  const items = queue ? queue.items : [];
+  if (!Array.isArray(itemIds) || itemIds.length !== items.length || new Set(itemIds).size !== items.length) {
+    throw new PromptQueueError('The new order must list every queued prompt once');
+  }
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  if (itemIds.some(id => !byId.has(id))) {
+    throw new PromptQueueError('The new order must list every queued prompt once');
+  }
+  if (!queue) return;
+  queue.items = itemIds.map(id => byId.get(id));
+  emitQueueUpdated(sessionId, queue.projectName);
+}
+
+// Continue a queue paused by an aborted run
+function resumePromptQueue(sessionId) {
+  const queue = queues.get(sessionId);
+  if (!queue) return;
+  queue.paused = false;
+  emitQueueUpdated(sessionId, queue.projectName);
+  runNext(sessionId);
+}
+
+function onQueueEvent(listener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// The finishing run's process is cleaned up right after this fires, so the
+// next prompt starts on the following tick
+onRunFinished((run) => {
+  let queue = run.sessionId && queues.get(run.sessionId);
+  if (!queue && run.initialSessionId && run.sessionId && queues.has(run.initialSessionId)) {
+    // The session continued under a new ID; so does its queue
+    queue = queues.get(run.initialSessionId);
+    queues.delete(run.initialSessionId);
+    queues.set(run.sessionId, queue);
+    emitQueueUpdated(run.initialSessionId, queue.projectName);
+  }
+  if (!queue) return;
+
+  if (run.status === 'aborted') {
+    queue.paused = true;
+    emitQueueUpdated(run.sessionId, queue.projectName);
+    return;
+  }
+  setImmediate(() => runNext(run.sessionId));
+});
+
+module.exports = {
+  PromptQueueError,
+  getPromptQueue,
+  enqueuePrompt,
+  updateQueuedPrompt,
+  removeQueuedPrompt,
+  reorderPromptQueue,
+  resumePromptQueue,
+  onQueueEvent
+};
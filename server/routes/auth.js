@@ -0,0 +1,134 @@
+/**
+ * Authentication API Routes
+ *
+ * Login, logout, first-run setup and local user management
+ */
+
+const express = require('express');
+const {
+  AuthError,
+  hasUsers,
+  listUsers,
+  createUser,
+  deleteUser,
+  verifyCredentials,
+  createToken,
+  verifyToken,
+  getTokenFromRequest,
+  authenticateToken,
+  requireAdmin,
+  setAuthCookie,
+  clearAuthCookie
+} = require('../auth');
+
+const router = express.Router();
+
+function isSecureRequest(req) {
+  return req.protocol === 'https' || req.get('x-forwarded-proto') === 'https';
+}
+
+// GET /api/auth/status - Whether setup is needed and who is logged in
+router.get('/status', async (req, res) => {
+  try {
+    const needsSetup = !(await hasUsers());
+    const user = needsSetup ? null : await verifyToken(getTokenFromRequest(req));
+
+    res.json({
+      needsSetup,
+      isAuthenticated: !!user,
+      user
+    });
+  } catch (error) {
+    console.error('❌ Auth status error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/register - Create the first (admin) account
+router.post('/register', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    // Open registration is only allowed until the first account exists
+    const user = await createUser(username, password, null, { firstUserOnly: true });
+    const token = await createToken(user);
+    setAuthCookie(res, token, isSecureRequest(req));
+
+    console.log('👤 Created initial admin user:', user.username);
+    res.json({ success: true, user, token });
+  } catch (error) {
+    res.status(error instanceof AuthError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/login - Exchange credentials for a token
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (!username || !password) {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const user = await verifyCredentials(username, password);
+    if (!user) {
+      console.warn('🔒 Failed login attempt for:', username);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    const token = await createToken(user);
+    setAuthCookie(res, token, isSecureRequest(req));
+
+    res.json({ success: true, user, token });
+  } catch (error) {
+    console.error('❌ Login error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/logout - Clear the auth cookie
+router.post('/logout', (req, res) => {
+  clearAuthCookie(res);
+  res.json({ success: true });
+});
+
+// GET /api/auth/user - Current user
+router.get('/user', authenticateToken, (req, res) => {
+  res.json({ user: req.user });
+});
+
+// GET /api/auth/users - List users (admin only)
+router.get('/users', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const users = await listUsers();
+    res.json({ users });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/auth/users - Add a user (admin only)
+router.post('/users', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { username, password, role } = req.body;
+    const user = await createUser(username, password, role === 'admin' ? 'admin' : 'user');
+    res.json({ success: true, user });
+  } catch (error) {
+    res.status(error instanceof AuthError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/auth/users/:id - Remove a user (admin only)
+router.delete('/users/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+    await deleteUser(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(error instanceof AuthError ? error.statusCode : 500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -1,12 +1,19 @@
 const express = require('express');
-const { exec } = require('child_process');
-const { promisify } = require('util');
-const path = require('path');
-const fs = require('fs').promises;
 const { extractProjectDirectory } = require('../projects');
+const { isValidProjectName } = require('../project-names');
+const { GitService, isFileList } = require('../git-service');
+const { PathAccessError, resolveProjectPath, pathAccessErrorResponse } = require('../sandbox');
 
 const router = express.Router();
-const execAsync = promisify(exec);
+
+// Every route names its project in the query or body
+router.use((req, res, next) => {
+  const project = req.query.project ?? req.body?.project;
+  if (project !== undefined && !isValidProjectName(project)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+  next();
+});
 
 // Helper function to get the actual project path from the encoded project name
 async function getActualProjectPath(projectName) {
@@ -19,31 +26,12 @@ async function getActualProjectPath(projectName) {
   }
 }
 
-// Helper function to validate git repository
-async function validateGitRepository(projectPath) {
-  try {
-    // Check if directory exists
-    await fs.access(projectPath);
-  } catch {
-    throw new Error(`Project path not found: ${projectPath}`);
-  }
-
-  try {
-    // Use --show-toplevel to get the root of the git repository
-    const { stdout: gitRoot } = await execAsync('git rev-parse --show-toplevel', { cwd: projectPath });
-    const normalizedGitRoot = path.resolve(gitRoot.trim());
-    const normalizedProjectPath = path.resolve(projectPath);
-    
-    // Ensure the git root matches our project path (prevent using parent git repos)
-    if (normalizedGitRoot !== normalizedProjectPath) {
-      throw new Error(`Project directory is not a git repository. This directory is inside a git repository at ${normalizedGitRoot}, but git operations should be run from the repository root.`);
-    }
-  } catch (error) {
-    if (error.message.includes('Project directory is not a git repository')) {
-      throw error;
-    }
-    throw new Error('Not a git repository. This directory does not contain a .git folder. Initialize a git repository with "git init" to use source control features.');
-  }
+// Resolve the project and return a GitService for its validated repository
+async function getGitService(projectName) {
+  const projectPath = await getActualProjectPath(projectName);
+  const git = new GitService(projectPath);
+  await git.validateRepository();
+  return git;
 }
 
 // Get git status for a project
@@ -55,47 +43,11 @@ router.get('/status', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    console.log('Git status for project:', project, '-> path:', projectPath);
+    const git = await getGitService(project);
+    console.log('Git status for project:', project, '-> path:', git.repoPath);
     
-    // Validate git repository
-    await validateGitRepository(projectPath);
-
-    // Get current branch
-    const { stdout: branch } = await execAsync('git rev-parse --abbrev-ref HEAD', { cwd: projectPath });
-    
-    // Get git status
-    const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd: projectPath });
-    
-    const modified = [];
-    const added = [];
-    const deleted = [];
-    const untracked = [];
-    
-    statusOutput.split('\n').forEach(line => {
-      if (!line.trim()) return;
-      
-      const status = line.substring(0, 2);
-      const file = line.substring(3);
-      
-      if (status === 'M ' || status === ' M' || status === 'MM') {
-        modified.push(file);
-      } else if (status === 'A ' || status === 'AM') {
-        added.push(file);
-      } else if (status === 'D ' || status === ' D') {
-        deleted.push(file);
-      } else if (status === '??') {
-        untracked.push(file);
-      }
-    });
-    
-    res.json({
-      branch: branch.trim(),
-      modified,
-      added,
-      deleted,
-      untracked
-    });
+    const status = await git.getStatus();
+    res.json(status);
   } catch (error) {
     console.error('Git status error:', error);
     res.json({ 
@@ -118,37 +70,18 @@ router.get('/diff', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    
-    // Validate git repository
-    await validateGitRepository(projectPath);
+    // Untracked files are read from disk, so keep them inside the project
+    await resolveProjectPath(project, file);
     
-    // Check if file is untracked
-    const { stdout: statusOutput } = await execAsync(`git status --porcelain "${file}"`, { cwd: projectPath });
-    const isUntracked = statusOutput.startsWith('??');
-    
-    let diff;
-    if (isUntracked) {
-      // For untracked files, show the entire file content as additions
-      const fileContent = await fs.readFile(path.join(projectPath, file), 'utf-8');
-      const lines = fileContent.split('\n');
-      diff = `--- /dev/null\n+++ b/${file}\n@@ -0,0 +1,${lines.length} @@\n` + 
-             lines.map(line => `+${line}`).join('\n');
-    } else {
-      // Get diff for tracked files
-      const { stdout } = await execAsync(`git diff HEAD -- "${file}"`, { cwd: projectPath });
-      diff = stdout || '';
-      
-      // If no unstaged changes, check for staged changes
-      if (!diff) {
-        const { stdout: stagedDiff } = await execAsync(`git diff --cached -- "${file}"`, { cwd: projectPath });
-        diff = stagedDiff;
-      }
-    }
+    const git = await getGitService(project);
+    const diff = await git.getFileDiff(file);
     
     res.json({ diff });
   } catch (error) {
     console.error('Git diff error:', error);
+    if (error instanceof PathAccessError) {
+      return res.status(403).json(pathAccessErrorResponse(error));
+    }
     res.json({ error: error.message });
   }
 });
@@ -157,25 +90,15 @@ router.get('/diff', async (req, res) => {
 router.post('/commit', async (req, res) => {
   const { project, message, files } = req.body;
   
-  if (!project || !message || !files || files.length === 0) {
+  if (!project || typeof message !== 'string' || !message.trim() || !isFileList(files)) {
     return res.status(400).json({ error: 'Project name, commit message, and files are required' });
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    
-    // Validate git repository
-    await validateGitRepository(projectPath);
-    
-    // Stage selected files
-    for (const file of files) {
-      await execAsync(`git add "${file}"`, { cwd: projectPath });
-    }
+    const git = await getGitService(project);
+    const output = await git.commit(message, files);
     
-    // Commit with message
-    const { stdout } = await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd: projectPath });
-    
-    res.json({ success: true, output: stdout });
+    res.json({ success: true, output });
   } catch (error) {
     console.error('Git commit error:', error);
     res.status(500).json({ error: error.message });
@@ -191,33 +114,10 @@ router.get('/branches', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    console.log('Git branches for project:', project, '-> path:', projectPath);
-    
-    // Validate git repository
-    await validateGitRepository(projectPath);
-    
-    // Get all branches
-    const { stdout } = await execAsync('git branch -a', { cwd: projectPath });
-    
-    // Parse branches
-    const branches = stdout
-      .split('\n')
-      .map(branch => branch.trim())
-      .filter(branch => branch && !branch.includes('->')) // Remove empty lines and HEAD pointer
-      .map(branch => {
-        // Remove asterisk from current branch
-        if (branch.startsWith('* ')) {
-          return branch.substring(2);
-        }
-        // Remove remotes/ prefix
-        if (branch.startsWith('remotes/origin/')) {
-          return branch.substring(15);
-        }
-        return branch;
-      })
-      .filter((branch, index, self) => self.indexOf(branch) === index); // Remove duplicates
+    const git = await getGitService(project);
+    console.log('Git branches for project:', project, '-> path:', git.repoPath);
     
+    const branches = await git.getBranches();
     res.json({ branches });
   } catch (error) {
     console.error('Git branches error:', error);
@@ -234,12 +134,10 @@ router.post('/checkout', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
+    const git = await getGitService(project);
+    const output = await git.checkout(branch);
     
-    // Checkout the branch
-    const { stdout } = await execAsync(`git checkout "${branch}"`, { cwd: projectPath });
-    
-    res.json({ success: true, output: stdout });
+    res.json({ success: true, output });
   } catch (error) {
     console.error('Git checkout error:', error);
     res.status(500).json({ error: error.message });
@@ -255,12 +153,10 @@ router.post('/create-branch', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    
-    // Create and checkout new branch
-    const { stdout } = await execAsync(`git checkout -b "${branch}"`, { cwd: projectPath });
+    const git = await getGitService(project);
+    const output = await git.createBranch(branch);
     
-    res.json({ success: true, output: stdout });
+    res.json({ success: true, output });
   } catch (error) {
     console.error('Git create branch error:', error);
     res.status(500).json({ error: error.message });
@@ -276,40 +172,8 @@ router.get('/commits', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
-    
-    // Get commit log with stats
-    const { stdout } = await execAsync(
-      `git log --pretty=format:'%H|%an|%ae|%ad|%s' --date=relative -n ${limit}`,
-      { cwd: projectPath }
-    );
-    
-    const commits = stdout
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        const [hash, author, email, date, ...messageParts] = line.split('|');
-        return {
-          hash,
-          author,
-          email,
-          date,
-          message: messageParts.join('|')
-        };
-      });
-    
-    // Get stats for each commit
-    for (const commit of commits) {
-      try {
-        const { stdout: stats } = await execAsync(
-          `git show --stat --format='' ${commit.hash}`,
-          { cwd: projectPath }
-        );
-        commit.stats = stats.trim().split('\n').pop(); // Get the summary line
-      } catch (error) {
-        commit.stats = '';
-      }
-    }
+    const git = await getGitService(project);
+    const commits = await git.getCommits(limit);
     
     res.json({ commits });
   } catch (error) {
@@ -327,15 +191,10 @@ router.get('/commit-diff', async (req, res) => {
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
+    const git = await getGitService(project);
+    const diff = await git.getCommitDiff(commit);
     
-    // Get diff for the commit
-    const { stdout } = await execAsync(
-      `git show ${commit}`,
-      { cwd: projectPath }
-    );
-    
-    res.json({ diff: stdout });
+    res.json({ diff });
   } catch (error) {
     console.error('Git commit diff error:', error);
     res.json({ error: error.message });
@@ -346,23 +205,20 @@ router.get('/commit-diff', async (req, res) => {
 router.post('/generate-commit-message', async (req, res) => {
   const { project, files } = req.body;
   
-  if (!project || !files || files.length === 0) {
+  if (!project || !isFileList(files)) {
     return res.status(400).json({ error: 'Project name and files are required' });
   }
 
   try {
-    const projectPath = await getActualProjectPath(project);
+    const git = await getGitService(project);
     
     // Get diff for selected files
     let combinedDiff = '';
     for (const file of files) {
       try {
-        const { stdout } = await execAsync(
-          `git diff HEAD -- "${file}"`,
-          { cwd: projectPath }
-        );
-        if (stdout) {
-          combinedDiff += `\n--- ${file} ---\n${stdout}`;
+        const diff = await git.getHeadDiff(file);
+        if (diff) {
+          combinedDiff += `\n--- ${file} ---\n${diff}`;
         }
       } catch (error) {
         console.error(`Error getting diff for ${file}:`, error);
@@ -0,0 +1,34 @@
+/**
+ * Permission bridge API Routes
+ *
+ * Called by permission-mcp.js, not the browser. These routes are mounted
+ * before the user auth middleware and authenticate with the per-run bridge
+ * token instead.
+ */
+
+const express = require('express');
+const { isValidBridgeToken, requestPermission } = require('../permissions');
+
+const router = express.Router();
+
+// POST /api/permissions/request - Wait for the user to approve or deny a tool call
+router.post('/request', async (req, res) => {
+  const { requestId, token, toolName, input, toolUseId } = req.body;
+
+  if (!requestId || !toolName) {
+    return res.status(400).json({ error: 'requestId and toolName are required' });
+  }
+  if (!isValidBridgeToken(requestId, token)) {
+    return res.status(401).json({ error: 'Invalid permission bridge token' });
+  }
+
+  try {
+    const decision = await requestPermission({ requestId, toolName, input, toolUseId });
+    res.json(decision);
+  } catch (error) {
+    console.error('❌ Permission request error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
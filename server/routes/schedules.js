@@ -0,0 +1,76 @@
+/**
+ * Scheduled Jobs API Routes
+ *
+ * Prompts run headlessly on a cron schedule (see scheduler.js), their run
+ * history, and running a job right away.
+ */
+
+const express = require('express');
+const { ScheduleError, listJobs, createJob, updateJob, deleteJob, getJobRuns, runJob } = require('../scheduler');
+
+const router = express.Router();
+
+const sendError = (res, error, action) => {
+  if (error instanceof ScheduleError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`❌ Error ${action}:`, error);
+  res.status(500).json({ error: error.message });
+};
+
+// GET /api/schedules - Every job with its next run and latest run
+router.get('/', async (req, res) => {
+  try {
+    res.json({ jobs: await listJobs() });
+  } catch (error) {
+    sendError(res, error, 'listing scheduled jobs');
+  }
+});
+
+// POST /api/schedules - Create a job
+router.post('/', async (req, res) => {
+  try {
+    res.json({ job: await createJob(req.body, req.user) });
+  } catch (error) {
+    sendError(res, error, 'creating scheduled job');
+  }
+});
+
+// PUT /api/schedules/:jobId - Change some of a job's fields, e.g. enabled
+router.put('/:jobId', async (req, res) => {
+  try {
+    res.json({ job: await updateJob(req.params.jobId, req.body, req.user) });
+  } catch (error) {
+    sendError(res, error, 'updating scheduled job');
+  }
+});
+
+// DELETE /api/schedules/:jobId - Delete a job and its run history
+router.delete('/:jobId', async (req, res) => {
+  try {
+    await deleteJob(req.params.jobId);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'deleting scheduled job');
+  }
+});
+
+// GET /api/schedules/:jobId/runs - Recent runs with their output, newest first
+router.get('/:jobId/runs', async (req, res) => {
+  try {
+    res.json({ runs: await getJobRuns(req.params.jobId) });
+  } catch (error) {
+    sendError(res, error, 'listing scheduled runs');
+  }
+});
+
+// POST /api/schedules/:jobId/run - Run a job now, outside its schedule
+router.post('/:jobId/run', async (req, res) => {
+  try {
+    res.json({ run: await runJob(req.params.jobId, 'manual') });
+  } catch (error) {
+    sendError(res, error, 'running scheduled job');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,47 @@
+/**
+ * Search API Routes
+ *
+ * Full-text search over the messages of every session (see search-index.js).
+ */
+
+const express = require('express');
+const { search } = require('../search-index');
+const { isValidProjectName } = require('../project-names');
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ROLES = ['user', 'assistant', 'tool'];
+
+// GET /api/search?q=&projectName=&from=YYYY-MM-DD&to=YYYY-MM-DD&role=&toolName=&limit=
+// - Matching messages, newest first
+router.get('/', async (req, res) => {
+  const { q, projectName, from, to, role, toolName } = req.query;
+
+  if (typeof q !== 'string' || !q.trim()) {
+    return res.status(400).json({ error: 'q is required' });
+  }
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+  }
+  if (projectName && !isValidProjectName(projectName)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+  if (role && !ROLES.includes(role)) {
+    return res.status(400).json({ error: `role must be one of ${ROLES.join(', ')}` });
+  }
+
+  const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+  if (limit !== undefined && (Number.isNaN(limit) || limit < 1)) {
+    return res.status(400).json({ error: 'limit must be a positive number' });
+  }
+
+  try {
+    res.json(await search({ q, projectName, from, to, role, toolName, limit }));
+  } catch (error) {
+    console.error('❌ Error searching sessions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,97 @@
+/**
+ * Settings API Routes
+ *
+ * Global and per-project settings. Every change is broadcast to connected
+ * clients as a `settings-updated` message (see index.js).
+ */
+
+const express = require('express');
+const {
+  getGlobalSettings,
+  hasGlobalSettings,
+  updateGlobalSettings,
+  getProjectSettings,
+  updateProjectSettings,
+  getEffectiveToolsSettings
+} = require('../settings');
+const { isValidProjectName } = require('../project-names');
+
+const router = express.Router();
+
+// Skipping permission prompts lets Claude run any tool unattended, so only
+// admins may turn it on; anyone may turn it off or leave it as it is
+function isSkipPermissionsForbidden(req, currentValue) {
+  return req.body?.toolsSettings?.skipPermissions === true && currentValue !== true &&
+    req.user?.role !== 'admin';
+}
+
+const SKIP_PERMISSIONS_FORBIDDEN = 'Only admins can turn on skipping permission prompts';
+
+// GET /api/settings - Global settings
+router.get('/', async (req, res) => {
+  try {
+    res.json({
+      settings: await getGlobalSettings(),
+      // false until settings are saved for the first time, so clients can
+      // migrate what they kept locally before
+      isInitialized: await hasGlobalSettings()
+    });
+  } catch (error) {
+    console.error('❌ Error reading settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/settings - Update some global settings
+router.put('/', async (req, res) => {
+  try {
+    if (isSkipPermissionsForbidden(req, (await getGlobalSettings()).toolsSettings.skipPermissions)) {
+      return res.status(403).json({ error: SKIP_PERMISSIONS_FORBIDDEN });
+    }
+    const settings = await updateGlobalSettings(req.body);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('❌ Error updating settings:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.param('projectName', (req, res, next, projectName) => {
+  if (!isValidProjectName(projectName)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+  next();
+});
+
+// GET /api/settings/projects/:projectName - Project settings and the tool
+// permissions that apply to the project
+router.get('/projects/:projectName', async (req, res) => {
+  try {
+    const { projectName } = req.params;
+    res.json({
+      settings: await getProjectSettings(projectName),
+      effectiveToolsSettings: await getEffectiveToolsSettings(projectName)
+    });
+  } catch (error) {
+    console.error('❌ Error reading project settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// PUT /api/settings/projects/:projectName - Update some project settings
+// (null removes a value so the global one applies again)
+router.put('/projects/:projectName', async (req, res) => {
+  try {
+    const { skipPermissions } = await getEffectiveToolsSettings(req.params.projectName);
+    if (isSkipPermissionsForbidden(req, skipPermissions)) {
+      return res.status(403).json({ error: SKIP_PERMISSIONS_FORBIDDEN });
+    }
+    const settings = await updateProjectSettings(req.params.projectName, req.body);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('❌ Error updating project settings:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,70 @@
+/**
+ * Trash API Routes
+ *
+ * Deleted sessions and projects, which can be restored until they are purged
+ * (see trash.js).
+ */
+
+const express = require('express');
+const { getTrashItem, listTrashItems, removeTrashItem, emptyTrash } = require('../trash');
+const { restoreTrashItem } = require('../projects');
+const { getGlobalSettings } = require('../settings');
+const { refreshProjects } = require('../project-events');
+
+const router = express.Router();
+
+const refreshAfterChange = () => {
+  refreshProjects().catch(error => console.error('❌ Error refreshing projects:', error));
+};
+
+// GET /api/trash - Trashed items, most recently deleted first
+router.get('/', async (req, res) => {
+  try {
+    const { trashRetentionDays } = await getGlobalSettings();
+    res.json({ items: await listTrashItems(), retentionDays: trashRetentionDays });
+  } catch (error) {
+    console.error('❌ Error listing trash:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/trash/:itemId/restore - Put a session or project back
+router.post('/:itemId/restore', async (req, res) => {
+  try {
+    const item = await restoreTrashItem(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ error: 'Trash item not found' });
+    }
+    res.json({ success: true, item });
+    refreshAfterChange();
+  } catch (error) {
+    console.error('❌ Error restoring trash item:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/trash/:itemId - Delete one item for good
+router.delete('/:itemId', async (req, res) => {
+  try {
+    if (!await getTrashItem(req.params.itemId)) {
+      return res.status(404).json({ error: 'Trash item not found' });
+    }
+    await removeTrashItem(req.params.itemId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error purging trash item:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// DELETE /api/trash - Empty the trash
+router.delete('/', async (req, res) => {
+  try {
+    res.json({ success: true, purged: await emptyTrash() });
+  } catch (error) {
+    console.error('❌ Error emptying trash:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
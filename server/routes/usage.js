@@ -0,0 +1,51 @@
+/**
+ * Usage API Routes
+ *
+ * Token, cost and run time totals computed from the session files and the
+ * run log (see usage.js).
+ */
+
+const express = require('express');
+const { getUsageReport, getSessionUsage } = require('../usage');
+const { isValidProjectName } = require('../project-names');
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD&projectName= - Totals by
+// project, session, day and model
+router.get('/', async (req, res) => {
+  const { from, to, projectName } = req.query;
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+  }
+  if (projectName && !isValidProjectName(projectName)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+
+  try {
+    res.json(await getUsageReport({ from, to, projectName }));
+  } catch (error) {
+    console.error('❌ Error computing usage:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/usage/projects/:projectName/sessions/:sessionId - Totals for one session
+router.get('/projects/:projectName/sessions/:sessionId', async (req, res) => {
+  const { projectName, sessionId } = req.params;
+  if (!isValidProjectName(projectName)) {
+    return res.status(400).json({ error: 'Invalid project name' });
+  }
+
+  try {
+    res.json({ sessionId, totals: await getSessionUsage(projectName, sessionId) });
+  } catch (error) {
+    console.error('❌ Error computing session usage:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,204 @@
+/**
+ * Run registry
+ *
+ * Keeps track of Claude CLI runs independently of the WebSocket that started
+ * them. Every frame a run emits is numbered and kept in a bounded ring buffer,
+ * so a client that drops its connection (page reload, phone going to sleep)
+ * can reconnect, replay what it missed from its last cursor, and keep
+ * streaming live.
+ */
+
+const RUN_EVENT_BUFFER_SIZE = 2000;
+const FINISHED_RUN_RETENTION_MS = 10 * 60 * 1000; // 10 minutes
+
+const runs = new Map(); // requestId -> run
+const runsBySession = new Map(); // sessionId -> run
+const finishListeners = new Set();
+
+class RingBuffer {
+  constructor(capacity) {
+    this.capacity = capacity;
+    this.items = [];
+    this.start = 0;
+  }
+
+  push(item) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  toArray() {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+// Register a new run. The socket that started it (if any) is subscribed from
+// the first event. `userId` is who started it; server-side runs have none.
+function createRun({ requestId, sessionId, projectName, projectPath, cwd, userId }, subscriber = null) {
+  const run = {
+    requestId,
+    sessionId: sessionId || null,
+    // A resumed session can come back under a new ID; this keeps the one asked for
+    initialSessionId: sessionId || null,
+    projectName: projectName || null,
+    projectPath: projectPath || null,
+    cwd: cwd || null,
+    userId: userId || null,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    seq: 0,
+    events: new RingBuffer(RUN_EVENT_BUFFER_SIZE),
+    subscribers: new Set(subscriber ? [subscriber] : [])
+  };
+
+  runs.set(requestId, run);
+  if (run.sessionId) {
+    runsBySession.set(run.sessionId, run);
+  }
+  return run;
+}
+
+function getRun(requestId) {
+  return runs.get(requestId) || null;
+}
+
+function getRunBySession(sessionId) {
+  return runsBySession.get(sessionId) || null;
+}
+
+// Point a run at a (new) session ID, e.g. once the CLI reports it
+function setRunSession(run, sessionId) {
+  if (!sessionId || run.sessionId === sessionId) return;
+
+  if (run.sessionId && runsBySession.get(run.sessionId) === run) {
+    runsBySession.delete(run.sessionId);
+  }
+  run.sessionId = sessionId;
+  runsBySession.set(sessionId, run);
+}
+
+// A subscriber for runs nobody watches from a browser (e.g. scheduled ones):
+// it takes frames like a socket and hands them to `onFrame`
+function createHeadlessSink(onFrame) {
+  return {
+    OPEN: 1,
+    readyState: 1,
+    send: (data) => onFrame(JSON.parse(data))
+  };
+}
+
+function sendToSubscriber(ws, frame) {
+  if (ws.readyState !== ws.OPEN) return;
+  ws.send(JSON.stringify(frame));
+}
+
+// Number a frame, buffer it and fan it out to every subscriber
+function publish(run, frame) {
+  if (frame.sessionId) {
+    setRunSession(run, frame.sessionId);
+  }
+
+  run.seq += 1;
+  const event = {
+    ...frame,
+    requestId: run.requestId,
+    sessionId: frame.sessionId || run.sessionId,
+    seq: run.seq
+  };
+  run.events.push(event);
+
+  for (const ws of run.subscribers) {
+    sendToSubscriber(ws, event);
+  }
+  return event;
+}
+
+// Attach a socket to a run. Buffered events after `cursor` are replayed first;
+// without a cursor the socket only receives new events.
+function subscribe(run, ws, cursor) {
+  const events = run.events.toArray();
+  const fromSeq = typeof cursor === 'number' ? cursor : run.seq;
+  const missed = events.filter(event => event.seq > fromSeq);
+  const oldestSeq = events.length > 0 ? events[0].seq : run.seq + 1;
+
+  sendToSubscriber(ws, {
+    type: 'stream-resumed',
+    requestId: run.requestId,
+    sessionId: run.sessionId,
+    status: run.status,
+    cursor: fromSeq,
+    latestSeq: run.seq,
+    // The client asked for events that have already fallen out of the buffer
+    truncated: fromSeq + 1 < oldestSeq
+  });
+
+  missed.forEach(event => sendToSubscriber(ws, event));
+  run.subscribers.add(ws);
+}
+
+// Drop a closed socket from every run it was following
+function unsubscribeAll(ws) {
+  for (const run of runs.values()) {
+    run.subscribers.delete(ws);
+  }
+}
+
+// Mark a run as finished and forget it after the retention window, leaving
+// time for a reconnecting client to pick up the final frames
+function finishRun(run, status) {
+  run.status = status;
+  run.completedAt = new Date().toISOString();
+  finishListeners.forEach(listener => listener(describeRun(run)));
+
+  setTimeout(() => {
+    runs.delete(run.requestId);
+    if (run.sessionId && runsBySession.get(run.sessionId) === run) {
+      runsBySession.delete(run.sessionId);
+    }
+  }, FINISHED_RUN_RETENTION_MS).unref();
+}
+
+// Public summary of a run (no buffer or sockets)
+function describeRun(run) {
+  return {
+    requestId: run.requestId,
+    sessionId: run.sessionId,
+    initialSessionId: run.initialSessionId,
+    projectName: run.projectName,
+    projectPath: run.projectPath,
+    status: run.status,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    latestSeq: run.seq,
+    usage: run.usage || null
+  };
+}
+
+function listRuns() {
+  return [...runs.values()].map(describeRun);
+}
+
+// Called with the summary of every run as it finishes
+function onRunFinished(listener) {
+  finishListeners.add(listener);
+  return () => finishListeners.delete(listener);
+}
+
+module.exports = {
+  createRun,
+  getRun,
+  getRunBySession,
+  publish,
+  subscribe,
+  unsubscribeAll,
+  finishRun,
+  describeRun,
+  listRuns,
+  onRunFinished,
+  createHeadlessSink
+};
@@ -0,0 +1,117 @@
+/**
+ * Path sandboxing for project file endpoints
+ *
+ * File reads and writes are confined to the project's root directory plus any
+ * extra roots explicitly allowed for that project in project-config.json.
+ * Paths are checked after resolving ".." segments and symlinks, so a link
+ * inside the project that points elsewhere is rejected too.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const { extractProjectDirectory } = require('./projects');
+const { loadProjectConfig, updateProjectConfig } = require('./project-config');
+
+class PathAccessError extends Error {
+  constructor(message, requestedPath) {
+    super(message);
+    this.name = 'PathAccessError';
+    this.code = 'PATH_OUTSIDE_PROJECT';
+    this.statusCode = 403;
+    this.requestedPath = requestedPath;
+  }
+}
+
+// Resolve symlinks for a path that may not exist yet (e.g. a file about to be
+// created) by resolving its closest existing ancestor
+async function realpathAllowMissing(targetPath) {
+  const missing = [];
+  let current = targetPath;
+
+  while (true) {
+    try {
+      const resolved = await fs.realpath(current);
+      return path.join(resolved, ...missing.reverse());
+    } catch (error) {
+      if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') {
+        throw error;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return targetPath;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+// Whether `target` is `root` or inside it. Only a leading ".." segment leaves
+// the root: a child named e.g. "..cache" is inside it. On Windows, a target on
+// another drive has an absolute relative path.
+function isWithin(root, target) {
+  const relative = path.relative(root, target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Extra roots configured for a project, beyond its own directory
+async function getAllowedRoots(projectName) {
+  const config = await loadProjectConfig();
+  return config[projectName]?.allowedRoots || [];
+}
+
+async function setAllowedRoots(projectName, roots) {
+  if (!Array.isArray(roots) || roots.some(root => typeof root !== 'string' || !path.isAbsolute(root))) {
+    throw new Error('Allowed roots must be a list of absolute paths');
+  }
+
+  return updateProjectConfig((config) => {
+    config[projectName] = {
+      ...config[projectName],
+      allowedRoots: [...new Set(roots.map(root => path.resolve(root)))]
+    };
+    return config[projectName].allowedRoots;
+  });
+}
+
+// Resolve a requested path against the project and make sure it stays inside
+// one of its permitted roots. Relative paths are taken relative to the project
+// root. Returns the resolved real path, or throws PathAccessError.
+async function resolveProjectPath(projectName, requestedPath) {
+  if (!requestedPath || typeof requestedPath !== 'string') {
+    throw new Error('Invalid file path');
+  }
+
+  const projectRoot = await extractProjectDirectory(projectName);
+  const roots = [projectRoot, ...(await getAllowedRoots(projectName))];
+  const realRoots = await Promise.all(roots.map(root => realpathAllowMissing(path.resolve(root))));
+
+  const absolutePath = path.resolve(projectRoot, requestedPath);
+  const realPath = await realpathAllowMissing(absolutePath);
+
+  if (!realRoots.some(root => isWithin(root, realPath))) {
+    console.warn('🔒 Blocked access outside project root:', projectName, requestedPath);
+    throw new PathAccessError('Access to paths outside the project is not allowed', requestedPath);
+  }
+
+  return realPath;
+}
+
+// Build the standard 403 payload (matches ErrorResponse in types/api.ts)
+function pathAccessErrorResponse(error) {
+  return {
+    error: error.message,
+    code: error.code,
+    details: { path: error.requestedPath },
+    timestamp: new Date().toISOString()
+  };
+}
+
+module.exports = {
+  PathAccessError,
+  isWithin,
+  resolveProjectPath,
+  getAllowedRoots,
+  setAllowedRoots,
+  pathAccessErrorResponse
+};
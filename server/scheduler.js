@@ -0,0 +1,432 @@
+/**
+ * Scheduled runs
+ *
+ * Jobs run a prompt in a project on a cron schedule, with no browser needed:
+ * each run starts a new headless session whose frames go to a sink that keeps
+ * the output. A job sets its own model and tool permissions; since nobody is
+ * there to answer permission prompts, tools it doesn't allow are denied.
+ * Only admins may schedule a job that skips permission prompts. A job's
+ * project is checked against its permitted roots (see sandbox.js) when the
+ * job is saved and again when it runs.
+ * Jobs and the last runs of each are kept in ~/.claude/calfins-schedules.json.
+ * A job whose previous run is still going skips its turn.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const crypto = require('crypto');
+const { spawnClaude } = require('./claude-cli');
+const { createHeadlessSink } = require('./run-registry');
+const { isKnownProject } = require('./projects');
+const { resolveProjectPath } = require('./sandbox');
+const { parseCron, matchesCron, getNextRun } = require('./cron');
+const { validateModel } = require('./claude-options');
+
+const MAX_RUNS_PER_JOB = 20;
+const MAX_OUTPUT_LENGTH = 20000;
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_NAME_LENGTH = 100;
+
+const activeRuns = new Map(); // jobId -> run in progress
+let storeCache = null;
+let storeUpdate = Promise.resolve();
+let tickTimer = null;
+let lastTickMinute = null;
+
+class ScheduleError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.statusCode = statusCode;
+  }
+}
+
+function getStorePath() {
+  return path.join(process.env.HOME, '.claude', 'calfins-schedules.json');
+}
+
+async function loadStore() {
+  if (storeCache) {
+    return storeCache;
+  }
+
+  try {
+    storeCache = JSON.parse(await fs.readFile(getStorePath(), 'utf8'));
+  } catch (error) {
+    // No jobs saved yet
+    storeCache = { jobs: [], runs: {} };
+  }
+  storeCache.jobs = storeCache.jobs || [];
+  storeCache.runs = storeCache.runs || {};
+  return storeCache;
+}
+
+async function saveStore(store) {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  // Written aside and renamed into place, so the file is never half-written
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2), 'utf8');
+  await fs.rename(tempPath, storePath);
+  storeCache = store;
+}
+
+// Run a read-modify-write of the store after the ones already in progress, so
+// e.g. a run finishing while its job is edited can't undo the edit
+function updateStore(update) {
+  const result = storeUpdate.then(async () => update(await loadStore()));
+  storeUpdate = result.catch(() => {});
+  return result;
+}
+
+function normalizeToolList(value, key) {
+  if (!Array.isArray(value) || value.some(tool => typeof tool !== 'string')) {
+    throw new ScheduleError(`${key} must be a list of strings`);
+  }
+  return [...new Set(value.map(tool => tool.trim()).filter(Boolean))];
+}
+
+function normalizeText(value, key, maxLength) {
+  if (typeof value !== 'string' || !value.trim() || value.length > maxLength) {
+    throw new ScheduleError(`${key} must be text of at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+// A job's fields after applying `changes`, checked; unknown keys are ignored
+function validateJob(changes, current = {}) {
+  const job = { ...current };
+
+  if (changes.name !== undefined || !current.name) {
+    job.name = normalizeText(changes.name, 'name', MAX_NAME_LENGTH);
+  }
+  if (changes.prompt !== undefined || !current.prompt) {
+    job.prompt = normalizeText(changes.prompt, 'prompt', MAX_PROMPT_LENGTH);
+  }
+  if (changes.cron !== undefined || !current.cron) {
+    try {
+      parseCron(changes.cron);
+    } catch (error) {
+      throw new ScheduleError(error.message);
+    }
+    job.cron = changes.cron.trim();
+  }
+  if (changes.projectName !== undefined || !current.projectName) {
+    if (typeof changes.projectName !== 'string' || !changes.projectName) {
+      throw new ScheduleError('A job needs a project');
+    }
+    job.projectName = changes.projectName;
+  }
+  if (changes.model !== undefined) {
+    try {
+      job.model = changes.model ? validateModel(changes.model) : null;
+    } catch (error) {
+      throw new ScheduleError(error.message);
+    }
+  }
+  if (changes.allowedTools !== undefined) {
+    job.allowedTools = normalizeToolList(changes.allowedTools, 'allowedTools');
+  }
+  if (changes.disallowedTools !== undefined) {
+    job.disallowedTools = normalizeToolList(changes.disallowedTools, 'disallowedTools');
+  }
+  for (const key of ['skipPermissions', 'enabled']) {
+    if (changes[key] !== undefined) {
+      if (typeof changes[key] !== 'boolean') {
+        throw new ScheduleError(`${key} must be true or false`);
+      }
+      job[key] = changes[key];
+    }
+  }
+
+  return {
+    model: null,
+    allowedTools: [],
+    disallowedTools: [],
+    skipPermissions: false,
+    enabled: true,
+    ...job
+  };
+}
+
+// A job that skips permission prompts runs any tool unasked, so only admins
+// may turn that on or change what such a job runs; anyone can still pause it
+// or turn the skip off
+function checkSkipPermissions(job, current, user) {
+  if (!job.skipPermissions || user?.role === 'admin') return;
+
+  const changed = Object.keys(job)
+    .filter(key => key !== 'enabled' && JSON.stringify(job[key]) !== JSON.stringify(current[key]));
+  if (!current.skipPermissions || changed.length > 0) {
+    throw new ScheduleError('Only admins can schedule jobs that skip permission prompts', 403);
+  }
+}
+
+// The directory a job's project runs in, which must be inside the project's
+// permitted roots and exist
+async function resolveJobDirectory(projectName) {
+  if (!(await isKnownProject(projectName))) {
+    throw new ScheduleError(`Unknown project: ${projectName}`);
+  }
+
+  let cwd;
+  try {
+    cwd = await resolveProjectPath(projectName, '.');
+  } catch (error) {
+    throw new ScheduleError(error.message, error.statusCode || 400);
+  }
+  const stats = await fs.stat(cwd).catch(() => null);
+  if (!stats || !stats.isDirectory()) {
+    throw new ScheduleError(`Project path not found: ${cwd}`);
+  }
+  return cwd;
+}
+
+// A run without its output, for lists
+function summarizeRun({ output, ...run }) {
+  return run;
+}
+
+// A job as the API returns it, with its next and latest run
+function describeJob(job, store) {
+  const activeRun = activeRuns.get(job.id);
+  const lastRun = activeRun || (store.runs[job.id] || [])[0] || null;
+  const nextRun = job.enabled ? getNextRun(parseCron(job.cron)) : null;
+  return {
+    ...job,
+    nextRunAt: nextRun ? nextRun.toISOString() : null,
+    lastRun: lastRun ? summarizeRun(lastRun) : null
+  };
+}
+
+async function listJobs() {
+  const store = await loadStore();
+  return store.jobs.map(job => describeJob(job, store));
+}
+
+async function getJob(jobId) {
+  const store = await loadStore();
+  const job = store.jobs.find(candidate => candidate.id === jobId);
+  if (!job) {
+    throw new ScheduleError('Scheduled job not found', 404);
+  }
+  return job;
+}
+
+/**
+ * Save a new job. `user` is who asks; see checkSkipPermissions.
+ */
+async function createJob(input, user = null) {
+  const fields = validateJob(input || {});
+  checkSkipPermissions(fields, {}, user);
+  await resolveJobDirectory(fields.projectName);
+
+  return updateStore(async (store) => {
+    const now = new Date().toISOString();
+    const job = {
+      id: crypto.randomUUID(),
+      ...fields,
+      createdAt: now,
+      updatedAt: now
+    };
+    store.jobs.push(job);
+    await saveStore(store);
+    console.log('⏰ Scheduled job created:', job.name, `(${job.cron})`);
+    return describeJob(job, store);
+  });
+}
+
+async function updateJob(jobId, changes, user = null) {
+  return updateStore(async (store) => {
+    const index = store.jobs.findIndex(job => job.id === jobId);
+    if (index === -1) {
+      throw new ScheduleError('Scheduled job not found', 404);
+    }
+    const current = store.jobs[index];
+    const fields = validateJob(changes || {}, current);
+    checkSkipPermissions(fields, current, user);
+    if (fields.projectName !== current.projectName) {
+      await resolveJobDirectory(fields.projectName);
+    }
+
+    const job = { ...fields, updatedAt: new Date().toISOString() };
+    store.jobs[index] = job;
+    await saveStore(store);
+    return describeJob(job, store);
+  });
+}
+
+async function deleteJob(jobId) {
+  return updateStore(async (store) => {
+    await getJob(jobId);
+    store.jobs = store.jobs.filter(job => job.id !== jobId);
+    delete store.runs[jobId];
+    await saveStore(store);
+  });
+}
+
+// Most recent first, including one still in progress
+async function getJobRuns(jobId) {
+  const store = await loadStore();
+  await getJob(jobId);
+  const activeRun = activeRuns.get(jobId);
+  return [...(activeRun ? [activeRun] : []), ...(store.runs[jobId] || [])];
+}
+
+async function recordJobRun(run) {
+  return updateStore(async (store) => {
+    if (!store.jobs.some(job => job.id === run.jobId)) return;
+    store.runs[run.jobId] = [run, ...(store.runs[run.jobId] || [])].slice(0, MAX_RUNS_PER_JOB);
+    await saveStore(store);
+  });
+}
+
+// Text of the run as it streams: the final result if the CLI reports one,
+// otherwise what the assistant said, plus anything written to stderr
+function collectFrame(run, frame) {
+  if (frame.sessionId) {
+    run.sessionId = frame.sessionId;
+  }
+  if (frame.type === 'claude-response') {
+    const data = frame.data || {};
+    if (data.type === 'result' && typeof data.result === 'string') {
+      run.result = data.result;
+    } else if (data.type === 'assistant' && Array.isArray(data.message?.content)) {
+      for (const part of data.message.content) {
+        if (part.type === 'text' && part.text) run.texts.push(part.text);
+      }
+    }
+  } else if (frame.type === 'claude-error' && frame.error) {
+    run.errors.push(frame.error);
+  } else if (frame.type === 'claude-complete') {
+    run.exitCode = frame.exitCode;
+  }
+}
+
+function finishOutput(run) {
+  let output = run.result !== null ? run.result : run.texts.join('\n\n');
+  if (run.errors.length > 0) {
+    output = `${output}${output ? '\n\n' : ''}stderr:\n${run.errors.join('')}`;
+  }
+  return output.length > MAX_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_OUTPUT_LENGTH)}\n… (output truncated)`
+    : output;
+}
+
+/**
+ * Start a run of a job now. Resolves with the run as it starts; the run is
+ * recorded in the job's history when it finishes.
+ */
+async function runJob(jobId, trigger = 'manual') {
+  const job = await getJob(jobId);
+  if (activeRuns.has(job.id)) {
+    throw new ScheduleError('This job is already running', 409);
+  }
+
+  const run = {
+    id: crypto.randomUUID(),
+    jobId: job.id,
+    trigger,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    completedAt: null,
+    exitCode: null,
+    sessionId: null,
+    output: ''
+  };
+  activeRuns.set(job.id, run);
+  console.log(`⏰ Running scheduled job "${job.name}" (${trigger})`);
+
+  const collected = { sessionId: null, result: null, texts: [], errors: [], exitCode: null };
+  const finish = async (status, error) => {
+    if (error && collected.exitCode === null) {
+      collected.errors.push(error.message);
+    }
+    Object.assign(run, {
+      status,
+      completedAt: new Date().toISOString(),
+      exitCode: collected.exitCode,
+      sessionId: collected.sessionId,
+      output: finishOutput(collected)
+    });
+    activeRuns.delete(job.id);
+    await recordJobRun(run).catch(saveError => console.error('❌ Error saving scheduled run:', saveError));
+  };
+
+  let cwd;
+  try {
+    cwd = await resolveJobDirectory(job.projectName);
+  } catch (error) {
+    await finish('failed', error);
+    return summarizeRun(run);
+  }
+
+  const sink = createHeadlessSink(frame => {
+    collectFrame(collected, frame);
+    // So the session can be opened while the run is still going
+    run.sessionId = collected.sessionId;
+  });
+  spawnClaude(job.prompt, {
+    projectName: job.projectName,
+    projectPath: cwd,
+    cwd,
+    model: job.model || undefined
+  }, sink, {
+    headless: true,
+    toolsSettings: {
+      allowedTools: job.allowedTools,
+      disallowedTools: job.disallowedTools,
+      skipPermissions: job.skipPermissions
+    }
+  })
+    .then(() => finish('completed'))
+    .catch(error => finish('failed', error))
+    .catch(error => console.error('❌ Error finishing scheduled run:', error));
+
+  return summarizeRun(run);
+}
+
+// Start the jobs due in the current minute
+async function runDueJobs(now) {
+  // A timer firing twice within a minute mustn't start jobs twice
+  const minute = Math.floor(now.getTime() / 60000);
+  if (minute === lastTickMinute) return;
+  lastTickMinute = minute;
+
+  const store = await loadStore();
+  for (const job of store.jobs) {
+    if (!job.enabled || activeRuns.has(job.id)) continue;
+    try {
+      if (matchesCron(parseCron(job.cron), now)) {
+        await runJob(job.id, 'schedule');
+      }
+    } catch (error) {
+      console.error(`❌ Error starting scheduled job "${job.name}":`, error.message);
+    }
+  }
+}
+
+// Check for due jobs at the start of every minute while the server runs
+function startScheduler() {
+  if (tickTimer) return;
+  const scheduleTick = () => {
+    const now = new Date();
+    tickTimer = setTimeout(() => {
+      runDueJobs(new Date()).catch(error => console.error('❌ Error running scheduled jobs:', error));
+      scheduleTick();
+    }, 60000 - (now.getSeconds() * 1000 + now.getMilliseconds()));
+    tickTimer.unref();
+  };
+  scheduleTick();
+}
+
+module.exports = {
+  ScheduleError,
+  listJobs,
+  createJob,
+  updateJob,
+  deleteJob,
+  getJobRuns,
+  runJob,
+  startScheduler
+};
@@ -0,0 +1,382 @@
+/**
+ * Full-text search over session history
+ *
+ * An in-memory inverted index of every message in the session JSONL files
+ * under ~/.claude/projects. One document per JSONL entry with text in it:
+ * user prompts, assistant replies (including tool calls) and tool results.
+ *
+ * The index is built on the first search. After that the projects watcher
+ * marks files as changed or removed and they are re-read before the next
+ * search, so nothing is rescanned unless it changed.
+ */
+
+const fs = require('fs').promises;
+const { createReadStream } = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+const MAX_DOCUMENT_LENGTH = 20000;
+const MAX_TOOL_INPUT_LENGTH = 2000;
+const MAX_TOKEN_LENGTH = 64;
+const SNIPPET_RADIUS = 80;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const documents = new Map(); // docId -> document
+const postings = new Map(); // token -> Set<docId>
+const files = new Map(); // filePath -> { mtimeMs, size, docIds }
+const sessionSummaries = new Map(); // `${projectName}/${sessionId}` -> summary
+const changedFiles = new Set();
+const removedFiles = new Set();
+
+let nextDocId = 1;
+let buildPromise = null;
+let updatePromise = Promise.resolve();
+
+function getProjectsDir() {
+  return path.join(process.env.HOME, '.claude', 'projects');
+}
+
+function tokenize(text) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [])
+    .filter(token => token.length <= MAX_TOKEN_LENGTH);
+}
+
+function stringifyContent(content) {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part === 'string' ? part : part?.text || '')).filter(Boolean).join('\n');
+  }
+  return content ? JSON.stringify(content) : '';
+}
+
+/**
+ * Searchable documents for one JSONL entry. Tool results are attributed to the
+ * entry holding the matching tool call, which is where the chat shows them.
+ */
+function entryDocuments(entry, toolCalls) {
+  const message = entry.message;
+  if (!entry.sessionId || !entry.uuid || !message?.content) return [];
+
+  const base = { sessionId: entry.sessionId, timestamp: entry.timestamp || null };
+
+  if (typeof message.content === 'string') {
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    return [{ ...base, messageId: entry.uuid, role, toolNames: [], text: message.content }];
+  }
+  if (!Array.isArray(message.content)) return [];
+
+  const texts = [];
+  const toolNames = [];
+  const results = [];
+
+  for (const part of message.content) {
+    if (part.type === 'text' && part.text) {
+      texts.push(part.text);
+    } else if (part.type === 'tool_use') {
+      toolCalls.set(part.id, { name: part.name, messageId: entry.uuid });
+      toolNames.push(part.name);
+      texts.push(`${part.name} ${JSON.stringify(part.input || {}).slice(0, MAX_TOOL_INPUT_LENGTH)}`);
+    } else if (part.type === 'tool_result') {
+      const call = toolCalls.get(part.tool_use_id);
+      const text = stringifyContent(part.content);
+      if (text) {
+        results.push({
+          ...base,
+          messageId: call?.messageId || entry.uuid,
+          role: 'tool',
+          toolNames: call ? [call.name] : [],
+          text
+        });
+      }
+    }
+  }
+
+  const docs = results;
+  if (texts.length > 0) {
+    docs.unshift({
+      ...base,
+      messageId: entry.uuid,
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      toolNames,
+      text: texts.join('\n')
+    });
+  }
+  return docs;
+}
+
+function addDocument(doc) {
+  const docId = nextDocId++;
+  doc.text = doc.text.slice(0, MAX_DOCUMENT_LENGTH);
+  documents.set(docId, doc);
+  for (const token of new Set(tokenize(doc.text))) {
+    if (!postings.has(token)) {
+      postings.set(token, new Set());
+    }
+    postings.get(token).add(docId);
+  }
+  return docId;
+}
+
+function removeDocument(docId) {
+  const doc = documents.get(docId);
+  if (!doc) return;
+  for (const token of new Set(tokenize(doc.text))) {
+    const ids = postings.get(token);
+    if (ids) {
+      ids.delete(docId);
+      if (ids.size === 0) postings.delete(token);
+    }
+  }
+  documents.delete(docId);
+}
+
+function dropFile(filePath) {
+  const state = files.get(filePath);
+  if (!state) return;
+  state.docIds.forEach(removeDocument);
+  files.delete(filePath);
+}
+
+async function indexFile(filePath) {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    dropFile(filePath);
+    return;
+  }
+
+  const existing = files.get(filePath);
+  if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) {
+    return;
+  }
+
+  const projectName = path.basename(path.dirname(filePath));
+  const docs = [];
+  const toolCalls = new Map();
+
+  const rl = readline.createInterface({
+    input: createReadStream(filePath),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    // Same summary rules as parseJsonlSessions
+    if (entry.sessionId) {
+      const key = `${projectName}/${entry.sessionId}`;
+      if (entry.type === 'summary' && entry.summary) {
+        sessionSummaries.set(key, entry.summary);
+      } else if (!sessionSummaries.has(key) && entry.message?.role === 'user' &&
+                 typeof entry.message.content === 'string' && entry.message.content &&
+                 !entry.message.content.startsWith('<command-name>')) {
+        const content = entry.message.content;
+        sessionSummaries.set(key, content.length > 50 ? content.substring(0, 50) + '...' : content);
+      }
+    }
+
+    docs.push(...entryDocuments(entry, toolCalls));
+  }
+
+  dropFile(filePath);
+  files.set(filePath, {
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    docIds: docs.map(doc => addDocument({ ...doc, projectName }))
+  });
+}
+
+async function buildIndex() {
+  const startTime = Date.now();
+  let projectNames = [];
+  try {
+    const entries = await fs.readdir(getProjectsDir(), { withFileTypes: true });
+    projectNames = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+  } catch {
+    return;
+  }
+
+  for (const projectName of projectNames) {
+    const projectDir = path.join(getProjectsDir(), projectName);
+    const names = await fs.readdir(projectDir).catch(() => []);
+    for (const name of names.filter(file => file.endsWith('.jsonl'))) {
+      try {
+        await indexFile(path.join(projectDir, name));
+      } catch (error) {
+        console.warn(`Could not index ${name}:`, error.message);
+      }
+    }
+  }
+
+  console.log(`🔎 Search index built: ${documents.size} messages in ${files.size} files (${Date.now() - startTime}ms)`);
+}
+
+// Apply watcher changes queued since the last search, one batch at a time
+function applyPendingChanges() {
+  updatePromise = updatePromise.then(async () => {
+    for (const filePath of removedFiles) {
+      dropFile(filePath);
+    }
+    removedFiles.clear();
+
+    const pending = [...changedFiles];
+    changedFiles.clear();
+    for (const filePath of pending) {
+      try {
+        await indexFile(filePath);
+      } catch (error) {
+        console.warn(`Could not index ${filePath}:`, error.message);
+      }
+    }
+  });
+  return updatePromise;
+}
+
+async function ensureIndex() {
+  if (!buildPromise) {
+    buildPromise = buildIndex().catch(error => {
+      console.error('❌ Failed to build search index:', error);
+      buildPromise = null;
+    });
+  }
+  await buildPromise;
+  await applyPendingChanges();
+}
+
+/**
+ * Tell the index about a watcher event under the projects folder. Changes are
+ * picked up by the next search; nothing happens before the index is built.
+ */
+function notifyFileChange(eventType, filePath) {
+  if (!buildPromise) return;
+
+  if (eventType === 'unlinkDir') {
+    for (const indexed of files.keys()) {
+      if (indexed.startsWith(filePath + path.sep)) {
+        changedFiles.delete(indexed);
+        removedFiles.add(indexed);
+      }
+    }
+    return;
+  }
+  if (!filePath.endsWith('.jsonl')) return;
+
+  if (eventType === 'unlink') {
+    changedFiles.delete(filePath);
+    removedFiles.add(filePath);
+  } else if (eventType === 'add' || eventType === 'change') {
+    removedFiles.delete(filePath);
+    changedFiles.add(filePath);
+  }
+}
+
+// Documents containing every term; the last term also matches as a prefix
+// so results show up while the query is still being typed
+function matchDocuments(terms) {
+  let candidates = null;
+
+  terms.forEach((term, index) => {
+    let ids;
+    if (index === terms.length - 1) {
+      ids = new Set();
+      for (const [token, tokenIds] of postings) {
+        if (token.startsWith(term)) {
+          tokenIds.forEach(id => ids.add(id));
+        }
+      }
+    } else {
+      ids = postings.get(term) || new Set();
+    }
+
+    candidates = candidates === null
+      ? ids
+      : new Set([...candidates].filter(id => ids.has(id)));
+  });
+
+  return candidates || new Set();
+}
+
+// A window of text around the first match, with the matched ranges
+function buildSnippet(text, terms) {
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+
+  const matches = [];
+  const snippetLower = snippet.toLowerCase();
+  for (const term of terms) {
+    let position = snippetLower.indexOf(term);
+    while (position >= 0) {
+      matches.push([position, position + term.length]);
+      position = snippetLower.indexOf(term, position + term.length);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  return { snippet, matches };
+}
+
+/**
+ * Search messages across all projects.
+ * @param {{ q: string, projectName?: string, from?: string, to?: string,
+ *   role?: string, toolName?: string, limit?: number }} query
+ *   from/to are inclusive YYYY-MM-DD dates
+ */
+async function search({ q, projectName, from, to, role, toolName, limit = DEFAULT_LIMIT }) {
+  const startTime = Date.now();
+  await ensureIndex();
+
+  const terms = [...new Set(tokenize(q))];
+  if (terms.length === 0) {
+    return { results: [], total: 0, tookMs: Date.now() - startTime };
+  }
+
+  const wantedTool = toolName ? toolName.toLowerCase() : null;
+  const matches = [];
+
+  for (const docId of matchDocuments(terms)) {
+    const doc = documents.get(docId);
+    if (!doc) continue;
+    if (projectName && doc.projectName !== projectName) continue;
+    if (role && doc.role !== role) continue;
+    if (wantedTool && !doc.toolNames.some(name => name.toLowerCase() === wantedTool)) continue;
+
+    const day = (doc.timestamp || '').slice(0, 10);
+    if ((from && (!day || day < from)) || (to && (!day || day > to))) continue;
+
+    matches.push(doc);
+  }
+
+  matches.sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''));
+
+  const results = matches.slice(0, Math.min(limit, MAX_LIMIT)).map(doc => ({
+    projectName: doc.projectName,
+    sessionId: doc.sessionId,
+    sessionSummary: sessionSummaries.get(`${doc.projectName}/${doc.sessionId}`) || null,
+    messageId: doc.messageId,
+    role: doc.role,
+    toolNames: doc.toolNames,
+    timestamp: doc.timestamp,
+    ...buildSnippet(doc.text, terms)
+  }));
+
+  return { results, total: matches.length, tookMs: Date.now() - startTime };
+}
+
+module.exports = {
+  search,
+  notifyFileChange
+};
@@ -0,0 +1,303 @@
+/**
+ * Session export
+ *
+ * Turns a session's JSONL entries into a document: Markdown, a self-contained
+ * HTML page for sharing, or JSON. Entries are first folded into turns - one per
+ * user or assistant message - with each tool call carrying its result, so the
+ * three formats render the same conversation.
+ */
+
+const EXPORT_FORMATS = ['md', 'html', 'json'];
+// Tool output beyond this is cut; exports are for reading, not archiving
+const MAX_RESULT_LENGTH = 20000;
+
+function resultText(content) {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part === 'string' ? part : part?.text || '')).filter(Boolean).join('\n');
+  }
+  return content ? JSON.stringify(content, null, 2) : '';
+}
+
+function truncate(text) {
+  return text.length > MAX_RESULT_LENGTH
+    ? `${text.slice(0, MAX_RESULT_LENGTH)}\n… (${text.length - MAX_RESULT_LENGTH} more characters)`
+    : text;
+}
+
+/**
+ * Fold JSONL entries into turns. User entries that only carry tool results
+ * are attached to the tool calls they answer instead of becoming turns.
+ * @returns {{ id, role, timestamp, blocks: ({ type: 'text', text } |
+ *   { type: 'tool', id, name, input, result, isError })[] }[]}
+ */
+function buildTurns(entries) {
+  const turns = [];
+  const toolBlocks = new Map(); // tool_use id -> block
+
+  for (const entry of entries) {
+    const message = entry.message;
+    if (entry.isMeta || !message?.content || (message.role !== 'user' && message.role !== 'assistant')) continue;
+
+    const blocks = [];
+    const parts = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : Array.isArray(message.content) ? message.content : [];
+
+    for (const part of parts) {
+      if (part.type === 'text' && part.text?.trim()) {
+        blocks.push({ type: 'text', text: part.text });
+      } else if (part.type === 'tool_use') {
+        const block = { type: 'tool', id: part.id, name: part.name, input: part.input || {}, result: null, isError: false };
+        toolBlocks.set(part.id, block);
+        blocks.push(block);
+      } else if (part.type === 'tool_result') {
+        const block = toolBlocks.get(part.tool_use_id);
+        if (block) {
+          block.result = truncate(resultText(part.content));
+          block.isError = Boolean(part.is_error);
+        }
+      }
+    }
+
+    if (blocks.length === 0) continue;
+
+    // The CLI writes one entry per content block; keep a reply in one turn
+    const previous = turns[turns.length - 1];
+    if (message.role === 'assistant' && previous?.role === 'assistant' && previous.messageId && previous.messageId === message.id) {
+      previous.blocks.push(...blocks);
+      continue;
+    }
+
+    turns.push({
+      id: entry.uuid || null,
+      messageId: message.id || null,
+      role: message.role,
+      timestamp: entry.timestamp || null,
+      blocks
+    });
+  }
+
+  return turns.map(({ messageId, ...turn }) => turn);
+}
+
+// Unified-style lines for an Edit, MultiEdit or Write call
+function diffLines(name, input) {
+  const lines = [];
+  const addChange = (oldText, newText) => {
+    if (oldText) oldText.split('\n').forEach(line => lines.push({ kind: 'removed', text: line }));
+    if (newText) newText.split('\n').forEach(line => lines.push({ kind: 'added', text: line }));
+  };
+
+  if (name === 'Edit') {
+    addChange(input.old_string, input.new_string);
+  } else if (name === 'MultiEdit') {
+    (input.edits || []).forEach((edit, index) => {
+      if (index > 0) lines.push({ kind: 'separator', text: '…' });
+      addChange(edit.old_string, edit.new_string);
+    });
+  } else if (name === 'Write') {
+    addChange('', input.content);
+  }
+  return lines;
+}
+
+const DIFF_TOOLS = ['Edit', 'MultiEdit', 'Write'];
+
+function formatTime(timestamp) {
+  return timestamp ? new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : '';
+}
+
+function roleLabel(role) {
+  return role === 'user' ? 'User' : 'Claude';
+}
+
+// --- Markdown ---
+
+// A fence longer than any backtick run in the text
+function fence(text, language = '') {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+function toolMarkdown(block) {
+  const { name, input } = block;
+  const parts = [];
+
+  if (DIFF_TOOLS.includes(name)) {
+    parts.push(`**${name}** \`${input.file_path || ''}\``);
+    const diff = diffLines(name, input).map(line =>
+      line.kind === 'separator' ? line.text : `${line.kind === 'added' ? '+' : '-'} ${line.text}`
+    );
+    parts.push(fence(diff.join('\n'), 'diff'));
+  } else if (name === 'Bash') {
+    parts.push(`**Bash**${input.description ? ` - ${input.description}` : ''}`);
+    parts.push(fence(`$ ${input.command || ''}`, 'bash'));
+  } else if (name === 'TodoWrite' && Array.isArray(input.todos)) {
+    parts.push('**Todo list**');
+    parts.push(input.todos.map(todo =>
+      `- [${todo.status === 'completed' ? 'x' : ' '}] ${todo.content}${todo.status === 'in_progress' ? ' _(in progress)_' : ''}`
+    ).join('\n'));
+  } else {
+    parts.push(`**${name}**`);
+    parts.push(fence(JSON.stringify(input, null, 2), 'json'));
+  }
+
+  // Edit and TodoWrite results only confirm the call
+  const showResult = block.result && (block.isError || !(DIFF_TOOLS.includes(name) || name === 'TodoWrite'));
+  if (showResult) {
+    parts.push(`${block.isError ? 'Error' : 'Output'}:\n\n${fence(block.result)}`);
+  }
+  return parts.join('\n\n');
+}
+
+function toMarkdown(doc) {
+  const lines = [`# ${doc.title}`, ''];
+  lines.push(`- Project: ${doc.projectPath || doc.projectName}`);
+  lines.push(`- Session: \`${doc.sessionId}\``);
+  if (doc.turns.length > 0) {
+    lines.push(`- Started: ${formatTime(doc.turns[0].timestamp)}`);
+  }
+  lines.push(`- Exported: ${formatTime(doc.exportedAt)}`);
+
+  for (const turn of doc.turns) {
+    lines.push('', '---', '', `### ${roleLabel(turn.role)}${turn.timestamp ? ` · ${formatTime(turn.timestamp)}` : ''}`, '');
+    lines.push(turn.blocks.map(block => (block.type === 'text' ? block.text : toolMarkdown(block))).join('\n\n'));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// --- HTML ---
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toolHtml(block) {
+  const { name, input } = block;
+  let title = escapeHtml(name);
+  let body;
+
+  if (DIFF_TOOLS.includes(name)) {
+    title += ` <code>${escapeHtml(input.file_path || '')}</code>`;
+    body = `<pre class="diff">${diffLines(name, input).map(line =>
+      `<span class="${line.kind}">${escapeHtml(line.kind === 'separator' ? line.text : `${line.kind === 'added' ? '+' : '-'} ${line.text}`)}</span>`
+    ).join('')}</pre>`;
+  } else if (name === 'Bash') {
+    if (input.description) title += ` <span class="muted">${escapeHtml(input.description)}</span>`;
+    body = `<pre class="command">$ ${escapeHtml(input.command || '')}</pre>`;
+  } else if (name === 'TodoWrite' && Array.isArray(input.todos)) {
+    title = 'Todo list';
+    body = `<ul class="todos">${input.todos.map(todo =>
+      `<li class="${escapeHtml(todo.status)}">${escapeHtml(todo.content)}</li>`
+    ).join('')}</ul>`;
+  } else {
+    body = `<pre>${escapeHtml(JSON.stringify(input, null, 2))}</pre>`;
+  }
+
+  const showResult = block.result && (block.isError || !(DIFF_TOOLS.includes(name) || name === 'TodoWrite'));
+  if (showResult) {
+    body += `<details${block.isError ? ' open' : ''}><summary>${block.isError ? 'Error' : 'Output'}</summary>` +
+      `<pre class="${block.isError ? 'error' : 'output'}">${escapeHtml(block.result)}</pre></details>`;
+  }
+
+  return `<div class="tool"><div class="tool-name">${title}</div>${body}</div>`;
+}
+
+const HTML_STYLE = `
+  :root { color-scheme: light dark; --bg: #fff; --fg: #1f2937; --muted: #6b7280; --border: #e5e7eb; --user: #eff6ff; --code: #f3f4f6; --added: #dcfce7; --removed: #fee2e2; }
+  @media (prefers-color-scheme: dark) { :root { --bg: #111827; --fg: #e5e7eb; --muted: #9ca3af; --border: #374151; --user: #1e3a5f; --code: #1f2937; --added: #14532d; --removed: #7f1d1d; } }
+  body { margin: 0; background: var(--bg); color: var(--fg); font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 20px; }
+  h1 { font-size: 1.5rem; margin: 0 0 4px; }
+  .meta, .muted, time { color: var(--muted); font-size: 0.85rem; }
+  .turn { margin: 24px 0; padding: 12px 16px; border: 1px solid var(--border); border-radius: 8px; }
+  .turn.user { background: var(--user); }
+  .turn header { display: flex; justify-content: space-between; font-weight: 600; margin-bottom: 8px; }
+  .text { white-space: pre-wrap; word-wrap: break-word; margin: 8px 0; }
+  .tool { margin: 12px 0; border-left: 3px solid var(--border); padding-left: 12px; }
+  .tool-name { font-weight: 600; font-size: 0.9rem; margin-bottom: 4px; }
+  pre { background: var(--code); padding: 8px 12px; border-radius: 6px; overflow-x: auto; font: 13px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; margin: 4px 0; }
+  pre.diff span { display: block; }
+  pre.diff .added { background: var(--added); }
+  pre.diff .removed { background: var(--removed); }
+  pre.error { color: #dc2626; }
+  details summary { cursor: pointer; color: var(--muted); font-size: 0.85rem; }
+  ul.todos { list-style: none; padding-left: 0; margin: 4px 0; }
+  ul.todos li::before { content: "☐ "; }
+  ul.todos li.completed { text-decoration: line-through; color: var(--muted); }
+  ul.todos li.completed::before { content: "☑ "; }
+  ul.todos li.in_progress { font-weight: 600; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85em; }
+`;
+
+function toHtml(doc) {
+  const turns = doc.turns.map(turn => `
+    <section class="turn ${turn.role}">
+      <header><span>${roleLabel(turn.role)}</span>${turn.timestamp ? `<time datetime="${escapeHtml(turn.timestamp)}">${escapeHtml(formatTime(turn.timestamp))}</time>` : ''}</header>
+      ${turn.blocks.map(block => (block.type === 'text' ? `<div class="text">${escapeHtml(block.text)}</div>` : toolHtml(block))).join('\n')}
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(doc.title)}</h1>
+  <div class="meta">${escapeHtml(doc.projectPath || doc.projectName)} · ${escapeHtml(doc.sessionId)} · exported ${escapeHtml(formatTime(doc.exportedAt))}</div>
+  ${turns}
+</main>
+</body>
+</html>
+`;
+}
+
+// --- Entry point ---
+
+function fileNameFor(title, format) {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'session';
+  return `${base}.${format}`;
+}
+
+/**
+ * Render a session as a document.
+ * @param {{ projectName: string, projectPath?: string, sessionId: string,
+ *   summary?: string, entries: object[] }} session
+ * @param {'md' | 'html' | 'json'} format
+ * @returns {{ content: string, contentType: string, fileName: string }}
+ */
+function exportSession({ projectName, projectPath, sessionId, summary, entries }, format) {
+  const doc = {
+    title: summary || `Session ${sessionId}`,
+    projectName,
+    projectPath: projectPath || null,
+    sessionId,
+    exportedAt: new Date().toISOString(),
+    turns: buildTurns(entries)
+  };
+  const fileName = fileNameFor(doc.title, format);
+
+  if (format === 'html') {
+    return { content: toHtml(doc), contentType: 'text/html; charset=utf-8', fileName };
+  }
+  if (format === 'json') {
+    return { content: JSON.stringify(doc, null, 2), contentType: 'application/json; charset=utf-8', fileName };
+  }
+  return { content: toMarkdown(doc), contentType: 'text/markdown; charset=utf-8', fileName };
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  exportSession
+};
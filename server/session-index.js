@@ -0,0 +1,493 @@
+/**
+ * Session file index
+ *
+ * Keeps what the projects API needs from the session JSONL files under
+ * ~/.claude/projects - session summaries, message counts, last activity, cwd
+ * and the byte ranges of each session's lines - in
+ * ~/.claude/calfins-session-index.json.
+ *
+ * Files are checked by mtime and size on every query. A file that grew is
+ * read from where the last read stopped; only a file that was rewritten
+ * (shrunk, or the bytes before the old end changed) is read again in full.
+ */
+
+const fs = require('fs').promises;
+const { createReadStream } = require('fs');
+const path = require('path');
+const { isValidProjectName } = require('./project-names');
+
+const INDEX_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+// Bytes before the indexed end that must be unchanged for an append-only read
+const TAIL_CHECK_BYTES = 64;
+// Block size when reading a session backwards from its latest entry
+const READ_BACK_BYTES = 64 * 1024;
+
+let index = null; // { version, files: { 'projectName/file.jsonl': FileRecord } }
+let loadPromise = null;
+let saveTimer = null;
+const fileLocks = new Map(); // key -> Promise of the update in progress
+
+function getProjectsDir() {
+  return path.join(process.env.HOME, '.claude', 'projects');
+}
+
+function getIndexPath() {
+  return path.join(process.env.HOME, '.claude', 'calfins-session-index.json');
+}
+
+async function loadIndex() {
+  if (index) return index;
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const data = JSON.parse(await fs.readFile(getIndexPath(), 'utf8'));
+        index = data.version === INDEX_VERSION && data.files ? data : null;
+      } catch {
+        index = null;
+      }
+      if (!index) {
+        index = { version: INDEX_VERSION, files: {} };
+      }
+      return index;
+    })();
+  }
+  return loadPromise;
+}
+
+function scheduleSave() {
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(async () => {
+    try {
+      const indexPath = getIndexPath();
+      const tempPath = `${indexPath}.tmp`;
+      await fs.mkdir(path.dirname(indexPath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(index), 'utf8');
+      await fs.rename(tempPath, indexPath);
+    } catch (error) {
+      console.error('❌ Failed to save session index:', error);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+function emptyRecord() {
+  return {
+    mtimeMs: 0,
+    size: 0,
+    offset: 0,
+    tail: '',
+    sessions: {},
+    cwdCounts: {},
+    latestCwd: null,
+    latestCwdTime: 0
+  };
+}
+
+async function readBytes(filePath, start, end) {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Call onLine(text, start, end) for each line from `start` on, with byte
+ * offsets. A trailing line without a newline is only taken if it is complete
+ * JSON, since the writer may still be in the middle of it.
+ * @returns {Promise<number>} offset just past the last line taken
+ */
+async function readLines(filePath, start, onLine) {
+  let position = start;
+  let pending = Buffer.alloc(0);
+
+  for await (const chunk of createReadStream(filePath, { start })) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let lineStart = 0;
+    let newline;
+    while ((newline = pending.indexOf(0x0a, lineStart)) !== -1) {
+      onLine(pending.toString('utf8', lineStart, newline), position + lineStart, position + newline + 1);
+      lineStart = newline + 1;
+    }
+    pending = pending.subarray(lineStart);
+    position += lineStart;
+  }
+
+  if (pending.length > 0) {
+    const text = pending.toString('utf8');
+    try {
+      JSON.parse(text);
+      onLine(text, position, position + pending.length);
+      position += pending.length;
+    } catch {
+      // Incomplete line; read it again once it is finished
+    }
+  }
+
+  return position;
+}
+
+// Fold one JSONL line into a file record. Summaries come from a summary entry
+// or else the first user message, as the sidebar has always shown them.
+function indexLine(record, line, start, end) {
+  if (!line.trim()) return;
+
+  let entry;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return;
+  }
+
+  if (entry.cwd) {
+    record.cwdCounts[entry.cwd] = (record.cwdCounts[entry.cwd] || 0) + 1;
+    const time = new Date(entry.timestamp || 0).getTime();
+    if (time > record.latestCwdTime) {
+      record.latestCwdTime = time;
+      record.latestCwd = entry.cwd;
+    }
+  }
+
+  if (!entry.sessionId) return;
+
+  if (!record.sessions[entry.sessionId]) {
+    record.sessions[entry.sessionId] = {
+      id: entry.sessionId,
+      summary: 'New Session',
+      messageCount: 0,
+      lastActivity: null,
+      cwd: entry.cwd || '',
+      ranges: []
+    };
+  }
+  const session = record.sessions[entry.sessionId];
+
+  if (entry.type === 'summary' && entry.summary) {
+    session.summary = entry.summary;
+  } else if (entry.message?.role === 'user' && session.summary === 'New Session') {
+    // Use first user message as summary if no summary entry exists
+    const content = entry.message.content;
+    if (typeof content === 'string' && content.length > 0 && !content.startsWith('<command-name>')) {
+      session.summary = content.length > 50 ? content.substring(0, 50) + '...' : content;
+    }
+  }
+
+  session.messageCount++;
+  if (entry.timestamp) {
+    session.lastActivity = entry.timestamp;
+  }
+
+  // Consecutive lines of a session share one range
+  const lastRange = session.ranges[session.ranges.length - 1];
+  if (lastRange && lastRange[1] === start) {
+    lastRange[1] = end;
+  } else {
+    session.ranges.push([start, end]);
+  }
+}
+
+async function updateFile(key, filePath) {
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    if (index.files[key]) {
+      delete index.files[key];
+      scheduleSave();
+    }
+    return null;
+  }
+
+  let record = index.files[key];
+  if (record && record.mtimeMs === stats.mtimeMs && record.size === stats.size) {
+    return record;
+  }
+
+  // Only read the new bytes if everything indexed so far is still in place
+  let appendOnly = false;
+  if (record && stats.size >= record.offset) {
+    const tailStart = Math.max(0, record.offset - TAIL_CHECK_BYTES);
+    const tail = await readBytes(filePath, tailStart, record.offset);
+    appendOnly = tail.toString('base64') === record.tail;
+  }
+  if (!appendOnly) {
+    record = emptyRecord();
+  }
+
+  record.offset = await readLines(filePath, record.offset, (line, start, end) => indexLine(record, line, start, end));
+  record.tail = (await readBytes(filePath, Math.max(0, record.offset - TAIL_CHECK_BYTES), record.offset)).toString('base64');
+  record.mtimeMs = stats.mtimeMs;
+  record.size = stats.size;
+
+  index.files[key] = record;
+  scheduleSave();
+  return record;
+}
+
+// Bring one file's record up to date; concurrent callers share the update
+async function getFileRecord(projectName, fileName) {
+  await loadIndex();
+  const key = `${projectName}/${fileName}`;
+
+  while (fileLocks.has(key)) {
+    await fileLocks.get(key).catch(() => {});
+  }
+
+  const update = updateFile(key, path.join(getProjectsDir(), projectName, fileName));
+  fileLocks.set(key, update);
+  try {
+    return await update;
+  } finally {
+    fileLocks.delete(key);
+  }
+}
+
+/**
+ * Up-to-date records for every JSONL file of a project, newest file first.
+ * @returns {Promise<{ fileName: string, record: object }[]>}
+ */
+async function getProjectRecords(projectName) {
+  if (!isValidProjectName(projectName)) {
+    return [];
+  }
+  await loadIndex();
+
+  let fileNames;
+  try {
+    fileNames = (await fs.readdir(path.join(getProjectsDir(), projectName))).filter(file => file.endsWith('.jsonl'));
+  } catch {
+    fileNames = [];
+  }
+
+  // Forget files that are gone
+  const prefix = `${projectName}/`;
+  for (const key of Object.keys(index.files)) {
+    if (key.startsWith(prefix) && !fileNames.includes(key.slice(prefix.length))) {
+      delete index.files[key];
+      scheduleSave();
+    }
+  }
+
+  const records = [];
+  for (const fileName of fileNames) {
+    try {
+      const record = await getFileRecord(projectName, fileName);
+      if (record) records.push({ fileName, record });
+    } catch (error) {
+      console.warn(`Could not index ${fileName}:`, error.message);
+    }
+  }
+  return records.sort((a, b) => b.record.mtimeMs - a.record.mtimeMs);
+}
+
+function toSession(session, fallbackTime) {
+  return {
+    id: session.id,
+    summary: session.summary,
+    messageCount: session.messageCount,
+    lastActivity: session.lastActivity || new Date(fallbackTime).toISOString(),
+    cwd: session.cwd
+  };
+}
+
+const byLastActivity = (a, b) => new Date(b.lastActivity) - new Date(a.lastActivity);
+
+/**
+ * All sessions of a project, most recently active first. A session found in
+ * several files is taken from the most recently modified one.
+ */
+async function getProjectSessions(projectName) {
+  const sessions = new Map();
+  for (const { record } of await getProjectRecords(projectName)) {
+    for (const session of Object.values(record.sessions)) {
+      if (!sessions.has(session.id)) {
+        sessions.set(session.id, toSession(session, record.mtimeMs));
+      }
+    }
+  }
+  return [...sessions.values()].sort(byLastActivity);
+}
+
+// Sessions in a single JSONL file, most recently active first
+async function getFileSessions(filePath) {
+  const record = await getFileRecord(path.basename(path.dirname(filePath)), path.basename(filePath));
+  if (!record) return [];
+  return Object.values(record.sessions).map(session => toSession(session, record.mtimeMs)).sort(byLastActivity);
+}
+
+/**
+ * How often each working directory appears in a project's entries, and the
+ * most recent one.
+ */
+async function getProjectCwds(projectName) {
+  const counts = new Map();
+  let latestCwd = null;
+  let latestTime = 0;
+
+  for (const { record } of await getProjectRecords(projectName)) {
+    for (const [cwd, count] of Object.entries(record.cwdCounts)) {
+      counts.set(cwd, (counts.get(cwd) || 0) + count);
+    }
+    if (record.latestCwdTime > latestTime) {
+      latestTime = record.latestCwdTime;
+      latestCwd = record.latestCwd;
+    }
+  }
+
+  return { counts, latestCwd };
+}
+
+// Paths of the JSONL files holding a session, newest first
+async function findSessionFiles(projectName, sessionId) {
+  return (await getProjectRecords(projectName))
+    .filter(({ record }) => record.sessions[sessionId])
+    .map(({ fileName }) => path.join(getProjectsDir(), projectName, fileName));
+}
+
+// The session's entry on a JSONL line, if the line is one of its entries
+function parseSessionLine(line, sessionId) {
+  if (!line.trim()) return null;
+  try {
+    const entry = JSON.parse(line);
+    return entry.sessionId === sessionId ? entry : null;
+  } catch (parseError) {
+    console.warn('Error parsing line:', parseError.message);
+    return null;
+  }
+}
+
+// Every JSONL entry of a session, read straight from its byte ranges
+async function readSessionEntries(projectName, sessionId) {
+  const entries = [];
+
+  for (const { fileName, record } of await getProjectRecords(projectName)) {
+    const session = record.sessions[sessionId];
+    if (!session) continue;
+
+    const handle = await fs.open(path.join(getProjectsDir(), projectName, fileName), 'r');
+    try {
+      for (const [start, end] of session.ranges) {
+        const buffer = Buffer.alloc(end - start);
+        await handle.read(buffer, 0, buffer.length, start);
+        for (const line of buffer.toString('utf8').split('\n')) {
+          const entry = parseSessionLine(line, sessionId);
+          if (entry) entries.push(entry);
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  return entries;
+}
+
+// A session's entries in one file, last first, read a block at a time from
+// the end of its byte ranges
+async function* readFileEntriesBackward(filePath, ranges, sessionId) {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    for (let r = ranges.length - 1; r >= 0; r--) {
+      const [rangeStart, rangeEnd] = ranges[r];
+      let end = rangeEnd;
+      // Bytes after `end` whose line starts in an earlier block
+      let carry = Buffer.alloc(0);
+
+      while (end > rangeStart) {
+        const start = Math.max(rangeStart, end - READ_BACK_BYTES);
+        const block = Buffer.alloc(end - start);
+        await handle.read(block, 0, block.length, start);
+        const buffer = carry.length > 0 ? Buffer.concat([block, carry]) : block;
+
+        // Unless the block starts the range, its first line may start earlier
+        const firstLine = start > rangeStart ? buffer.indexOf(0x0a) + 1 : 0;
+        end = start;
+        if (start > rangeStart && firstLine === 0) {
+          // No line break yet: the whole line is longer than the block
+          carry = buffer;
+          continue;
+        }
+        carry = buffer.subarray(0, firstLine);
+
+        const lines = buffer.toString('utf8', firstLine).split('\n');
+        for (let i = lines.length - 1; i >= 0; i--) {
+          const entry = parseSessionLine(lines[i], sessionId);
+          if (entry) yield entry;
+        }
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+const entryTime = (entry) => new Date(entry.timestamp || 0).getTime() || 0;
+
+/**
+ * A session's entries, latest first, reading only as far back as the caller
+ * iterates. Lines are appended in time order, so entries from several files
+ * are merged by timestamp, in the same order a sort of every entry gives.
+ */
+async function* readSessionEntriesBackward(projectName, sessionId) {
+  const sources = [];
+  for (const { fileName, record } of await getProjectRecords(projectName)) {
+    const session = record.sessions[sessionId];
+    if (session) {
+      const filePath = path.join(getProjectsDir(), projectName, fileName);
+      sources.push({ entries: readFileEntriesBackward(filePath, session.ranges, sessionId), head: null });
+    }
+  }
+
+  try {
+    for (const source of sources) {
+      source.head = (await source.entries.next()).value || null;
+    }
+    while (true) {
+      // Ties go to the older file, as entries of newer files sort first
+      let latest = null;
+      for (const source of sources) {
+        if (source.head && (!latest || entryTime(source.head) >= entryTime(latest.head))) {
+          latest = source;
+        }
+      }
+      if (!latest) return;
+
+      yield latest.head;
+      latest.head = (await latest.entries.next()).value || null;
+    }
+  } finally {
+    await Promise.all(sources.map(source => source.entries.return()));
+  }
+}
+
+// How many entries a session has across its files
+async function countSessionEntries(projectName, sessionId) {
+  return (await getProjectRecords(projectName))
+    .reduce((total, { record }) => total + (record.sessions[sessionId]?.messageCount || 0), 0);
+}
+
+// Drop a deleted project's files from the index
+async function forgetProject(projectName) {
+  await loadIndex();
+  const prefix = `${projectName}/`;
+  for (const key of Object.keys(index.files)) {
+    if (key.startsWith(prefix)) {
+      delete index.files[key];
+    }
+  }
+  scheduleSave();
+}
+
+module.exports = {
+  getProjectSessions,
+  getFileSessions,
+  getProjectCwds,
+  findSessionFiles,
+  readSessionEntries,
+  readSessionEntriesBackward,
+  countSessionEntries,
+  forgetProject
+};
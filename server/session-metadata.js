@@ -0,0 +1,134 @@
+/**
+ * Session metadata store
+ *
+ * What the UI knows about a session that the CLI's JSONL files don't record:
+ * the session it was forked from, and the tags, pin, color and note the user
+ * gave it. Kept in each project's entry in project-config.json, under
+ * `sessions` keyed by session ID. The projects API merges it into each
+ * session it returns.
+ */
+
+const { loadProjectConfig, updateProjectConfig } = require('./project-config');
+
+const SESSION_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'gray'];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_NOTE_LENGTH = 2000;
+
+// Metadata the user edits; the rest (such as forkedFrom) is set by the server
+const ANNOTATION_KEYS = ['tags', 'pinned', 'color', 'note'];
+
+// Metadata of every session in a project that has any, by session ID
+async function getProjectSessionMetadata(projectName) {
+  const config = await loadProjectConfig();
+  return config[projectName]?.sessions || {};
+}
+
+/**
+ * Merge changes into a session's metadata. Keys set to null or undefined are
+ * removed.
+ * @returns {Promise<object>} the session's metadata after the update
+ */
+async function updateSessionMetadata(projectName, sessionId, changes) {
+  return updateProjectConfig((config) => {
+    const projectConfig = config[projectName] || {};
+    const sessions = { ...projectConfig.sessions };
+    const metadata = { ...sessions[sessionId], ...changes };
+
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === null || value === undefined) {
+        delete metadata[key];
+      }
+    }
+
+    if (Object.keys(metadata).length > 0) {
+      sessions[sessionId] = metadata;
+    } else {
+      delete sessions[sessionId];
+    }
+    config[projectName] = { ...projectConfig, sessions };
+    return metadata;
+  });
+}
+
+async function deleteSessionMetadata(projectName, sessionId) {
+  await updateProjectConfig((config) => {
+    delete config[projectName]?.sessions?.[sessionId];
+  });
+}
+
+// Check user-edited metadata; throws on invalid values. null clears a key.
+function validateSessionAnnotations(changes) {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    throw new Error('Session metadata must be an object');
+  }
+
+  const validated = {};
+  for (const [key, value] of Object.entries(changes)) {
+    if (!ANNOTATION_KEYS.includes(key)) {
+      throw new Error(`Unknown session metadata: ${key}`);
+    }
+    if (value === null) {
+      validated[key] = null;
+      continue;
+    }
+
+    switch (key) {
+      case 'tags': {
+        if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+          throw new Error('tags must be a list of strings');
+        }
+        const tags = [...new Set(value.map(tag => tag.trim()).filter(Boolean))];
+        if (tags.length > MAX_TAGS || tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+          throw new Error(`A session can have up to ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters`);
+        }
+        validated.tags = tags.length > 0 ? tags : null;
+        break;
+      }
+      case 'pinned':
+        if (typeof value !== 'boolean') {
+          throw new Error('pinned must be a boolean');
+        }
+        // Unpinned is the default, so it isn't stored
+        validated.pinned = value || null;
+        break;
+      case 'color':
+        if (!SESSION_COLORS.includes(value)) {
+          throw new Error(`color must be one of ${SESSION_COLORS.join(', ')}`);
+        }
+        validated.color = value;
+        break;
+      case 'note':
+        if (typeof value !== 'string' || value.length > MAX_NOTE_LENGTH) {
+          throw new Error(`note must be text of up to ${MAX_NOTE_LENGTH} characters`);
+        }
+        validated.note = value.trim() || null;
+        break;
+    }
+  }
+  return validated;
+}
+
+// Clear everything the user set on a session, keeping what the server set
+async function clearSessionAnnotations(projectName, sessionId) {
+  return updateSessionMetadata(projectName, sessionId,
+    Object.fromEntries(ANNOTATION_KEYS.map(key => [key, null])));
+}
+
+// Pinned sessions first, then the most recently active
+function compareSessions(a, b) {
+  if (!!a.pinned !== !!b.pinned) {
+    return a.pinned ? -1 : 1;
+  }
+  return new Date(b.lastActivity || 0).getTime() - new Date(a.lastActivity || 0).getTime();
+}
+
+module.exports = {
+  SESSION_COLORS,
+  getProjectSessionMetadata,
+  updateSessionMetadata,
+  deleteSessionMetadata,
+  validateSessionAnnotations,
+  clearSessionAnnotations,
+  compareSessions
+};
@@ -0,0 +1,162 @@
+/**
+ * AI session titles
+ *
+ * Writes a short title for a session by running a one-off headless
+ * `claude --print` over a condensed transcript. The CLI records that run as a
+ * session of its own, so it runs in a scratch directory and the session file
+ * it leaves behind is removed; the projects list also skips that directory.
+ */
+
+const { spawn } = require('child_process');
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+
+const SUMMARY_MODEL = 'haiku';
+const SUMMARY_TIMEOUT_MS = 60 * 1000;
+const MAX_TITLE_LENGTH = 80;
+// Transcript budget: each message is cut short, and long sessions keep their
+// beginning and end
+const MAX_MESSAGE_CHARS = 600;
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+const SUMMARY_PROMPT = `Write a title for the conversation below between a user and an AI coding assistant.
+The title should say what the user is working on, in at most 8 words, like a commit subject.
+Reply with the title only: no quotes, no punctuation at the end, no preamble.
+
+<conversation>
+{transcript}
+</conversation>`;
+
+function getSummaryWorkDir() {
+  return path.join(os.tmpdir(), 'calfins-session-titles');
+}
+
+// Claude names project folders after the working directory this way
+function encodeProjectName(dir) {
+  return dir.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+// The project folder the title runs are recorded under. The CLI names it after
+// the real path of its working directory, which differs from os.tmpdir() where
+// that goes through a symlink (/var/folders/... is /private/var/... on macOS).
+async function getSummaryProjectName() {
+  const tmpDir = await fs.realpath(os.tmpdir());
+  return encodeProjectName(path.join(tmpDir, path.basename(getSummaryWorkDir())));
+}
+
+// Whether a project folder holds the title runs rather than real work
+async function isSummaryProject(projectName) {
+  return projectName === await getSummaryProjectName();
+}
+
+function truncate(text, maxLength) {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > maxLength ? `${clean.slice(0, maxLength)}...` : clean;
+}
+
+// Prompts, replies and the tools used, as plain text
+function condenseTranscript(entries) {
+  const lines = [];
+  for (const entry of entries) {
+    const role = entry.message?.role;
+    const content = entry.message?.content;
+    if (!role || entry.isMeta || !content) continue;
+
+    const blocks = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text?.trim() && !block.text.startsWith('<command-')) {
+        lines.push(`${role === 'user' ? 'User' : 'Assistant'}: ${truncate(block.text, MAX_MESSAGE_CHARS)}`);
+      } else if (block.type === 'tool_use') {
+        const target = block.input?.file_path || block.input?.command || block.input?.pattern || '';
+        lines.push(`Assistant used ${block.name}${target ? `: ${truncate(String(target), 120)}` : ''}`);
+      }
+    }
+  }
+
+  const transcript = lines.join('\n');
+  if (transcript.length <= MAX_TRANSCRIPT_CHARS) return transcript;
+  const half = MAX_TRANSCRIPT_CHARS / 2;
+  return `${transcript.slice(0, half)}\n[...]\n${transcript.slice(-half)}`;
+}
+
+// Drop the session the title run left in Claude's projects folder
+async function removeSummarySession(sessionId) {
+  if (!sessionId) return;
+  const projectDir = path.join(process.env.HOME, '.claude', 'projects', await getSummaryProjectName());
+  await fs.rm(path.join(projectDir, `${sessionId}.jsonl`), { force: true });
+  try {
+    await fs.rmdir(projectDir);
+  } catch {
+    // Another title run is still using it
+  }
+}
+
+function runClaudePrint(prompt) {
+  return new Promise((resolve, reject) => {
+    const claudeProcess = spawn('claude', ['--print', '--output-format', 'json', '--model', SUMMARY_MODEL], {
+      cwd: getSummaryWorkDir(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env }
+    });
+
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      claudeProcess.kill('SIGTERM');
+      reject(new Error('Timed out writing a session title'));
+    }, SUMMARY_TIMEOUT_MS);
+
+    claudeProcess.stdout.on('data', (data) => { stdout += data.toString(); });
+    claudeProcess.stderr.on('data', (data) => { stderr += data.toString(); });
+    claudeProcess.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    claudeProcess.on('close', (code) => {
+      clearTimeout(timer);
+      let result;
+      try {
+        result = JSON.parse(stdout);
+      } catch {
+        return reject(new Error(stderr.trim() || `Claude CLI exited with code ${code}`));
+      }
+      removeSummarySession(result.session_id).catch(error => {
+        console.error('❌ Error removing title session:', error.message);
+      });
+      if (code !== 0 || result.is_error) {
+        return reject(new Error(result.result || stderr.trim() || `Claude CLI exited with code ${code}`));
+      }
+      resolve(result.result || '');
+    });
+
+    // The prompt goes in on stdin, which has no length limit
+    claudeProcess.stdin.end(prompt);
+  });
+}
+
+/**
+ * A short title for a session's transcript entries.
+ * @returns {Promise<string>}
+ */
+async function generateSessionTitle(entries) {
+  const transcript = condenseTranscript(entries);
+  if (!transcript) {
+    throw new Error('Session has no messages to summarize');
+  }
+
+  await fs.mkdir(getSummaryWorkDir(), { recursive: true });
+  // A replacer function, so `$&` and the like in the transcript are left as they are
+  const output = await runClaudePrint(SUMMARY_PROMPT.replace('{transcript}', () => transcript));
+
+  const title = output.trim().split('\n')[0].replace(/^["'`#*\s]+|["'`*.\s]+$/g, '');
+  if (!title) {
+    throw new Error('Claude did not return a title');
+  }
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+}
+
+module.exports = {
+  generateSessionTitle,
+  isSummaryProject
+};
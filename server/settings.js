@@ -0,0 +1,251 @@
+/**
+ * Settings store
+ *
+ * Persists UI and tool settings on the server so they follow the user across
+ * devices. Settings have two scopes: global, and per project (keyed by the
+ * encoded project name). Stored in ~/.claude/calfins-settings.json.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+
+const DEFAULT_TOOLS_SETTINGS = {
+  allowedTools: [],
+  disallowedTools: [],
+  skipPermissions: false
+};
+
+const DEFAULT_GLOBAL_SETTINGS = {
+  toolsSettings: DEFAULT_TOOLS_SETTINGS,
+  autoExpandTools: false,
+  showRawParameters: false,
+  autoScrollToBottom: true,
+  whisperMode: 'default',
+  // Days deleted sessions and projects stay in the trash; 0 keeps them
+  trashRetentionDays: 30,
+  // Have Claude title sessions that don't have a title after a run
+  autoSummarizeSessions: false
+};
+
+const GLOBAL_KEYS = {
+  toolsSettings: 'object',
+  autoExpandTools: 'boolean',
+  showRawParameters: 'boolean',
+  autoScrollToBottom: 'boolean',
+  whisperMode: 'string',
+  trashRetentionDays: 'number',
+  autoSummarizeSessions: 'boolean'
+};
+
+const PROJECT_KEYS = {
+  toolsSettings: 'object',
+  draftInput: 'string'
+};
+
+const listeners = new Set();
+let storeCache = null;
+let storeUpdate = Promise.resolve();
+
+function getStorePath() {
+  return path.join(process.env.HOME, '.claude', 'calfins-settings.json');
+}
+
+async function loadStore() {
+  if (storeCache) {
+    return storeCache;
+  }
+
+  try {
+    const data = await fs.readFile(getStorePath(), 'utf8');
+    storeCache = JSON.parse(data);
+  } catch (error) {
+    // No settings saved yet
+    storeCache = { global: null, projects: {} };
+  }
+  storeCache.projects = storeCache.projects || {};
+  return storeCache;
+}
+
+// Run a read-modify-write of the store after the ones already in progress, so
+// e.g. a draft being saved can't drop an "Always allow" rule added meanwhile
+function updateStore(update) {
+  const result = storeUpdate.then(async () => update(await loadStore()));
+  storeUpdate = result.catch(() => {});
+  return result;
+}
+
+async function saveStore(store) {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  // Written aside and renamed into place, so the file is never half-written
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2), 'utf8');
+  await fs.rename(tempPath, storePath);
+  storeCache = store;
+}
+
+function normalizeToolList(value, key) {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(tool => typeof tool !== 'string')) {
+    throw new Error(`toolsSettings.${key} must be a list of strings`);
+  }
+  return [...new Set(value.map(tool => tool.trim()).filter(Boolean))];
+}
+
+function validateToolsSettings(toolsSettings) {
+  const validated = {};
+  const allowedTools = normalizeToolList(toolsSettings.allowedTools, 'allowedTools');
+  const disallowedTools = normalizeToolList(toolsSettings.disallowedTools, 'disallowedTools');
+
+  if (allowedTools) validated.allowedTools = allowedTools;
+  if (disallowedTools) validated.disallowedTools = disallowedTools;
+  if (toolsSettings.skipPermissions !== undefined) {
+    if (typeof toolsSettings.skipPermissions !== 'boolean') {
+      throw new Error('toolsSettings.skipPermissions must be a boolean');
+    }
+    validated.skipPermissions = toolsSettings.skipPermissions;
+  }
+  return validated;
+}
+
+// Keep only known keys with the right types; throws on invalid values
+function validateSettings(partial, allowedKeys) {
+  if (!partial || typeof partial !== 'object' || Array.isArray(partial)) {
+    throw new Error('Settings must be an object');
+  }
+
+  const validated = {};
+  for (const [key, value] of Object.entries(partial)) {
+    const expectedType = allowedKeys[key];
+    if (!expectedType) {
+      throw new Error(`Unknown setting: ${key}`);
+    }
+    if (value === null) {
+      // null clears a project-level value
+      validated[key] = null;
+      continue;
+    }
+    if (typeof value !== expectedType || (expectedType === 'object' && Array.isArray(value))) {
+      throw new Error(`Setting ${key} must be a ${expectedType}`);
+    }
+    if (key === 'trashRetentionDays' && (!Number.isInteger(value) || value < 0)) {
+      throw new Error('Setting trashRetentionDays must be a whole number of days');
+    }
+    validated[key] = key === 'toolsSettings' ? validateToolsSettings(value) : value;
+  }
+  return validated;
+}
+
+function mergeSettings(current, updates) {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (key === 'toolsSettings') {
+      merged.toolsSettings = { ...current.toolsSettings, ...value };
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function notify(change) {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error('❌ Settings listener error:', error);
+    }
+  }
+}
+
+// Subscribe to settings changes, e.g. to broadcast them to connected clients
+function onSettingsChange(listener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+async function getGlobalSettings() {
+  const store = await loadStore();
+  return mergeSettings(DEFAULT_GLOBAL_SETTINGS, store.global || {});
+}
+
+// Whether global settings have ever been saved (lets clients migrate old
+// browser-local settings once)
+async function hasGlobalSettings() {
+  const store = await loadStore();
+  return !!store.global;
+}
+
+async function updateGlobalSettings(partial) {
+  const updates = validateSettings(partial, GLOBAL_KEYS);
+  return updateStore(async (store) => {
+    const global = mergeSettings(store.global || {}, updates);
+
+    await saveStore({ ...store, global });
+    const settings = mergeSettings(DEFAULT_GLOBAL_SETTINGS, global);
+    notify({ scope: 'global', settings });
+    return settings;
+  });
+}
+
+async function getProjectSettings(projectName) {
+  const store = await loadStore();
+  return store.projects[projectName] || {};
+}
+
+// Merge validated changes into a project's settings; called from updateStore
+async function saveProjectSettings(store, projectName, updates) {
+  const settings = mergeSettings(store.projects[projectName] || {}, updates);
+
+  await saveStore({ ...store, projects: { ...store.projects, [projectName]: settings } });
+  notify({ scope: 'project', projectName, settings });
+  return settings;
+}
+
+async function updateProjectSettings(projectName, partial) {
+  const updates = validateSettings(partial, PROJECT_KEYS);
+  return updateStore(store => saveProjectSettings(store, projectName, updates));
+}
+
+/**
+ * Tool permissions that apply to a project: global and project lists are
+ * combined, and a project can turn skipPermissions on or off for itself.
+ */
+async function getEffectiveToolsSettings(projectName) {
+  const global = (await getGlobalSettings()).toolsSettings;
+  const project = projectName ? (await getProjectSettings(projectName)).toolsSettings || {} : {};
+
+  return {
+    allowedTools: [...new Set([...(global.allowedTools || []), ...(project.allowedTools || [])])],
+    disallowedTools: [...new Set([...(global.disallowedTools || []), ...(project.disallowedTools || [])])],
+    skipPermissions: project.skipPermissions ?? global.skipPermissions ?? false
+  };
+}
+
+// Add a rule to a project's allowed tools (used by "Always allow")
+async function addProjectAllowedTool(projectName, rule) {
+  await updateStore(async (store) => {
+    const current = store.projects[projectName]?.toolsSettings || {};
+    const allowedTools = current.allowedTools || [];
+    if (allowedTools.includes(rule)) {
+      return;
+    }
+    await saveProjectSettings(store, projectName, {
+      toolsSettings: { ...current, allowedTools: [...allowedTools, rule] }
+    });
+  });
+}
+
+module.exports = {
+  DEFAULT_GLOBAL_SETTINGS,
+  onSettingsChange,
+  getGlobalSettings,
+  hasGlobalSettings,
+  updateGlobalSettings,
+  getProjectSettings,
+  updateProjectSettings,
+  getEffectiveToolsSettings,
+  addProjectAllowedTool
+};
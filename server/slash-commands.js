@@ -0,0 +1,176 @@
+/**
+ * Slash commands
+ *
+ * Custom commands are Markdown files in `<project>/.claude/commands` and
+ * `~/.claude/commands`, named after their path (`frontend/test.md` is
+ * `/frontend:test`). Optional frontmatter sets a description, an argument
+ * hint, the tools the command may use and a model. When a prompt starts with
+ * a custom command, it is expanded here: `$ARGUMENTS` in the file is replaced
+ * with the rest of the prompt.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+
+// Built-in CLI commands that work in a headless run; interactive ones such as
+// /config, /login or /vim aren't offered
+const BUILTIN_COMMANDS = [
+  { name: 'compact', description: 'Clear conversation history but keep a summary in context', argumentHint: '[instructions]' },
+  { name: 'cost', description: 'Show the cost and duration of the current session' },
+  { name: 'init', description: 'Initialize a CLAUDE.md file with codebase documentation' },
+  { name: 'memory', description: 'Edit CLAUDE.md memory files' },
+  { name: 'pr_comments', description: 'Get comments from a GitHub pull request' },
+  { name: 'review', description: 'Review a pull request' },
+  { name: 'status', description: 'Show account and system status' }
+];
+
+const MAX_COMMAND_DEPTH = 5;
+const MAX_DESCRIPTION_LENGTH = 120;
+
+// The YAML subset command files use: `key: value` lines, and lists as
+// `- item` lines. Inline values are kept as strings, since argument hints
+// look like `[pattern]`.
+function parseFrontmatter(text) {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+
+  const attributes = {};
+  let listKey = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      attributes[listKey].push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    if (value === '') {
+      attributes[key] = [];
+      listKey = key;
+    } else {
+      attributes[key] = unquote(value);
+      listKey = null;
+    }
+  }
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+function unquote(value) {
+  const trimmed = value.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+// `allowed-tools` may be a list, `[a, b]` or a comma-separated string
+function toList(value) {
+  if (Array.isArray(value)) return value.filter(Boolean);
+  if (typeof value !== 'string') return [];
+  const items = value.startsWith('[') && value.endsWith(']') ? value.slice(1, -1) : value;
+  return items.split(',').map(unquote).filter(Boolean);
+}
+
+async function readCommandFile(filePath, name, scope) {
+  const { attributes, body } = parseFrontmatter(await fs.readFile(filePath, 'utf8'));
+  const firstLine = body.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean) || '';
+  const description = typeof attributes.description === 'string' ? attributes.description : firstLine;
+
+  return {
+    name,
+    description: description.length > MAX_DESCRIPTION_LENGTH
+      ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+      : description,
+    argumentHint: typeof attributes['argument-hint'] === 'string' ? attributes['argument-hint'] : null,
+    allowedTools: toList(attributes['allowed-tools']),
+    model: typeof attributes.model === 'string' ? attributes.model : null,
+    scope,
+    content: body.trim()
+  };
+}
+
+// Every command file under a commands directory; missing directories have none
+async function loadCommandsDir(dir, scope, prefix = [], depth = 0) {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    return [];
+  }
+
+  const commands = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && depth < MAX_COMMAND_DEPTH) {
+      commands.push(...await loadCommandsDir(entryPath, scope, [...prefix, entry.name], depth + 1));
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      const name = [...prefix, entry.name.slice(0, -3)].join(':');
+      try {
+        commands.push(await readCommandFile(entryPath, name, scope));
+      } catch (error) {
+        console.error(`❌ Error reading command ${entryPath}:`, error.message);
+      }
+    }
+  }
+  return commands;
+}
+
+// Custom commands of a project and the user's own; project commands win
+async function getCustomCommands(projectDir) {
+  const projectCommands = projectDir
+    ? await loadCommandsDir(path.join(projectDir, '.claude', 'commands'), 'project')
+    : [];
+  const userCommands = await loadCommandsDir(path.join(process.env.HOME, '.claude', 'commands'), 'user');
+
+  const commands = new Map();
+  for (const command of [...userCommands, ...projectCommands]) {
+    commands.set(command.name, command);
+  }
+  return [...commands.values()];
+}
+
+/**
+ * Commands offered in the chat's `/` menu: custom ones first, then the
+ * built-in commands they don't override. File contents aren't included.
+ */
+async function getSlashCommands(projectDir) {
+  const custom = await getCustomCommands(projectDir);
+  const customNames = new Set(custom.map(command => command.name));
+  const builtin = BUILTIN_COMMANDS
+    .filter(command => !customNames.has(command.name))
+    .map(command => ({ argumentHint: null, allowedTools: [], model: null, ...command, scope: 'builtin' }));
+
+  return [...custom, ...builtin]
+    .map(({ content, ...command }) => command)
+    .sort((a, b) => (a.scope === 'builtin') - (b.scope === 'builtin') || a.name.localeCompare(b.name));
+}
+
+/**
+ * The prompt to run for a message starting with a custom command, with its
+ * arguments filled in, or null if the message isn't one.
+ * @returns {Promise<{name: string, prompt: string, allowedTools: string[], model: string|null}|null>}
+ */
+async function expandSlashCommand(projectDir, message) {
+  const match = typeof message === 'string' && message.match(/^\/([\w:.-]+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  const [, name, args = ''] = match;
+  const command = (await getCustomCommands(projectDir)).find(candidate => candidate.name === name);
+  if (!command) return null;
+
+  const trimmedArgs = args.trim();
+  let prompt = command.content;
+  if (prompt.includes('$ARGUMENTS')) {
+    prompt = prompt.split('$ARGUMENTS').join(trimmedArgs);
+  } else if (trimmedArgs) {
+    prompt = `${prompt}\n\nARGUMENTS: ${trimmedArgs}`;
+  }
+
+  return { name, prompt, allowedTools: command.allowedTools, model: command.model };
+}
+
+module.exports = {
+  getSlashCommands,
+  expandSlashCommand
+};
@@ -0,0 +1,70 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-attachments-'));
+process.env.HOME = home;
+
+// Keep the upload logs out of the test output
+mock.method(console, 'log', () => {});
+
+const {
+  MAX_ATTACHMENT_SIZE,
+  AttachmentError,
+  saveAttachments,
+  getAttachmentFile,
+  resolveAttachments,
+  appendAttachmentsToPrompt
+} = require('../attachments');
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const upload = (originalname, content = 'data') => ({ originalname, buffer: Buffer.from(content), size: Buffer.byteLength(content) });
+const rejected = (statusCode) => (error) => error instanceof AttachmentError && error.statusCode === statusCode;
+
+test('uploads are stored under safe names and served with a fixed type', async () => {
+  const [image, notes] = await saveAttachments('-work-app', 'draft-1', [upload('Screen Shot.PNG'), upload('../../.bashrc.txt', 'notes')]);
+
+  assert.match(path.basename(image.path), /^[0-9a-f]{8}-Screen_Shot\.png$/);
+  assert.equal(image.name, 'Screen_Shot.png');
+  assert.equal(image.mimeType, 'image/png');
+  assert.equal(path.dirname(image.path), path.join(home, '.claude', 'calfins-attachments', '-work-app', 'draft-1'));
+  assert.match(path.basename(notes.path), /^[0-9a-f]{8}-bashrc\.txt$/);
+  assert.equal(fs.readFileSync(notes.path, 'utf8'), 'notes');
+
+  const [, sessionKey, fileName] = decodeURIComponent(notes.url).match(/attachments\/([^/]+)\/([^/]+)$/);
+  assert.deepEqual(await getAttachmentFile('-work-app', sessionKey, fileName),
+    { filePath: notes.path, contentType: 'text/plain; charset=utf-8' });
+});
+
+test('uploads of other types, too big or too many are refused', async () => {
+  await assert.rejects(saveAttachments('-work-app', 's1', [upload('page.html')]), rejected(415));
+  await assert.rejects(saveAttachments('-work-app', 's1', [{ ...upload('big.png'), size: MAX_ATTACHMENT_SIZE + 1 }]), rejected(413));
+  await assert.rejects(saveAttachments('-work-app', 's1', Array.from({ length: 11 }, (_, i) => upload(`${i}.txt`))), rejected(400));
+  await assert.rejects(saveAttachments('-work-app', 's1', []), rejected(400));
+  await assert.rejects(saveAttachments('..', 's1', [upload('a.txt')]), rejected(400));
+  await assert.rejects(saveAttachments('-work-app', '../other', [upload('a.txt')]), rejected(400));
+});
+
+test('a command may only name attachments stored for its project', async () => {
+  const [first] = await saveAttachments('-work-app', 'sess-1', [upload('log.txt')]);
+  const [other] = await saveAttachments('-work-other', 'sess-1', [upload('secret.txt')]);
+
+  assert.deepEqual(await resolveAttachments('-work-app', [first.path, first.path]), [first.path]);
+  assert.deepEqual(await resolveAttachments('-work-app', undefined), []);
+
+  for (const paths of [[other.path], ['/etc/passwd'], ['relative.txt'], [path.join(path.dirname(first.path), 'missing.txt')], 'x']) {
+    await assert.rejects(resolveAttachments('-work-app', paths), error => error instanceof AttachmentError, String(paths));
+  }
+  await assert.rejects(resolveAttachments(null, [first.path]), rejected(400));
+});
+
+test('attachments are listed at the end of the prompt', () => {
+  assert.equal(appendAttachmentsToPrompt('Look at this', []), 'Look at this');
+  assert.equal(appendAttachmentsToPrompt('Look at this', ['/a/1.png', '/a/2.txt']), 'Look at this\n\nAttached files:\n- /a/1.png\n- /a/2.txt');
+  assert.equal(appendAttachmentsToPrompt('  ', ['/a/1.png']), 'Attached files:\n- /a/1.png');
+});
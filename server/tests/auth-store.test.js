@@ -0,0 +1,42 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-auth-store-'));
+process.env.HOME = home;
+const { hasUsers, createUser } = require('../auth');
+
+const storePath = path.join(home, '.claude', 'calfins-users.json');
+fs.mkdirSync(path.dirname(storePath), { recursive: true });
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('a user store that cannot be read blocks setup instead of starting over', async () => {
+  fs.mkdirSync(storePath);
+  await assert.rejects(hasUsers(), /Could not read the user store/);
+  fs.rmdirSync(storePath);
+
+  const corrupt = '{"secret": "s", "users": [{"id": 1, "username": "adm';
+  fs.writeFileSync(storePath, corrupt);
+  await assert.rejects(hasUsers(), /Could not read the user store/);
+  await assert.rejects(createUser('intruder', 'battery staple', null, { firstUserOnly: true }), /Could not read the user store/);
+  assert.equal(fs.readFileSync(storePath, 'utf8'), corrupt);
+
+  fs.writeFileSync(storePath, '{"secret": "s"}');
+  await assert.rejects(hasUsers(), /has no user list/);
+});
+
+test('a missing user store is a first run', async () => {
+  fs.rmSync(storePath);
+  assert.equal(await hasUsers(), false);
+
+  const admin = await createUser('admin', 'correct horse', null, { firstUserOnly: true });
+  assert.equal(admin.role, 'admin');
+  const saved = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+  assert.deepEqual(saved.users.map(user => user.username), ['admin']);
+  assert.equal(fs.statSync(storePath).mode & 0o777, 0o600);
+});
@@ -0,0 +1,69 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-auth-'));
+process.env.HOME = home;
+const { createUser, createToken, verifyToken, AuthError } = require('../auth');
+
+let user;
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('setup creates only one admin when requests race', async () => {
+  const results = await Promise.allSettled([
+    createUser('admin', 'correct horse', null, { firstUserOnly: true }),
+    createUser('intruder', 'battery staple', null, { firstUserOnly: true })
+  ]);
+  const created = results.filter(result => result.status === 'fulfilled');
+  const refused = results.filter(result => result.status === 'rejected');
+
+  assert.equal(created.length, 1);
+  assert.ok(refused[0].reason instanceof AuthError);
+  assert.equal(refused[0].reason.statusCode, 403);
+  user = created[0].value;
+});
+
+test('a signed token verifies as its user', async () => {
+  const token = await createToken(user);
+  assert.deepEqual(await verifyToken(token), user);
+  assert.equal(user.role, 'admin');
+});
+
+test('tokens with a changed payload or signature are rejected', async () => {
+  const [encoded, signature] = (await createToken(user)).split('.');
+  const forged = Buffer.from(JSON.stringify({ sub: user.id, role: 'admin', exp: Date.now() + 1000 * 60 })).toString('base64url');
+
+  assert.equal(await verifyToken(`${forged}.${signature}`), null);
+  assert.equal(await verifyToken(`${encoded}.${signature.slice(1)}x`), null);
+  assert.equal(await verifyToken(`${encoded}.`), null);
+  assert.equal(await verifyToken('no-dot'), null);
+  assert.equal(await verifyToken(undefined), null);
+});
+
+test('a signature with non-ASCII characters is rejected, not thrown', async () => {
+  const [encoded, signature] = (await createToken(user)).split('.');
+  // Same string length as a real signature, more bytes
+  assert.equal(await verifyToken(`${encoded}.é${signature.slice(1)}`), null);
+});
+
+test('expired tokens are rejected', async (t) => {
+  const token = await createToken(user);
+  const now = Date.now();
+  t.mock.method(Date, 'now', () => now + 1000 * 60 * 60 * 24 * 31);
+  assert.equal(await verifyToken(token), null);
+});
+
+test('concurrent user creation keeps every user', async () => {
+  const [first, second] = await Promise.all([
+    createUser('user-one', 'password-one'),
+    createUser('user-two', 'password-two')
+  ]);
+  assert.equal(first.role, 'user');
+  assert.ok(await verifyToken(await createToken(first)));
+  assert.ok(await verifyToken(await createToken(second)));
+});
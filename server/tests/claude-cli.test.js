@@ -0,0 +1,101 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-cli-'));
+const bin = path.join(home, 'bin');
+fs.mkdirSync(bin);
+process.env.HOME = home;
+process.env.PATH = `${bin}${path.delimiter}${process.env.PATH}`;
+
+// Replaced before claude-cli picks it up, so a test can make settings fail
+const settings = require('../settings');
+const getToolsSettings = mock.method(settings, 'getEffectiveToolsSettings');
+const { spawnClaude } = require('../claude-cli');
+const { createHeadlessSink, getRun } = require('../run-registry');
+const { addProjectManually } = require('../projects');
+
+// Runs start in their project's directory
+const workDir = fs.realpathSync(home);
+const projectName = workDir.replace(/\//g, '-');
+const ready = addProjectManually(workDir);
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+// A fake CLI that prints the given shell commands' output
+function installFakeClaude(script) {
+  fs.writeFileSync(path.join(bin, 'claude'), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+}
+
+function collectFrames() {
+  const frames = [];
+  return { frames, sink: createHeadlessSink(frame => frames.push(frame)) };
+}
+
+test('a JSON line split across stdout chunks is parsed once', async () => {
+  await ready;
+  getToolsSettings.mock.mockImplementation(async () => ({ allowedTools: [], disallowedTools: [], skipPermissions: false }));
+  installFakeClaude([
+    'printf \'{"type":"system","session_id":"sess-\'',
+    'sleep 0.2',
+    'printf \'1","text":"caf\\303\'',
+    'sleep 0.2',
+    'printf \'\\251"}\\n{"type":"result","result":"done"}\''
+  ].join('\n'));
+  const { frames, sink } = collectFrames();
+
+  const sessionId = await spawnClaude('hello', { projectName, cwd: workDir, requestId: 'split-lines' }, sink, { headless: true });
+
+  assert.equal(sessionId, 'sess-1');
+  const responses = frames.filter(frame => frame.type === 'claude-response').map(frame => frame.data);
+  assert.deepEqual(responses, [
+    { type: 'system', session_id: 'sess-1', text: 'café' },
+    // The last line has no newline
+    { type: 'result', result: 'done' }
+  ]);
+  assert.equal(frames.some(frame => frame.type === 'claude-output'), false);
+  assert.equal(getRun('split-lines').status, 'completed');
+});
+
+test('a failure before the CLI starts finishes the run and rejects', async () => {
+  getToolsSettings.mock.mockImplementation(async () => {
+    throw new Error('settings unreadable');
+  });
+  const { frames, sink } = collectFrames();
+
+  await assert.rejects(spawnClaude('hello', { projectName, cwd: workDir, requestId: 'setup-fails' }, sink), /settings unreadable/);
+
+  assert.equal(getRun('setup-fails').status, 'failed');
+  assert.deepEqual(frames.map(frame => frame.type), ['claude-error', 'claude-complete']);
+});
+
+test('a non-zero exit rejects and marks the run failed', async () => {
+  getToolsSettings.mock.mockImplementation(async () => ({ allowedTools: [], disallowedTools: [], skipPermissions: false }));
+  installFakeClaude('echo "boom" >&2\nexit 3');
+  const { frames, sink } = collectFrames();
+
+  await assert.rejects(spawnClaude('hello', { projectName, cwd: workDir, requestId: 'exit-3' }, sink, { headless: true }), /code 3/);
+
+  assert.equal(getRun('exit-3').status, 'failed');
+  assert.equal(frames.find(frame => frame.type === 'claude-complete').exitCode, 3);
+});
+
+test('a cwd outside the project fails the run before the CLI starts', async () => {
+  await ready;
+  getToolsSettings.mock.mockImplementation(async () => ({ allowedTools: [], disallowedTools: [], skipPermissions: false }));
+  installFakeClaude('touch ran');
+  const { frames, sink } = collectFrames();
+
+  await assert.rejects(spawnClaude('hello', { projectName, cwd: bin, requestId: 'wrong-cwd' }, sink, { headless: true }),
+    error => error.name === 'PathAccessError');
+
+  assert.equal(getRun('wrong-cwd').status, 'failed');
+  assert.deepEqual(frames.map(frame => frame.type), ['claude-error', 'claude-complete']);
+  assert.equal(fs.existsSync(path.join(bin, 'ran')), false);
+});
@@ -0,0 +1,97 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-claude-options-')));
+process.env.HOME = home;
+
+// Keep the project lookup logs out of the test output
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+
+const { addProjectManually } = require('../projects');
+const { setAllowedRoots } = require('../sandbox');
+const { ClaudeOptionsError, buildOptionArgs, resolveRunDirectory } = require('../claude-options');
+
+const workDir = path.join(home, 'work', 'app');
+const sharedDir = path.join(home, 'work', 'shared');
+const outsideDir = path.join(home, 'outside');
+for (const dir of [path.join(workDir, 'docs'), sharedDir, outsideDir]) {
+  fs.mkdirSync(dir, { recursive: true });
+}
+fs.writeFileSync(path.join(workDir, 'README.md'), '# app\n');
+
+let projectName;
+const ready = addProjectManually(workDir).then(async (project) => {
+  projectName = project.name;
+  await setAllowedRoots(projectName, [sharedDir]);
+});
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const admin = { id: 1, username: 'admin', role: 'admin' };
+const member = { id: 2, username: 'member', role: 'user' };
+const rejected = (statusCode) => (error) => error instanceof ClaudeOptionsError && error.statusCode === statusCode;
+
+test('models are aliases or full IDs, and new sessions get the default', async () => {
+  assert.deepEqual(await buildOptionArgs({}, null), ['--model', 'sonnet']);
+  assert.deepEqual(await buildOptionArgs({ resume: true }, null), []);
+  assert.deepEqual(await buildOptionArgs({ model: 'claude-sonnet-4-20250514' }, null), ['--model', 'claude-sonnet-4-20250514']);
+
+  for (const model of ['--dangerously-skip-permissions', 'opus; rm -rf /', 'a'.repeat(101), 42]) {
+    await assert.rejects(buildOptionArgs({ model }, null), rejected(400), `expected ${model} to be rejected`);
+  }
+});
+
+test('only admins can bypass permission prompts', async () => {
+  assert.deepEqual(await buildOptionArgs({ resume: true, permissionMode: 'default' }, null, member), []);
+  assert.deepEqual(await buildOptionArgs({ resume: true, permissionMode: 'plan' }, null, member), ['--permission-mode', 'plan']);
+  assert.deepEqual(await buildOptionArgs({ resume: true, permissionMode: 'bypassPermissions' }, null, admin),
+    ['--permission-mode', 'bypassPermissions']);
+
+  await assert.rejects(buildOptionArgs({ resume: true, permissionMode: 'bypassPermissions' }, null, member), rejected(403));
+  await assert.rejects(buildOptionArgs({ resume: true, permissionMode: 'bypassPermissions' }, null), rejected(403));
+  await assert.rejects(buildOptionArgs({ resume: true, permissionMode: 'yolo' }, null, admin), rejected(400));
+});
+
+test('max turns and the appended system prompt are bounded', async () => {
+  assert.deepEqual(await buildOptionArgs({ resume: true, maxTurns: 3, appendSystemPrompt: '  Be brief.  ' }, null),
+    ['--max-turns', '3', '--append-system-prompt', 'Be brief.']);
+  for (const maxTurns of [0, 501, 1.5, '3']) {
+    await assert.rejects(buildOptionArgs({ resume: true, maxTurns }, null), rejected(400));
+  }
+  await assert.rejects(buildOptionArgs({ resume: true, appendSystemPrompt: 'x'.repeat(20001) }, null), rejected(400));
+});
+
+test('extra directories stay inside the project\'s permitted roots', async () => {
+  await ready;
+  assert.deepEqual(await buildOptionArgs({ resume: true, addDirs: ['docs', sharedDir, './docs'] }, projectName),
+    ['--add-dir', path.join(workDir, 'docs'), '--add-dir', sharedDir]);
+
+  await assert.rejects(buildOptionArgs({ resume: true, addDirs: [outsideDir] }, projectName),
+    error => error.name === 'PathAccessError' && error.statusCode === 403);
+  await assert.rejects(buildOptionArgs({ resume: true, addDirs: ['../../outside'] }, projectName),
+    error => error.name === 'PathAccessError');
+  await assert.rejects(buildOptionArgs({ resume: true, addDirs: ['README.md'] }, projectName), rejected(400));
+  await assert.rejects(buildOptionArgs({ resume: true, addDirs: ['docs'] }, null), rejected(400));
+  await assert.rejects(buildOptionArgs({ resume: true, addDirs: 'docs' }, projectName), rejected(400));
+});
+
+test('runs start in the project\'s own directory', async () => {
+  await ready;
+  assert.equal(await resolveRunDirectory(projectName), workDir);
+  assert.equal(await resolveRunDirectory(projectName, workDir), workDir);
+  assert.equal(await resolveRunDirectory(projectName, `${workDir}/`), workDir);
+
+  for (const cwd of [outsideDir, sharedDir, path.join(workDir, 'docs'), 42]) {
+    await assert.rejects(resolveRunDirectory(projectName, cwd), error => error.name === 'PathAccessError');
+  }
+  await assert.rejects(resolveRunDirectory(outsideDir.replace(/\//g, '-'), outsideDir), rejected(400));
+  await assert.rejects(resolveRunDirectory(null, workDir), rejected(400));
+});
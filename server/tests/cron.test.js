@@ -0,0 +1,65 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { CronError, parseCron, matchesCron, getNextRun } = require('../cron');
+
+// Local time, as the scheduler uses; 2026-01-05 is a Monday
+const at = (month, day, hour, minute) => new Date(2026, month - 1, day, hour, minute);
+const next = (expression, after) => getNextRun(parseCron(expression), after);
+
+test('fields take lists, ranges, steps and names', () => {
+  const schedule = parseCron('*/15 9-17/4 1,15 jan-mar mon-fri');
+  assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...schedule.hours], [9, 13, 17]);
+  assert.deepEqual([...schedule.days], [1, 15]);
+  assert.deepEqual([...schedule.months], [1, 2, 3]);
+  assert.deepEqual([...schedule.weekdays], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+});
+
+test('shorthands and Sunday as 7 are accepted', () => {
+  assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+  assert.deepEqual(parseCron('  @Weekly '), parseCron('0 0 * * 0'));
+  assert.equal(parseCron('0 0 * * 7').weekdays.has(0), true);
+});
+
+test('invalid expressions throw CronError with status 400', () => {
+  for (const expression of ['', '* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *',
+    '*/0 * * * *', '5-1 * * * *', 'a * * * *', '* * * foo *', null]) {
+    assert.throws(() => parseCron(expression), error => error instanceof CronError && error.statusCode === 400,
+      `expected ${JSON.stringify(expression)} to be rejected`);
+  }
+});
+
+test('a date matches when every field allows it', () => {
+  const schedule = parseCron('30 9 * * mon-fri');
+  assert.equal(matchesCron(schedule, at(1, 5, 9, 30)), true);
+  assert.equal(matchesCron(schedule, at(1, 5, 9, 31)), false);
+  // Saturday
+  assert.equal(matchesCron(schedule, at(1, 10, 9, 30)), false);
+});
+
+test('with both day fields restricted, either one matching is enough', () => {
+  const schedule = parseCron('0 0 13 * fri');
+  // Tuesday the 13th, and Friday the 9th
+  assert.equal(matchesCron(schedule, at(1, 13, 0, 0)), true);
+  assert.equal(matchesCron(schedule, at(1, 9, 0, 0)), true);
+  assert.equal(matchesCron(schedule, at(1, 12, 0, 0)), false);
+  // Only one restricted: it alone decides
+  assert.equal(matchesCron(parseCron('0 0 13 * *'), at(1, 9, 0, 0)), false);
+  assert.equal(matchesCron(parseCron('0 0 */1 * fri'), at(1, 12, 0, 0)), false);
+});
+
+test('the next run is the first matching minute strictly after the given time', () => {
+  assert.deepEqual(next('* * * * *', new Date(2026, 0, 5, 10, 30, 45)), at(1, 5, 10, 31));
+  assert.deepEqual(next('30 10 * * *', at(1, 5, 10, 30)), at(1, 6, 10, 30));
+  assert.deepEqual(next('0 9 * * mon-fri', at(1, 9, 17, 0)), at(1, 12, 9, 0));
+  assert.deepEqual(next('0 0 1 * *', at(1, 31, 23, 59)), at(2, 1, 0, 0));
+  assert.deepEqual(next('@yearly', at(6, 15, 12, 0)), new Date(2027, 0, 1, 0, 0));
+  assert.deepEqual(next('0 12 29 feb *', at(1, 5, 0, 0)), new Date(2028, 1, 29, 12, 0));
+});
+
+test('a schedule that can never run has no next run', () => {
+  assert.equal(next('0 0 30 feb *', at(1, 5, 0, 0)), null);
+  assert.equal(next('0 0 31 apr,jun,sep,nov *', at(1, 5, 0, 0)), null);
+});
@@ -0,0 +1,99 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { compileIgnorePattern, isIgnored } = require('../file-index');
+
+// Rules from a .gitignore's text, as if it sat in `base`
+const compile = (text, base = '') =>
+  text.split('\n').map(line => compileIgnorePattern(line, base)).filter(Boolean);
+
+const ignored = (rules, relativePath, isDirectory = false) => isIgnored(rules, relativePath, isDirectory);
+
+test('blank lines and comments are not rules', () => {
+  assert.deepEqual(compile('\n# comment\n   \n/\n'), []);
+});
+
+test('patterns without a slash match at any depth', () => {
+  const rules = compile('*.log\ntmp');
+  assert.equal(ignored(rules, 'debug.log'), true);
+  assert.equal(ignored(rules, 'src/deep/debug.log'), true);
+  assert.equal(ignored(rules, 'src/debug.log.txt'), false);
+  assert.equal(ignored(rules, 'a/tmp', true), true);
+  assert.equal(ignored(rules, 'a/tmp/file.js'), true);
+  assert.equal(ignored(rules, 'a/tmpl'), false);
+});
+
+test('a slash anchors the pattern to the .gitignore directory', () => {
+  const rules = compile('/build\ndoc/*.txt');
+  assert.equal(ignored(rules, 'build', true), true);
+  assert.equal(ignored(rules, 'build/out.js'), true);
+  assert.equal(ignored(rules, 'src/build', true), false);
+  assert.equal(ignored(rules, 'doc/notes.txt'), true);
+  assert.equal(ignored(rules, 'doc/sub/notes.txt'), false);
+  assert.equal(ignored(rules, 'src/doc/notes.txt'), false);
+});
+
+test('double stars span directories', () => {
+  const rules = compile('**/cache\nlogs/**/*.gz\nout/**');
+  assert.equal(ignored(rules, 'cache', true), true);
+  assert.equal(ignored(rules, 'a/b/cache', true), true);
+  assert.equal(ignored(rules, 'logs/x.gz'), true);
+  assert.equal(ignored(rules, 'logs/2026/01/x.gz'), true);
+  assert.equal(ignored(rules, 'other/logs/x.gz'), false);
+  assert.equal(ignored(rules, 'out/a/b.js'), true);
+});
+
+test('a trailing slash only matches directories and what is inside them', () => {
+  const rules = compile('dist/');
+  assert.equal(ignored(rules, 'dist', true), true);
+  assert.equal(ignored(rules, 'dist'), false);
+  assert.equal(ignored(rules, 'dist/app.js'), true);
+  assert.equal(ignored(rules, 'pkg/dist/app.js'), true);
+});
+
+test('the last matching rule wins, so negations re-include files', () => {
+  const rules = compile('*.log\n!keep.log\nsecret*\n!secret.example\nsecret.example.bak');
+  assert.equal(ignored(rules, 'app.log'), true);
+  assert.equal(ignored(rules, 'sub/keep.log'), false);
+  assert.equal(ignored(rules, 'secret.key'), true);
+  assert.equal(ignored(rules, 'secret.example'), false);
+  assert.equal(ignored(rules, 'secret.example.bak'), true);
+});
+
+test('wildcards, classes and escapes', () => {
+  const rules = compile('file?.txt\n[abc].md\n[!x]y.js\n\\#hash\n\\!bang\nspace\\ \ntrailing   ');
+  assert.equal(ignored(rules, 'file1.txt'), true);
+  assert.equal(ignored(rules, 'file10.txt'), false);
+  assert.equal(ignored(rules, 'b.md'), true);
+  assert.equal(ignored(rules, 'd.md'), false);
+  assert.equal(ignored(rules, 'ay.js'), true);
+  assert.equal(ignored(rules, 'xy.js'), false);
+  assert.equal(ignored(rules, '#hash'), true);
+  assert.equal(ignored(rules, '!bang'), true);
+  assert.equal(ignored(rules, 'space '), true);
+  assert.equal(ignored(rules, 'trailing'), true);
+  assert.equal(ignored(rules, 'trailing   '), false);
+});
+
+test('dots and other regex characters are literal', () => {
+  const rules = compile('a.b\n(x)+');
+  assert.equal(ignored(rules, 'a.b'), true);
+  assert.equal(ignored(rules, 'axb'), false);
+  assert.equal(ignored(rules, '(x)+'), true);
+});
+
+test('rules from a nested .gitignore only apply below its directory', () => {
+  const rules = [...compile('*.tmp'), ...compile('/generated\n!important.tmp', 'packages/web')];
+  assert.equal(ignored(rules, 'packages/web/generated', true), true);
+  assert.equal(ignored(rules, 'generated', true), false);
+  assert.equal(ignored(rules, 'packages/api/generated', true), false);
+  assert.equal(ignored(rules, 'packages/web/important.tmp'), false);
+  assert.equal(ignored(rules, 'packages/api/important.tmp'), true);
+});
+
+test('.git and node_modules are always ignored', () => {
+  assert.equal(ignored([], '.git', true), true);
+  assert.equal(ignored([], 'packages/web/node_modules/react/index.js'), true);
+  assert.equal(ignored(compile('!node_modules'), 'node_modules', true), true);
+  assert.equal(ignored([], 'src/index.js'), false);
+});
@@ -0,0 +1,94 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { GitService, isFileList, parseStatusV2 } = require('../git-service');
+
+const entries = (...lines) => `${lines.join('\0')}\0`;
+
+test('branch headers give the branch and ahead/behind counts', () => {
+  const status = parseStatusV2(entries(
+    '# branch.oid 1234567890abcdef',
+    '# branch.head feature/login',
+    '# branch.upstream origin/feature/login',
+    '# branch.ab +2 -3'
+  ));
+  assert.equal(status.branch, 'feature/login');
+  assert.equal(status.ahead, 2);
+  assert.equal(status.behind, 3);
+});
+
+test('a detached HEAD is reported as HEAD', () => {
+  assert.equal(parseStatusV2(entries('# branch.head (detached)')).branch, 'HEAD');
+});
+
+test('changed entries are sorted into staged, unstaged, added and deleted', () => {
+  const status = parseStatusV2(entries(
+    '1 M. N... 100644 100644 100644 aaaa bbbb src/staged.js',
+    '1 .M N... 100644 100644 100644 aaaa aaaa src/with space.js',
+    '1 A. N... 000000 100644 100644 0000 cccc new.txt',
+    '1 .D N... 100644 100644 000000 aaaa aaaa gone.txt',
+    '? untracked file.md',
+    '! ignored.log'
+  ));
+  assert.deepEqual(status.staged, ['src/staged.js', 'new.txt']);
+  assert.deepEqual(status.unstaged, ['src/with space.js', 'gone.txt']);
+  assert.deepEqual(status.added, ['new.txt']);
+  assert.deepEqual(status.deleted, ['gone.txt']);
+  assert.deepEqual(status.modified, ['src/staged.js', 'src/with space.js']);
+  assert.deepEqual(status.untracked, ['untracked file.md']);
+});
+
+test('renames use the new path and skip the original path entry', () => {
+  const status = parseStatusV2(entries(
+    '2 R. N... 100644 100644 100644 aaaa aaaa R100 renamed.js',
+    'original.js',
+    '? after.txt'
+  ));
+  assert.deepEqual(status.staged, ['renamed.js']);
+  assert.deepEqual(status.untracked, ['after.txt']);
+});
+
+test('unmerged entries are conflicted', () => {
+  const status = parseStatusV2(entries('u UU N... 100644 100644 100644 100644 aaaa bbbb cccc both changed.txt'));
+  assert.deepEqual(status.conflicted, ['both changed.txt']);
+  assert.deepEqual(status.staged, []);
+});
+
+test('file lists must be non-empty lists of non-empty paths', () => {
+  assert.ok(isFileList(['a.js', 'dir/b.js']));
+  assert.ok(!isFileList([]));
+  assert.ok(!isFileList('a.js'));
+  assert.ok(!isFileList(['a.js', '']));
+  assert.ok(!isFileList(['a.js', 42]));
+  assert.ok(!isFileList([{ toString: () => '--all' }]));
+  assert.ok(!isFileList(['a\0b']));
+});
+
+test('status and commit work against a real repository', async (t) => {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-git-'));
+  t.after(() => fs.rmSync(repo, { recursive: true, force: true }));
+  const git = (...args) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' });
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'Test');
+  fs.writeFileSync(path.join(repo, 'tracked.txt'), 'one\n');
+  git('add', 'tracked.txt');
+  git('commit', '-q', '-m', 'initial');
+
+  fs.writeFileSync(path.join(repo, 'tracked.txt'), 'two\n');
+  fs.writeFileSync(path.join(repo, 'new file.txt'), 'new\n');
+
+  const service = new GitService(repo);
+  const status = await service.getStatus();
+  assert.equal(status.branch, 'main');
+  assert.deepEqual(status.unstaged, ['tracked.txt']);
+  assert.deepEqual(status.untracked, ['new file.txt']);
+
+  await assert.rejects(service.commit('bad', ['tracked.txt', '']), /Files must be a list of paths/);
+  await service.commit('update', ['tracked.txt', 'new file.txt']);
+  const after = await service.getStatus();
+  assert.deepEqual([...after.staged, ...after.unstaged, ...after.untracked], []);
+});
@@ -0,0 +1,120 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-events-'));
+process.env.HOME = home;
+
+// Keep the project lookup logs out of the test output
+mock.method(console, 'log', () => {});
+
+const { refreshProjects, getProjectsSnapshot, getProjectsVersion, onProjectEvent } = require('../project-events');
+const { renameProject } = require('../projects');
+
+const projectsDir = path.join(home, '.claude', 'projects');
+const workDir = path.join(home, 'work');
+fs.mkdirSync(workDir, { recursive: true });
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const entry = (sessionId, uuid, minute, text) => JSON.stringify({
+  type: 'user',
+  sessionId,
+  uuid,
+  cwd: workDir,
+  timestamp: new Date(Date.UTC(2026, 0, 6, 10, minute)).toISOString(),
+  message: { role: 'user', content: text }
+}) + '\n';
+
+function writeSession(projectName, sessionId, text) {
+  fs.mkdirSync(path.join(projectsDir, projectName), { recursive: true });
+  fs.writeFileSync(path.join(projectsDir, projectName, `${sessionId}.jsonl`), entry(sessionId, `${sessionId}-1`, 0, text));
+}
+
+// Events emitted by one refresh
+async function refreshEvents() {
+  const events = [];
+  const stop = onProjectEvent(event => events.push(event));
+  try {
+    await refreshProjects();
+  } finally {
+    stop();
+  }
+  return events;
+}
+
+const summarize = (events) => events.map(event => [event.type, event.projectName ?? event.project?.name, event.session?.id ?? event.sessionId]);
+
+test('the first refresh loads a snapshot without emitting events', async () => {
+  for (let i = 1; i <= 6; i++) {
+    writeSession('-work-one', `s${i}`, `prompt ${i}`);
+  }
+
+  assert.deepEqual(await refreshEvents(), []);
+
+  const { version, projects } = await getProjectsSnapshot();
+  assert.equal(version, getProjectsVersion());
+  assert.deepEqual(projects.map(project => project.name), ['-work-one']);
+  assert.equal(projects[0].sessions.length, 5);
+  assert.deepEqual(projects[0].sessionMeta, { total: 6, hasMore: true });
+});
+
+test('session changes become versioned events', async () => {
+  const startVersion = getProjectsVersion();
+
+  writeSession('-work-one', 's7', 'prompt 7');
+  fs.appendFileSync(path.join(projectsDir, '-work-one', 's1.jsonl'), entry('s1', 's1-2', 5, 'follow up'));
+  fs.rmSync(path.join(projectsDir, '-work-one', 's2.jsonl'));
+
+  const events = await refreshEvents();
+  assert.deepEqual(summarize(events).sort(), [
+    ['session-added', '-work-one', 's7'],
+    ['session-removed', '-work-one', 's2'],
+    ['session-updated', '-work-one', 's1']
+  ]);
+  assert.deepEqual(events.map(event => event.version), [startVersion + 1, startVersion + 2, startVersion + 3]);
+  assert.deepEqual(events.find(event => event.type === 'session-added').sessionMeta, { total: 6, hasMore: true });
+  assert.equal(getProjectsVersion(), startVersion + 3);
+
+  // Nothing changed since
+  assert.deepEqual(await refreshEvents(), []);
+});
+
+test('projects added, renamed and removed become events', async () => {
+  writeSession('-work-two', 't1', 'second project');
+  let events = await refreshEvents();
+  assert.deepEqual(summarize(events), [['project-added', '-work-two', undefined]]);
+  assert.deepEqual(events[0].project.sessions.map(session => session.id), ['t1']);
+
+  await renameProject('-work-two', 'Second');
+  events = await refreshEvents();
+  assert.deepEqual(summarize(events), [['project-updated', '-work-two', undefined]]);
+  assert.equal(events[0].project.displayName, 'Second');
+  // Only the listed project fields, not its sessions
+  assert.equal(events[0].project.sessions, undefined);
+
+  fs.rmSync(path.join(projectsDir, '-work-two'), { recursive: true });
+  events = await refreshEvents();
+  assert.deepEqual(summarize(events), [['project-removed', '-work-two', undefined]]);
+});
+
+test('refreshes requested during a refresh are folded into one more', async () => {
+  const events = [];
+  const stop = onProjectEvent(event => events.push(event));
+  try {
+    const first = refreshProjects();
+    writeSession('-work-one', 's8', 'prompt 8');
+    await Promise.all([first, refreshProjects(), refreshProjects()]);
+  } finally {
+    stop();
+  }
+  // Whichever pass sees the new session, it is reported once
+  assert.deepEqual(summarize(events), [['session-added', '-work-one', 's8']]);
+  assert.deepEqual(await refreshEvents(), []);
+});
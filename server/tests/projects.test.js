@@ -0,0 +1,160 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-projects-'));
+process.env.HOME = home;
+const { getSessionMessages, getSessionMessagesPage, forkSession, getSessionBranches } = require('../projects');
+const { getProjectSessionMetadata } = require('../session-metadata');
+
+const projectName = '-work-app';
+const projectDir = path.join(home, '.claude', 'projects', projectName);
+fs.mkdirSync(projectDir, { recursive: true });
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const entry = (sessionId, uuid, minute, text) => JSON.stringify({
+  type: 'user',
+  sessionId,
+  uuid,
+  timestamp: new Date(Date.UTC(2026, 0, 5, 10, minute)).toISOString(),
+  message: { role: 'user', content: text }
+});
+
+// Long, multi-byte lines so the session spans several read-back blocks and
+// lines straddle block boundaries
+const padding = 'ü€✓'.repeat(200);
+const lines = [];
+for (let i = 0; i < 300; i++) {
+  lines.push(entry('s1', `m${i}`, i, `${i} ${padding}`));
+  if (i % 7 === 0) lines.push(entry('other', `o${i}`, i, 'another session'));
+}
+fs.writeFileSync(path.join(projectDir, 'main.jsonl'), lines.join('\n') + '\n');
+// Later messages of the same session in a second file
+fs.writeFileSync(path.join(projectDir, 'resumed.jsonl'),
+  [300, 301, 302].map(i => entry('s1', `m${i}`, i, `${i} resumed`)).join('\n') + '\n');
+
+const uuids = (messages) => messages.map(message => message.uuid);
+const range = (from, to) => Array.from({ length: to - from }, (_, i) => `m${from + i}`);
+
+test('pages match a full read of the session', async () => {
+  const all = await getSessionMessages(projectName, 's1');
+  assert.equal(all.length, 303);
+
+  const latest = await getSessionMessagesPage(projectName, 's1', { limit: 50 });
+  assert.deepEqual(uuids(latest.messages), range(253, 303));
+  assert.deepEqual({ hasOlder: latest.hasOlder, hasNewer: latest.hasNewer, total: latest.total },
+    { hasOlder: true, hasNewer: false, total: 303 });
+  assert.equal(latest.messages[0].message.content, `253 ${padding}`);
+
+  const older = await getSessionMessagesPage(projectName, 's1', { before: 'm253', limit: 200 });
+  assert.deepEqual(uuids(older.messages), range(53, 253));
+  assert.equal(older.hasOlder, true);
+  assert.equal(older.hasNewer, true);
+
+  const oldest = await getSessionMessagesPage(projectName, 's1', { before: 'm53', limit: 100 });
+  assert.deepEqual(uuids(oldest.messages), range(0, 53));
+  assert.equal(oldest.hasOlder, false);
+});
+
+test('pages after a cursor hold the messages that follow it', async () => {
+  const page = await getSessionMessagesPage(projectName, 's1', { after: 'm10', limit: 5 });
+  assert.deepEqual(uuids(page.messages), range(11, 16));
+  assert.deepEqual({ hasOlder: page.hasOlder, hasNewer: page.hasNewer }, { hasOlder: true, hasNewer: true });
+
+  const last = await getSessionMessagesPage(projectName, 's1', { after: 'm299', limit: 5 });
+  assert.deepEqual(uuids(last.messages), ['m300', 'm301', 'm302']);
+  assert.equal(last.hasNewer, false);
+});
+
+test('an unknown cursor gives no page', async () => {
+  assert.equal(await getSessionMessagesPage(projectName, 's1', { before: 'o7' }), null);
+  assert.deepEqual((await getSessionMessagesPage(projectName, 'missing')).messages, []);
+});
+
+test('a last line longer than a read-back block is read whole', async () => {
+  // Still being written, so no newline after it yet
+  const long = 'x'.repeat(150 * 1024);
+  fs.writeFileSync(path.join(projectDir, 'long.jsonl'),
+    [entry('s2', 'l0', 0, 'short'), entry('s2', 'l1', 1, long)].join('\n'));
+
+  const page = await getSessionMessagesPage(projectName, 's2', { limit: 10 });
+  assert.deepEqual(uuids(page.messages), ['l0', 'l1']);
+  assert.equal(page.messages[1].message.content, long);
+});
+
+// A short conversation in a project of its own: two prompts and their replies
+const forkProject = '-work-fork';
+const forkDir = path.join(home, '.claude', 'projects', forkProject);
+const chat = (sessionId, uuid, parentUuid, role, content, minute) => JSON.stringify({
+  type: role,
+  sessionId,
+  uuid,
+  parentUuid,
+  timestamp: new Date(Date.UTC(2026, 0, 6, 9, minute)).toISOString(),
+  message: { role, content }
+});
+fs.mkdirSync(forkDir, { recursive: true });
+fs.writeFileSync(path.join(forkDir, 'orig.jsonl'), [
+  chat('orig', 'u1', null, 'user', 'first prompt', 0),
+  chat('orig', 'a1', 'u1', 'assistant', 'first reply', 1),
+  chat('orig', 'u2', 'a1', 'user', 'second prompt', 2),
+  chat('orig', 'a2', 'u2', 'assistant', 'second reply', 3),
+  JSON.stringify({ type: 'summary', summary: 'Original title', sessionId: 'orig', leafUuid: 'a2' })
+].join('\n') + '\n');
+
+const contents = (entries) => entries.filter(entry => entry.message).map(entry => entry.message.content);
+
+test('a fork copies the session up to the reply with new IDs and links', async () => {
+  const fork = await forkSession(forkProject, 'orig', 'u1');
+  assert.equal(fork.resume, true);
+  assert.deepEqual({ sessionId: fork.forkedFrom.sessionId, messageId: fork.forkedFrom.messageId }, { sessionId: 'orig', messageId: 'u1' });
+
+  const copied = await getSessionMessages(forkProject, fork.sessionId);
+  assert.deepEqual(contents(copied), ['first prompt', 'first reply']);
+  const [prompt, reply, summary] = copied;
+  assert.ok(![prompt.uuid, reply.uuid].some(uuid => ['u1', 'a1'].includes(uuid)));
+  assert.equal(prompt.parentUuid, null);
+  assert.equal(reply.parentUuid, prompt.uuid);
+  assert.deepEqual([summary.type, summary.summary, summary.leafUuid], ['summary', 'Original title', reply.uuid]);
+  assert.ok(copied.every(entry => entry.sessionId === fork.sessionId));
+
+  // The original is untouched
+  assert.equal((await getSessionMessages(forkProject, 'orig')).length, 5);
+  assert.deepEqual((await getProjectSessionMetadata(forkProject))[fork.sessionId].forkedFrom, fork.forkedFrom);
+});
+
+test('edited prompts become branches of the prompt they were first sent as', async () => {
+  // Editing the first prompt leaves nothing to copy
+  const fresh = await forkSession(forkProject, 'orig', 'u1', { before: true });
+  assert.equal(fresh.resume, false);
+  assert.equal(fs.existsSync(path.join(forkDir, `${fresh.sessionId}.jsonl`)), false);
+
+  const edit = await forkSession(forkProject, 'orig', 'u2', { before: true });
+  assert.equal(edit.resume, true);
+  assert.deepEqual(contents(await getSessionMessages(forkProject, edit.sessionId)), ['first prompt', 'first reply']);
+  assert.deepEqual([edit.forkedFrom.messageId, edit.forkedFrom.promptIndex, edit.forkedFrom.edited], ['u2', 1, true]);
+
+  // The CLI then sends the edited prompt in the branch
+  const [, branchReply] = await getSessionMessages(forkProject, edit.sessionId);
+  fs.appendFileSync(path.join(forkDir, `${edit.sessionId}.jsonl`),
+    chat(edit.sessionId, 'e2', branchReply.uuid, 'user', 'second prompt, edited', 10) + '\n');
+
+  assert.deepEqual((await getSessionBranches(forkProject, 'orig')).map(({ messageId, siblings, currentIndex }) =>
+    ({ messageId, siblings: siblings.map(sibling => sibling.sessionId), currentIndex })),
+  [{ messageId: 'u2', siblings: ['orig', edit.sessionId], currentIndex: 0 }]);
+  assert.deepEqual((await getSessionBranches(forkProject, edit.sessionId)).map(({ messageId, currentIndex }) => ({ messageId, currentIndex })),
+    [{ messageId: 'e2', currentIndex: 1 }]);
+
+  // Editing the branch's own edited prompt again adds a sibling of the original
+  const again = await forkSession(forkProject, edit.sessionId, 'e2', { before: true });
+  assert.deepEqual([again.forkedFrom.sessionId, again.forkedFrom.messageId], ['orig', 'u2']);
+  const [branchPoint] = await getSessionBranches(forkProject, 'orig');
+  assert.deepEqual(branchPoint.siblings.map(sibling => sibling.sessionId), ['orig', edit.sessionId, again.sessionId]);
+});
@@ -0,0 +1,151 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-prompt-queue-'));
+process.env.HOME = home;
+
+// Keep the queue's progress logs out of the test output
+mock.method(console, 'log', () => {});
+
+const { createRun, finishRun, publish } = require('../run-registry');
+const claudeCli = require('../claude-cli');
+
+// Queued prompts "run" as registry runs the tests finish by hand
+const started = [];
+mock.method(claudeCli, 'spawnClaude', async (command, options, ws, runConfig) => {
+  started.push({ command, options, runConfig, run: createRun({ requestId: options.requestId, sessionId: options.sessionId }) });
+});
+
+const {
+  PromptQueueError,
+  getPromptQueue,
+  enqueuePrompt,
+  updateQueuedPrompt,
+  removeQueuedPrompt,
+  reorderPromptQueue,
+  resumePromptQueue,
+  onQueueEvent
+} = require('../prompt-queue');
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+// Runs finishing start the next prompt on the following tick
+const nextTick = () => new Promise(resolve => setImmediate(resolve));
+const commands = (sessionId) => getPromptQueue(sessionId).items.map(item => item.command);
+
+async function finishLatest(status = 'completed') {
+  finishRun(started[started.length - 1].run, status);
+  await nextTick();
+}
+
+test('a prompt for an idle session runs right away with --resume', () => {
+  started.length = 0;
+  enqueuePrompt('-work-app', 'idle', 'hello', { model: 'opus', sessionId: 'ignored', resume: false, extra: 1 });
+
+  assert.equal(started.length, 1);
+  assert.equal(started[0].command, 'hello');
+  assert.equal(started[0].options.sessionId, 'idle');
+  assert.equal(started[0].options.resume, true);
+  assert.equal(started[0].options.model, 'opus');
+  assert.equal(started[0].options.extra, undefined);
+  assert.deepEqual(commands('idle'), []);
+  finishRun(started[0].run, 'completed');
+});
+
+test('prompts queued behind a running session run one at a time in order', async () => {
+  started.length = 0;
+  const running = createRun({ requestId: 'busy-run', sessionId: 'busy' });
+  started.push({ command: 'first', run: running });
+
+  const ids = ['second', 'third', 'fourth'].map(command => enqueuePrompt('-work-app', 'busy', command));
+  assert.equal(started.length, 1);
+  assert.deepEqual(commands('busy'), ['second', 'third', 'fourth']);
+
+  reorderPromptQueue('busy', [ids[2], ids[0], ids[1]]);
+  updateQueuedPrompt('busy', ids[1], 'third, edited');
+  assert.deepEqual(commands('busy'), ['fourth', 'second', 'third, edited']);
+
+  await finishLatest();
+  await finishLatest();
+  assert.deepEqual(started.map(run => run.command), ['first', 'fourth', 'second']);
+  assert.deepEqual(commands('busy'), ['third, edited']);
+
+  await finishLatest();
+  assert.deepEqual(started.map(run => run.command), ['first', 'fourth', 'second', 'third, edited']);
+  assert.deepEqual(commands('busy'), []);
+  await finishLatest();
+});
+
+test('an aborted run pauses the queue until it is resumed', async () => {
+  started.length = 0;
+  started.push({ command: 'running', run: createRun({ requestId: 'abort-run', sessionId: 'aborting' }) });
+  enqueuePrompt('-work-app', 'aborting', 'next');
+
+  await finishLatest('aborted');
+  assert.equal(started.length, 1);
+  assert.equal(getPromptQueue('aborting').paused, true);
+
+  resumePromptQueue('aborting');
+  assert.deepEqual(started.map(run => run.command), ['running', 'next']);
+  assert.equal(getPromptQueue('aborting').paused, false);
+  await finishLatest();
+});
+
+test('the queue follows a session that continues under a new ID', async () => {
+  started.length = 0;
+  const run = createRun({ requestId: 'moving-run', sessionId: 'old-id' });
+  started.push({ command: 'running', run });
+  enqueuePrompt('-work-app', 'old-id', 'follow me');
+
+  // The CLI reports the ID the resumed session carries on under
+  publish(run, { type: 'session-created', sessionId: 'new-id' });
+  await finishLatest();
+  assert.equal(started[1].command, 'follow me');
+  assert.equal(started[1].options.sessionId, 'new-id');
+  await finishLatest();
+});
+
+test('invalid changes are rejected with a status code', () => {
+  const run = createRun({ requestId: 'invalid-run', sessionId: 'strict' });
+  const events = [];
+  const stop = onQueueEvent(event => events.push(event));
+  const id = enqueuePrompt('-work-app', 'strict', 'only');
+
+  assert.throws(() => enqueuePrompt('-work-app', 'strict', '   '), PromptQueueError);
+  assert.throws(() => reorderPromptQueue('strict', [id, id]), /every queued prompt once/);
+  assert.throws(() => reorderPromptQueue('strict', ['unknown']), /every queued prompt once/);
+  assert.throws(() => updateQueuedPrompt('strict', 'unknown', 'text'), error => error.statusCode === 404);
+
+  removeQueuedPrompt('strict', id);
+  assert.deepEqual(getPromptQueue('strict'), { sessionId: 'strict', paused: false, items: [] });
+  assert.deepEqual(events.map(event => event.items.length), [1, 0]);
+  stop();
+  finishRun(run, 'completed');
+});
+
+test('only admins can queue or edit prompts that bypass permissions', async () => {
+  started.length = 0;
+  const admin = { id: 1, username: 'admin', role: 'admin' };
+  const member = { id: 2, username: 'member', role: 'user' };
+  const bypass = { permissionMode: 'bypassPermissions' };
+  const running = createRun({ requestId: 'bypass-run', sessionId: 'bypass' });
+  started.push({ command: 'first', run: running });
+
+  assert.throws(() => enqueuePrompt('-work-app', 'bypass', 'nope', bypass, member),
+    error => error instanceof PromptQueueError && error.statusCode === 403);
+  const id = enqueuePrompt('-work-app', 'bypass', 'second', bypass, admin);
+  assert.throws(() => updateQueuedPrompt('bypass', id, 'edited', member),
+    error => error instanceof PromptQueueError && error.statusCode === 403);
+  assert.deepEqual(commands('bypass'), ['second']);
+
+  // The prompt runs as whoever queued it
+  await finishLatest();
+  assert.equal(started[1].command, 'second');
+  assert.equal(started[1].runConfig.user, admin);
+  finishRun(started[1].run, 'completed');
+});
@@ -0,0 +1,103 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  createRun,
+  getRunBySession,
+  publish,
+  subscribe,
+  unsubscribeAll,
+  finishRun,
+  createHeadlessSink
+} = require('../run-registry');
+
+function fakeSocket() {
+  const frames = [];
+  return { frames, socket: createHeadlessSink(frame => frames.push(frame)) };
+}
+
+const publishMany = (run, count) => {
+  for (let i = 0; i < count; i++) {
+    publish(run, { type: 'claude-output', data: `line ${i}` });
+  }
+};
+
+test('frames are numbered from 1 and tagged with the run', () => {
+  const { frames, socket } = fakeSocket();
+  const run = createRun({ requestId: 'numbering', sessionId: 'session-a' }, socket);
+
+  publishMany(run, 3);
+
+  assert.deepEqual(frames.map(frame => frame.seq), [1, 2, 3]);
+  assert.ok(frames.every(frame => frame.requestId === 'numbering' && frame.sessionId === 'session-a'));
+  finishRun(run, 'completed');
+});
+
+test('subscribing with a cursor replays only the frames after it', () => {
+  const run = createRun({ requestId: 'cursor' });
+  publishMany(run, 5);
+
+  const { frames, socket } = fakeSocket();
+  subscribe(run, socket, 3);
+  publish(run, { type: 'claude-output', data: 'live' });
+
+  const [resumed, ...events] = frames;
+  assert.equal(resumed.type, 'stream-resumed');
+  assert.equal(resumed.cursor, 3);
+  assert.equal(resumed.latestSeq, 5);
+  assert.equal(resumed.truncated, false);
+  assert.deepEqual(events.map(frame => frame.seq), [4, 5, 6]);
+  finishRun(run, 'completed');
+});
+
+test('subscribing without a cursor only gets new frames', () => {
+  const run = createRun({ requestId: 'no-cursor' });
+  publishMany(run, 2);
+
+  const { frames, socket } = fakeSocket();
+  subscribe(run, socket);
+  publishMany(run, 1);
+
+  assert.equal(frames[0].cursor, 2);
+  assert.deepEqual(frames.slice(1).map(frame => frame.seq), [3]);
+  finishRun(run, 'completed');
+});
+
+test('a cursor older than the buffer is reported as truncated', () => {
+  const run = createRun({ requestId: 'overflow' });
+  publishMany(run, 2005);
+
+  const { frames, socket } = fakeSocket();
+  subscribe(run, socket, 0);
+
+  const [resumed, ...events] = frames;
+  assert.equal(resumed.truncated, true);
+  assert.equal(events.length, 2000);
+  assert.equal(events[0].seq, 6);
+  assert.equal(events[events.length - 1].seq, 2005);
+  finishRun(run, 'completed');
+});
+
+test('closed sockets are skipped and unsubscribed sockets get nothing', () => {
+  const { frames, socket } = fakeSocket();
+  const run = createRun({ requestId: 'closed' }, socket);
+
+  socket.readyState = 3;
+  publishMany(run, 1);
+  socket.readyState = socket.OPEN;
+  unsubscribeAll(socket);
+  publishMany(run, 1);
+
+  assert.deepEqual(frames, []);
+  assert.equal(run.seq, 2);
+  finishRun(run, 'completed');
+});
+
+test('a run follows the session ID its frames report', () => {
+  const run = createRun({ requestId: 'resumed', sessionId: 'old-session' });
+  publish(run, { type: 'session-created', sessionId: 'new-session' });
+
+  assert.equal(getRunBySession('new-session'), run);
+  assert.equal(getRunBySession('old-session'), null);
+  assert.equal(run.initialSessionId, 'old-session');
+  finishRun(run, 'completed');
+});
@@ -0,0 +1,22 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { isWithin } = require('../sandbox');
+
+test('the root and its descendants are within it', () => {
+  assert.ok(isWithin('/home/me/project', '/home/me/project'));
+  assert.ok(isWithin('/home/me/project', '/home/me/project/src/index.js'));
+});
+
+test('children whose names start with ".." are within it', () => {
+  assert.ok(isWithin('/home/me/project', '/home/me/project/..cache'));
+  assert.ok(isWithin('/home/me/project', '/home/me/project/...'));
+  assert.ok(isWithin('/home/me/project', '/home/me/project/..cache/file'));
+});
+
+test('parents, siblings and lookalike prefixes are outside it', () => {
+  assert.ok(!isWithin('/home/me/project', '/home/me'));
+  assert.ok(!isWithin('/home/me/project', '/'));
+  assert.ok(!isWithin('/home/me/project', '/home/me/other/file'));
+  assert.ok(!isWithin('/home/me/project', '/home/me/project-secrets/key'));
+  assert.ok(!isWithin('/home/me/project', '/home/me/project/../other'));
+});
@@ -0,0 +1,93 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-scheduler-'));
+process.env.HOME = home;
+
+// Keep the project lookup logs out of the test output
+mock.method(console, 'log', () => {});
+
+const claudeCli = require('../claude-cli');
+mock.method(claudeCli, 'spawnClaude', async () => {});
+
+const { ScheduleError, listJobs, createJob, updateJob, deleteJob } = require('../scheduler');
+
+// Projects whose sessions ran in an existing folder
+function addProject(projectName, workDir) {
+  fs.mkdirSync(workDir, { recursive: true });
+  fs.mkdirSync(path.join(home, '.claude', 'projects', projectName), { recursive: true });
+  fs.writeFileSync(path.join(home, '.claude', 'projects', projectName, 's1.jsonl'), JSON.stringify({
+    type: 'user',
+    sessionId: 's1',
+    uuid: 'm1',
+    cwd: workDir,
+    timestamp: new Date(Date.UTC(2026, 0, 5, 10, 0)).toISOString(),
+    message: { role: 'user', content: 'hello' }
+  }) + '\n');
+}
+const projectName = '-work-app';
+addProject(projectName, path.join(home, 'work', 'app'));
+addProject('-work-lib', path.join(home, 'work', 'lib'));
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const admin = { id: 1, username: 'admin', role: 'admin' };
+const member = { id: 2, username: 'member', role: 'user' };
+const job = (fields = {}) => ({ name: 'Nightly', prompt: 'Run the tests', cron: '0 3 * * *', projectName, ...fields });
+const rejected = (statusCode) => (error) => error instanceof ScheduleError && error.statusCode === statusCode;
+
+test('only admins can create a job that skips permission prompts', async () => {
+  await assert.rejects(createJob(job({ skipPermissions: true }), member), rejected(403));
+  const created = await createJob(job({ skipPermissions: true }), admin);
+  assert.equal(created.skipPermissions, true);
+
+  const plain = await createJob(job(), member);
+  assert.equal(plain.skipPermissions, false);
+  await assert.rejects(updateJob(plain.id, { skipPermissions: true }, member), rejected(403));
+});
+
+test('non-admins can only pause a job that skips permission prompts or turn the skip off', async () => {
+  const created = await createJob(job({ skipPermissions: true }), admin);
+
+  assert.equal((await updateJob(created.id, { enabled: false }, member)).enabled, false);
+  // The form sends every field back unchanged
+  assert.equal((await updateJob(created.id, { ...job(), enabled: true }, member)).enabled, true);
+  await assert.rejects(updateJob(created.id, { prompt: 'Something else' }, member), rejected(403));
+  await assert.rejects(updateJob(created.id, { allowedTools: ['Bash'] }, member), rejected(403));
+
+  const updated = await updateJob(created.id, { skipPermissions: false, prompt: 'Something else' }, member);
+  assert.deepEqual([updated.skipPermissions, updated.prompt], [false, 'Something else']);
+});
+
+test('a job\'s project is checked when it is saved', async () => {
+  await assert.rejects(createJob(job({ projectName: '-work-missing' }), admin), rejected(400));
+  await assert.rejects(createJob(job({ cron: '61 * * * *' }), admin), rejected(400));
+
+  const created = await createJob(job(), admin);
+  await assert.rejects(updateJob(created.id, { projectName: '-work-missing' }, admin), rejected(400));
+});
+
+test('changes made at the same time are all saved', async () => {
+  const created = await createJob(job(), admin);
+  // The project change checks its folder before saving; the pause must not be lost meanwhile
+  await Promise.all([
+    updateJob(created.id, { projectName: '-work-lib' }, admin),
+    updateJob(created.id, { enabled: false }, admin)
+  ]);
+
+  const extra = await Promise.all(Array.from({ length: 5 }, (_, i) => createJob(job({ name: `Job ${i}` }), admin)));
+  await Promise.all(extra.slice(0, 2).map(({ id }) => deleteJob(id)));
+
+  const saved = JSON.parse(fs.readFileSync(path.join(home, '.claude', 'calfins-schedules.json'), 'utf8'));
+  const updated = saved.jobs.find(({ id }) => id === created.id);
+  assert.deepEqual([updated.projectName, updated.enabled], ['-work-lib', false]);
+  assert.deepEqual(saved.jobs.map(({ id }) => id), (await listJobs()).map(({ id }) => id));
+  assert.deepEqual(saved.jobs.slice(-3).map(({ name }) => name), ['Job 2', 'Job 3', 'Job 4']);
+});
@@ -0,0 +1,114 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-search-'));
+process.env.HOME = home;
+
+// Keep the index build log out of the test output
+mock.method(console, 'log', () => {});
+
+const { search, notifyFileChange } = require('../search-index');
+
+const projectsDir = path.join(home, '.claude', 'projects');
+
+function writeSession(projectName, fileName, entries) {
+  const dir = path.join(projectsDir, projectName);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, fileName);
+  fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+  return filePath;
+}
+
+const alphaFile = writeSession('-work-alpha', 's1.jsonl', [
+  { type: 'summary', sessionId: 's1', summary: 'Flaky login test' },
+  { type: 'user', sessionId: 's1', uuid: 'u1', timestamp: '2026-03-01T10:00:00Z', message: { role: 'user', content: 'Why does the login test fail?' } },
+  { type: 'assistant', sessionId: 's1', uuid: 'a1', timestamp: '2026-03-01T10:01:00Z', message: { role: 'assistant', content: [
+    { type: 'text', text: 'Running the suite.' },
+    { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'npm test' } }
+  ] } },
+  { type: 'user', sessionId: 's1', uuid: 'r1', timestamp: '2026-03-01T10:02:00Z', message: { role: 'user', content: [
+    { type: 'tool_result', tool_use_id: 'tool-1', content: [{ type: 'text', text: 'TimeoutError in authSpec' }] }
+  ] } },
+  'not json'
+]);
+
+writeSession('-work-beta', 's2.jsonl', [
+  { type: 'user', sessionId: 's2', uuid: 'u2', timestamp: '2026-03-05T08:00:00Z', message: { role: 'user', content: 'Add a logout button next to login' } },
+  { type: 'assistant', sessionId: 's2', uuid: 'a2', timestamp: '2026-03-05T08:01:00Z', message: { role: 'assistant', content: 'Done, the button logs out.' } }
+]);
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('every term must match and the last one also matches as a prefix', async () => {
+  const { results, total } = await search({ q: 'login' });
+  assert.equal(total, 2);
+  // Newest first
+  assert.deepEqual(results.map(result => result.messageId), ['u2', 'u1']);
+
+  const prefixed = await search({ q: 'log' });
+  assert.deepEqual(prefixed.results.map(result => result.messageId), ['a2', 'u2', 'u1']);
+
+  const both = await search({ q: 'login fail' });
+  assert.deepEqual(both.results.map(result => result.messageId), ['u1']);
+
+  assert.equal((await search({ q: 'logi button' })).total, 0);
+  assert.equal((await search({ q: '  !! ' })).total, 0);
+});
+
+test('results carry the session summary and a snippet with the matched ranges', async () => {
+  const [first] = (await search({ q: 'login test', projectName: '-work-alpha' })).results;
+  assert.equal(first.projectName, '-work-alpha');
+  assert.equal(first.sessionSummary, 'Flaky login test');
+  assert.equal(first.snippet, 'Why does the login test fail?');
+  assert.deepEqual(first.matches, [[13, 18], [19, 23]]);
+
+  const [beta] = (await search({ q: 'logout' })).results;
+  // Without a summary entry the first prompt names the session
+  assert.equal(beta.sessionSummary, 'Add a logout button next to login');
+});
+
+test('tool results are found under the entry that made the call', async () => {
+  const { results } = await search({ q: 'timeouterror' });
+  assert.equal(results.length, 1);
+  assert.equal(results[0].messageId, 'a1');
+  assert.equal(results[0].role, 'tool');
+  assert.deepEqual(results[0].toolNames, ['Bash']);
+});
+
+test('project, role, tool and date filters narrow the results', async () => {
+  assert.deepEqual((await search({ q: 'log', projectName: '-work-beta' })).results.map(result => result.messageId), ['a2', 'u2']);
+  assert.deepEqual((await search({ q: 'log', role: 'assistant' })).results.map(result => result.messageId), ['a2']);
+  assert.deepEqual((await search({ q: 'npm', toolName: 'bash' })).results.map(result => result.messageId), ['a1']);
+  assert.equal((await search({ q: 'npm', toolName: 'Edit' })).total, 0);
+  assert.deepEqual((await search({ q: 'login', from: '2026-03-02' })).results.map(result => result.messageId), ['u2']);
+  assert.deepEqual((await search({ q: 'login', to: '2026-03-01' })).results.map(result => result.messageId), ['u1']);
+  assert.equal((await search({ q: 'login', from: '2026-03-02', to: '2026-03-04' })).total, 0);
+});
+
+test('watcher changes are picked up by the next search', async () => {
+  const gammaFile = writeSession('-work-gamma', 's3.jsonl', [
+    { type: 'user', sessionId: 's3', uuid: 'u3', timestamp: '2026-03-06T08:00:00Z', message: { role: 'user', content: 'Rename the zephyr module' } }
+  ]);
+  assert.equal((await search({ q: 'zephyr' })).total, 0);
+  notifyFileChange('add', gammaFile);
+  assert.deepEqual((await search({ q: 'zephyr' })).results.map(result => result.messageId), ['u3']);
+
+  writeSession('-work-alpha', 's1.jsonl', [
+    { type: 'user', sessionId: 's1', uuid: 'u9', timestamp: '2026-03-07T08:00:00Z', message: { role: 'user', content: 'A completely different question about caching' } }
+  ]);
+  notifyFileChange('change', alphaFile);
+  assert.equal((await search({ q: 'timeouterror' })).total, 0);
+  assert.deepEqual((await search({ q: 'caching' })).results.map(result => result.messageId), ['u9']);
+
+  fs.rmSync(gammaFile);
+  notifyFileChange('unlink', gammaFile);
+  assert.equal((await search({ q: 'zephyr' })).total, 0);
+
+  notifyFileChange('unlinkDir', path.join(projectsDir, '-work-beta'));
+  assert.equal((await search({ q: 'logout' })).total, 0);
+});
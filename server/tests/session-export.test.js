@@ -0,0 +1,67 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { exportSession } = require('../session-export');
+
+const at = (minute) => new Date(Date.UTC(2026, 0, 8, 9, minute)).toISOString();
+const entries = [
+  { type: 'user', uuid: 'u1', timestamp: at(0), message: { role: 'user', content: 'Fix the <title> & add ```code```' } },
+  // One reply written as several entries with the same message ID
+  { type: 'assistant', uuid: 'a1', timestamp: at(1), message: { id: 'msg-1', role: 'assistant', content: [{ type: 'text', text: 'Looking.' }] } },
+  { type: 'assistant', uuid: 'a2', timestamp: at(1), message: { id: 'msg-1', role: 'assistant', content: [
+    { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'npm test', description: 'Run tests' } }
+  ] } },
+  { type: 'user', uuid: 'r1', timestamp: at(2), message: { role: 'user', content: [
+    { type: 'tool_result', tool_use_id: 'tool-1', content: [{ type: 'text', text: '1 failing' }], is_error: true }
+  ] } },
+  { type: 'assistant', uuid: 'a3', timestamp: at(3), message: { id: 'msg-2', role: 'assistant', content: [
+    { type: 'tool_use', id: 'tool-2', name: 'Edit', input: { file_path: '/repo/index.html', old_string: '<b>old</b>', new_string: 'new' } }
+  ] } },
+  { type: 'user', uuid: 'meta', isMeta: true, timestamp: at(4), message: { role: 'user', content: 'caveat' } },
+  { type: 'summary', summary: 'ignored' }
+];
+const session = { projectName: '-repo', projectPath: '/repo', sessionId: 'sess-1', summary: 'Fix: the title!', entries };
+
+test('entries fold into turns, with tool results on their calls', () => {
+  const { content, contentType, fileName } = exportSession(session, 'json');
+  const doc = JSON.parse(content);
+
+  assert.equal(contentType, 'application/json; charset=utf-8');
+  assert.equal(fileName, 'fix-the-title.json');
+  assert.deepEqual(doc.turns.map(turn => [turn.id, turn.role, turn.blocks.map(block => block.type)]), [
+    ['u1', 'user', ['text']],
+    ['a1', 'assistant', ['text', 'tool']],
+    ['a3', 'assistant', ['tool']]
+  ]);
+  assert.deepEqual(doc.turns[1].blocks[1], {
+    type: 'tool', id: 'tool-1', name: 'Bash', input: { command: 'npm test', description: 'Run tests' }, result: '1 failing', isError: true
+  });
+  assert.equal(doc.turns[2].blocks[0].result, null);
+});
+
+test('Markdown fences outlast the backticks inside them', () => {
+  const { content, fileName } = exportSession(session, 'md');
+  assert.equal(fileName, 'fix-the-title.md');
+  assert.match(content, /^# Fix: the title!\n/);
+  assert.match(content, /- Session: `sess-1`/);
+  assert.match(content, /Fix the <title> & add ```code```/);
+  assert.match(content, /Error:\n\n```\n1 failing\n```/);
+  assert.doesNotMatch(content, /caveat|ignored/);
+});
+
+test('HTML escapes everything from the session', () => {
+  const { content, contentType } = exportSession({ ...session, summary: '<script>alert(1)</script>' }, 'html');
+  assert.equal(contentType, 'text/html; charset=utf-8');
+  assert.doesNotMatch(content, /<script>|<b>old<\/b>/);
+  assert.match(content, /<title>&lt;script&gt;alert\(1\)&lt;\/script&gt;<\/title>/);
+  assert.match(content, /Fix the &lt;title&gt; &amp; add/);
+  assert.match(content, /<span class="removed">- &lt;b&gt;old&lt;\/b&gt;<\/span><span class="added">\+ new<\/span>/);
+  assert.match(content, /<details open><summary>Error<\/summary><pre class="error">1 failing<\/pre><\/details>/);
+});
+
+test('a session without a title is named after its ID', () => {
+  const { content, fileName } = exportSession({ projectName: '-repo', sessionId: 'abc', entries: [] }, 'md');
+  assert.equal(fileName, 'session-abc.md');
+  assert.match(content, /^# Session abc\n/);
+  assert.match(content, /- Project: -repo/);
+});
@@ -0,0 +1,80 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-session-index-'));
+process.env.HOME = home;
+const { getProjectSessions, readSessionEntries, findSessionFiles } = require('../session-index');
+
+const projectName = '-work-app';
+const projectDir = path.join(home, '.claude', 'projects', projectName);
+fs.mkdirSync(projectDir, { recursive: true });
+
+after(async () => {
+  // Let the delayed index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const line = (sessionId, uuid, content, timestamp = '2026-01-05T10:00:00.000Z') =>
+  `${JSON.stringify({ type: 'user', sessionId, uuid, timestamp, cwd: '/work/app', message: { role: 'user', content } })}\n`;
+
+const uuids = (entries) => entries.map(entry => entry.uuid);
+
+test('entries are read back from the byte ranges of their session', async () => {
+  const filePath = path.join(projectDir, 'mixed.jsonl');
+  // Multi-byte characters make byte offsets differ from string offsets
+  fs.writeFileSync(filePath, [
+    line('a', 'a1', 'héllo wörld ✓'),
+    line('a', 'a2', 'second'),
+    line('b', 'b1', 'other session 日本語'),
+    line('a', 'a3', 'after b')
+  ].join(''));
+
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'a')), ['a1', 'a2', 'a3']);
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'b')), ['b1']);
+  assert.deepEqual(await findSessionFiles(projectName, 'b'), [filePath]);
+
+  const sessions = await getProjectSessions(projectName);
+  const a = sessions.find(session => session.id === 'a');
+  assert.equal(a.summary, 'héllo wörld ✓');
+  assert.equal(a.messageCount, 3);
+});
+
+test('appended lines are indexed, including a finished last line without a newline', async () => {
+  const filePath = path.join(projectDir, 'mixed.jsonl');
+  fs.appendFileSync(filePath, line('b', 'b2', 'appended'));
+  fs.appendFileSync(filePath, line('a', 'a4', 'no newline').trimEnd());
+
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'b')), ['b1', 'b2']);
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'a')), ['a1', 'a2', 'a3', 'a4']);
+});
+
+test('a half-written last line is left for the next read', async () => {
+  const filePath = path.join(projectDir, 'partial.jsonl');
+  const full = line('c', 'c2', 'finished later');
+  fs.writeFileSync(filePath, line('c', 'c1', 'first') + full.slice(0, 20));
+
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'c')), ['c1']);
+
+  fs.appendFileSync(filePath, full.slice(20));
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'c')), ['c1', 'c2']);
+});
+
+test('a rewritten file is indexed again from the start', async () => {
+  const filePath = path.join(projectDir, 'rewritten.jsonl');
+  fs.writeFileSync(filePath, line('d', 'd1', 'one') + line('d', 'd2', 'two'));
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'd')), ['d1', 'd2']);
+
+  // Same length, different bytes before the old end
+  fs.writeFileSync(filePath, line('d', 'x1', 'one') + line('d', 'x2', 'two') + line('d', 'x3', 'new'));
+  assert.deepEqual(uuids(await readSessionEntries(projectName, 'd')), ['x1', 'x2', 'x3']);
+});
+
+test('deleted files are dropped from the index', async () => {
+  fs.rmSync(path.join(projectDir, 'rewritten.jsonl'));
+  assert.deepEqual(await readSessionEntries(projectName, 'd'), []);
+  assert.equal((await getProjectSessions(projectName)).some(session => session.id === 'd'), false);
+});
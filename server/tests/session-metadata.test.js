@@ -0,0 +1,46 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-session-metadata-'));
+process.env.HOME = home;
+const { loadProjectConfig } = require('../project-config');
+const { getProjectSessionMetadata, updateSessionMetadata, deleteSessionMetadata, validateSessionAnnotations } = require('../session-metadata');
+const { setAllowedRoots } = require('../sandbox');
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('concurrent updates to project-config.json all persist', async () => {
+  await Promise.all([
+    updateSessionMetadata('-work-app', 's1', { pinned: true }),
+    updateSessionMetadata('-work-app', 's2', { tags: ['bug'] }),
+    updateSessionMetadata('-work-other', 's3', { note: 'later' }),
+    setAllowedRoots('-work-app', ['/work/shared'])
+  ]);
+
+  const config = await loadProjectConfig();
+  assert.deepEqual(config['-work-app'].sessions, { s1: { pinned: true }, s2: { tags: ['bug'] } });
+  assert.deepEqual(config['-work-app'].allowedRoots, ['/work/shared']);
+  assert.deepEqual(config['-work-other'].sessions, { s3: { note: 'later' } });
+});
+
+test('null values clear metadata keys and empty entries are dropped', async () => {
+  assert.deepEqual(await updateSessionMetadata('-work-app', 's1', { pinned: null, color: 'red' }), { color: 'red' });
+  await updateSessionMetadata('-work-app', 's1', { color: null });
+  await deleteSessionMetadata('-work-app', 's2');
+  await deleteSessionMetadata('-work-missing', 's9');
+
+  assert.deepEqual(await getProjectSessionMetadata('-work-app'), {});
+  assert.deepEqual(await getProjectSessionMetadata('-work-missing'), {});
+});
+
+test('annotations are validated and normalized', () => {
+  assert.deepEqual(validateSessionAnnotations({ tags: [' bug ', 'bug', ''], pinned: false, note: '  ' }),
+    { tags: ['bug'], pinned: null, note: null });
+  assert.throws(() => validateSessionAnnotations({ forkedFrom: {} }), /Unknown session metadata/);
+  assert.throws(() => validateSessionAnnotations({ color: 'teal' }), /color must be one of/);
+});
@@ -0,0 +1,51 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-session-summary-')));
+const originalTmpDir = process.env.TMPDIR;
+const bin = path.join(base, 'bin');
+fs.mkdirSync(bin);
+process.env.HOME = base;
+process.env.PATH = `${bin}${path.delimiter}${process.env.PATH}`;
+
+const { generateSessionTitle, isSummaryProject } = require('../session-summary');
+
+after(() => {
+  if (originalTmpDir === undefined) {
+    delete process.env.TMPDIR;
+  } else {
+    process.env.TMPDIR = originalTmpDir;
+  }
+  fs.rmSync(base, { recursive: true, force: true });
+});
+
+const encode = (dir) => dir.replace(/[^a-zA-Z0-9]/g, '-');
+
+test('title runs are recognized under the real path of a symlinked temp folder', async () => {
+  const realTmp = path.join(base, 'private', 'var', 'tmp');
+  const linkedTmp = path.join(base, 'var');
+  fs.mkdirSync(realTmp, { recursive: true });
+  fs.symlinkSync(path.join(base, 'private', 'var'), linkedTmp);
+  process.env.TMPDIR = path.join(linkedTmp, 'tmp');
+
+  assert.equal(await isSummaryProject(encode(path.join(realTmp, 'calfins-session-titles'))), true);
+  assert.equal(await isSummaryProject(encode(path.join(linkedTmp, 'tmp', 'calfins-session-titles'))), false);
+  assert.equal(await isSummaryProject('-work-app'), false);
+});
+
+test('the transcript goes into the prompt as written, replacement patterns included', async () => {
+  // A fake CLI that keeps the prompt it was given
+  const promptFile = path.join(base, 'prompt.txt');
+  fs.writeFileSync(path.join(bin, 'claude'),
+    `#!/bin/sh\ncat > '${promptFile}'\nprintf '{"result":"Fix the price regex"}'\n`, { mode: 0o755 });
+
+  const text = "Why does s/x/$&$'/ cost $$5 in `price`?";
+  const title = await generateSessionTitle([{ message: { role: 'user', content: text } }]);
+
+  assert.equal(title, 'Fix the price regex');
+  const prompt = fs.readFileSync(promptFile, 'utf8');
+  assert.ok(prompt.includes(`<conversation>\nUser: ${text}\n</conversation>`));
+});
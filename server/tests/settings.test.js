@@ -0,0 +1,51 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-settings-'));
+process.env.HOME = home;
+const {
+  getGlobalSettings,
+  updateGlobalSettings,
+  getProjectSettings,
+  updateProjectSettings,
+  addProjectAllowedTool
+} = require('../settings');
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const storePath = path.join(home, '.claude', 'calfins-settings.json');
+
+test('a draft saved alongside "Always allow" keeps both', async () => {
+  await Promise.all([
+    updateProjectSettings('-work-app', { draftInput: 'half a thought' }),
+    addProjectAllowedTool('-work-app', 'Bash(git log:*)'),
+    addProjectAllowedTool('-work-app', 'Read'),
+    updateProjectSettings('-work-app', { draftInput: 'half a thought, finished' }),
+    updateGlobalSettings({ autoExpandTools: true })
+  ]);
+
+  assert.deepEqual(await getProjectSettings('-work-app'), {
+    draftInput: 'half a thought, finished',
+    toolsSettings: { allowedTools: ['Bash(git log:*)', 'Read'] }
+  });
+  assert.equal((await getGlobalSettings()).autoExpandTools, true);
+
+  // What was saved is what is cached, and no temp file is left behind
+  const saved = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+  assert.deepEqual(saved.projects['-work-app'], await getProjectSettings('-work-app'));
+  assert.deepEqual(fs.readdirSync(path.dirname(storePath)), ['calfins-settings.json']);
+});
+
+test('an invalid update changes nothing and later updates still run', async () => {
+  await assert.rejects(updateProjectSettings('-work-app', { draftInput: 42 }), /must be a string/);
+  await assert.rejects(updateGlobalSettings({ unknown: true }), /Unknown setting/);
+  await addProjectAllowedTool('-work-app', 'Read');
+
+  assert.deepEqual((await getProjectSettings('-work-app')).toolsSettings.allowedTools, ['Bash(git log:*)', 'Read']);
+  assert.equal((await getProjectSettings('-work-app')).draftInput, 'half a thought, finished');
+});
@@ -0,0 +1,81 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-slash-commands-'));
+process.env.HOME = home;
+const { getSlashCommands, expandSlashCommand } = require('../slash-commands');
+
+const projectDir = path.join(home, 'work', 'app');
+function writeCommand(dir, name, content) {
+  const filePath = path.join(dir, '.claude', 'commands', name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+writeCommand(projectDir, 'frontend/test.md', [
+  '---',
+  'description: "Run the frontend tests"',
+  'argument-hint: [pattern]',
+  'allowed-tools:',
+  '  - Bash(npm test:*)',
+  '  - Read',
+  'model: haiku',
+  '---',
+  'Run the tests matching $ARGUMENTS, then fix $ARGUMENTS failures.'
+].join('\n'));
+writeCommand(projectDir, 'review.md', '# Review the current diff\n\nLook for bugs.');
+writeCommand(projectDir, 'notes.txt', 'not a command');
+writeCommand(home, 'review.md', 'The user\'s own review');
+writeCommand(home, 'standup.md', '---\nallowed-tools: [Bash(git log:*), "Read"]\n---\nSummarize yesterday.');
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('the menu lists custom commands first, then built-ins they don\'t override', async () => {
+  const commands = await getSlashCommands(projectDir);
+  const custom = commands.filter(command => command.scope !== 'builtin');
+
+  assert.deepEqual(custom.map(command => [command.name, command.scope]), [
+    ['frontend:test', 'project'],
+    ['review', 'project'],
+    ['standup', 'user']
+  ]);
+  assert.deepEqual(custom[0], {
+    name: 'frontend:test',
+    description: 'Run the frontend tests',
+    argumentHint: '[pattern]',
+    allowedTools: ['Bash(npm test:*)', 'Read'],
+    model: 'haiku',
+    scope: 'project'
+  });
+  // Without a description, the first line of the file is used
+  assert.equal(custom[1].description, 'Review the current diff');
+  assert.deepEqual(custom[2].allowedTools, ['Bash(git log:*)', 'Read']);
+
+  const builtinNames = commands.filter(command => command.scope === 'builtin').map(command => command.name);
+  assert.ok(builtinNames.includes('compact'));
+  assert.ok(!builtinNames.includes('review'));
+  assert.ok(commands.every(command => command.content === undefined));
+});
+
+test('a custom command expands with its arguments filled in', async () => {
+  assert.deepEqual(await expandSlashCommand(projectDir, '/frontend:test  Button '), {
+    name: 'frontend:test',
+    prompt: 'Run the tests matching Button, then fix Button failures.',
+    allowedTools: ['Bash(npm test:*)', 'Read'],
+    model: 'haiku'
+  });
+  assert.equal((await expandSlashCommand(projectDir, '/review only src/\nand tests')).prompt,
+    '# Review the current diff\n\nLook for bugs.\n\nARGUMENTS: only src/\nand tests');
+  assert.equal((await expandSlashCommand(null, '/review')).prompt, 'The user\'s own review');
+});
+
+test('other messages are left alone', async () => {
+  for (const message of ['/compact', '/missing', 'review this', ' /review', null]) {
+    assert.equal(await expandSlashCommand(projectDir, message), null, String(message));
+  }
+});
@@ -0,0 +1,113 @@
+const { test, mock, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-trash-'));
+process.env.HOME = home;
+
+// Keep the project lookup logs out of the test output
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const { deleteSession, deleteProject, restoreTrashItem, forkSession, updateSessionSummary } = require('../projects');
+const { saveTrashItem, createTrashItemId, listTrashItems, removeTrashItem } = require('../trash');
+const { getProjectSessionMetadata, updateSessionMetadata } = require('../session-metadata');
+const { loadProjectConfig, updateProjectConfig } = require('../project-config');
+
+const projectsDir = path.join(home, '.claude', 'projects');
+fs.mkdirSync(projectsDir, { recursive: true });
+
+after(async () => {
+  // Let the delayed session index save finish before removing its folder
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+test('project names that lead out of the projects folder are refused', async () => {
+  const documents = path.join(home, 'Documents');
+  fs.mkdirSync(documents);
+  fs.writeFileSync(path.join(documents, 'notes.txt'), 'keep me');
+  fs.writeFileSync(path.join(home, 's1.jsonl'), JSON.stringify({ sessionId: 's1', uuid: 'm1', type: 'user' }) + '\n');
+
+  await assert.rejects(deleteProject('../../Documents'), /Invalid project name/);
+  await assert.rejects(deleteProject('..'), /Invalid project name/);
+  await assert.rejects(forkSession('..', 's1', 'm1'), /not found/);
+  await assert.rejects(deleteSession('..', 's1'), /not found/);
+  await assert.rejects(updateSessionSummary('..', 's1', 'Renamed'), /not found/);
+
+  const item = await saveTrashItem({ id: createTrashItemId(), type: 'project', projectName: '../../Documents', hasFolder: false });
+  await assert.rejects(restoreTrashItem(item.id), /Invalid project name/);
+  await removeTrashItem(item.id);
+
+  assert.equal(fs.readFileSync(path.join(documents, 'notes.txt'), 'utf8'), 'keep me');
+  assert.equal(fs.readFileSync(path.join(home, 's1.jsonl'), 'utf8').split('\n').length, 2);
+});
+
+const entry = (sessionId, uuid, content) => JSON.stringify({
+  type: 'user',
+  sessionId,
+  uuid,
+  timestamp: new Date(Date.UTC(2026, 0, 7, 8, 0)).toISOString(),
+  message: { role: 'user', content }
+});
+const lines = (filePath) => fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+
+test('a deleted session comes back with its lines and metadata', async () => {
+  const projectDir = path.join(projectsDir, '-work-app');
+  const sharedFile = path.join(projectDir, 'shared.jsonl');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(sharedFile, [entry('keep', 'k1', 'stays'), entry('gone', 'g1', 'goes'), entry('keep', 'k2', 'stays too')].join('\n') + '\n');
+  fs.writeFileSync(path.join(projectDir, 'resumed.jsonl'), entry('gone', 'g2', 'goes too') + '\n');
+  await updateSessionMetadata('-work-app', 'gone', { pinned: true });
+
+  const item = await deleteSession('-work-app', 'gone');
+  assert.deepEqual(lines(sharedFile).map(line => JSON.parse(line).uuid), ['k1', 'k2']);
+  assert.deepEqual(lines(path.join(projectDir, 'resumed.jsonl')), []);
+  assert.equal((await getProjectSessionMetadata('-work-app')).gone, undefined);
+  assert.deepEqual((await listTrashItems()).map(trashed => trashed.id), [item.id]);
+
+  await restoreTrashItem(item.id);
+  assert.deepEqual(lines(sharedFile).map(line => JSON.parse(line).uuid), ['k1', 'k2', 'g1']);
+  assert.deepEqual(lines(path.join(projectDir, 'resumed.jsonl')).map(line => JSON.parse(line).uuid), ['g2']);
+  assert.deepEqual((await getProjectSessionMetadata('-work-app')).gone, { pinned: true });
+  assert.deepEqual(await listTrashItems(), []);
+});
+
+test('a restored session is added to a file written since, even one without a final newline', async () => {
+  const projectDir = path.join(projectsDir, '-work-busy');
+  const sessionFile = path.join(projectDir, 'a.jsonl');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(sessionFile, entry('old', 'o1', 'old') + '\n');
+
+  const item = await deleteSession('-work-busy', 'old');
+  fs.writeFileSync(sessionFile, entry('new', 'n1', 'written meanwhile'));
+
+  await restoreTrashItem(item.id);
+  assert.deepEqual(lines(sessionFile).map(line => JSON.parse(line).uuid), ['n1', 'o1']);
+});
+
+test('a deleted project comes back with its folder and config, but not over a new one', async () => {
+  const projectDir = path.join(projectsDir, '-work-empty');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(path.join(projectDir, 'notes.txt'), 'not a session');
+  await updateProjectConfig((config) => {
+    config['-work-empty'] = { displayName: 'Empty' };
+  });
+
+  const item = await deleteProject('-work-empty');
+  assert.equal(fs.existsSync(projectDir), false);
+  assert.equal((await loadProjectConfig())['-work-empty'], undefined);
+
+  await restoreTrashItem(item.id);
+  assert.equal(fs.readFileSync(path.join(projectDir, 'notes.txt'), 'utf8'), 'not a session');
+  assert.deepEqual((await loadProjectConfig())['-work-empty'], { displayName: 'Empty' });
+
+  // Deleted again, and a project of the same name appears before restoring
+  const again = await deleteProject('-work-empty');
+  fs.mkdirSync(projectDir);
+  await assert.rejects(restoreTrashItem(again.id), /already exists/);
+  assert.deepEqual(fs.readdirSync(projectDir), []);
+  assert.deepEqual((await listTrashItems()).map(trashed => trashed.id), [again.id]);
+});
@@ -0,0 +1,98 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'calfins-usage-'));
+process.env.HOME = home;
+const { applyRunUsage, createRunUsage, getUsageReport, getSessionUsage } = require('../usage');
+const { isValidProjectName } = require('../project-names');
+
+const projectDir = path.join(home, '.claude', 'projects', '-work-app');
+fs.mkdirSync(projectDir, { recursive: true });
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+const assistant = (sessionId, messageId, requestId, outputTokens, extra = {}) => ({
+  type: 'assistant',
+  sessionId,
+  uuid: `${sessionId}-${messageId}-${Math.random()}`,
+  requestId,
+  timestamp: '2026-01-05T10:00:00.000Z',
+  message: {
+    id: messageId,
+    model: 'claude-sonnet-4',
+    usage: { input_tokens: 10, output_tokens: outputTokens }
+  },
+  ...extra
+});
+
+const writeSession = (sessionId, entries) => {
+  const filePath = path.join(projectDir, `${sessionId}.jsonl`);
+  fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+  return filePath;
+};
+
+test('usage counts each message once across the session files that copy it', async () => {
+  writeSession('original', [
+    { type: 'user', sessionId: 'original', message: { role: 'user', content: 'hi' } },
+    assistant('original', 'msg-1', 'req-1', 100),
+    // The CLI writes one entry per content block, all with the same usage
+    assistant('original', 'msg-1', 'req-1', 100),
+    assistant('original', 'msg-2', 'req-2', 50)
+  ]);
+  // Created later: a fork that starts with copies of the original's messages
+  await new Promise(resolve => setTimeout(resolve, 20));
+  writeSession('fork', [
+    assistant('fork', 'msg-1', 'req-1', 100),
+    assistant('fork', 'msg-2', 'req-2', 50),
+    assistant('fork', 'msg-3', 'req-3', 7)
+  ]);
+
+  const report = await getUsageReport();
+  assert.equal(report.totals.messageCount, 3);
+  assert.equal(report.totals.outputTokens, 157);
+  assert.equal(report.totals.inputTokens, 30);
+
+  const sessions = Object.fromEntries(report.bySession.map(session => [session.sessionId, session.outputTokens]));
+  assert.deepEqual(sessions, { original: 150, fork: 7 });
+
+  assert.equal((await getSessionUsage('-work-app', 'fork')).outputTokens, 7);
+  assert.equal((await getSessionUsage('-work-app', 'original')).outputTokens, 150);
+});
+
+test('recorded costs are used and synthetic messages skipped', async () => {
+  writeSession('priced', [
+    assistant('priced', 'msg-p', 'req-p', 1, { costUSD: 0.5 }),
+    { ...assistant('priced', 'msg-s', 'req-s', 1000), message: { id: 'msg-s', model: '<synthetic>', usage: { output_tokens: 1000 } } }
+  ]);
+
+  const totals = await getSessionUsage('-work-app', 'priced');
+  assert.equal(totals.messageCount, 1);
+  assert.equal(totals.costUsd, 0.5);
+});
+
+test('project names that would leave the projects folder are refused', async () => {
+  assert.ok(isValidProjectName('-work-app'));
+  for (const name of ['', '.', '..', '../secrets', 'a/b', 'a\\b', 'a\0b', ['-work-app'], undefined]) {
+    assert.equal(isValidProjectName(name), false, String(name));
+  }
+  assert.equal((await getUsageReport({ projectName: '..' })).totals.messageCount, 0);
+});
+
+test('a live run counts each streamed message once and takes the final result totals', () => {
+  const run = { usage: createRunUsage() };
+  const event = { type: 'assistant', message: { id: 'm1', model: 'claude-haiku', usage: { input_tokens: 5, output_tokens: 2 } } };
+
+  assert.equal(applyRunUsage(run, event), true);
+  assert.equal(applyRunUsage(run, event), false);
+  assert.equal(run.usage.outputTokens, 2);
+
+  applyRunUsage(run, { type: 'result', usage: { input_tokens: 9, output_tokens: 4 }, total_cost_usd: 0.01, duration_ms: 1200 });
+  assert.equal(run.usage.totalTokens, 13);
+  assert.equal(run.usage.costUsd, 0.01);
+  assert.equal(run.usage.isFinal, true);
+});
@@ -0,0 +1,124 @@
+/**
+ * Trash
+ *
+ * Deleted sessions and projects are moved here instead of being destroyed,
+ * so they can be restored. Each item is a folder in ~/.claude/calfins-trash
+ * with an item.json describing what was deleted, next to the data itself: a
+ * session's JSONL lines, or a project's folder. Items older than the
+ * trashRetentionDays setting are purged automatically.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const crypto = require('crypto');
+const { getGlobalSettings } = require('./settings');
+
+const ITEM_FILE = 'item.json';
+const ITEM_ID_PATTERN = /^[\w-]+$/;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getTrashDir() {
+  return path.join(process.env.HOME, '.claude', 'calfins-trash');
+}
+
+function getTrashItemDir(itemId) {
+  if (!ITEM_ID_PATTERN.test(itemId)) {
+    throw new Error(`Invalid trash item ID: ${itemId}`);
+  }
+  return path.join(getTrashDir(), itemId);
+}
+
+// IDs sort by deletion time, which keeps the folder easy to browse by hand
+function createTrashItemId() {
+  return `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+// Write (or rewrite) an item's description; its folder is created if needed
+async function saveTrashItem(item) {
+  const itemDir = getTrashItemDir(item.id);
+  await fs.mkdir(itemDir, { recursive: true });
+  await fs.writeFile(path.join(itemDir, ITEM_FILE), JSON.stringify(item, null, 2), 'utf8');
+  return item;
+}
+
+async function getTrashItem(itemId) {
+  try {
+    const data = await fs.readFile(path.join(getTrashItemDir(itemId), ITEM_FILE), 'utf8');
+    return JSON.parse(data);
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Every item in the trash, most recently deleted first
+async function listTrashItems() {
+  let itemIds;
+  try {
+    itemIds = await fs.readdir(getTrashDir());
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const items = [];
+  for (const itemId of itemIds) {
+    if (!ITEM_ID_PATTERN.test(itemId)) continue;
+    try {
+      const item = await getTrashItem(itemId);
+      if (item) items.push(item);
+    } catch (error) {
+      console.error(`❌ Error reading trash item ${itemId}:`, error.message);
+    }
+  }
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+// Delete an item and its data for good
+async function removeTrashItem(itemId) {
+  await fs.rm(getTrashItemDir(itemId), { recursive: true, force: true });
+}
+
+async function emptyTrash() {
+  const items = await listTrashItems();
+  for (const item of items) {
+    await removeTrashItem(item.id);
+  }
+  return items.length;
+}
+
+// Remove items deleted longer ago than the retention setting (0 keeps them)
+async function purgeExpiredTrash() {
+  const { trashRetentionDays } = await getGlobalSettings();
+  if (!trashRetentionDays) return 0;
+
+  const cutoff = Date.now() - trashRetentionDays * DAY_MS;
+  const expired = (await listTrashItems()).filter(item => new Date(item.deletedAt).getTime() < cutoff);
+  for (const item of expired) {
+    await removeTrashItem(item.id);
+  }
+  if (expired.length > 0) {
+    console.log(`🗑️ Purged ${expired.length} trash item${expired.length === 1 ? '' : 's'} older than ${trashRetentionDays} days`);
+  }
+  return expired.length;
+}
+
+// Purge now and then periodically while the server runs
+function startTrashPurge() {
+  const purge = () => purgeExpiredTrash().catch(error => console.error('❌ Error purging trash:', error));
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
+
+module.exports = {
+  getTrashItemDir,
+  createTrashItemId,
+  saveTrashItem,
+  getTrashItem,
+  listTrashItems,
+  removeTrashItem,
+  emptyTrash,
+  purgeExpiredTrash,
+  startTrashPurge
+};
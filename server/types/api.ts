@@ -30,11 +30,21 @@ export interface GitStatus {
   conflicted: string[];
 }
 
+// Status as returned by /api/git/status: the porcelain v2 buckets plus the
+// per-change-type lists the Git panel renders
+export interface GitStatusResponse extends GitStatus {
+  modified: string[];
+  added: string[];
+  deleted: string[];
+}
+
 export interface GitCommit {
   hash: string;
   message: string;
   author: string;
   date: string;
+  email?: string;
+  stats?: string;
 }
 
 export interface FileReadRequest {
@@ -97,33 +107,160 @@ export interface TerminalSession {
 
 export interface Project {
   name: string;
+  path: string;
   displayName: string;
   fullPath: string;
-  sessionMeta: SessionMeta;
+  isCustomName?: boolean;
+  isManuallyAdded?: boolean;
+  sessionMeta?: SessionMeta;
   sessions: Session[];
+  // Every tag used by the project's sessions
+  sessionTags?: string[];
 }
 
-export interface Session {
-  id: string;
-  title: string;
-  created_at: string;
-  updated_at: string;
-  message_count: number;
-}
+// A session as the projects API lists it: what the session index knows,
+// merged with its metadata
+export interface Session extends IndexedSession, SessionMetadata {}
 
 export interface SessionMeta {
   total: number;
   hasMore: boolean;
 }
 
+// Session file index (session-index.js)
+export interface IndexedSession {
+  id: string;
+  summary: string;
+  messageCount: number;
+  lastActivity: string;
+  cwd: string;
+}
+
+export interface SessionIndex {
+  getProjectSessions(projectName: string): Promise<IndexedSession[]>;
+  getFileSessions(filePath: string): Promise<IndexedSession[]>;
+  getProjectCwds(projectName: string): Promise<{ counts: Map<string, number>; latestCwd: string | null }>;
+  findSessionFiles(projectName: string, sessionId: string): Promise<string[]>;
+  readSessionEntries<T>(projectName: string, sessionId: string): Promise<T[]>;
+  readSessionEntriesBackward<T>(projectName: string, sessionId: string): AsyncGenerator<T>;
+  countSessionEntries(projectName: string, sessionId: string): Promise<number>;
+  forgetProject(projectName: string): Promise<void>;
+}
+
+// ~/.claude/project-config.json (project-config.js)
+export interface ProjectConfigEntry {
+  displayName?: string;
+  manuallyAdded?: boolean;
+  originalPath?: string;
+  allowedRoots?: string[];
+  sessions?: Record<string, SessionMetadata>;
+}
+
+export type ProjectConfig = Record<string, ProjectConfigEntry>;
+
+export interface ProjectConfigStore {
+  loadProjectConfig(): Promise<ProjectConfig>;
+  updateProjectConfig<T>(update: (config: ProjectConfig) => T | Promise<T>): Promise<T>;
+}
+
+// Session metadata (session-metadata.js)
+export type SessionColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'gray';
+
+export interface SessionForkOrigin {
+  sessionId: string;
+  messageId: string;
+  forkedAt?: string;
+  // Set on branches where that message (a prompt) was sent again, edited
+  edited?: boolean;
+  promptIndex?: number;
+}
+
+export interface SessionMetadata {
+  forkedFrom?: SessionForkOrigin;
+  tags?: string[];
+  pinned?: boolean;
+  color?: SessionColor;
+  note?: string;
+}
+
+export interface SessionMetadataStore {
+  getProjectSessionMetadata(projectName: string): Promise<Record<string, SessionMetadata>>;
+  // Keys set to null are removed
+  updateSessionMetadata(
+    projectName: string,
+    sessionId: string,
+    changes: { [K in keyof SessionMetadata]?: SessionMetadata[K] | null }
+  ): Promise<SessionMetadata>;
+  deleteSessionMetadata(projectName: string, sessionId: string): Promise<void>;
+  compareSessions(a: Session, b: Session): number;
+}
+
+// Project name checks (project-names.js)
+export interface ProjectNames {
+  isValidProjectName(projectName: unknown): projectName is string;
+}
+
+// AI session titles (session-summary.js)
+export interface SessionSummaryGenerator {
+  generateSessionTitle(entries: object[]): Promise<string>;
+  isSummaryProject(projectName: string): Promise<boolean>;
+}
+
+// Trash (trash.js)
+export interface SessionTrashItem {
+  id: string;
+  type: 'session';
+  projectName: string;
+  sessionId: string;
+  summary: string;
+  deletedAt: string;
+  metadata: SessionMetadata | null;
+  // Where each file's lines were kept
+  files: { fileName: string; trashFile: string; lineCount: number }[];
+}
+
+export interface ProjectTrashItem {
+  id: string;
+  type: 'project';
+  projectName: string;
+  displayName: string;
+  deletedAt: string;
+  config: ProjectConfigEntry | null;
+  hasFolder: boolean;
+}
+
+export type TrashItem = SessionTrashItem | ProjectTrashItem;
+
+export interface TrashStore {
+  getTrashItemDir(itemId: string): string;
+  createTrashItemId(): string;
+  saveTrashItem<T extends TrashItem>(item: T): Promise<T>;
+  getTrashItem(itemId: string): Promise<TrashItem | null>;
+  removeTrashItem(itemId: string): Promise<void>;
+}
+
 export interface ClaudeCommandOptions {
   sessionId?: string;
   projectPath?: string;
   cwd?: string;
   resume?: boolean;
-  toolsSettings?: ToolsSettings;
+  // Encoded project name; tool permissions are read from its settings
+  projectName?: string;
+  // Model alias ('opus', 'sonnet', 'haiku') or a full model ID. New sessions
+  // default to sonnet; resumed sessions keep their model unless one is given.
+  model?: string;
+  permissionMode?: ClaudePermissionMode;
+  maxTurns?: number;
+  // Extra directories Claude may access (--add-dir), within the project's
+  // allowed roots
+  addDirs?: string[];
+  appendSystemPrompt?: string;
+  // Absolute paths of uploaded attachments, listed at the end of the prompt
+  attachments?: string[];
 }
 
+export type ClaudePermissionMode = 'default' | 'plan' | 'acceptEdits' | 'bypassPermissions';
+
 export interface ToolsSettings {
   allowedTools: string[];
   disallowedTools: string[];
@@ -141,4 +278,59 @@ export interface ErrorResponse {
   code?: string;
   details?: any;
   timestamp: string;
-}
\ No newline at end of file
+}
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: 'admin' | 'user';
+  createdAt: string;
+  lastLogin: string | null;
+}
+
+export interface AuthTokenPayload {
+  sub: string;
+  username: string;
+  role: 'admin' | 'user';
+  exp: number;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  durationMs: number;
+  messageCount: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byProject: (UsageTotals & { projectName: string })[];
+  bySession: (UsageTotals & { projectName: string; sessionId: string })[];
+  byDay: (UsageTotals & { date: string })[];
+  byModel: (UsageTotals & { model: string })[];
+  sessionCount: number;
+  generatedAt: string;
+}
+
+export type SearchRole = 'user' | 'assistant' | 'tool';
+
+export interface SearchResult {
+  projectName: string;
+  sessionId: string;
+  sessionSummary: string | null;
+  messageId: string;
+  role: SearchRole;
+  toolNames: string[];
+  timestamp: string | null;
+  snippet: string;
+  matches: [number, number][];
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  tookMs: number;
+}
@@ -0,0 +1,388 @@
+/**
+ * Usage accounting
+ *
+ * Two sources of numbers:
+ * - Live runs: token usage from the CLI's stream-json `assistant` events,
+ *   replaced by the authoritative totals, cost and duration from its final
+ *   `result` event. Finished runs are appended to
+ *   ~/.claude/calfins-usage-runs.jsonl.
+ * - History: assistant messages in the session JSONL files under
+ *   ~/.claude/projects. These carry tokens and model but no cost, so cost is
+ *   estimated from list prices unless the entry records one itself. Resumed
+ *   and forked sessions start with copies of earlier messages, so each message
+ *   is counted once across all files, in the session whose file came first.
+ */
+
+const fs = require('fs').promises;
+const { createReadStream } = require('fs');
+const path = require('path');
+const readline = require('readline');
+const { isValidProjectName } = require('./project-names');
+
+// USD per million tokens: input, output, cache write, cache read
+const MODEL_PRICING = {
+  opus: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  haiku: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }
+};
+
+const MAX_SESSIONS_IN_REPORT = 50;
+
+// Parsed messages per JSONL file, reused while the file is unchanged
+const fileCache = new Map(); // filePath -> { mtimeMs, size, messages }
+
+function getProjectsDir() {
+  return path.join(process.env.HOME, '.claude', 'projects');
+}
+
+function getRunLogPath() {
+  return path.join(process.env.HOME, '.claude', 'calfins-usage-runs.jsonl');
+}
+
+function emptyTotals() {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+    messageCount: 0
+  };
+}
+
+const TOTAL_KEYS = Object.keys(emptyTotals());
+
+function addTotals(target, source) {
+  for (const key of TOTAL_KEYS) {
+    target[key] += source[key] || 0;
+  }
+  return target;
+}
+
+// Normalize an Anthropic usage object
+function readUsage(usage = {}) {
+  const tokens = {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0
+  };
+  tokens.totalTokens = tokens.inputTokens + tokens.outputTokens + tokens.cacheCreationTokens + tokens.cacheReadTokens;
+  return tokens;
+}
+
+function estimateCost(model, tokens) {
+  const family = Object.keys(MODEL_PRICING).find(name => (model || '').includes(name));
+  if (!family) return 0;
+
+  const price = MODEL_PRICING[family];
+  return (
+    tokens.inputTokens * price.input +
+    tokens.outputTokens * price.output +
+    tokens.cacheCreationTokens * price.cacheWrite +
+    tokens.cacheReadTokens * price.cacheRead
+  ) / 1e6;
+}
+
+// --- Live runs ---
+
+function createRunUsage() {
+  return { ...emptyTotals(), model: null, numTurns: 0, isFinal: false };
+}
+
+/**
+ * Fold a stream-json event into a run's usage.
+ * @returns {boolean} whether the usage changed
+ */
+function applyRunUsage(run, event) {
+  const usage = run.usage;
+
+  if (event.type === 'assistant' && event.message?.usage) {
+    // The CLI emits one event per content block, all carrying the same
+    // message usage; count each message once
+    run.countedMessageIds = run.countedMessageIds || new Set();
+    if (event.message.id && run.countedMessageIds.has(event.message.id)) {
+      return false;
+    }
+    run.countedMessageIds.add(event.message.id);
+
+    const tokens = readUsage(event.message.usage);
+    addTotals(usage, { ...tokens, messageCount: 1 });
+    usage.model = event.message.model || usage.model;
+    usage.costUsd += estimateCost(usage.model, tokens);
+    return true;
+  }
+
+  if (event.type === 'result') {
+    if (event.usage) {
+      Object.assign(usage, readUsage(event.usage));
+    }
+    if (typeof event.total_cost_usd === 'number') {
+      usage.costUsd = event.total_cost_usd;
+    }
+    usage.durationMs = event.duration_ms || usage.durationMs;
+    usage.numTurns = event.num_turns || usage.numTurns;
+    usage.isFinal = true;
+    return true;
+  }
+
+  return false;
+}
+
+// Append a finished run to the run log (only runs that reported anything)
+async function recordRun(run) {
+  if (!run.usage || (run.usage.messageCount === 0 && !run.usage.isFinal)) {
+    return;
+  }
+
+  const entry = {
+    requestId: run.requestId,
+    projectName: run.projectName,
+    sessionId: run.sessionId,
+    status: run.status,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    ...run.usage
+  };
+
+  try {
+    const logPath = getRunLogPath();
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, JSON.stringify(entry) + '\n', 'utf8');
+  } catch (error) {
+    console.error('❌ Failed to record run usage:', error);
+  }
+}
+
+async function readRunLog() {
+  try {
+    const data = await fs.readFile(getRunLogPath(), 'utf8');
+    return data.split('\n').filter(Boolean).map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    }).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+// --- History ---
+
+// The assistant messages in one JSONL file that carry usage
+async function parseUsageFile(filePath) {
+  const messages = [];
+  const seen = new Set();
+
+  const rl = readline.createInterface({
+    input: createReadStream(filePath),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of rl) {
+    if (!line.includes('"usage"')) continue;
+
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const message = entry.message;
+    if (entry.type !== 'assistant' || !message?.usage || !entry.sessionId) continue;
+
+    // Messages split over several entries repeat the same usage, and copies
+    // in resumed or forked sessions keep the message and request IDs
+    const key = `${message.id || entry.uuid}:${entry.requestId || ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const model = message.model || 'unknown';
+    if (model === '<synthetic>') continue;
+
+    const tokens = readUsage(message.usage);
+    messages.push({
+      key,
+      sessionId: entry.sessionId,
+      day: (entry.timestamp || '').slice(0, 10) || 'unknown',
+      model,
+      totals: {
+        ...tokens,
+        costUsd: typeof entry.costUSD === 'number' ? entry.costUSD : estimateCost(model, tokens),
+        messageCount: 1
+      }
+    });
+  }
+
+  return messages;
+}
+
+async function getFileMessages(filePath, stats) {
+  const cached = fileCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.messages;
+  }
+
+  const messages = await parseUsageFile(filePath);
+  fileCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, messages });
+  return messages;
+}
+
+/**
+ * Usage in a project's session files, bucketed by session, day and model.
+ * Messages whose key is in `seen` were counted already and are skipped;
+ * the keys of those counted here are added to it.
+ */
+async function getProjectBuckets(projectName, seen = new Set()) {
+  if (!isValidProjectName(projectName)) {
+    return [];
+  }
+
+  const projectDir = path.join(getProjectsDir(), projectName);
+  let files;
+  try {
+    files = await fs.readdir(projectDir);
+  } catch {
+    return [];
+  }
+
+  // Oldest file first, so a copied message counts for the session it came from
+  const sessionFiles = [];
+  for (const file of files.filter(name => name.endsWith('.jsonl'))) {
+    try {
+      const filePath = path.join(projectDir, file);
+      sessionFiles.push({ file, filePath, stats: await fs.stat(filePath) });
+    } catch (error) {
+      console.warn(`Could not read usage from ${file}:`, error.message);
+    }
+  }
+  const createdAt = ({ stats }) => stats.birthtimeMs || stats.ctimeMs;
+  sessionFiles.sort((a, b) => createdAt(a) - createdAt(b) || a.file.localeCompare(b.file));
+
+  const buckets = new Map();
+  for (const { file, filePath, stats } of sessionFiles) {
+    let messages;
+    try {
+      messages = await getFileMessages(filePath, stats);
+    } catch (error) {
+      console.warn(`Could not read usage from ${file}:`, error.message);
+      continue;
+    }
+
+    for (const message of messages) {
+      if (seen.has(message.key)) continue;
+      seen.add(message.key);
+
+      const bucketKey = `${message.sessionId}|${message.day}|${message.model}`;
+      if (!buckets.has(bucketKey)) {
+        buckets.set(bucketKey, {
+          projectName,
+          sessionId: message.sessionId,
+          day: message.day,
+          model: message.model,
+          totals: emptyTotals()
+        });
+      }
+      addTotals(buckets.get(bucketKey).totals, message.totals);
+    }
+  }
+  return [...buckets.values()];
+}
+
+function groupTotals(items, getKey, describe) {
+  const groups = new Map();
+  for (const item of items) {
+    const key = getKey(item);
+    if (!groups.has(key)) {
+      groups.set(key, { ...describe(item), ...emptyTotals() });
+    }
+    addTotals(groups.get(key), item.totals);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Usage totals grouped by project, session, day and model.
+ * @param {{ from?: string, to?: string, projectName?: string }} filters
+ *   from/to are inclusive YYYY-MM-DD dates
+ */
+async function getUsageReport({ from, to, projectName } = {}) {
+  let projectNames;
+  if (projectName) {
+    projectNames = [projectName];
+  } else {
+    try {
+      const entries = await fs.readdir(getProjectsDir(), { withFileTypes: true });
+      projectNames = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      projectNames = [];
+    }
+  }
+
+  const inRange = (day) => (!from || day >= from) && (!to || day <= to);
+
+  const items = [];
+  const seen = new Set();
+  for (const name of projectNames) {
+    items.push(...(await getProjectBuckets(name, seen)).filter(bucket => inRange(bucket.day)));
+  }
+
+  // Run time is only known for runs started from this UI
+  for (const run of await readRunLog()) {
+    const day = (run.startedAt || '').slice(0, 10);
+    if (!run.durationMs || !inRange(day) || (projectName && run.projectName !== projectName)) continue;
+    items.push({
+      projectName: run.projectName,
+      sessionId: run.sessionId,
+      day,
+      model: run.model || 'unknown',
+      totals: { durationMs: run.durationMs }
+    });
+  }
+
+  const bySession = groupTotals(items, item => `${item.projectName}|${item.sessionId}`,
+    item => ({ projectName: item.projectName, sessionId: item.sessionId }));
+
+  return {
+    totals: items.reduce((totals, item) => addTotals(totals, item.totals), emptyTotals()),
+    byProject: groupTotals(items, item => item.projectName, item => ({ projectName: item.projectName }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    bySession: bySession.sort((a, b) => b.costUsd - a.costUsd).slice(0, MAX_SESSIONS_IN_REPORT),
+    byDay: groupTotals(items, item => item.day, item => ({ date: item.day }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byModel: groupTotals(items, item => item.model, item => ({ model: item.model }))
+      .filter(group => group.messageCount > 0)
+      .sort((a, b) => b.costUsd - a.costUsd),
+    sessionCount: bySession.length,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+// Totals for a single session
+async function getSessionUsage(projectName, sessionId) {
+  const totals = emptyTotals();
+  for (const bucket of await getProjectBuckets(projectName)) {
+    if (bucket.sessionId === sessionId) {
+      addTotals(totals, bucket.totals);
+    }
+  }
+  for (const run of await readRunLog()) {
+    if (run.sessionId === sessionId) {
+      totals.durationMs += run.durationMs || 0;
+    }
+  }
+  return totals;
+}
+
+module.exports = {
+  createRunUsage,
+  applyRunUsage,
+  recordRun,
+  getUsageReport,
+  getSessionUsage
+};
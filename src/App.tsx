@@ -1,36 +1,38 @@
 /*
- * App.tsx - Main Application Component with Session Protection System
+ * App.tsx - Main Application Component
  * 
- * SESSION PROTECTION SYSTEM OVERVIEW:
- * ===================================
+ * PROJECT UPDATES:
+ * ================
  * 
- * Problem: Automatic project updates from WebSocket would refresh the sidebar and clear chat messages
- * during active conversations, creating a poor user experience.
- * 
- * Solution: Track "active sessions" and pause project updates during conversations.
- * 
- * How it works:
- * 1. When user sends message → session marked as "active" 
- * 2. Project updates are skipped while session is active
- * 3. When conversation completes/aborts → session marked as "inactive"
- * 4. Project updates resume normally
- * 
- * Handles both existing sessions (with real IDs) and new sessions (with temporary IDs).
+ * The project tree is loaded once as a versioned snapshot. After that the server
+ * sends one WebSocket event per change (project or session added, updated or
+ * removed), each numbered one past the last, and only that part of the state is
+ * patched. A missed event shows up as a gap in the numbers and triggers a fresh
+ * snapshot, as does a version mismatch reported when the socket reconnects.
  */
 
-import React, { useState, useEffect, JSX } from 'react';
+import React, { useState, useEffect, useRef, JSX } from 'react';
 import { BrowserRouter as Router, Routes, Route, useNavigate, useParams } from 'react-router-dom';
 import Sidebar from './components/Sidebar.jsx';
 import MainContent from './components/MainContent.jsx';
 import MobileNav from './components/MobileNav.jsx';
 import ToolsSettings from './components/ToolsSettings.jsx';
 import QuickSettingsPanel from './components/QuickSettingsPanel.jsx';
+import UsageDashboard from './components/UsageDashboard';
+import TrashPanel from './components/TrashPanel';
+import SchedulesPanel from './components/SchedulesPanel';
+import SearchPalette from './components/SearchPalette';
 
 import { useWebSocket } from './utils/websocket';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { AuthProvider } from './contexts/AuthContext';
+import { SettingsProvider, useSettings } from './contexts/SettingsContext';
+import ProtectedRoute from './components/ProtectedRoute';
 import { useVersionCheck } from './hooks/useVersionCheck';
-import { Project, Session } from './types/project';
-import { WebSocketMessageUnion } from './types/websocket';
+import { applyProjectEvent, applyTaggedSessionEvent, isProjectEvent } from './utils/projectPatches';
+import { Project, Session, ProjectsSnapshot } from './types/project';
+import { SettingsUpdatedMessage, ProjectEventMessage } from './types/websocket';
+import { SearchResult, MessageJumpTarget } from './types/search';
 
 // Types for component props and state
 interface AppContentProps {}
@@ -62,23 +64,24 @@ function AppContent(): JSX.Element {
   const [isInputFocused, setIsInputFocused] = useState<boolean>(false);
   const [showToolsSettings, setShowToolsSettings] = useState<boolean>(false);
   const [showQuickSettings, setShowQuickSettings] = useState<boolean>(false);
-  const [autoExpandTools, setAutoExpandTools] = useState<boolean>(() => {
-    const saved = localStorage.getItem('autoExpandTools');
-    return saved !== null ? JSON.parse(saved) : false;
-  });
-  const [showRawParameters, setShowRawParameters] = useState<boolean>(() => {
-    const saved = localStorage.getItem('showRawParameters');
-    return saved !== null ? JSON.parse(saved) : false;
-  });
-  const [autoScrollToBottom, setAutoScrollToBottom] = useState<boolean>(() => {
-    const saved = localStorage.getItem('autoScrollToBottom');
-    return saved !== null ? JSON.parse(saved) : true;
-  });
-  // Session Protection System: Track sessions with active conversations to prevent
-  // automatic project updates from interrupting ongoing chats. When a user sends
-  // a message, the session is marked as "active" and project updates are paused
-  // until the conversation completes or is aborted.
-  const [activeSessions, setActiveSessions] = useState<Set<string>>(new Set());
+  const [showUsageDashboard, setShowUsageDashboard] = useState<boolean>(false);
+  const [showTrash, setShowTrash] = useState<boolean>(false);
+  const [showSchedules, setShowSchedules] = useState<boolean>(false);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  // Message to scroll to after opening a search result
+  const [jumpTarget, setJumpTarget] = useState<MessageJumpTarget | null>(null);
+  const { settings, updateSettings, applySettingsUpdate } = useSettings();
+  const { autoExpandTools, showRawParameters, autoScrollToBottom } = settings;
+  // Version of the project events applied so far (null until the first snapshot)
+  const projectsVersionRef = useRef<number | null>(null);
+  // Events that arrive while a snapshot is loading, replayed on top of it
+  const pendingProjectEventsRef = useRef<ProjectEventMessage[] | null>(null);
+  const processedMessageCountRef = useRef<number>(0);
+  // Bumped by every snapshot, so lists loaded alongside it are fetched again
+  const [projectsSnapshotId, setProjectsSnapshotId] = useState<number>(0);
+  // Tag the sidebar is filtered by, and each project's sessions with it
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [taggedSessions, setTaggedSessions] = useState<Record<string, Session[]>>({});
 
   const { ws, sendMessage, messages } = useWebSocket();
 
@@ -98,120 +101,87 @@ function AppContent(): JSX.Element {
     fetchProjects();
   }, []);
 
-  // Helper function to determine if an update is purely additive (new sessions/projects)
-  // vs modifying existing selected items that would interfere with active conversations
-  const isUpdateAdditive = (
-    currentProjects: Project[], 
-    updatedProjects: Project[], 
-    selectedProject: Project | null, 
-    selectedSession: Session | null
-  ): boolean => {
-    if (!selectedProject || !selectedSession) {
-      // No active session to protect, allow all updates
-      return true;
+  // Apply one project event, or fetch a fresh snapshot if events were missed
+  const handleProjectEvent = (event: ProjectEventMessage): void => {
+    const currentVersion = projectsVersionRef.current;
+    if (currentVersion === null || event.version <= currentVersion) {
+      // Already part of the snapshot
+      return;
     }
-
-    // Find the selected project in both current and updated data
-    const currentSelectedProject = currentProjects?.find(p => p.name === selectedProject.name);
-    const updatedSelectedProject = updatedProjects?.find(p => p.name === selectedProject.name);
-
-    if (!currentSelectedProject || !updatedSelectedProject) {
-      // Project structure changed significantly, not purely additive
-      return false;
+    if (event.version !== currentVersion + 1) {
+      fetchProjects();
+      return;
     }
 
-    // Find the selected session in both current and updated project data
-    const currentSelectedSession = currentSelectedProject.sessions?.find(s => s.id === selectedSession.id);
-    const updatedSelectedSession = updatedSelectedProject.sessions?.find(s => s.id === selectedSession.id);
-
-    if (!currentSelectedSession || !updatedSelectedSession) {
-      // Selected session was deleted or significantly changed, not purely additive
-      return false;
+    projectsVersionRef.current = event.version;
+    setProjects(prevProjects => applyProjectEvent(prevProjects, event));
+    if (activeTag) {
+      setTaggedSessions(prev => applyTaggedSessionEvent(prev, event, activeTag));
     }
 
-    // Check if the selected session's content has changed (modification vs addition)
-    // Compare key fields that would affect the loaded chat interface
-    const sessionUnchanged = 
-      currentSelectedSession.id === updatedSelectedSession.id &&
-      currentSelectedSession.title === updatedSelectedSession.title &&
-      currentSelectedSession.created_at === updatedSelectedSession.created_at &&
-      currentSelectedSession.updated_at === updatedSelectedSession.updated_at;
-
-    // This is considered additive if the selected session is unchanged
-    // (new sessions may have been added elsewhere, but active session is protected)
-    return sessionUnchanged;
+    if (event.type === 'project-removed' && selectedProject?.name === event.projectName) {
+      setSelectedProject(null);
+      setSelectedSession(null);
+      navigate('/');
+    } else if (event.type === 'project-updated' && selectedProject?.name === event.project.name) {
+      setSelectedProject(prev => (prev ? { ...prev, ...event.project } : prev));
+    } else if (event.type === 'session-removed' && selectedSession?.id === event.sessionId) {
+      setSelectedSession(null);
+      navigate('/');
+    }
   };
 
-  // Handle WebSocket messages for real-time project updates
+  // Snapshot loads finish after later renders, so replay through the latest
+  // handler rather than the one from when the load started
+  const handleProjectEventRef = useRef(handleProjectEvent);
+  handleProjectEventRef.current = handleProjectEvent;
+
+  // Handle WebSocket messages for real-time project and settings updates.
+  // Several can arrive between renders, so walk every new one.
   useEffect(() => {
-    if (messages.length > 0) {
-      const latestMessage = messages[messages.length - 1];
-      
-      if (latestMessage.type === 'projects_updated') {
-        
-        // Session Protection Logic: Allow additions but prevent changes during active conversations
-        // This allows new sessions/projects to appear in sidebar while protecting active chat messages
-        // We check for two types of active sessions:
-        // 1. Existing sessions: selectedSession.id exists in activeSessions
-        // 2. New sessions: temporary "new-session-*" identifiers in activeSessions (before real session ID is received)
-        const hasActiveSession = (selectedSession && activeSessions.has(selectedSession.id)) ||
-                                 (activeSessions.size > 0 && Array.from(activeSessions).some(id => id.startsWith('new-session-')));
-        
-        if (hasActiveSession) {
-          // Allow updates but be selective: permit additions, prevent changes to existing items
-          const updatedProjects = (latestMessage as any).projects as Project[];
-          const currentProjects = projects;
-          
-          // Check if this is purely additive (new sessions/projects) vs modification of existing ones
-          const isAdditiveUpdate = isUpdateAdditive(currentProjects, updatedProjects, selectedProject, selectedSession);
-          
-          if (!isAdditiveUpdate) {
-            // Skip updates that would modify existing selected session/project
-            return;
-          }
-          // Continue with additive updates below
+    const newMessages = messages.slice(processedMessageCountRef.current);
+    processedMessageCountRef.current = messages.length;
+
+    for (const message of newMessages) {
+      if (message.type === 'projects-version') {
+        // Sent on (re)connect; events may have been missed while disconnected
+        if (projectsVersionRef.current !== null && message.version !== projectsVersionRef.current) {
+          fetchProjects();
         }
-        
-        // Update projects state with the new data from WebSocket
-        const updatedProjects = (latestMessage as any).projects as Project[];
-        setProjects(updatedProjects);
-        
-        // Update selected project if it exists in the updated projects
-        if (selectedProject) {
-          const updatedSelectedProject = updatedProjects.find(p => p.name === selectedProject.name);
-          if (updatedSelectedProject) {
-            setSelectedProject(updatedSelectedProject);
-            
-            // Update selected session only if it was deleted - avoid unnecessary reloads
-            if (selectedSession) {
-              const updatedSelectedSession = updatedSelectedProject.sessions?.find(s => s.id === selectedSession.id);
-              if (!updatedSelectedSession) {
-                // Session was deleted
-                setSelectedSession(null);
-              }
-              // Don't update if session still exists with same ID - prevents reload
-            }
-          }
+      } else if (isProjectEvent(message)) {
+        if (pendingProjectEventsRef.current) {
+          pendingProjectEventsRef.current.push(message);
+        } else {
+          handleProjectEventRef.current(message);
         }
+      } else if (message.type === 'settings-updated') {
+        // Settings changed on the server (here or in another tab/device)
+        applySettingsUpdate(message as SettingsUpdatedMessage);
       }
     }
-  }, [messages, selectedProject, selectedSession, activeSessions, projects]);
+  }, [messages, selectedProject, selectedSession, applySettingsUpdate]);
 
-  const fetchProjects = async (): Promise<void> => {
+  // Load the project tree and the event version it is current to
+  const loadProjectsSnapshot = async (): Promise<Project[]> => {
+    pendingProjectEventsRef.current = pendingProjectEventsRef.current || [];
     try {
-      setIsLoadingProjects(true);
-      const response = await fetch('/api/projects');
-      const data: Project[] = await response.json();
-      
+      const response = await fetch('/api/projects/snapshot');
+      if (!response.ok) {
+        throw new Error(`Failed to load projects: ${response.status}`);
+      }
+      const snapshot: ProjectsSnapshot = await response.json();
+      projectsVersionRef.current = snapshot.version;
+      setProjectsSnapshotId(id => id + 1);
+
       // Optimize to preserve object references when data hasn't changed
       setProjects(prevProjects => {
         // If no previous projects, just set the new data
         if (prevProjects.length === 0) {
-          return data;
+          return snapshot.projects;
         }
         
         // Check if the projects data has actually changed
-        const hasChanges = data.some((newProject, index) => {
+        const hasChanges = snapshot.projects.some((newProject, index) => {
           const prevProject = prevProjects[index];
           if (!prevProject) return true;
           
@@ -223,12 +193,49 @@ function AppContent(): JSX.Element {
             JSON.stringify(newProject.sessionMeta) !== JSON.stringify(prevProject.sessionMeta) ||
             JSON.stringify(newProject.sessions) !== JSON.stringify(prevProject.sessions)
           );
-        }) || data.length !== prevProjects.length;
+        }) || snapshot.projects.length !== prevProjects.length;
         
         // Only update if there are actual changes
-        return hasChanges ? data : prevProjects;
+        return hasChanges ? snapshot.projects : prevProjects;
       });
-      
+      return snapshot.projects;
+    } finally {
+      const pendingEvents = pendingProjectEventsRef.current;
+      pendingProjectEventsRef.current = null;
+      pendingEvents?.forEach(event => handleProjectEventRef.current(event));
+    }
+  };
+
+  // The snapshot only has each project's first sessions, so fetch every
+  // session with the active tag; events keep the lists current after that
+  const taggedProjectNames = activeTag
+    ? projects.filter(project => project.sessionTags?.includes(activeTag)).map(project => project.name)
+    : [];
+  useEffect(() => {
+    if (!activeTag) {
+      setTaggedSessions({});
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(taggedProjectNames.map(async (projectName): Promise<[string, Session[]]> => {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/sessions?limit=1000&offset=0&tag=${encodeURIComponent(activeTag)}`);
+      const result = response.ok ? await response.json() : { sessions: [] };
+      return [projectName, result.sessions];
+    }))
+      .then(entries => {
+        if (!cancelled) setTaggedSessions(Object.fromEntries(entries));
+      })
+      .catch(error => console.error('Error loading tagged sessions:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTag, taggedProjectNames.join('\n'), projectsSnapshotId]);
+
+  const fetchProjects = async (): Promise<void> => {
+    try {
+      setIsLoadingProjects(true);
+      await loadProjectsSnapshot();
       // Don't auto-select any project - user should choose manually
     } catch (error) {
       console.error('Error fetching projects:', error);
@@ -287,6 +294,43 @@ function AppContent(): JSX.Element {
     navigate(`/session/${session.id}`);
   };
 
+  // Open a session that may be older than the sessions the sidebar has loaded
+  const handleOpenSession = (projectName: string, sessionId: string, summary?: string, timestamp?: string): void => {
+    const project = projects.find(p => p.name === projectName);
+    if (!project) return;
+
+    const session = project.sessions?.find(s => s.id === sessionId) || {
+      id: sessionId,
+      title: summary || sessionId,
+      summary: summary || undefined,
+      created_at: timestamp || '',
+      updated_at: timestamp || '',
+      message_count: 0
+    };
+
+    setSelectedProject(project);
+    handleSessionSelect(session);
+  };
+
+  // Open a search result's session and scroll to the matching message
+  const handleSearchResultSelect = (result: SearchResult): void => {
+    setShowSearch(false);
+    setJumpTarget({ sessionId: result.sessionId, messageId: result.messageId });
+    handleOpenSession(result.projectName, result.sessionId, result.sessionSummary || undefined, result.timestamp || undefined);
+  };
+
+  // Ctrl/Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleNewSession = (project: Project): void => {
     setSelectedProject(project);
     setSelectedSession(null);
@@ -320,27 +364,7 @@ function AppContent(): JSX.Element {
   const handleSidebarRefresh = async (): Promise<void> => {
     // Refresh only the sessions for all projects, don't change selected state
     try {
-      const response = await fetch('/api/projects');
-      const freshProjects: Project[] = await response.json();
-      
-      // Optimize to preserve object references and minimize re-renders
-      setProjects(prevProjects => {
-        // Check if projects data has actually changed
-        const hasChanges = freshProjects.some((newProject, index) => {
-          const prevProject = prevProjects[index];
-          if (!prevProject) return true;
-          
-          return (
-            newProject.name !== prevProject.name ||
-            newProject.displayName !== prevProject.displayName ||
-            newProject.fullPath !== prevProject.fullPath ||
-            JSON.stringify(newProject.sessionMeta) !== JSON.stringify(prevProject.sessionMeta) ||
-            JSON.stringify(newProject.sessions) !== JSON.stringify(prevProject.sessions)
-          );
-        }) || freshProjects.length !== prevProjects.length;
-        
-        return hasChanges ? freshProjects : prevProjects;
-      });
+      const freshProjects = await loadProjectsSnapshot();
       
       // If we have a selected project, make sure it's still selected after refresh
       if (selectedProject) {
@@ -379,46 +403,6 @@ function AppContent(): JSX.Element {
     );
   };
 
-  // Session Protection Functions: Manage the lifecycle of active sessions
-  
-  // markSessionAsActive: Called when user sends a message to mark session as protected
-  // This includes both real session IDs and temporary "new-session-*" identifiers
-  const markSessionAsActive = (sessionId: string): void => {
-    if (sessionId) {
-      setActiveSessions(prev => new Set([...prev, sessionId]));
-    }
-  };
-
-  // markSessionAsInactive: Called when conversation completes/aborts to re-enable project updates
-  const markSessionAsInactive = (sessionId: string): void => {
-    if (sessionId) {
-      setActiveSessions(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(sessionId);
-        return newSet;
-      });
-    }
-  };
-
-  // replaceTemporarySession: Called when WebSocket provides real session ID for new sessions
-  // Removes temporary "new-session-*" identifiers and adds the real session ID
-  // This maintains protection continuity during the transition from temporary to real session
-  const replaceTemporarySession = (realSessionId: string): void => {
-    if (realSessionId) {
-      setActiveSessions(prev => {
-        const newSet = new Set<string>();
-        // Keep all non-temporary sessions and add the real session ID
-        for (const sessionId of prev) {
-          if (!sessionId.startsWith('new-session-')) {
-            newSet.add(sessionId);
-          }
-        }
-        newSet.add(realSessionId);
-        return newSet;
-      });
-    }
-  };
-
   // Version Upgrade Modal Component
   const VersionUpgradeModal: React.FC = () => {
     if (!showVersionModal) return null;
@@ -523,10 +507,17 @@ function AppContent(): JSX.Element {
               isLoading={isLoadingProjects}
               onRefresh={handleSidebarRefresh}
               onShowSettings={() => setShowToolsSettings(true)}
+              onShowUsage={() => setShowUsageDashboard(true)}
+              onShowTrash={() => setShowTrash(true)}
+              onShowSchedules={() => setShowSchedules(true)}
+              onShowSearch={() => setShowSearch(true)}
               updateAvailable={updateAvailable}
               latestVersion={latestVersion}
               currentVersion={currentVersion}
               onShowVersionModal={() => setShowVersionModal(true)}
+              activeTag={activeTag}
+              onActiveTagChange={setActiveTag}
+              taggedSessions={taggedSessions}
             />
           </div>
         </div>
@@ -568,10 +559,17 @@ function AppContent(): JSX.Element {
               isLoading={isLoadingProjects}
               onRefresh={handleSidebarRefresh}
               onShowSettings={() => setShowToolsSettings(true)}
+              onShowUsage={() => setShowUsageDashboard(true)}
+              onShowTrash={() => setShowTrash(true)}
+              onShowSchedules={() => setShowSchedules(true)}
+              onShowSearch={() => setShowSearch(true)}
               updateAvailable={updateAvailable}
               latestVersion={latestVersion}
               currentVersion={currentVersion}
               onShowVersionModal={() => setShowVersionModal(true)}
+              activeTag={activeTag}
+              onActiveTagChange={setActiveTag}
+              taggedSessions={taggedSessions}
             />
           </div>
         </div>
@@ -591,14 +589,14 @@ function AppContent(): JSX.Element {
           onMenuClick={() => setSidebarOpen(true)}
           isLoading={isLoadingProjects}
           onInputFocusChange={setIsInputFocused}
-          onSessionActive={markSessionAsActive}
-          onSessionInactive={markSessionAsInactive}
-          onReplaceTemporarySession={replaceTemporarySession}
           onNavigateToSession={(sessionId: string) => navigate(`/session/${sessionId}`)}
+          onOpenSession={handleOpenSession}
           onShowSettings={() => setShowToolsSettings(true)}
           autoExpandTools={autoExpandTools}
           showRawParameters={showRawParameters}
           autoScrollToBottom={autoScrollToBottom}
+          jumpTarget={jumpTarget}
+          onJumpComplete={() => setJumpTarget(null)}
         />
       </div>
 
@@ -616,20 +614,11 @@ function AppContent(): JSX.Element {
           isOpen={showQuickSettings}
           onToggle={setShowQuickSettings}
           autoExpandTools={autoExpandTools}
-          onAutoExpandChange={(value: boolean) => {
-            setAutoExpandTools(value);
-            localStorage.setItem('autoExpandTools', JSON.stringify(value));
-          }}
+          onAutoExpandChange={(value: boolean) => updateSettings({ autoExpandTools: value })}
           showRawParameters={showRawParameters}
-          onShowRawParametersChange={(value: boolean) => {
-            setShowRawParameters(value);
-            localStorage.setItem('showRawParameters', JSON.stringify(value));
-          }}
+          onShowRawParametersChange={(value: boolean) => updateSettings({ showRawParameters: value })}
           autoScrollToBottom={autoScrollToBottom}
-          onAutoScrollChange={(value: boolean) => {
-            setAutoScrollToBottom(value);
-            localStorage.setItem('autoScrollToBottom', JSON.stringify(value));
-          }}
+          onAutoScrollChange={(value: boolean) => updateSettings({ autoScrollToBottom: value })}
           isMobile={isMobile}
         />
       )}
@@ -638,6 +627,40 @@ function AppContent(): JSX.Element {
       <ToolsSettings
         isOpen={showToolsSettings}
         onClose={() => setShowToolsSettings(false)}
+        selectedProject={selectedProject}
+      />
+
+      {/* Usage Dashboard Modal */}
+      <UsageDashboard
+        isOpen={showUsageDashboard}
+        onClose={() => setShowUsageDashboard(false)}
+        projects={projects}
+        onSessionSelect={(_projectName: string, sessionId: string) => {
+          setShowUsageDashboard(false);
+          navigate(`/session/${sessionId}`);
+        }}
+      />
+
+      {/* Trash Modal */}
+      <TrashPanel
+        isOpen={showTrash}
+        onClose={() => setShowTrash(false)}
+        projects={projects}
+      />
+
+      {/* Scheduled Runs Modal */}
+      <SchedulesPanel
+        isOpen={showSchedules}
+        onClose={() => setShowSchedules(false)}
+        projects={projects}
+      />
+
+      {/* Search Palette */}
+      <SearchPalette
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        projects={projects}
+        onResultSelect={handleSearchResultSelect}
       />
 
       {/* Version Upgrade Modal */}
@@ -650,12 +673,18 @@ function AppContent(): JSX.Element {
 function App(): JSX.Element {
   return (
     <ThemeProvider>
-      <Router>
-        <Routes>
-          <Route path="/" element={<AppContent />} />
-          <Route path="/session/:sessionId" element={<AppContent />} />
-        </Routes>
-      </Router>
+      <AuthProvider>
+        <ProtectedRoute>
+          <SettingsProvider>
+            <Router>
+              <Routes>
+                <Route path="/" element={<AppContent />} />
+                <Route path="/session/:sessionId" element={<AppContent />} />
+              </Routes>
+            </Router>
+          </SettingsProvider>
+        </ProtectedRoute>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
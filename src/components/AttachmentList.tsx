@@ -0,0 +1,67 @@
+/**
+ * AttachmentList.tsx - Attached files of a prompt
+ *
+ * Images show as thumbnails and other files as chips with their name and
+ * size. In the composer each one can be removed before sending; in the
+ * transcript they open the stored file.
+ */
+
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { ChatAttachment } from '../types/claude';
+import { isImageAttachment, formatAttachmentSize } from '../utils/attachments';
+
+interface AttachmentListProps {
+  attachments: ChatAttachment[];
+  onRemove?: (attachment: ChatAttachment) => void;
+  className?: string;
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, className = '' }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {attachments.map(attachment => (
+        <div key={attachment.path} className="relative group/attachment">
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.size !== null ? `${attachment.name} (${formatAttachmentSize(attachment.size)})` : attachment.name}
+            className="block"
+          >
+            {isImageAttachment(attachment) ? (
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                loading="lazy"
+                className="h-16 w-16 sm:h-20 sm:w-20 rounded-lg object-cover border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-gray-800"
+              />
+            ) : (
+              <div className="flex items-center gap-1.5 max-w-[14rem] rounded-lg border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs text-brand-gray-text dark:text-brand-gray">
+                <FileText className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{attachment.name}</span>
+                {attachment.size !== null && (
+                  <span className="flex-shrink-0 text-gray-400 dark:text-gray-500">{formatAttachmentSize(attachment.size)}</span>
+                )}
+              </div>
+            )}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment)}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-gray-700 text-white flex items-center justify-center opacity-80 hover:opacity-100"
+              title={`Remove ${attachment.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -1,39 +1,38 @@
 /*
- * ChatInterface.tsx - Chat Component with Session Protection Integration
+ * ChatInterface.tsx - Chat transcript and composer for the selected session
  * 
- * SESSION PROTECTION INTEGRATION:
- * ===============================
- * 
- * This component integrates with the Session Protection System to prevent project updates
- * from interrupting active conversations:
- * 
- * Key Integration Points:
- * 1. handleSubmit() - Marks session as active when user sends message (including temp ID for new sessions)
- * 2. session-created handler - Replaces temporary session ID with real WebSocket session ID  
- * 3. claude-complete handler - Marks session as inactive when conversation finishes
- * 4. session-aborted handler - Marks session as inactive when conversation is aborted
- * 
- * This ensures uninterrupted chat experience by coordinating with App.jsx to pause sidebar updates.
+ * Project and session changes reach App.tsx as small patch events, so the
+ * transcript is only reloaded when a different session or project is
+ * selected, never because the sidebar's data changed underneath it.
  */
 
-import React, { useState, useEffect, useRef, useMemo, useCallback, memo, JSX } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, memo, JSX } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { GitBranch, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
 import TodoList from './TodoList.jsx';
 import CalfinsLogo from './CalfinsLogo';
 
 import ClaudeStatus from './ClaudeStatus.jsx';
 import { MicButton } from './MicButton.jsx';
 
-import { Project, Session } from '../types/project';
-import { WebSocketMessageUnion } from '../types/websocket';
+import { Project, Session, SessionBranchPoint, ForkSessionResponse, FileSearchResult } from '../types/project';
+import { WebSocketMessageUnion, RunFrameMessage, RunSummary, PermissionRequestMessage, PermissionDecision, PromptQueueState } from '../types/websocket';
+import PermissionRequestCard from './PermissionRequestCard';
+import ClaudeOptionsBar from './ClaudeOptionsBar';
+import { useSettings } from '../contexts/SettingsContext';
+import { ClaudeSessionOptions, SlashCommand, ChatAttachment } from '../types/claude';
+import { MessageJumpTarget } from '../types/search';
+import { useVirtualList } from '../hooks/useVirtualList';
+import SlashCommandMenu from './SlashCommandMenu';
+import { listSlashCommands, filterSlashCommands, getSlashQuery } from '../utils/slashCommands';
+import FileMentionMenu from './FileMentionMenu';
+import { searchProjectFiles, getMentionQuery } from '../utils/fileSearch';
+import AttachmentList from './AttachmentList';
+import { uploadAttachments, splitPromptAttachments, attachmentFromPath } from '../utils/attachments';
+import PromptQueue from './PromptQueue';
+import { getPromptQueue, enqueuePrompt, updateQueuedPrompt, removeQueuedPrompt, reorderPromptQueue, resumePromptQueue } from '../utils/promptQueue';
 
 // Types for component props and interfaces
-interface FileItem {
-  name: string;
-  path: string;
-  relativePath: string;
-}
-
 interface DiffLine {
   type: 'added' | 'removed';
   content: string;
@@ -56,9 +55,13 @@ interface ChatMessage {
   toolError?: boolean;
   toolResultTimestamp?: Date;
   isInteractivePrompt?: boolean;
+  attachments?: ChatAttachment[];
+  // UUID of the JSONL entry this message came from (history only)
+  messageId?: string;
 }
 
 interface SessionMessage {
+  uuid?: string;
   sessionId?: string;
   type?: string;
   timestamp?: string;
@@ -79,9 +82,18 @@ interface SessionMessage {
   };
 }
 
+// One page of a session's history from the messages endpoint
+interface SessionMessagesPage {
+  messages: SessionMessage[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+  total: number;
+}
+
 interface ClaudeStatusInfo {
   text: string;
   tokens: number;
+  cost?: number;
   can_interrupt: boolean;
 }
 
@@ -94,6 +106,13 @@ interface MessageComponentProps {
   onShowSettings?: () => void;
   autoExpandTools: boolean;
   showRawParameters: boolean;
+  isHighlighted?: boolean;
+  onFork?: (messageId: string) => void;
+  // Send an edited version of this prompt on a new branch
+  onEditResend?: (messageId: string, content: string) => void;
+  // Other versions of this prompt, when it has been edited
+  branchPoint?: SessionBranchPoint;
+  onSwitchBranch?: (sessionId: string, summary: string) => void;
 }
 
 interface ChatInterfaceProps {
@@ -104,16 +123,108 @@ interface ChatInterfaceProps {
   messages: WebSocketMessageUnion[];
   onFileOpen?: (filePath: string, diff?: { old_string: string; new_string: string }) => void;
   onInputFocusChange?: (focused: boolean) => void;
-  onSessionActive?: (sessionId: string) => void;
-  onSessionInactive?: (sessionId: string) => void;
-  onReplaceTemporarySession?: (sessionId: string) => void;
   onNavigateToSession?: (sessionId: string) => void;
+  onOpenSession?: (projectName: string, sessionId: string, summary?: string) => void;
   onShowSettings?: () => void;
   autoExpandTools: boolean;
   showRawParameters: boolean;
   autoScrollToBottom: boolean;
+  jumpTarget?: MessageJumpTarget | null;
+  onJumpComplete?: () => void;
+}
+
+// A claude-command sent from this tab that hasn't completed yet
+interface RunningRequest {
+  sessionId: string | null;
+  // Last stream position received, used to resume after reconnecting
+  lastSeq: number;
+}
+
+// The message types of RunFrameMessage
+const RUN_FRAME_TYPES = new Set<WebSocketMessageUnion['type']>([
+  'claude-response', 'claude-output', 'claude-error', 'claude-complete', 'session-created',
+  'session-aborted', 'permission-request', 'permission-resolved', 'usage-updated'
+]);
+
+function isRunFrame(message: WebSocketMessageUnion): message is RunFrameMessage {
+  return RUN_FRAME_TYPES.has(message.type);
+}
+
+// Session history is fetched this many entries at a time, newest first
+const MESSAGES_PAGE_SIZE = 100;
+
+const createRequestId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Markdown is only re-parsed when its text changes
+const Markdown = memo<{ content: string; components?: Components }>(({ content, components }) => (
+  <ReactMarkdown components={components}>{content}</ReactMarkdown>
+));
+
+const assistantMarkdownComponents: Components = {
+  code: ({node, className, children, ...props}) => {
+    const inline = !className;
+    return inline ? (
+      <strong className="text-brand-blue dark:text-brand-blue font-bold not-prose" {...props}>
+        {children}
+      </strong>
+    ) : (
+      <div className="bg-brand-primary-bg dark:bg-brand-app-black p-3 rounded-lg overflow-hidden my-2">
+        <code className="text-brand-gray-text dark:text-brand-gray text-sm font-mono block whitespace-pre-wrap break-words" {...props}>
+          {children}
+        </code>
+      </div>
+    );
+  },
+  blockquote: ({children}) => (
+    <blockquote className="border-l-4 border-brand-gray/30 dark:border-brand-gray/40 pl-4 italic text-brand-gray-text dark:text-brand-gray-text my-2">
+      {children}
+    </blockquote>
+  ),
+  a: ({href, children}) => (
+    <a href={href} className="text-brand-blue dark:text-brand-blue hover:underline" target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+  p: ({children}) => (
+    <div className="mb-2 last:mb-0">
+      {children}
+    </div>
+  )
+};
+
+interface DiffLinesProps {
+  oldStr: string;
+  newStr: string;
+  createDiff: (oldStr: string, newStr: string) => DiffLine[];
 }
 
+// Diff rows for an edit, computed once per pair of strings
+const DiffLines = memo<DiffLinesProps>(({ oldStr, newStr, createDiff }) => {
+  const lines = useMemo(() => createDiff(oldStr, newStr), [oldStr, newStr, createDiff]);
+  return (
+    <div className="text-xs font-mono">
+      {lines.map((diffLine, i) => (
+        <div key={i} className="flex">
+          <span className={`w-8 text-center border-r ${
+            diffLine.type === 'removed' 
+              ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 border-red-200 dark:border-red-800'
+              : 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800'
+          }`}>
+            {diffLine.type === 'removed' ? '-' : '+'}
+          </span>
+          <span className={`px-2 py-0.5 flex-1 whitespace-pre-wrap ${
+            diffLine.type === 'removed'
+              ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+              : 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+          }`}>
+            {diffLine.content}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+});
+
 // Memoized message component to prevent unnecessary re-renders
 const MessageComponent = memo<MessageComponentProps>(({ 
   message, 
@@ -123,57 +234,149 @@ const MessageComponent = memo<MessageComponentProps>(({
   onFileOpen, 
   onShowSettings, 
   autoExpandTools, 
-  showRawParameters 
+  showRawParameters,
+  isHighlighted,
+  onFork,
+  onEditResend,
+  branchPoint,
+  onSwitchBranch
 }) => {
   const isGrouped = prevMessage && prevMessage.type === message.type && 
                    prevMessage.type === 'assistant' && 
                    !prevMessage.isToolUse && !message.isToolUse;
   const messageRef = useRef<HTMLDivElement>(null);
-  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [editText, setEditText] = useState<string>('');
 
-  useEffect(() => {
-    if (!autoExpandTools || !messageRef.current || !message.isToolUse) return;
-    
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting && !isExpanded) {
-            setIsExpanded(true);
-            // Find all details elements and open them
-            const details = messageRef.current?.querySelectorAll('details');
-            details?.forEach(detail => {
-              detail.open = true;
-            });
-          }
-        });
-      },
-      { threshold: 0.1 }
-    );
-    
-    if (messageRef.current) {
-      observer.observe(messageRef.current);
-    }
-    
-    return () => {
-      if (messageRef.current) {
-        observer.unobserve(messageRef.current);
-      }
-    };
-  }, [autoExpandTools, isExpanded, message.isToolUse]);
+  // Only messages near the viewport are mounted, so expand tools on mount,
+  // before the message is measured
+  useLayoutEffect(() => {
+    if (!autoExpandTools || !message.isToolUse) return;
+    messageRef.current?.querySelectorAll('details').forEach(detail => {
+      detail.open = true;
+    });
+  }, [autoExpandTools, message.isToolUse]);
 
   return (
     <div
       ref={messageRef}
-      className={`chat-message ${message.type} ${isGrouped ? 'grouped' : ''} ${message.type === 'user' ? 'flex justify-end px-3 sm:px-0' : 'px-3 sm:px-0'}`}
+      data-message-id={message.messageId}
+      className={`chat-message ${message.type} ${isGrouped ? 'grouped' : ''} ${message.type === 'user' ? 'flex justify-end px-3 sm:px-0' : 'px-3 sm:px-0'} ${isHighlighted ? 'rounded-lg ring-2 ring-yellow-400 transition-shadow' : ''}`}
     >
       {message.type === 'user' ? (
         /* User message bubble on the right */
         <div className="flex items-end space-x-0 sm:space-x-3 w-full sm:w-auto sm:max-w-[85%] md:max-w-md lg:max-w-lg xl:max-w-xl">
-          <div className="bg-brand-blue text-white rounded-2xl rounded-br-md px-3 sm:px-4 py-2 shadow-sm flex-1 sm:flex-initial">
-            <div className="text-sm whitespace-pre-wrap break-words">
-              {message.content}
-            </div>
-            <div className="text-xs text-brand-gray mt-1 text-right">
+          <div className="group bg-brand-blue text-white rounded-2xl rounded-br-md px-3 sm:px-4 py-2 shadow-sm flex-1 sm:flex-initial">
+            {isEditing ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!editText.trim() || !message.messageId) return;
+                  setIsEditing(false);
+                  onEditResend?.(message.messageId, editText.trim());
+                }}
+              >
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                      setIsEditing(false);
+                    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                      e.preventDefault();
+                      e.currentTarget.form?.requestSubmit();
+                    }
+                  }}
+                  rows={Math.min(10, Math.max(2, editText.split('\n').length))}
+                  className="w-full sm:w-96 max-w-full text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800 rounded-md p-2 resize-y focus:outline-none"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2 mt-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(false)}
+                    className="px-2 py-1 rounded hover:bg-white/20"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!editText.trim() || editText.trim() === message.content.trim()}
+                    className="px-2 py-1 rounded bg-white text-brand-blue font-medium disabled:opacity-50"
+                  >
+                    Send
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <>
+                {message.attachments && (
+                  <AttachmentList attachments={message.attachments} className={message.content ? 'mb-2' : ''} />
+                )}
+                {message.content && (
+                  <div className="text-sm whitespace-pre-wrap break-words">
+                    {message.content}
+                  </div>
+                )}
+              </>
+            )}
+            <div className="flex items-center justify-end gap-2 text-xs text-brand-gray mt-1">
+              {branchPoint && onSwitchBranch && (
+                <div className="flex items-center gap-0.5" title="Versions of this prompt">
+                  {(() => {
+                    const previous = branchPoint.siblings[branchPoint.currentIndex - 1];
+                    const next = branchPoint.siblings[branchPoint.currentIndex + 1];
+                    return (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => previous && onSwitchBranch(previous.sessionId, previous.summary)}
+                          disabled={!previous}
+                          className="hover:text-white disabled:opacity-40"
+                          title="Previous version"
+                        >
+                          <ChevronLeft className="w-3 h-3" />
+                        </button>
+                        <span>{branchPoint.currentIndex + 1}/{branchPoint.siblings.length}</span>
+                        <button
+                          type="button"
+                          onClick={() => next && onSwitchBranch(next.sessionId, next.summary)}
+                          disabled={!next}
+                          className="hover:text-white disabled:opacity-40"
+                          title="Next version"
+                        >
+                          <ChevronRight className="w-3 h-3" />
+                        </button>
+                      </>
+                    );
+                  })()}
+                </div>
+              )}
+              {onEditResend && message.messageId && !isEditing && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditText(message.content);
+                    setIsEditing(true);
+                  }}
+                  className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white transition-opacity"
+                  title="Edit and resend: continue from here on a new branch"
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+              )}
+              {onFork && message.messageId && (
+                <button
+                  type="button"
+                  onClick={() => onFork(message.messageId!)}
+                  className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white transition-opacity"
+                  title="Fork from here: start a new session with the conversation up to this message and its reply"
+                >
+                  <GitBranch className="w-3 h-3" />
+                  Fork
+                </button>
+              )}
               {new Date(message.timestamp).toLocaleTimeString()}
             </div>
           </div>
@@ -281,26 +484,7 @@ const MessageComponent = memo<MessageComponentProps>(({
                                   Diff
                                 </span>
                               </div>
-                              <div className="text-xs font-mono">
-                                {createDiff(input.old_string, input.new_string).map((diffLine, i) => (
-                                  <div key={i} className="flex">
-                                    <span className={`w-8 text-center border-r ${
-                                      diffLine.type === 'removed' 
-                                        ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 border-red-200 dark:border-red-800'
-                                        : 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800'
-                                    }`}>
-                                      {diffLine.type === 'removed' ? '-' : '+'}
-                                    </span>
-                                    <span className={`px-2 py-0.5 flex-1 whitespace-pre-wrap ${
-                                      diffLine.type === 'removed'
-                                        ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
-                                        : 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
-                                    }`}>
-                                      {diffLine.content}
-                                    </span>
-                                  </div>
-                                ))}
-                              </div>
+                              <DiffLines oldStr={input.old_string} newStr={input.new_string} createDiff={createDiff} />
                             </div>
                             {showRawParameters && (
                               <details className="mt-2" open={autoExpandTools}>
@@ -388,26 +572,7 @@ const MessageComponent = memo<MessageComponentProps>(({
                                     New File
                                   </span>
                                 </div>
-                                <div className="text-xs font-mono">
-                                  {createDiff('', input.content).map((diffLine, i) => (
-                                    <div key={i} className="flex">
-                                      <span className={`w-8 text-center border-r ${
-                                        diffLine.type === 'removed' 
-                                          ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 border-red-200 dark:border-red-800'
-                                          : 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 border-green-200 dark:border-green-800'
-                                      }`}>
-                                        {diffLine.type === 'removed' ? '-' : '+'}
-                                      </span>
-                                      <span className={`px-2 py-0.5 flex-1 whitespace-pre-wrap ${
-                                        diffLine.type === 'removed'
-                                          ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
-                                          : 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
-                                      }`}>
-                                        {diffLine.content}
-                                      </span>
-                                    </div>
-                                  ))}
-                                </div>
+                                <DiffLines oldStr="" newStr={input.content} createDiff={createDiff} />
                               </div>
                               {showRawParameters && (
                                 <details className="mt-2" open={autoExpandTools}>
@@ -727,7 +892,7 @@ const MessageComponent = memo<MessageComponentProps>(({
                                 View full output ({content.length} chars)
                               </summary>
                               <div className="mt-2 prose prose-sm max-w-none prose-green dark:prose-invert">
-                                <ReactMarkdown>{content}</ReactMarkdown>
+                                <Markdown content={content} />
                               </div>
                             </details>
                           );
@@ -735,7 +900,7 @@ const MessageComponent = memo<MessageComponentProps>(({
                         
                         return (
                           <div className="prose prose-sm max-w-none prose-green dark:prose-invert">
-                            <ReactMarkdown>{content}</ReactMarkdown>
+                            <Markdown content={content} />
                           </div>
                         );
                       })()}
@@ -830,41 +995,7 @@ const MessageComponent = memo<MessageComponentProps>(({
               <div className="text-sm text-brand-gray-text dark:text-brand-gray">
                 {message.type === 'assistant' ? (
                   <div className="prose prose-sm max-w-none dark:prose-invert prose-gray [&_code]:!bg-transparent [&_code]:!p-0">
-                    <ReactMarkdown
-                      components={{
-                        code: ({node, className, children, ...props}) => {
-                          const inline = !className;
-                          return inline ? (
-                            <strong className="text-brand-blue dark:text-brand-blue font-bold not-prose" {...props}>
-                              {children}
-                            </strong>
-                          ) : (
-                            <div className="bg-brand-primary-bg dark:bg-brand-app-black p-3 rounded-lg overflow-hidden my-2">
-                              <code className="text-brand-gray-text dark:text-brand-gray text-sm font-mono block whitespace-pre-wrap break-words" {...props}>
-                                {children}
-                              </code>
-                            </div>
-                          );
-                        },
-                        blockquote: ({children}) => (
-                          <blockquote className="border-l-4 border-brand-gray/30 dark:border-brand-gray/40 pl-4 italic text-brand-gray-text dark:text-brand-gray-text my-2">
-                            {children}
-                          </blockquote>
-                        ),
-                        a: ({href, children}) => (
-                          <a href={href} className="text-brand-blue dark:text-brand-blue hover:underline" target="_blank" rel="noopener noreferrer">
-                            {children}
-                          </a>
-                        ),
-                        p: ({children}) => (
-                          <div className="mb-2 last:mb-0">
-                            {children}
-                          </div>
-                        )
-                      }}
-                    >
-                      {String(message.content || '')}
-                    </ReactMarkdown>
+                    <Markdown content={String(message.content || '')} components={assistantMarkdownComponents} />
                   </div>
                 ) : (
                   <div className="whitespace-pre-wrap">
@@ -884,7 +1015,7 @@ const MessageComponent = memo<MessageComponentProps>(({
   );
 });
 
-// ChatInterface: Main chat component with Session Protection System integration
+// ChatInterface: Main chat component
 function ChatInterface({
   selectedProject,
   selectedSession,
@@ -893,56 +1024,83 @@ function ChatInterface({
   messages,
   onFileOpen,
   onInputFocusChange,
-  onSessionActive,
-  onSessionInactive,
-  onReplaceTemporarySession,
   onNavigateToSession,
+  onOpenSession,
   onShowSettings,
   autoExpandTools,
   showRawParameters,
-  autoScrollToBottom
+  autoScrollToBottom,
+  jumpTarget,
+  onJumpComplete
 }: ChatInterfaceProps): JSX.Element {
-  const [input, setInput] = useState<string>(() => {
-    if (typeof window !== 'undefined' && selectedProject) {
-      return localStorage.getItem(`draft_input_${selectedProject.name}`) || '';
-    }
-    return '';
-  });
+  const { getProjectSettings, updateProjectSettings, onProjectSettingsChange } = useSettings();
+  const [input, setInput] = useState<string>('');
+  // Last draft known to be stored on the server for the selected project
+  const savedDraftRef = useRef<string>('');
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isUploadingAttachments, setIsUploadingAttachments] = useState<boolean>(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  // Attachments for a session that hasn't started yet are stored under this ID
+  const attachmentsDraftKeyRef = useRef<string>(`draft-${createRequestId()}`);
+  // Prompts sent while the session was busy, run by the server in order
+  const [promptQueue, setPromptQueue] = useState<PromptQueueState | null>(null);
   
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>(() => {
-    if (typeof window !== 'undefined' && selectedProject) {
-      const saved = localStorage.getItem(`chat_messages_${selectedProject.name}`);
-      return saved ? JSON.parse(saved) : [];
-    }
-    return [];
-  });
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(selectedSession?.id || null);
+  // CLI options chosen in the composer, remembered per session for this tab
+  const [sessionOptions, setSessionOptions] = useState<ClaudeSessionOptions>({});
+  const sessionOptionsRef = useRef<Map<string, ClaudeSessionOptions>>(new Map());
+  const previousSessionIdRef = useRef<string | null>(currentSessionId);
   const [isInputFocused, setIsInputFocused] = useState<boolean>(false);
   const [sessionMessages, setSessionMessages] = useState<SessionMessage[]>([]);
   const [isLoadingSessionMessages, setIsLoadingSessionMessages] = useState<boolean>(false);
+  // Whether the server has entries before the oldest one loaded
+  const [hasOlderMessages, setHasOlderMessages] = useState<boolean>(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState<boolean>(false);
+  const loadingOlderRef = useRef<boolean>(false);
+  const sessionMessagesRef = useRef<SessionMessage[]>([]);
+  // Set when an older page is prepended: keep the scroll position and any
+  // messages that arrived live after the loaded history
+  const prependedPageRef = useRef<boolean>(false);
+  const convertedCountRef = useRef<number>(0);
+  // Edited prompts in this session, by message ID
+  const [branchPoints, setBranchPoints] = useState<Map<string, SessionBranchPoint>>(new Map());
   const [isSystemSessionChange, setIsSystemSessionChange] = useState<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [debouncedInput, setDebouncedInput] = useState<string>('');
   const [showFileDropdown, setShowFileDropdown] = useState<boolean>(false);
-  const [fileList, setFileList] = useState<FileItem[]>([]);
-  const [filteredFiles, setFilteredFiles] = useState<FileItem[]>([]);
+  const [filteredFiles, setFilteredFiles] = useState<FileSearchResult[]>([]);
   const [selectedFileIndex, setSelectedFileIndex] = useState<number>(-1);
   const [cursorPosition, setCursorPosition] = useState<number>(0);
   const [atSymbolPosition, setAtSymbolPosition] = useState<number>(-1);
   const [canAbortSession, setCanAbortSession] = useState<boolean>(false);
   const [isUserScrolledUp, setIsUserScrolledUp] = useState<boolean>(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Set while showing a search hit, so automatic scrolling leaves it in view
+  const isJumpingRef = useRef<boolean>(false);
   const scrollPositionRef = useRef<{ height: number; top: number }>({ height: 0, top: 0 });
   const [showCommandMenu, setShowCommandMenu] = useState<boolean>(false);
-  const [slashCommands, setSlashCommands] = useState<any[]>([]);
-  const [filteredCommands, setFilteredCommands] = useState<any[]>([]);
+  const [slashCommands, setSlashCommands] = useState<SlashCommand[]>([]);
+  const [filteredCommands, setFilteredCommands] = useState<SlashCommand[]>([]);
   const [isTextareaExpanded, setIsTextareaExpanded] = useState<boolean>(false);
   const [selectedCommandIndex, setSelectedCommandIndex] = useState<number>(-1);
   const [slashPosition, setSlashPosition] = useState<number>(-1);
+  // Project the loaded slash commands belong to
+  const commandsProjectRef = useRef<string | null>(null);
   const [claudeStatus, setClaudeStatus] = useState<ClaudeStatusInfo | null>(null);
+  // Frames from several running sessions share one socket. Each command gets a
+  // request ID; only frames for the request shown here update the transcript.
+  const runningRequestsRef = useRef<Map<string, RunningRequest>>(new Map());
+  const viewRequestIdRef = useRef<string | null>(null);
+  // `messages` is app-wide and outlives this component: start after the frames
+  // that arrived before it mounted, which a remount must not handle again
+  const processedMessageCountRef = useRef<number>(messages.length);
+  // Tool permission prompts waiting for an answer, across all running sessions
+  const [pendingPermissions, setPendingPermissions] = useState<PermissionRequestMessage[]>([]);
 
   // Memoized diff calculation to prevent recalculating on every render
   const createDiff = useMemo(() => {
@@ -965,26 +1123,243 @@ function ChatInterface({
     };
   }, []);
 
-  // Load session messages from API
+  // Load the latest page of session messages from API
   const loadSessionMessages = useCallback(async (projectName: string, sessionId: string): Promise<SessionMessage[]> => {
     if (!projectName || !sessionId) return [];
     
     setIsLoadingSessionMessages(true);
     try {
-      const response = await fetch(`/api/projects/${projectName}/sessions/${sessionId}/messages`);
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}/messages?limit=${MESSAGES_PAGE_SIZE}`);
       if (!response.ok) {
         throw new Error('Failed to load session messages');
       }
-      const data = await response.json();
+      const data: SessionMessagesPage = await response.json();
+      setHasOlderMessages(data.hasOlder);
       return data.messages || [];
     } catch (error) {
       console.error('Error loading session messages:', error);
+      setHasOlderMessages(false);
       return [];
     } finally {
       setIsLoadingSessionMessages(false);
     }
   }, []);
 
+  useEffect(() => {
+    sessionMessagesRef.current = sessionMessages;
+  }, [sessionMessages]);
+
+  // Fetch the page before the oldest loaded message and put it in front
+  const loadOlderMessages = useCallback(async (): Promise<void> => {
+    const loadedMessages = sessionMessagesRef.current;
+    const cursor = loadedMessages.find(message => message.uuid)?.uuid;
+    if (!selectedProject || !selectedSession || !cursor || !hasOlderMessages || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlderMessages(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${encodeURIComponent(selectedProject.name)}/sessions/${encodeURIComponent(selectedSession.id)}/messages?limit=${MESSAGES_PAGE_SIZE}&before=${encodeURIComponent(cursor)}`
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load earlier messages');
+      }
+      const page: SessionMessagesPage = await response.json();
+      // Another session (or a fresh copy of this one) was loaded meanwhile
+      if (sessionMessagesRef.current !== loadedMessages) return;
+
+      const container = scrollContainerRef.current;
+      if (container) {
+        scrollPositionRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+      prependedPageRef.current = true;
+      setSessionMessages([...page.messages, ...loadedMessages]);
+      setHasOlderMessages(page.hasOlder);
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlderMessages(false);
+    }
+  }, [selectedProject, selectedSession, hasOlderMessages]);
+
+  // Copy the conversation up to a user message (and its reply) into a new
+  // session and open it
+  const handleForkFromMessage = useCallback(async (messageId: string): Promise<void> => {
+    if (!selectedProject || !selectedSession) return;
+
+    try {
+      const response = await fetch(`/api/projects/${encodeURIComponent(selectedProject.name)}/sessions/${encodeURIComponent(selectedSession.id)}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fork session');
+      }
+      onNavigateToSession?.(data.sessionId);
+    } catch (error) {
+      console.error('Error forking session:', error);
+      alert(`Failed to fork session: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, [selectedProject, selectedSession, onNavigateToSession]);
+
+  // Options a prompt runs with besides its session, from the composer
+  const getRunOptions = (promptAttachments: ChatAttachment[]) => ({
+    projectPath: selectedProject?.path || selectedProject?.fullPath,
+    cwd: selectedProject?.fullPath,
+    ...sessionOptions,
+    addDirs: sessionOptions.addDirs?.map(dir => dir.trim()).filter(Boolean),
+    attachments: promptAttachments.length > 0 ? promptAttachments.map(attachment => attachment.path) : undefined
+  });
+
+  // Show a prompt in the transcript and send it to Claude. With resume false,
+  // sessionId (if any) becomes the ID of the new session.
+  const submitPrompt = (command: string, sessionId: string | null, resume: boolean, promptAttachments: ChatAttachment[] = []): void => {
+    if (!selectedProject) return;
+
+    const userMessage: ChatMessage = {
+      type: 'user',
+      content: command,
+      timestamp: new Date(),
+      attachments: promptAttachments.length > 0 ? promptAttachments : undefined
+    };
+
+    setChatMessages(prev => [...prev, userMessage]);
+    setIsLoading(true);
+    setCanAbortSession(true);
+    setClaudeStatus({
+      text: 'Processing',
+      tokens: 0,
+      can_interrupt: true
+    });
+
+    setIsUserScrolledUp(false);
+    setTimeout(() => scrollToBottom(), 100);
+
+    const requestId = createRequestId();
+    runningRequestsRef.current.set(requestId, {
+      sessionId,
+      lastSeq: 0
+    });
+    viewRequestIdRef.current = requestId;
+
+    // Tool permissions are read by the server from the project's settings
+    sendMessage({
+      type: 'claude-command',
+      command,
+      requestId,
+      options: {
+        sessionId: sessionId || undefined,
+        resume,
+        projectName: selectedProject.name,
+        ...getRunOptions(promptAttachments)
+      }
+    });
+  };
+
+  // Line a prompt up behind the session's current run
+  const queuePrompt = async (command: string, promptAttachments: ChatAttachment[]): Promise<void> => {
+    if (!selectedProject || !currentSessionId) return;
+    try {
+      setPromptQueue(await enqueuePrompt(selectedProject.name, currentSessionId, command, getRunOptions(promptAttachments)));
+    } catch (error) {
+      console.error('Error queueing prompt:', error);
+      alert(`Failed to queue prompt: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  // Edit, cancel, reorder or resume queued prompts; the server's answer is
+  // the new queue
+  const changePromptQueue = async (change: (projectName: string, sessionId: string) => Promise<PromptQueueState>): Promise<void> => {
+    if (!selectedProject || !currentSessionId) return;
+    try {
+      setPromptQueue(await change(selectedProject.name, currentSessionId));
+    } catch (error) {
+      console.error('Error updating prompt queue:', error);
+      alert(`Failed to update the queue: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedProject || !currentSessionId) {
+      setPromptQueue(null);
+      return;
+    }
+    let cancelled = false;
+    getPromptQueue(selectedProject.name, currentSessionId)
+      .then(queue => {
+        if (!cancelled) setPromptQueue(queue);
+      })
+      .catch(error => console.error('Error loading prompt queue:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject?.name, currentSessionId]);
+
+  // Upload pasted or dropped files and add them to the prompt being written
+  const attachFiles = async (files: File[]): Promise<void> => {
+    if (!selectedProject || files.length === 0) return;
+
+    setIsUploadingAttachments(true);
+    try {
+      const uploaded = await uploadAttachments(selectedProject.name, currentSessionId || attachmentsDraftKeyRef.current, files);
+      setAttachments(prev => [...prev, ...uploaded]);
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      alert(`Failed to attach files: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsUploadingAttachments(false);
+    }
+  };
+
+  // Attachments belong to the session they were added in
+  useEffect(() => {
+    setAttachments([]);
+    attachmentsDraftKeyRef.current = `draft-${createRequestId()}`;
+  }, [selectedProject?.name, selectedSession?.id]);
+
+  // Send an edited version of a past prompt. The conversation before it is
+  // copied into a new branch session, which continues from the edited prompt
+  // while the original session keeps its own version.
+  const handleEditResend = async (messageId: string, content: string): Promise<void> => {
+    if (!selectedProject || !selectedSession || isLoading) return;
+
+    try {
+      const response = await fetch(`/api/projects/${encodeURIComponent(selectedProject.name)}/sessions/${encodeURIComponent(selectedSession.id)}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, before: true })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create branch');
+      }
+      const branch = data as ForkSessionResponse;
+      const editedMessage = chatMessages.find(message => message.messageId === messageId);
+
+      // Show the branch right away; the transcript is re-read from its file
+      // once it is selected
+      setChatMessages(prev => {
+        const index = prev.findIndex(message => message.messageId === messageId);
+        return index === -1 ? prev : prev.slice(0, index);
+      });
+      setCurrentSessionId(branch.sessionId);
+      submitPrompt(content, branch.sessionId, branch.resume, editedMessage?.attachments);
+      onNavigateToSession?.(branch.sessionId);
+    } catch (error) {
+      console.error('Error editing message:', error);
+      alert(`Failed to resend message: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleSwitchBranch = useCallback((sessionId: string, summary: string): void => {
+    if (selectedProject) {
+      onOpenSession?.(selectedProject.name, sessionId, summary);
+    }
+  }, [selectedProject, onOpenSession]);
+
   // Actual diff calculation function
   const calculateDiff = (oldStr: string, newStr: string): DiffLine[] => {
     const oldLines = oldStr.split('\n');
@@ -1067,12 +1442,17 @@ function ChatInterface({
           content = String(msg.message.content);
         }
         
+        // Attachments are listed by the server at the end of the prompt
+        const prompt = selectedProject ? splitPromptAttachments(selectedProject.name, content) : { text: content, attachments: [] };
+
         // Skip command messages and empty content
         if (content && !content.startsWith('<command-name>') && !content.startsWith('[Request interrupted')) {
           converted.push({
             type: messageType,
-            content: content,
-            timestamp: msg.timestamp || new Date().toISOString()
+            content: prompt.text,
+            timestamp: msg.timestamp || new Date().toISOString(),
+            messageId: msg.uuid,
+            attachments: prompt.attachments.length > 0 ? prompt.attachments : undefined
           });
         }
       }
@@ -1085,7 +1465,8 @@ function ChatInterface({
               converted.push({
                 type: 'assistant',
                 content: part.text || '',
-                timestamp: msg.timestamp || new Date().toISOString()
+                timestamp: msg.timestamp || new Date().toISOString(),
+                messageId: msg.uuid
               });
             } else if (part.type === 'tool_use') {
               // Get the corresponding tool result
@@ -1104,7 +1485,8 @@ function ChatInterface({
                   timestamp: toolResult.timestamp
                 } : null,
                 toolError: toolResult?.isError || false,
-                toolResultTimestamp: toolResult?.timestamp || new Date()
+                toolResultTimestamp: toolResult?.timestamp || new Date(),
+                messageId: msg.uuid
               });
             }
           }
@@ -1112,7 +1494,8 @@ function ChatInterface({
           converted.push({
             type: 'assistant',
             content: msg.message.content,
-            timestamp: msg.timestamp || new Date().toISOString()
+            timestamp: msg.timestamp || new Date().toISOString(),
+            messageId: msg.uuid
           });
         }
       }
@@ -1142,13 +1525,41 @@ function ChatInterface({
     return scrollHeight - scrollTop - clientHeight < 50;
   }, []);
 
-  // Handle scroll events to detect when user manually scrolls up
+  // Handle scroll events to detect when user manually scrolls up, and fetch
+  // earlier history on reaching the top
   const handleScroll = useCallback(() => {
     if (scrollContainerRef.current) {
       const nearBottom = isNearBottom();
       setIsUserScrolledUp(!nearBottom);
+      if (scrollContainerRef.current.scrollTop < 200 && !isJumpingRef.current) {
+        loadOlderMessages();
+      }
     }
-  }, [isNearBottom]);
+  }, [isNearBottom, loadOlderMessages]);
+
+  const handlePermissionDecision = useCallback((permissionId: string, decision: PermissionDecision): void => {
+    sendMessage({ type: 'permission-response', permissionId, decision });
+    setPendingPermissions(prev => prev.filter(p => p.permissionId !== permissionId));
+  }, [sendMessage]);
+
+  // Point the view at the running request for a session (if any) so its
+  // remaining frames show up here, and reflect its state in the status bar
+  const attachToRunningRequest = useCallback((sessionId: string | null): void => {
+    let requestId: string | null = null;
+    if (sessionId) {
+      for (const [id, request] of runningRequestsRef.current) {
+        if (request.sessionId === sessionId) {
+          requestId = id;
+          break;
+        }
+      }
+    }
+
+    viewRequestIdRef.current = requestId;
+    setIsLoading(!!requestId);
+    setCanAbortSession(!!requestId);
+    setClaudeStatus(requestId ? { text: 'Processing', tokens: 0, can_interrupt: true } : null);
+  }, []);
 
   useEffect(() => {
     // Load session messages when session changes
@@ -1159,34 +1570,183 @@ function ChatInterface({
         // Only load messages from API if this is a user-initiated session change
         // For system-initiated changes, preserve existing messages and rely on WebSocket
         if (!isSystemSessionChange) {
+          attachToRunningRequest(selectedSession.id);
           const messages = await loadSessionMessages(selectedProject.name, selectedSession.id!);
           setSessionMessages(messages);
           // convertedMessages will be automatically updated via useMemo
           // Scroll to bottom after loading session messages if auto-scroll is enabled
           if (autoScrollToBottom) {
-            setTimeout(() => scrollToBottom(), 200);
+            setTimeout(() => {
+              if (!isJumpingRef.current) scrollToBottom();
+            }, 200);
           }
         } else {
           // Reset the flag after handling system session change
           setIsSystemSessionChange(false);
         }
       } else {
+        attachToRunningRequest(null);
         setChatMessages([]);
         setSessionMessages([]);
+        setHasOlderMessages(false);
         setCurrentSessionId(null);
       }
     };
     
     loadMessages();
-  }, [selectedSession, selectedProject, loadSessionMessages, scrollToBottom, isSystemSessionChange, autoScrollToBottom]);
+    // Keyed on IDs: patched project data must not reload the open transcript
+  }, [selectedSession?.id, selectedProject?.name, loadSessionMessages, scrollToBottom, isSystemSessionChange, autoScrollToBottom, attachToRunningRequest]);
+
+  // Load the other versions of edited prompts, again whenever a run finishes
+  // since it may have written the prompt that makes this session a branch
+  useEffect(() => {
+    if (!selectedProject || !selectedSession || isLoading) {
+      if (!selectedSession) setBranchPoints(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/projects/${encodeURIComponent(selectedProject.name)}/sessions/${encodeURIComponent(selectedSession.id)}/branches`)
+      .then(response => (response.ok ? response.json() : { branchPoints: [] }))
+      .then((data: { branchPoints?: SessionBranchPoint[] }) => {
+        if (cancelled) return;
+        setBranchPoints(new Map((data.branchPoints || []).map(point => [point.messageId, point])));
+      })
+      .catch(error => console.error('Error loading session branches:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject?.name, selectedSession?.id, isLoading]);
 
   // Update chatMessages when convertedMessages changes
   useEffect(() => {
     if (sessionMessages.length > 0) {
-      setChatMessages(convertedMessages);
+      if (prependedPageRef.current) {
+        // Messages shown after the previously loaded history came in live
+        // and aren't in sessionMessages; keep them
+        const liveStart = convertedCountRef.current;
+        setChatMessages(prev => [...convertedMessages, ...prev.slice(liveStart)]);
+      } else {
+        setChatMessages(convertedMessages);
+      }
+      convertedCountRef.current = convertedMessages.length;
     }
   }, [convertedMessages, sessionMessages]);
 
+  // After an older page is prepended, keep the messages that were on screen
+  // where they were
+  useLayoutEffect(() => {
+    if (!prependedPageRef.current) return;
+    prependedPageRef.current = false;
+    const container = scrollContainerRef.current;
+    if (container) {
+      const { height, top } = scrollPositionRef.current;
+      container.scrollTop = container.scrollHeight - height + top;
+    }
+  }, [chatMessages]);
+
+  // Slash commands of the project; re-read whenever the menu opens, since
+  // command files may have been added since
+  useEffect(() => {
+    if (!selectedProject) {
+      commandsProjectRef.current = null;
+      setSlashCommands([]);
+      return;
+    }
+    if (commandsProjectRef.current === selectedProject.name && !showCommandMenu) return;
+    commandsProjectRef.current = selectedProject.name;
+
+    let cancelled = false;
+    listSlashCommands(selectedProject.name)
+      .then(commands => {
+        if (!cancelled) setSlashCommands(commands);
+      })
+      .catch(error => console.error('Error loading slash commands:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject?.name, showCommandMenu]);
+
+  // Offer commands while a "/command" is being typed at the start of the input
+  useEffect(() => {
+    const query = getSlashQuery(input, cursorPosition);
+    if (query === null) {
+      setShowCommandMenu(false);
+      setSlashPosition(-1);
+      return;
+    }
+
+    const matches = filterSlashCommands(slashCommands, query);
+    setFilteredCommands(matches);
+    setSelectedCommandIndex(matches.length > 0 ? 0 : -1);
+    setSlashPosition(0);
+    setShowCommandMenu(matches.length > 0);
+  }, [input, cursorPosition, slashCommands]);
+
+  // Put the chosen command in place of the partial name, ready for arguments
+  const selectSlashCommand = (command: SlashCommand): void => {
+    const before = input.slice(0, slashPosition);
+    const after = input.slice(cursorPosition).replace(/^\S*\s*/, '');
+    const inserted = `/${command.name} `;
+    const newCursorPosition = before.length + inserted.length;
+
+    setInput(before + inserted + after);
+    setCursorPosition(newCursorPosition);
+    setShowCommandMenu(false);
+    setSlashPosition(-1);
+    setTimeout(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(newCursorPosition, newCursorPosition);
+    }, 0);
+  };
+
+  // Search the project's files while an "@path" is being typed
+  useEffect(() => {
+    const mention = selectedProject ? getMentionQuery(input, cursorPosition) : null;
+    if (!selectedProject || !mention) {
+      setShowFileDropdown(false);
+      setAtSymbolPosition(-1);
+      return;
+    }
+    setAtSymbolPosition(mention.position);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      searchProjectFiles(selectedProject.name, mention.query, controller.signal)
+        .then(files => {
+          setFilteredFiles(files);
+          setSelectedFileIndex(files.length > 0 ? 0 : -1);
+          setShowFileDropdown(files.length > 0);
+        })
+        .catch(error => {
+          if (error.name !== 'AbortError') {
+            console.error('Error searching files:', error);
+          }
+        });
+    }, 150);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [input, cursorPosition, selectedProject?.name]);
+
+  // Put the chosen path in place of the partial "@path"
+  const selectFileMention = (file: FileSearchResult): void => {
+    const before = input.slice(0, atSymbolPosition);
+    const after = input.slice(cursorPosition).replace(/^\S*\s*/, '');
+    const inserted = `@${file.relativePath}${file.type === 'directory' ? '/' : ''} `;
+    const newCursorPosition = before.length + inserted.length;
+
+    setInput(before + inserted + after);
+    setCursorPosition(newCursorPosition);
+    setShowFileDropdown(false);
+    setAtSymbolPosition(-1);
+    setTimeout(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(newCursorPosition, newCursorPosition);
+    }, 0);
+  };
+
   // Notify parent when input focus changes
   useEffect(() => {
     if (onInputFocusChange) {
@@ -1194,45 +1754,218 @@ function ChatInterface({
     }
   }, [isInputFocused, onInputFocusChange]);
 
-  // Persist input draft to localStorage
+  // Switch composer options with the session. A session that was just created
+  // keeps the options it was started with.
   useEffect(() => {
-    if (selectedProject && input !== '') {
-      localStorage.setItem(`draft_input_${selectedProject.name}`, input);
-    } else if (selectedProject && input === '') {
-      localStorage.removeItem(`draft_input_${selectedProject.name}`);
+    const previousSessionId = previousSessionIdRef.current;
+    previousSessionIdRef.current = currentSessionId;
+    if (!currentSessionId || currentSessionId === previousSessionId) return;
+
+    const saved = sessionOptionsRef.current.get(currentSessionId);
+    if (saved) {
+      setSessionOptions(saved);
+    } else if (previousSessionId) {
+      setSessionOptions({});
+    } else {
+      setSessionOptions(current => {
+        sessionOptionsRef.current.set(currentSessionId, current);
+        return current;
+      });
     }
-  }, [input, selectedProject]);
+  }, [currentSessionId]);
 
-  // Persist chat messages to localStorage
-  useEffect(() => {
-    if (selectedProject && chatMessages.length > 0) {
-      localStorage.setItem(`chat_messages_${selectedProject.name}`, JSON.stringify(chatMessages));
+  const handleSessionOptionsChange = useCallback((options: ClaudeSessionOptions): void => {
+    setSessionOptions(options);
+    if (currentSessionId) {
+      sessionOptionsRef.current.set(currentSessionId, options);
     }
-  }, [chatMessages, selectedProject]);
+  }, [currentSessionId]);
 
-  // Load saved state when project changes
+  // Load the project's draft when the project changes
   useEffect(() => {
-    if (selectedProject) {
-      const savedInput = localStorage.getItem(`draft_input_${selectedProject.name}`) || '';
-      if (savedInput !== input) {
-        setInput(savedInput);
+    savedDraftRef.current = '';
+    setInput('');
+    if (!selectedProject) return;
+
+    let cancelled = false;
+    getProjectSettings(selectedProject.name).then(data => {
+      const draft = data?.settings.draftInput || '';
+      if (!cancelled && draft) {
+        savedDraftRef.current = draft;
+        setInput(draft);
       }
-    }
-  }, [selectedProject?.name, input]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject?.name, getProjectSettings]);
+
+  // Save the draft to the server once typing pauses
+  useEffect(() => {
+    if (!selectedProject || input === savedDraftRef.current) return;
+
+    const projectName = selectedProject.name;
+    const timer = setTimeout(() => {
+      savedDraftRef.current = input;
+      updateProjectSettings(projectName, { draftInput: input || null });
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [input, selectedProject?.name, updateProjectSettings]);
 
-  // Handle WebSocket messages - CRITICAL MISSING LOGIC
+  // Pick up a draft saved from another tab or device, unless there are
+  // unsaved local edits
   useEffect(() => {
-    if (messages.length > 0) {
-      const latestMessage = messages[messages.length - 1];
+    if (!selectedProject) return;
+
+    return onProjectSettingsChange((projectName, settings) => {
+      const draft = settings.draftInput || '';
+      if (projectName !== selectedProject.name || draft === savedDraftRef.current) return;
+
+      setInput(current => {
+        if (current !== savedDraftRef.current) return current;
+        savedDraftRef.current = draft;
+        return draft;
+      });
+    });
+  }, [selectedProject?.name, onProjectSettingsChange]);
+
+  // Handle WebSocket messages
+  useEffect(() => {
+    // Frames for a session that isn't on screen only update its running state;
+    // its transcript is loaded from disk when the user switches to it
+    const handleBackgroundFrame = (frame: RunFrameMessage, request: RunningRequest | undefined): void => {
+      if (!request || !frame.requestId) return;
+
+      if (frame.type === 'claude-complete' || frame.type === 'session-aborted') {
+        runningRequestsRef.current.delete(frame.requestId);
+      }
+    };
+
+    // A request we were following is no longer known to the server (finished
+    // and expired, or the server restarted)
+    const dropRequest = (requestId: string): void => {
+      const request = runningRequestsRef.current.get(requestId);
+      if (!request) return;
+
+      runningRequestsRef.current.delete(requestId);
+      if (viewRequestIdRef.current === requestId) {
+        viewRequestIdRef.current = null;
+        setIsLoading(false);
+        setCanAbortSession(false);
+        setClaudeStatus(null);
+      }
+    };
+
+    // Sent by the server on every (re)connect: pick up where each run left off
+    const resumeRuns = (runs: RunSummary[]): void => {
+      const serverRunIds = new Set(runs.map(run => run.requestId));
+      for (const requestId of [...runningRequestsRef.current.keys()]) {
+        if (!serverRunIds.has(requestId)) {
+          dropRequest(requestId);
+        }
+      }
+
+      for (const run of runs) {
+        const known = runningRequestsRef.current.get(run.requestId);
+        if (known) {
+          sendMessage({ type: 'resume-stream', requestId: run.requestId, cursor: known.lastSeq });
+          continue;
+        }
+        if (run.status !== 'running') continue;
+
+        // A run started before this page loaded: its transcript so far comes
+        // from the session file, so only follow new events
+        runningRequestsRef.current.set(run.requestId, {
+          sessionId: run.sessionId,
+          lastSeq: run.latestSeq
+        });
+        sendMessage({ type: 'resume-stream', requestId: run.requestId });
+        if (run.sessionId && run.sessionId === currentSessionId) {
+          attachToRunningRequest(currentSessionId);
+        }
+      }
+    };
+
+    const handleFrame = (latestMessage: WebSocketMessageUnion): void => {
+      if (latestMessage.type === 'active-runs') {
+        resumeRuns(latestMessage.runs);
+        return;
+      }
+      if (latestMessage.type === 'prompt-queue-updated') {
+        if (latestMessage.sessionId === currentSessionId) {
+          setPromptQueue(latestMessage);
+        }
+        return;
+      }
+      if (latestMessage.type === 'queued-prompt-started') {
+        // Follow the new run from its first event
+        runningRequestsRef.current.set(latestMessage.requestId, {
+          sessionId: latestMessage.sessionId,
+          lastSeq: 0
+        });
+        sendMessage({ type: 'resume-stream', requestId: latestMessage.requestId, cursor: 0 });
+        if (latestMessage.sessionId === currentSessionId && selectedProject) {
+          const promptAttachments = latestMessage.attachments.map(filePath => attachmentFromPath(selectedProject.name, filePath));
+          setChatMessages(prev => [...prev, {
+            type: 'user',
+            content: latestMessage.command,
+            timestamp: new Date(),
+            attachments: promptAttachments.length > 0 ? promptAttachments : undefined
+          }]);
+          attachToRunningRequest(currentSessionId);
+          setIsUserScrolledUp(false);
+          setTimeout(() => scrollToBottom(), 100);
+        }
+        return;
+      }
+      if (latestMessage.type === 'stream-not-found') {
+        if (latestMessage.requestId) {
+          dropRequest(latestMessage.requestId);
+        }
+        return;
+      }
+      if (latestMessage.type === 'stream-resumed') {
+        // Events were lost from the server's buffer; re-read the transcript
+        if (latestMessage.truncated && latestMessage.requestId === viewRequestIdRef.current &&
+            selectedProject && latestMessage.sessionId) {
+          loadSessionMessages(selectedProject.name, latestMessage.sessionId).then(setSessionMessages);
+        }
+        return;
+      }
+
+      // Permission prompts are tracked for every session (they may be re-sent
+      // on resume, so de-duplicate by ID rather than by stream position)
+      if (latestMessage.type === 'permission-request') {
+        setPendingPermissions(prev => prev.some(p => p.permissionId === latestMessage.permissionId)
+          ? prev
+          : [...prev, latestMessage]);
+      } else if (latestMessage.type === 'permission-resolved') {
+        setPendingPermissions(prev => prev.filter(p => p.permissionId !== latestMessage.permissionId));
+      }
+
+      const frame = isRunFrame(latestMessage) ? latestMessage : null;
+      const request = frame?.requestId ? runningRequestsRef.current.get(frame.requestId) : undefined;
+
+      if (request && frame && 'seq' in frame && typeof frame.seq === 'number') {
+        // Skip anything already seen (e.g. replayed twice after a reconnect)
+        if (frame.seq <= request.lastSeq) return;
+        request.lastSeq = frame.seq;
+      }
+
+      // Keep track of the session each request belongs to as the CLI reports it
+      if (request && frame?.sessionId) {
+        request.sessionId = frame.sessionId;
+      }
+
+      if (frame?.requestId && frame.requestId !== viewRequestIdRef.current) {
+        handleBackgroundFrame(frame, request);
+        return;
+      }
       
       switch (latestMessage.type) {
         case 'session-created':
-          if ((latestMessage as any).sessionId && !currentSessionId) {
-            sessionStorage.setItem('pendingSessionId', (latestMessage as any).sessionId);
-            
-            if (onReplaceTemporarySession) {
-              onReplaceTemporarySession((latestMessage as any).sessionId);
-            }
+          if (latestMessage.sessionId && !currentSessionId) {
+            sessionStorage.setItem('pendingSessionId', latestMessage.sessionId);
           }
           break;
           
@@ -1345,14 +2078,11 @@ function ChatInterface({
           setIsLoading(false);
           setCanAbortSession(false);
           setClaudeStatus(null);
-          
-          const activeSessionId = currentSessionId || sessionStorage.getItem('pendingSessionId');
-          if (activeSessionId && onSessionInactive) {
-            onSessionInactive(activeSessionId);
-          }
+          runningRequestsRef.current.delete(latestMessage.requestId);
+          viewRequestIdRef.current = null;
           
           const pendingSessionId = sessionStorage.getItem('pendingSessionId');
-          if (pendingSessionId && !currentSessionId && (latestMessage as any).exitCode === 0) {
+          if (pendingSessionId && !currentSessionId && latestMessage.exitCode === 0) {
             setCurrentSessionId(pendingSessionId);
             sessionStorage.removeItem('pendingSessionId');
           }
@@ -1363,10 +2093,10 @@ function ChatInterface({
           setIsLoading(false);
           setCanAbortSession(false);
           setClaudeStatus(null);
-          
-          if (currentSessionId && onSessionInactive) {
-            onSessionInactive(currentSessionId);
+          if (latestMessage.requestId) {
+            runningRequestsRef.current.delete(latestMessage.requestId);
           }
+          viewRequestIdRef.current = null;
           
           setChatMessages(prev => [...prev, {
             type: 'assistant',
@@ -1376,9 +2106,15 @@ function ChatInterface({
           break;
         }
 
+        case 'usage-updated': {
+          const { totalTokens, costUsd } = latestMessage.usage;
+          setClaudeStatus(prev => prev ? { ...prev, tokens: totalTokens, cost: costUsd } : prev);
+          break;
+        }
+
         case 'claude-status': {
           console.log('🔔 Received claude-status message:', latestMessage);
-          const statusData = (latestMessage as any).data;
+          const statusData = latestMessage.data;
           if (statusData) {
             const statusInfo = {
               text: 'Working...',
@@ -1412,15 +2148,23 @@ function ChatInterface({
           break;
         }
       }
-    }
-  }, [messages, selectedProject, selectedSession, currentSessionId, onSessionInactive, onReplaceTemporarySession, onNavigateToSession]);
+    };
+
+    // Several frames can arrive between renders, so handle every new one
+    // rather than just the latest
+    const newMessages = messages.slice(processedMessageCountRef.current);
+    processedMessageCountRef.current = messages.length;
+    newMessages.forEach(handleFrame);
+  }, [messages, selectedProject, selectedSession, currentSessionId, onNavigateToSession, sendMessage, loadSessionMessages, attachToRunningRequest]);
 
   // Auto-scroll logic
   useEffect(() => {
     if (scrollContainerRef.current && chatMessages.length > 0) {
       if (autoScrollToBottom) {
         if (!isUserScrolledUp) {
-          setTimeout(() => scrollToBottom(), 50);
+          setTimeout(() => {
+            if (!isJumpingRef.current) scrollToBottom();
+          }, 50);
         }
       }
     }
@@ -1430,10 +2174,78 @@ function ChatInterface({
   useEffect(() => {
     if (scrollContainerRef.current && chatMessages.length > 0) {
       setIsUserScrolledUp(false);
-      setTimeout(() => scrollToBottom(), 200);
+      setTimeout(() => {
+        if (!isJumpingRef.current) scrollToBottom();
+      }, 200);
     }
   }, [chatMessages.length > 0, scrollToBottom]);
 
+  // Keys for the transcript that survive older pages being prepended: the
+  // entry's UUID (one entry can become several messages), or the position of
+  // messages that arrived live and don't have one
+  const messageKeys = useMemo(() => {
+    const seen = new Map<string, number>();
+    return chatMessages.map((message, index) => {
+      if (!message.messageId) return `live-${index}`;
+      const count = seen.get(message.messageId) || 0;
+      seen.set(message.messageId, count + 1);
+      return `${message.messageId}:${count}`;
+    });
+  }, [chatMessages]);
+
+  // Only the messages near the viewport are mounted
+  const virtualList = useVirtualList({
+    keys: messageKeys,
+    scrollContainerRef,
+    stickToBottom: autoScrollToBottom && !isUserScrolledUp && !highlightedMessageId
+  });
+
+  // Search jump: once the target session's history is loaded, fetch earlier
+  // pages until the message is there and highlight it
+  useEffect(() => {
+    if (!jumpTarget || selectedSession?.id !== jumpTarget.sessionId) return;
+    if (isLoadingSessionMessages || isLoadingOlderMessages || sessionMessages[0]?.sessionId !== jumpTarget.sessionId) return;
+
+    const index = chatMessages.findIndex(message => message.messageId === jumpTarget.messageId);
+    if (index === -1 && hasOlderMessages) {
+      loadOlderMessages();
+      return;
+    }
+    if (index >= 0) {
+      isJumpingRef.current = true;
+      // Bring it near the viewport so it gets mounted
+      virtualList.scrollToIndex(index);
+      setHighlightedMessageId(jumpTarget.messageId);
+    }
+    onJumpComplete?.();
+  }, [jumpTarget, selectedSession, isLoadingSessionMessages, isLoadingOlderMessages, sessionMessages, chatMessages, hasOlderMessages, loadOlderMessages, virtualList.scrollToIndex, onJumpComplete]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    // The message may take a few frames to be mounted
+    let attempts = 0;
+    let frame = 0;
+    const reveal = (): void => {
+      const element = scrollContainerRef.current?.querySelector(`[data-message-id="${CSS.escape(highlightedMessageId)}"]`);
+      if (element) {
+        element.scrollIntoView({ block: 'center' });
+      } else if (++attempts < 10) {
+        frame = requestAnimationFrame(reveal);
+      }
+    };
+    frame = requestAnimationFrame(reveal);
+    const timer = setTimeout(() => {
+      isJumpingRef.current = false;
+      setHighlightedMessageId(null);
+    }, 3000);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlightedMessageId]);
+
   // Add scroll event listener
   useEffect(() => {
     const scrollContainer = scrollContainerRef.current;
@@ -1468,6 +2280,7 @@ function ChatInterface({
         <div 
           ref={scrollContainerRef}
           className="flex-1 overflow-y-auto overflow-x-hidden px-0 py-3 sm:p-4 space-y-3 sm:space-y-4 relative"
+          style={{ overflowAnchor: 'none' }}
         >
           {isLoadingSessionMessages && chatMessages.length === 0 ? (
             <div className="text-center text-brand-gray-text dark:text-brand-gray-text mt-8">
@@ -1487,32 +2300,50 @@ function ChatInterface({
             </div>
           ) : (
             <>
-              {chatMessages.length > 100 && (
+              {hasOlderMessages && (
                 <div className="text-center text-brand-gray-text dark:text-brand-gray-text text-sm py-2 border-b border-brand-gray/30 dark:border-brand-gray/20">
-                  Showing last 100 messages ({chatMessages.length} total) • 
-                  <button className="ml-1 text-brand-blue hover:text-brand-blue/80 underline">
-                    Load earlier messages
-                  </button>
+                  {isLoadingOlderMessages ? (
+                    <span>Loading earlier messages...</span>
+                  ) : (
+                    <button
+                      onClick={loadOlderMessages}
+                      className="text-brand-blue hover:text-brand-blue/80 underline"
+                    >
+                      Load earlier messages
+                    </button>
+                  )}
                 </div>
               )}
               
-              {chatMessages.slice(-100).map((message, index) => {
-                const prevMessage = index > 0 ? chatMessages.slice(-100)[index - 1] : null;
-                
-                return (
-                  <MessageComponent
-                    key={index}
-                    message={message}
-                    index={index}
-                    prevMessage={prevMessage}
-                    createDiff={createDiff}
-                    onFileOpen={onFileOpen}
-                    onShowSettings={onShowSettings}
-                    autoExpandTools={autoExpandTools}
-                    showRawParameters={showRawParameters}
-                  />
-                );
-              })}
+              <div
+                ref={virtualList.listRef}
+                style={{ paddingTop: virtualList.paddingTop, paddingBottom: virtualList.paddingBottom }}
+              >
+                {virtualList.items.map(({ index, key }) => {
+                  const message = chatMessages[index];
+                  const prevMessage = index > 0 ? chatMessages[index - 1] : null;
+                  
+                  return (
+                    <div key={key} ref={virtualList.measureElement(key)} className={index > 0 ? 'pt-3 sm:pt-4' : ''}>
+                      <MessageComponent
+                        message={message}
+                        index={index}
+                        prevMessage={prevMessage}
+                        createDiff={createDiff}
+                        onFileOpen={onFileOpen}
+                        onShowSettings={onShowSettings}
+                        autoExpandTools={autoExpandTools}
+                        showRawParameters={showRawParameters}
+                        isHighlighted={!!highlightedMessageId && message.messageId === highlightedMessageId}
+                        onFork={selectedSession ? handleForkFromMessage : undefined}
+                        onEditResend={selectedSession && !isLoading ? handleEditResend : undefined}
+                        branchPoint={message.messageId ? branchPoints.get(message.messageId) : undefined}
+                        onSwitchBranch={handleSwitchBranch}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
             </>
           )}
           
@@ -1557,14 +2388,45 @@ function ChatInterface({
         <div className={`p-2 sm:p-4 md:p-6 flex-shrink-0 ${
           isInputFocused ? 'pb-2 sm:pb-4 md:pb-6' : 'pb-16 sm:pb-4 md:pb-6'
         }`}>
+          {/* Tool permission prompts for this conversation */}
+          {pendingPermissions
+            .filter(permission => permission.requestId === viewRequestIdRef.current)
+            .map(permission => (
+              <PermissionRequestCard
+                key={permission.permissionId}
+                request={permission}
+                onDecision={handlePermissionDecision}
+              />
+            ))}
+
+          {/* Other sessions waiting on a permission answer */}
+          {pendingPermissions.some(permission => permission.requestId !== viewRequestIdRef.current) && (
+            <div className="max-w-4xl mx-auto mb-3 flex items-center justify-between gap-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 text-xs text-amber-800 dark:text-amber-300">
+              <span>Another session is waiting for tool permission.</span>
+              {(() => {
+                const waiting = pendingPermissions.find(permission => permission.requestId !== viewRequestIdRef.current);
+                return waiting?.sessionId && onNavigateToSession ? (
+                  <button
+                    type="button"
+                    className="font-medium hover:underline"
+                    onClick={() => onNavigateToSession(waiting.sessionId!)}
+                  >
+                    View
+                  </button>
+                ) : null;
+              })()}
+            </div>
+          )}
+
           <ClaudeStatus 
             status={claudeStatus}
             isLoading={isLoading}
             onAbort={() => {
-              if (currentSessionId && canAbortSession) {
+              if ((currentSessionId || viewRequestIdRef.current) && canAbortSession) {
                 sendMessage({
                   type: 'abort-session',
-                  sessionId: currentSessionId!
+                  sessionId: currentSessionId || undefined,
+                  requestId: viewRequestIdRef.current || undefined
                 });
               }
             }}
@@ -1572,68 +2434,83 @@ function ChatInterface({
           
           <form onSubmit={(e) => {
             e.preventDefault();
-            if (!input.trim() || isLoading || !selectedProject) return;
-
-            const userMessage: ChatMessage = {
-              type: 'user',
-              content: input,
-              timestamp: new Date()
-            };
+            if ((!input.trim() && attachments.length === 0) || isUploadingAttachments || !selectedProject) return;
+            if (isLoading && !currentSessionId) return;
 
-            setChatMessages(prev => [...prev, userMessage]);
-            setIsLoading(true);
-            setCanAbortSession(true);
-            setClaudeStatus({
-              text: 'Processing',
-              tokens: 0,
-              can_interrupt: true
-            });
-            
-            setIsUserScrolledUp(false);
-            setTimeout(() => scrollToBottom(), 100);
-
-            const sessionToActivate = currentSessionId || `new-session-${Date.now()}`;
-            if (onSessionActive) {
-              onSessionActive(sessionToActivate);
+            if (isLoading) {
+              queuePrompt(input, attachments);
+            } else {
+              submitPrompt(input, currentSessionId, !!currentSessionId, attachments);
             }
 
-            const getToolsSettings = () => {
-              try {
-                const savedSettings = localStorage.getItem('claude-tools-settings');
-                if (savedSettings) {
-                  return JSON.parse(savedSettings);
-                }
-              } catch (error) {
-                console.error('Error loading tools settings:', error);
-              }
-              return {
-                allowedTools: [],
-                disallowedTools: [],
-                skipPermissions: false
-              };
-            };
-
-            const toolsSettings = getToolsSettings();
-
-            sendMessage({
-              type: 'claude-command',
-              command: input,
-              options: {
-                projectPath: selectedProject.path || selectedProject.fullPath,
-                cwd: selectedProject.fullPath,
-                sessionId: currentSessionId || undefined,
-                resume: !!currentSessionId,
-                toolsSettings: toolsSettings
-              }
-            });
-
             setInput('');
+            setAttachments([]);
             setIsTextareaExpanded(false);
-            if (selectedProject) {
-              localStorage.removeItem(`draft_input_${selectedProject.name}`);
+            if (savedDraftRef.current) {
+              savedDraftRef.current = '';
+              updateProjectSettings(selectedProject.name, { draftInput: null });
             }
           }} className="relative max-w-4xl mx-auto">
-            <div className={`relative bg-white dark:bg-brand-app-black rounded-2xl shadow-lg border border-brand-gray/30 dark:border-brand-gray/40 focus-within:ring-2 focus-within:ring-brand-blue dark:focus-within:ring-brand-blue focus-within:border-brand-blue transition-all duration-200 ${isTextareaExpanded ? 'chat-input-expanded' : ''}`}>
+            {promptQueue && (
+              <PromptQueue
+                queue={promptQueue}
+                onEdit={(itemId, command) => changePromptQueue((projectName, sessionId) => updateQueuedPrompt(projectName, sessionId, itemId, command))}
+                onRemove={(itemId) => changePromptQueue((projectName, sessionId) => removeQueuedPrompt(projectName, sessionId, itemId))}
+                onReorder={(itemIds) => changePromptQueue((projectName, sessionId) => reorderPromptQueue(projectName, sessionId, itemIds))}
+                onResume={() => changePromptQueue(resumePromptQueue)}
+              />
+            )}
+            <ClaudeOptionsBar
+              options={sessionOptions}
+              onChange={handleSessionOptionsChange}
+              disabled={isLoading}
+            />
+            <div
+              className={`relative bg-white dark:bg-brand-app-black rounded-2xl shadow-lg border border-brand-gray/30 dark:border-brand-gray/40 focus-within:ring-2 focus-within:ring-brand-blue dark:focus-within:ring-brand-blue focus-within:border-brand-blue transition-all duration-200 ${isTextareaExpanded ? 'chat-input-expanded' : ''} ${isDraggingFiles ? 'ring-2 ring-brand-blue border-brand-blue' : ''}`}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files') || isLoading) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                  setIsDraggingFiles(false);
+                }
+              }}
+              onDrop={(e) => {
+                if (!e.dataTransfer.types.includes('Files') || isLoading) return;
+                e.preventDefault();
+                setIsDraggingFiles(false);
+                attachFiles(Array.from(e.dataTransfer.files));
+              }}
+            >
+              {showCommandMenu && (
+                <SlashCommandMenu
+                  commands={filteredCommands}
+                  selectedIndex={selectedCommandIndex}
+                  onSelect={selectSlashCommand}
+                  onHover={setSelectedCommandIndex}
+                />
+              )}
+              {showFileDropdown && !showCommandMenu && (
+                <FileMentionMenu
+                  files={filteredFiles}
+                  selectedIndex={selectedFileIndex}
+                  onSelect={selectFileMention}
+                  onHover={setSelectedFileIndex}
+                />
+              )}
+              {(attachments.length > 0 || isUploadingAttachments) && (
+                <div className="flex items-center gap-2 px-4 sm:px-6 pt-3">
+                  <AttachmentList
+                    attachments={attachments}
+                    onRemove={(removed) => setAttachments(prev => prev.filter(attachment => attachment.path !== removed.path))}
+                  />
+                  {isUploadingAttachments && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Uploading...</span>
+                  )}
+                </div>
+              )}
               <textarea
                 ref={textareaRef}
                 value={input}
@@ -1642,7 +2519,54 @@ function ChatInterface({
                   setCursorPosition(e.target.selectionStart || 0);
                 }}
                 onClick={(e) => setCursorPosition((e.target as HTMLTextAreaElement).selectionStart || 0)}
+                onPaste={(e) => {
+                  const files = Array.from(e.clipboardData.files);
+                  if (files.length > 0) {
+                    e.preventDefault();
+                    attachFiles(files);
+                  }
+                }}
                 onKeyDown={(e) => {
+                  if (showCommandMenu && filteredCommands.length > 0) {
+                    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                      e.preventDefault();
+                      const step = e.key === 'ArrowDown' ? 1 : -1;
+                      setSelectedCommandIndex(index => (index + step + filteredCommands.length) % filteredCommands.length);
+                      return;
+                    }
+                    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+                      if (selectedCommandIndex >= 0) {
+                        e.preventDefault();
+                        selectSlashCommand(filteredCommands[selectedCommandIndex]);
+                        return;
+                      }
+                    }
+                    if (e.key === 'Escape') {
+                      e.preventDefault();
+                      setShowCommandMenu(false);
+                      return;
+                    }
+                  }
+                  if (showFileDropdown && filteredFiles.length > 0) {
+                    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                      e.preventDefault();
+                      const step = e.key === 'ArrowDown' ? 1 : -1;
+                      setSelectedFileIndex(index => (index + step + filteredFiles.length) % filteredFiles.length);
+                      return;
+                    }
+                    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+                      if (selectedFileIndex >= 0) {
+                        e.preventDefault();
+                        selectFileMention(filteredFiles[selectedFileIndex]);
+                        return;
+                      }
+                    }
+                    if (e.key === 'Escape') {
+                      e.preventDefault();
+                      setShowFileDropdown(false);
+                      return;
+                    }
+                  }
                   if (e.key === 'Enter') {
                     if ((e.ctrlKey || e.metaKey) && !e.shiftKey) {
                       e.preventDefault();
@@ -1667,8 +2591,10 @@ function ChatInterface({
                   const isExpanded = target.scrollHeight > lineHeight * 2;
                   setIsTextareaExpanded(isExpanded);
                 }}
-                placeholder="Ask Claude to help with your code... (@ to reference files)"
-                disabled={isLoading}
+                placeholder={isLoading
+                  ? 'Queue a follow-up prompt for when Claude is done...'
+                  : 'Ask Claude to help with your code... (/ for commands, @ to reference files)'}
+                disabled={isLoading && !currentSessionId}
                 rows={1}
                 className="chat-input-placeholder w-full px-4 sm:px-6 py-3 sm:py-4 pr-28 sm:pr-40 bg-transparent rounded-2xl focus:outline-none text-brand-gray-text dark:text-brand-gray placeholder-gray-400 dark:placeholder-gray-500 disabled:opacity-50 resize-none min-h-[40px] sm:min-h-[56px] max-h-[40vh] sm:max-h-[300px] overflow-y-auto text-sm sm:text-base transition-all duration-200"
                 style={{ height: 'auto' }}
@@ -1739,7 +2665,8 @@ function ChatInterface({
               {/* Send button */}
               <button
                 type="submit"
-                disabled={!input.trim() || isLoading}
+                disabled={(!input.trim() && attachments.length === 0) || (isLoading && !currentSessionId) || isUploadingAttachments}
+                title={isLoading ? 'Queue prompt' : 'Send'}
                 className="absolute right-2 top-1/2 transform -translate-y-1/2 w-12 h-12 sm:w-12 sm:h-12 bg-brand-blue hover:bg-brand-blue/80 disabled:bg-brand-gray-text disabled:cursor-not-allowed rounded-full flex items-center justify-center transition-colors focus:outline-none focus:ring-2 focus:ring-brand-blue focus:ring-offset-2 dark:ring-offset-brand-app-black"
               >
                 <svg 
@@ -1759,7 +2686,7 @@ function ChatInterface({
             </div>
             
             <div className="text-xs text-gray-500 dark:text-gray-400 text-center mt-2 hidden sm:block">
-              Press Enter to send • Shift+Enter for new line • @ to reference files
+              Press Enter to send • Shift+Enter for new line • @ to reference files • Paste or drop files to attach
             </div>
             <div className={`text-xs text-gray-500 dark:text-gray-400 text-center mt-2 sm:hidden transition-opacity duration-200 ${
               isInputFocused ? 'opacity-100' : 'opacity-0'
@@ -0,0 +1,161 @@
+/**
+ * ClaudeOptionsBar.tsx - Per-session CLI options in the chat composer
+ *
+ * Model and permission mode are always visible; max turns, extra directories
+ * and an appended system prompt sit behind "More". The server validates every
+ * value before passing it to the CLI; only admins can bypass permissions.
+ */
+
+import React, { useState } from 'react';
+import { Cpu, ShieldCheck, SlidersHorizontal } from 'lucide-react';
+import { Input } from './ui/input';
+import { useAuth } from '../contexts/AuthContext';
+import { ClaudePermissionMode, ClaudeSessionOptions } from '../types/claude';
+
+interface ClaudeOptionsBarProps {
+  options: ClaudeSessionOptions;
+  onChange: (options: ClaudeSessionOptions) => void;
+  disabled?: boolean;
+}
+
+const MODEL_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Default model' },
+  { value: 'opus', label: 'Opus' },
+  { value: 'sonnet', label: 'Sonnet' },
+  { value: 'haiku', label: 'Haiku' }
+];
+const CUSTOM_MODEL = '__custom__';
+
+const PERMISSION_MODE_OPTIONS: { value: ClaudePermissionMode; label: string }[] = [
+  { value: 'default', label: 'Ask for permissions' },
+  { value: 'plan', label: 'Plan only' },
+  { value: 'acceptEdits', label: 'Accept edits' },
+  { value: 'bypassPermissions', label: 'Bypass permissions' }
+];
+
+const selectClassName = 'h-7 rounded-md border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-brand-app-black px-2 text-xs text-brand-gray-text dark:text-brand-gray focus:outline-none focus:ring-1 focus:ring-brand-blue disabled:opacity-50';
+const textareaClassName = 'w-full rounded-md border border-brand-gray/30 dark:border-brand-gray/40 bg-transparent px-3 py-2 text-xs font-mono text-brand-gray-text dark:text-brand-gray focus:outline-none focus:ring-1 focus:ring-brand-blue resize-y';
+
+const ClaudeOptionsBar: React.FC<ClaudeOptionsBarProps> = ({ options, onChange, disabled }) => {
+  const { user } = useAuth();
+  const [showMore, setShowMore] = useState(false);
+  // Kept while selected so a non-admin can still switch away from it
+  const permissionModeOptions = PERMISSION_MODE_OPTIONS.filter(option =>
+    option.value !== 'bypassPermissions' || user?.role === 'admin' || options.permissionMode === 'bypassPermissions'
+  );
+  const isKnownModel = MODEL_OPTIONS.some(option => option.value === (options.model || ''));
+  const [customModelSelected, setCustomModelSelected] = useState(false);
+  const isCustomModel = customModelSelected || !isKnownModel;
+  const moreCount = [options.maxTurns, options.addDirs?.length, options.appendSystemPrompt].filter(Boolean).length;
+
+  const update = (changes: Partial<ClaudeSessionOptions>): void => {
+    onChange({ ...options, ...changes });
+  };
+
+  return (
+    <div className="mb-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+          <Cpu className="w-3.5 h-3.5" />
+          <select
+            value={isCustomModel ? CUSTOM_MODEL : options.model || ''}
+            onChange={(e) => {
+              const custom = e.target.value === CUSTOM_MODEL;
+              setCustomModelSelected(custom);
+              update({ model: custom ? options.model : e.target.value || undefined });
+            }}
+            disabled={disabled}
+            className={selectClassName}
+            title="Model"
+          >
+            {MODEL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+            <option value={CUSTOM_MODEL}>Custom model ID…</option>
+          </select>
+        </label>
+        {isCustomModel && (
+          <Input
+            value={options.model || ''}
+            onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+            placeholder="e.g. claude-sonnet-4-20250514"
+            disabled={disabled}
+            className="h-7 w-56 text-xs"
+          />
+        )}
+
+        <label className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+          <ShieldCheck className="w-3.5 h-3.5" />
+          <select
+            value={options.permissionMode || 'default'}
+            onChange={(e) => update({ permissionMode: e.target.value as ClaudePermissionMode })}
+            disabled={disabled}
+            className={`${selectClassName} ${options.permissionMode === 'bypassPermissions' ? 'text-orange-600 dark:text-orange-400' : ''}`}
+            title="Permission mode"
+          >
+            {permissionModeOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          type="button"
+          onClick={() => setShowMore(!showMore)}
+          className="flex items-center gap-1 h-7 px-2 rounded-md text-gray-500 dark:text-gray-400 hover:text-brand-gray-text dark:hover:text-brand-gray hover:bg-brand-gray/10"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          More{moreCount > 0 ? ` (${moreCount})` : ''}
+        </button>
+      </div>
+
+      {showMore && (
+        <div className="mt-2 grid gap-2 sm:grid-cols-2 rounded-lg border border-brand-gray/30 dark:border-brand-gray/40 p-3 bg-white/60 dark:bg-brand-app-black/60">
+          <label className="space-y-1">
+            <span className="text-gray-500 dark:text-gray-400">Max turns</span>
+            <Input
+              type="number"
+              min={1}
+              max={500}
+              value={options.maxTurns ?? ''}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                update({ maxTurns: Number.isNaN(value) ? undefined : value });
+              }}
+              placeholder="No limit"
+              disabled={disabled}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-500 dark:text-gray-400">Additional directories (one per line)</span>
+            <textarea
+              value={(options.addDirs || []).join('\n')}
+              onChange={(e) => {
+                const dirs = e.target.value.split('\n');
+                update({ addDirs: dirs.some(dir => dir.trim()) ? dirs : undefined });
+              }}
+              rows={2}
+              placeholder="/path/to/shared/lib"
+              disabled={disabled}
+              className={textareaClassName}
+            />
+          </label>
+          <label className="space-y-1 sm:col-span-2">
+            <span className="text-gray-500 dark:text-gray-400">Append to system prompt</span>
+            <textarea
+              value={options.appendSystemPrompt || ''}
+              onChange={(e) => update({ appendSystemPrompt: e.target.value || undefined })}
+              rows={3}
+              placeholder="Extra instructions for this session"
+              disabled={disabled}
+              className={textareaClassName}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClaudeOptionsBar;
@@ -1,25 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { cn } from '../lib/utils';
+import { formatCost } from '../utils/usage';
 
 function ClaudeStatus({ status, onAbort, isLoading }) {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [animationPhase, setAnimationPhase] = useState(0);
-  const [fakeTokens, setFakeTokens] = useState(0);
   
   // Update elapsed time every second
   useEffect(() => {
     if (!isLoading) {
       setElapsedTime(0);
-      setFakeTokens(0);
       return;
     }
     
     const startTime = Date.now();
     const timer = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      setElapsedTime(elapsed);
-      // Simulate token count increasing over time (roughly 30-50 tokens per second)
-      setFakeTokens(Math.floor(elapsed * (30 + Math.random() * 20)));
+      setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
     }, 1000);
     
     return () => clearInterval(timer);
@@ -44,7 +40,9 @@ function ClaudeStatus({ status, onAbort, isLoading }) {
   
   // Parse status data
   const statusText = status?.text || actionWords[actionIndex];
-  const tokens = status?.tokens || fakeTokens;
+  // Real usage reported by the CLI for this request so far
+  const tokens = status?.tokens || 0;
+  const cost = status?.cost || 0;
   const canInterrupt = status?.can_interrupt !== false;
   
   // Animation characters
@@ -76,6 +74,12 @@ function ClaudeStatus({ status, onAbort, isLoading }) {
                     <span className="text-brand-gray-text/90 text-sm sm:hidden">⚒ {tokens.toLocaleString()}</span>
                   </>
                 )}
+                {cost > 0 && (
+                  <>
+                    <span className="text-brand-gray-text">·</span>
+                    <span className="text-brand-gray-text/90 text-sm">{formatCost(cost)}</span>
+                  </>
+                )}
                 <span className="text-brand-gray-text hidden sm:inline">·</span>
                 <span className="text-brand-gray-text/90 text-sm hidden sm:inline">esc to interrupt</span>
               </div>
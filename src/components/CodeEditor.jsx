@@ -139,7 +139,7 @@ function CodeEditor({ file, onClose, projectPath }) {
       try {
         setLoading(true);
         
-        const response = await fetch(`/api/projects/${file.projectName}/file?filePath=${encodeURIComponent(file.path)}`);
+        const response = await fetch(`/api/projects/${encodeURIComponent(file.projectName)}/file?filePath=${encodeURIComponent(file.path)}`);
         
         if (!response.ok) {
           throw new Error(`Failed to load file: ${response.status} ${response.statusText}`);
@@ -176,7 +176,7 @@ function CodeEditor({ file, onClose, projectPath }) {
   const handleSave = async () => {
     setSaving(true);
     try {
-      const response = await fetch(`/api/projects/${file.projectName}/file`, {
+      const response = await fetch(`/api/projects/${encodeURIComponent(file.projectName)}/file`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
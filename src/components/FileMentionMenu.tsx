@@ -0,0 +1,67 @@
+/**
+ * FileMentionMenu.tsx - File suggestions for @-mentions in the chat composer
+ *
+ * Shown above the input while an "@path" is being typed, with matches from
+ * the project's file index. Selection is driven by the composer's keyboard
+ * handling; clicks pick a file directly.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { File, Folder } from 'lucide-react';
+import { FileSearchResult } from '../types/project';
+
+interface FileMentionMenuProps {
+  files: FileSearchResult[];
+  selectedIndex: number;
+  onSelect: (file: FileSearchResult) => void;
+  onHover: (index: number) => void;
+}
+
+const FileMentionMenu: React.FC<FileMentionMenuProps> = ({ files, selectedIndex, onSelect, onHover }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted file in view while moving with the arrow keys
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (files.length === 0) return null;
+
+  return (
+    <div
+      ref={listRef}
+      className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-lg border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-brand-app-black shadow-lg z-50"
+    >
+      {files.map((file, index) => {
+        const directory = file.relativePath.slice(0, file.relativePath.length - file.name.length);
+        return (
+          <div
+            key={file.relativePath}
+            // mousedown, so the textarea keeps focus
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSelect(file);
+            }}
+            onMouseEnter={() => onHover(index)}
+            className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-sm ${
+              index === selectedIndex ? 'bg-brand-blue/10 dark:bg-brand-blue/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
+          >
+            {file.type === 'directory' ? (
+              <Folder className="w-4 h-4 flex-shrink-0 text-brand-blue" />
+            ) : (
+              <File className="w-4 h-4 flex-shrink-0 text-gray-400 dark:text-gray-500" />
+            )}
+            <span className="whitespace-nowrap text-brand-gray-text dark:text-white">{file.name}</span>
+            <span className="flex-1 min-w-0 truncate text-xs text-gray-400 dark:text-gray-500" dir="rtl">
+              {directory}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FileMentionMenu;
@@ -22,7 +22,7 @@ function FileTree({ selectedProject }) {
   const fetchFiles = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`/api/projects/${selectedProject.name}/files`);
+      const response = await fetch(`/api/projects/${encodeURIComponent(selectedProject.name)}/files`);
       
       if (!response.ok) {
         const errorText = await response.text();
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import CalfinsLogo from './CalfinsLogo';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface LoginFormProps {
+  mode: 'login' | 'setup';
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({ mode }) => {
+  const { login, register, error } = useAuth();
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [confirmPassword, setConfirmPassword] = useState<string>('');
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const isSetup = mode === 'setup';
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    setLocalError(null);
+
+    if (isSetup && password !== confirmPassword) {
+      setLocalError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    await (isSetup ? register(username, password) : login(username, password));
+    setIsSubmitting(false);
+  };
+
+  const displayError = localError || error;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm bg-card border border-border rounded-lg shadow-lg p-6">
+        <div className="flex flex-col items-center mb-6">
+          <CalfinsLogo className="w-12 h-12 mb-3" useIcon />
+          <h1 className="text-xl font-semibold text-foreground">
+            {isSetup ? 'Create your account' : 'Sign in to Calfins Code'}
+          </h1>
+          {isSetup && (
+            <p className="text-sm text-muted-foreground text-center mt-2">
+              This account will be the administrator for this server.
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-1">
+            <label htmlFor="username" className="text-sm font-medium text-foreground">Username</label>
+            <Input
+              id="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="password" className="text-sm font-medium text-foreground">Password</label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              required
+            />
+          </div>
+          {isSetup && (
+            <div className="space-y-1">
+              <label htmlFor="confirm-password" className="text-sm font-medium text-foreground">Confirm password</label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+          )}
+
+          {displayError && (
+            <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-2">
+              {displayError}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Please wait...' : isSetup ? 'Create account' : 'Sign in'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -1,14 +1,8 @@
 /*
- * MainContent.jsx - Main Content Area with Session Protection Props Passthrough
+ * MainContent.jsx - Main Content Area
  * 
- * SESSION PROTECTION PASSTHROUGH:
- * ===============================
- * 
- * This component serves as a passthrough layer for Session Protection functions:
- * - Receives session management functions from App.jsx
- * - Passes them down to ChatInterface.jsx
- * 
- * No session protection logic is implemented here - it's purely a props bridge.
+ * Header with the project/session title and tabs, and the chat, files, shell
+ * and git panels for the selected project.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -17,6 +11,8 @@ import FileTree from './FileTree';
 import CodeEditor from './CodeEditor';
 import Shell from './Shell';
 import GitPanel from './GitPanel';
+import SessionUsageBadge from './SessionUsageBadge';
+import SessionExportMenu from './SessionExportMenu';
 
 function MainContent({ 
   selectedProject, 
@@ -30,16 +26,14 @@ function MainContent({
   onMenuClick,
   isLoading,
   onInputFocusChange,
-  // Session Protection Props: Functions passed down from App.jsx to manage active session state
-  // These functions control when project updates are paused during active conversations
-  onSessionActive,        // Mark session as active when user sends message
-  onSessionInactive,      // Mark session as inactive when conversation completes/aborts  
-  onReplaceTemporarySession, // Replace temporary session ID with real session ID from WebSocket
   onNavigateToSession,    // Navigate to a specific session (for Claude CLI session duplication workaround)
+  onOpenSession,          // Open a session by project and ID, even one the sidebar hasn't loaded
   onShowSettings,         // Show tools settings panel
   autoExpandTools,        // Auto-expand tool accordions
   showRawParameters,      // Show raw parameters in tool accordions
-  autoScrollToBottom      // Auto-scroll to bottom when new messages arrive
+  autoScrollToBottom,     // Auto-scroll to bottom when new messages arrive
+  jumpTarget,             // Message to scroll to once its session is open (from search)
+  onJumpComplete          // Clear the jump target after scrolling to it
 }) {
   const [editingFile, setEditingFile] = useState(null);
 
@@ -154,11 +148,19 @@ function MainContent({
             <div className="min-w-0">
               {activeTab === 'chat' && selectedSession ? (
                 <div>
-                  <h2 className="text-base sm:text-lg font-semibold text-brand-gray-text dark:text-white truncate">
-                    {selectedSession.summary}
-                  </h2>
+                  <div className="flex items-center gap-1 min-w-0">
+                    <h2 className="text-base sm:text-lg font-semibold text-brand-gray-text dark:text-white truncate">
+                      {selectedSession.summary}
+                    </h2>
+                    <SessionExportMenu projectName={selectedProject.name} sessionId={selectedSession.id} />
+                  </div>
                   <div className="text-xs text-brand-gray-text dark:text-brand-gray-text truncate">
                     {selectedProject.displayName} <span className="hidden sm:inline">• {selectedSession.id}</span>
+                    <SessionUsageBadge
+                      projectName={selectedProject.name}
+                      sessionId={selectedSession.id}
+                      messages={messages}
+                    />
                   </div>
                 </div>
               ) : activeTab === 'chat' && !selectedSession ? (
@@ -277,14 +279,14 @@ function MainContent({
             messages={messages}
             onFileOpen={handleFileOpen}
             onInputFocusChange={onInputFocusChange}
-            onSessionActive={onSessionActive}
-            onSessionInactive={onSessionInactive}
-            onReplaceTemporarySession={onReplaceTemporarySession}
             onNavigateToSession={onNavigateToSession}
+            onOpenSession={onOpenSession}
             onShowSettings={onShowSettings}
             autoExpandTools={autoExpandTools}
             showRawParameters={showRawParameters}
             autoScrollToBottom={autoScrollToBottom}
+            jumpTarget={jumpTarget}
+            onJumpComplete={onJumpComplete}
           />
         </div>
         <div className={`h-full overflow-hidden ${activeTab === 'files' ? 'block' : 'hidden'}`}>
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Mic, Loader2, Brain } from 'lucide-react';
 import { transcribeWithWhisper } from '../utils/whisper';
+import { useSettings } from '../contexts/SettingsContext';
 
 export function MicButton({ onTranscript, className = '' }) {
   const [state, setState] = useState('idle'); // idle, recording, transcribing, processing
   const [error, setError] = useState(null);
   const [isSupported, setIsSupported] = useState(true);
+  const { settings } = useSettings();
+  const { whisperMode } = settings;
   
   const mediaRecorderRef = useRef(null);
   const streamRef = useRef(null);
@@ -74,7 +77,6 @@ export function MicButton({ onTranscript, className = '' }) {
         setState('transcribing');
         
         // Check if we're in an enhancement mode
-        const whisperMode = window.localStorage.getItem('whisperMode') || 'default';
         const isEnhancementMode = whisperMode === 'prompt' || whisperMode === 'vibe' || whisperMode === 'instructions' || whisperMode === 'architect';
         
         // Set up a timer to switch to processing state for enhancement modes
@@ -86,7 +88,7 @@ export function MicButton({ onTranscript, className = '' }) {
         }
         
         try {
-          const text = await transcribeWithWhisper(blob);
+          const text = await transcribeWithWhisper(blob, undefined, whisperMode);
           if (text && onTranscript) {
             onTranscript(text);
           }
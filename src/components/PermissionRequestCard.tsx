@@ -0,0 +1,86 @@
+/**
+ * PermissionRequestCard.tsx - Tool permission prompt
+ *
+ * Shown in the chat when a running Claude process asks to use a tool that
+ * isn't pre-approved. The answer is sent back to the waiting process.
+ */
+
+import React, { useState } from 'react';
+import { ShieldAlert, Check, CheckCheck, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { PermissionDecision, PermissionRequestMessage } from '../types/websocket';
+
+interface PermissionRequestCardProps {
+  request: PermissionRequestMessage;
+  onDecision: (permissionId: string, decision: PermissionDecision) => void;
+}
+
+// Pick the most telling part of the tool input to show up front
+const getInputSummary = (input: Record<string, any>): string | null => {
+  if (!input) return null;
+  return input.command || input.file_path || input.path || input.url || input.pattern || null;
+};
+
+const PermissionRequestCard: React.FC<PermissionRequestCardProps> = ({ request, onDecision }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const [isAnswered, setIsAnswered] = useState(false);
+  const summary = getInputSummary(request.input);
+
+  const decide = (decision: PermissionDecision): void => {
+    setIsAnswered(true);
+    onDecision(request.permissionId, decision);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3 rounded-xl border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 sm:p-4">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-gray-900 dark:text-white">
+            Claude wants to use <span className="font-mono">{request.toolName}</span>
+          </div>
+          {summary && (
+            <div className="mt-1 text-xs font-mono text-gray-700 dark:text-gray-300 break-all">
+              {summary}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowDetails(!showDetails)}
+            className="mt-1 text-xs text-amber-700 dark:text-amber-400 hover:underline"
+          >
+            {showDetails ? 'Hide details' : 'Show details'}
+          </button>
+          {showDetails && (
+            <pre className="mt-2 max-h-48 overflow-auto text-xs bg-white/70 dark:bg-black/30 rounded-md p-2 text-gray-800 dark:text-gray-200">
+              {JSON.stringify(request.input, null, 2)}
+            </pre>
+          )}
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => decide('allow-once')} disabled={isAnswered}>
+              <Check />
+              Allow once
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => decide('allow-always')}
+              disabled={isAnswered}
+              title={`Adds ${request.alwaysAllowRule} to this project's allowed tools`}
+            >
+              <CheckCheck />
+              Always allow <span className="font-mono max-w-[16rem] truncate">{request.alwaysAllowRule}</span>
+            </Button>
+            <Button size="sm" variant="destructive" onClick={() => decide('deny')} disabled={isAnswered}>
+              <X />
+              Deny
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PermissionRequestCard;
@@ -0,0 +1,137 @@
+/**
+ * PromptQueue.tsx - Prompts waiting for the session's current run
+ *
+ * Shown above the composer while anything is queued. Each prompt can be moved
+ * up or down, edited in place or cancelled; the server runs them in this order.
+ */
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Paperclip, Pencil, Play, X } from 'lucide-react';
+import { PromptQueueState, QueuedPrompt } from '../types/websocket';
+
+interface PromptQueueProps {
+  queue: PromptQueueState;
+  onEdit: (itemId: string, command: string) => void;
+  onRemove: (itemId: string) => void;
+  onReorder: (itemIds: string[]) => void;
+  onResume: () => void;
+}
+
+const PromptQueue: React.FC<PromptQueueProps> = ({ queue, onEdit, onRemove, onReorder, onResume }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
+
+  if (queue.items.length === 0) return null;
+
+  const move = (index: number, step: number): void => {
+    const itemIds = queue.items.map(item => item.id);
+    [itemIds[index], itemIds[index + step]] = [itemIds[index + step], itemIds[index]];
+    onReorder(itemIds);
+  };
+
+  const startEditing = (item: QueuedPrompt): void => {
+    setEditingId(item.id);
+    setEditText(item.command);
+  };
+
+  const saveEdit = (item: QueuedPrompt): void => {
+    setEditingId(null);
+    if (editText.trim() && editText !== item.command) {
+      onEdit(item.id, editText);
+    }
+  };
+
+  return (
+    <div className="mb-2 rounded-lg border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-brand-app-black text-sm">
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 border-b border-brand-gray/20 dark:border-brand-gray/30">
+        <span>
+          {queue.items.length} queued prompt{queue.items.length === 1 ? '' : 's'}
+          {queue.paused && ' • paused after the last run was stopped'}
+        </span>
+        {queue.paused && (
+          <button
+            type="button"
+            onClick={onResume}
+            className="flex items-center gap-1 font-medium text-brand-blue hover:underline"
+          >
+            <Play className="w-3 h-3" />
+            Resume
+          </button>
+        )}
+      </div>
+      <ol className="max-h-48 overflow-y-auto divide-y divide-brand-gray/20 dark:divide-brand-gray/30">
+        {queue.items.map((item, index) => (
+          <li key={item.id} className="flex items-start gap-2 px-3 py-2">
+            <span className="text-xs text-gray-400 dark:text-gray-500 pt-0.5">{index + 1}.</span>
+            {editingId === item.id ? (
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onBlur={() => saveEdit(item)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    setEditingId(null);
+                  } else if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit(item);
+                  }
+                }}
+                rows={Math.min(6, Math.max(2, editText.split('\n').length))}
+                className="flex-1 min-w-0 rounded-md border border-brand-gray/30 dark:border-brand-gray/40 bg-transparent p-1.5 text-sm text-brand-gray-text dark:text-brand-gray resize-y focus:outline-none focus:ring-1 focus:ring-brand-blue"
+                autoFocus
+              />
+            ) : (
+              <div className="flex-1 min-w-0 text-brand-gray-text dark:text-brand-gray whitespace-pre-wrap break-words line-clamp-3">
+                {item.command}
+                {item.attachments.length > 0 && (
+                  <span className="ml-2 inline-flex items-center gap-0.5 text-xs text-gray-400 dark:text-gray-500">
+                    <Paperclip className="w-3 h-3" />
+                    {item.attachments.length}
+                  </span>
+                )}
+              </div>
+            )}
+            <div className="flex items-center gap-0.5 text-gray-400 dark:text-gray-500">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 rounded hover:text-brand-blue disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === queue.items.length - 1}
+                className="p-1 rounded hover:text-brand-blue disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => startEditing(item)}
+                className="p-1 rounded hover:text-brand-blue"
+                title="Edit"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                className="p-1 rounded hover:text-red-500"
+                title="Cancel"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default PromptQueue;
@@ -0,0 +1,32 @@
+import React, { ReactNode } from 'react';
+import LoginForm from './LoginForm';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface ProtectedRouteProps {
+  children: ReactNode;
+}
+
+// Only render the app once the user is signed in
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+  const { user, isLoading, needsSetup } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="w-8 h-8 border-2 border-muted-foreground border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (needsSetup) {
+    return <LoginForm mode="setup" />;
+  }
+
+  if (!user) {
+    return <LoginForm mode="login" />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
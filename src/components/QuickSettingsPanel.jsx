@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import DarkModeToggle from './DarkModeToggle';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
 
 const QuickSettingsPanel = ({ 
   isOpen, 
@@ -28,9 +29,8 @@ const QuickSettingsPanel = ({
   isMobile
 }) => {
   const [localIsOpen, setLocalIsOpen] = useState(isOpen);
-  const [whisperMode, setWhisperMode] = useState(() => {
-    return localStorage.getItem('whisperMode') || 'default';
-  });
+  const { settings, updateSettings } = useSettings();
+  const { whisperMode } = settings;
   const { isDarkMode } = useTheme();
 
   useEffect(() => {
@@ -142,6 +142,24 @@ const QuickSettingsPanel = ({
               </label>
             </div>
 
+            {/* Session Settings */}
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-brand-gray-text dark:text-brand-gray-text mb-2">Sessions</h4>
+
+              <label className="flex items-center justify-between p-3 rounded-lg bg-brand-primary-bg/5 dark:bg-brand-app-black hover:bg-brand-primary-bg/10 dark:hover:bg-brand-gray-text/20 cursor-pointer transition-colors border border-transparent hover:border-brand-gray-text/30 dark:hover:border-brand-gray-text/40">
+                <span className="flex items-center gap-2 text-sm text-brand-app-black dark:text-white">
+                  <Sparkles className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                  Auto-title new sessions
+                </span>
+                <input
+                  type="checkbox"
+                  checked={settings.autoSummarizeSessions}
+                  onChange={(e) => updateSettings({ autoSummarizeSessions: e.target.checked })}
+                  className="h-4 w-4 rounded border-brand-gray-text/30 dark:border-brand-gray-text/40 text-brand-blue dark:text-brand-blue focus:ring-brand-blue dark:focus:ring-brand-blue dark:bg-brand-app-black dark:checked:bg-brand-blue"
+                />
+              </label>
+            </div>
+
             {/* Whisper Dictation Settings - HIDDEN */}
             <div className="space-y-2" style={{ display: 'none' }}>
               <h4 className="text-xs font-semibold uppercase tracking-wider text-brand-gray-text dark:text-brand-gray-text mb-2">Whisper Dictation</h4>
@@ -154,9 +172,7 @@ const QuickSettingsPanel = ({
                     value="default"
                     checked={whisperMode === 'default'}
                     onChange={() => {
-                      setWhisperMode('default');
-                      localStorage.setItem('whisperMode', 'default');
-                      window.dispatchEvent(new Event('whisperModeChanged'));
+                      updateSettings({ whisperMode: 'default' });
                     }}
                     className="mt-0.5 h-4 w-4 border-brand-gray-text/30 dark:border-brand-gray-text/40 text-brand-blue dark:text-brand-blue focus:ring-brand-blue dark:focus:ring-brand-blue dark:bg-brand-app-black dark:checked:bg-brand-blue"
                   />
@@ -178,9 +194,7 @@ const QuickSettingsPanel = ({
                     value="prompt"
                     checked={whisperMode === 'prompt'}
                     onChange={() => {
-                      setWhisperMode('prompt');
-                      localStorage.setItem('whisperMode', 'prompt');
-                      window.dispatchEvent(new Event('whisperModeChanged'));
+                      updateSettings({ whisperMode: 'prompt' });
                     }}
                     className="mt-0.5 h-4 w-4 border-brand-gray-text/30 dark:border-brand-gray-text/40 text-brand-blue dark:text-brand-blue focus:ring-brand-blue dark:focus:ring-brand-blue dark:bg-brand-app-black dark:checked:bg-brand-blue"
                   />
@@ -202,9 +216,7 @@ const QuickSettingsPanel = ({
                     value="vibe"
                     checked={whisperMode === 'vibe' || whisperMode === 'instructions' || whisperMode === 'architect'}
                     onChange={() => {
-                      setWhisperMode('vibe');
-                      localStorage.setItem('whisperMode', 'vibe');
-                      window.dispatchEvent(new Event('whisperModeChanged'));
+                      updateSettings({ whisperMode: 'vibe' });
                     }}
                     className="mt-0.5 h-4 w-4 border-brand-gray-text/30 dark:border-brand-gray-text/40 text-brand-blue dark:text-brand-blue focus:ring-brand-blue dark:focus:ring-brand-blue dark:bg-brand-app-black dark:checked:bg-brand-blue"
                   />
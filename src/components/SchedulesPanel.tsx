@@ -0,0 +1,510 @@
+/**
+ * SchedulesPanel.tsx - Prompts that run on a schedule
+ *
+ * Lists the scheduled jobs (/api/schedules) with enable/disable, run-now, edit
+ * and delete actions and each job's recent runs, and creates or edits jobs.
+ * Jobs run on the server, so they keep running with no browser open.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw, CalendarClock, Plus, Play, Pencil, Trash2, ChevronDown, ChevronRight, Power } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useAuth } from '../contexts/AuthContext';
+import { Project } from '../types/project';
+import { ScheduledJob, ScheduledJobInput, ScheduledRun } from '../types/schedules';
+import {
+  CRON_PRESETS,
+  listSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  runScheduleNow,
+  listScheduleRuns
+} from '../utils/schedules';
+
+interface SchedulesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+}
+
+// The form keeps tool lists as the comma-separated text being typed
+interface JobForm {
+  id: string | null;
+  name: string;
+  projectName: string;
+  cron: string;
+  prompt: string;
+  model: string;
+  allowedTools: string;
+  disallowedTools: string;
+  skipPermissions: boolean;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const RUN_STATUS_CLASSES: Record<ScheduledRun['status'], string> = {
+  running: 'text-blue-600 dark:text-blue-400',
+  completed: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400'
+};
+
+const emptyForm = (projectName: string): JobForm => ({
+  id: null,
+  name: '',
+  projectName,
+  cron: CRON_PRESETS[1].value,
+  prompt: '',
+  model: '',
+  allowedTools: '',
+  disallowedTools: '',
+  skipPermissions: false
+});
+
+const formFromJob = (job: ScheduledJob): JobForm => ({
+  id: job.id,
+  name: job.name,
+  projectName: job.projectName,
+  cron: job.cron,
+  prompt: job.prompt,
+  model: job.model || '',
+  allowedTools: job.allowedTools.join(', '),
+  disallowedTools: job.disallowedTools.join(', '),
+  skipPermissions: job.skipPermissions
+});
+
+const splitTools = (text: string): string[] => text.split(',').map(tool => tool.trim()).filter(Boolean);
+
+const describeRun = (run: Omit<ScheduledRun, 'output'>): string => {
+  const status = run.status === 'running'
+    ? 'running'
+    : `${run.status}${run.exitCode !== null ? ` (exit ${run.exitCode})` : ''}`;
+  return `${status} · ${run.trigger === 'manual' ? 'run by hand' : 'scheduled'} · ${new Date(run.startedAt).toLocaleString()}`;
+};
+
+const SchedulesPanel: React.FC<SchedulesPanelProps> = ({ isOpen, onClose, projects }) => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<JobForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+
+  const loadJobs = async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setJobs(await listSchedules());
+    } catch (err) {
+      console.error('Error loading scheduled jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load scheduled jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadRuns = async (jobId: string): Promise<void> => {
+    try {
+      setRuns(await listScheduleRuns(jobId));
+    } catch (err) {
+      console.error('Error loading run history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load run history');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadJobs();
+    } else {
+      setForm(null);
+      setExpandedJobId(null);
+    }
+  }, [isOpen]);
+
+  // Follow runs in progress until they finish
+  const hasRunningJob = jobs.some(job => job.lastRun?.status === 'running');
+  useEffect(() => {
+    if (!isOpen || !hasRunningJob) return;
+    const timer = setInterval(async () => {
+      try {
+        setJobs(await listSchedules());
+        if (expandedJobId) {
+          setRuns(await listScheduleRuns(expandedJobId));
+        }
+      } catch (err) {
+        console.error('Error refreshing scheduled jobs:', err);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, hasRunningJob, expandedJobId]);
+
+  const replaceJob = (job: ScheduledJob): void => {
+    setJobs(prev => prev.map(existing => (existing.id === job.id ? job : existing)));
+  };
+
+  const runJobAction = async (jobId: string, action: () => Promise<void>): Promise<void> => {
+    setBusyJobId(jobId);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating scheduled job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update scheduled job');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const handleToggle = (job: ScheduledJob): void => {
+    runJobAction(job.id, async () => replaceJob(await updateSchedule(job.id, { enabled: !job.enabled })));
+  };
+
+  const handleRunNow = (job: ScheduledJob): void => {
+    runJobAction(job.id, async () => {
+      const run = await runScheduleNow(job.id);
+      replaceJob({ ...job, lastRun: run });
+      if (expandedJobId === job.id) {
+        await loadRuns(job.id);
+      }
+    });
+  };
+
+  const handleDelete = (job: ScheduledJob): void => {
+    if (!confirm(`Delete "${job.name}" and its run history?`)) return;
+    runJobAction(job.id, async () => {
+      await deleteSchedule(job.id);
+      setJobs(prev => prev.filter(existing => existing.id !== job.id));
+    });
+  };
+
+  const toggleHistory = (jobId: string): void => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null);
+      return;
+    }
+    setExpandedJobId(jobId);
+    setRuns([]);
+    loadRuns(jobId);
+  };
+
+  const handleSave = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!form) return;
+
+    const input: Omit<ScheduledJobInput, 'enabled'> = {
+      name: form.name,
+      projectName: form.projectName,
+      cron: form.cron,
+      prompt: form.prompt,
+      model: form.model.trim() || null,
+      allowedTools: splitTools(form.allowedTools),
+      disallowedTools: splitTools(form.disallowedTools),
+      skipPermissions: form.skipPermissions
+    };
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (form.id) {
+        replaceJob(await updateSchedule(form.id, input));
+      } else {
+        const job = await createSchedule({ ...input, enabled: true });
+        setJobs(prev => [...prev, job]);
+      }
+      setForm(null);
+    } catch (err) {
+      console.error('Error saving scheduled job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save scheduled job');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const projectNames = new Map(projects.map(project => [project.name, project.displayName]));
+  const updateForm = (changes: Partial<JobForm>): void => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  return (
+    <div className="modal-backdrop fixed inset-0 flex items-center justify-center z-[100] md:p-4 bg-background/95">
+      <div className="bg-background border border-border md:rounded-lg shadow-xl w-full md:max-w-3xl h-full md:h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-border flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+            <h2 className="text-lg md:text-xl font-semibold text-foreground">Scheduled Runs</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadJobs}
+              disabled={isLoading}
+              className="text-muted-foreground hover:text-foreground"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground touch-manipulation"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6">
+          {error && (
+            <div className="mb-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {form ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <label className="block text-sm text-foreground">
+                  Name
+                  <Input
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="e.g. Triage new TODOs"
+                    className="mt-1"
+                    required
+                  />
+                </label>
+                <label className="block text-sm text-foreground">
+                  Project
+                  <select
+                    value={form.projectName}
+                    onChange={(e) => updateForm({ projectName: e.target.value })}
+                    className="mt-1 h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+                    required
+                  >
+                    {!projectNames.has(form.projectName) && (
+                      <option value={form.projectName}>{form.projectName || 'Choose a project'}</option>
+                    )}
+                    {projects.map(project => (
+                      <option key={project.name} value={project.name}>{project.displayName}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="block text-sm text-foreground">
+                Schedule
+                <div className="mt-1 flex gap-2">
+                  <Input
+                    value={form.cron}
+                    onChange={(e) => updateForm({ cron: e.target.value })}
+                    placeholder="minute hour day month weekday"
+                    className="font-mono"
+                    required
+                  />
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && updateForm({ cron: e.target.value })}
+                    className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+                  >
+                    <option value="">Presets</option>
+                    {CRON_PRESETS.map(preset => (
+                      <option key={preset.value} value={preset.value}>{preset.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <span className="mt-1 block text-xs text-muted-foreground">
+                  Cron expression in the server's local time, or @hourly, @daily, @weekly, @monthly
+                </span>
+              </label>
+
+              <label className="block text-sm text-foreground">
+                Prompt
+                <textarea
+                  value={form.prompt}
+                  onChange={(e) => updateForm({ prompt: e.target.value })}
+                  rows={5}
+                  placeholder="e.g. Update dependencies and run the tests"
+                  className="mt-1 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm text-foreground resize-y focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  required
+                />
+              </label>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <label className="block text-sm text-foreground">
+                  Model
+                  <Input
+                    value={form.model}
+                    onChange={(e) => updateForm({ model: e.target.value })}
+                    placeholder="Default model"
+                    className="mt-1"
+                  />
+                </label>
+                <label className="block text-sm text-foreground">
+                  Allowed tools
+                  <Input
+                    value={form.allowedTools}
+                    onChange={(e) => updateForm({ allowedTools: e.target.value })}
+                    placeholder="e.g. Read, Bash(npm test:*)"
+                    className="mt-1"
+                  />
+                </label>
+                <label className="block text-sm text-foreground">
+                  Blocked tools
+                  <Input
+                    value={form.disallowedTools}
+                    onChange={(e) => updateForm({ disallowedTools: e.target.value })}
+                    placeholder="e.g. WebFetch"
+                    className="mt-1"
+                  />
+                </label>
+              </div>
+
+              <label className="flex items-start gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={form.skipPermissions}
+                  onChange={(e) => updateForm({ skipPermissions: e.target.checked })}
+                  disabled={!isAdmin && !form.skipPermissions}
+                  className="mt-0.5"
+                />
+                <span>
+                  Skip permission prompts
+                  <span className="block text-xs text-muted-foreground">
+                    Nobody is there to approve tools during a scheduled run, so tools that aren't allowed above are denied unless this is on.{!isAdmin && ' Only admins can turn this on or change a job that has it on.'}
+                  </span>
+                </span>
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={isSaving}>
+                  {form.id ? 'Save job' : 'Create job'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="mb-4 flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm(emptyForm(projects[0]?.name || ''))}
+                >
+                  <Plus className="w-4 h-4" />
+                  New job
+                </Button>
+              </div>
+
+              {jobs.length === 0 ? (
+                <div className="text-center py-12 text-sm text-muted-foreground">
+                  {isLoading ? 'Loading scheduled jobs...' : 'No scheduled jobs yet.'}
+                </div>
+              ) : (
+                <div className="divide-y divide-border rounded-lg border border-border">
+                  {jobs.map(job => (
+                    <div key={job.id} className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => toggleHistory(job.id)}
+                          className="p-1 text-muted-foreground hover:text-foreground"
+                          title="Run history"
+                        >
+                          {expandedJobId === job.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                        <div className="min-w-0 flex-1">
+                          <div className={`truncate text-sm ${job.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                            {job.name}
+                          </div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {projectNames.get(job.projectName) || job.projectName}
+                            {' · '}
+                            <span className="font-mono">{job.cron}</span>
+                            {' · '}
+                            {job.nextRunAt ? `next ${new Date(job.nextRunAt).toLocaleString()}` : 'disabled'}
+                          </div>
+                          {job.lastRun && (
+                            <div className={`truncate text-xs ${RUN_STATUS_CLASSES[job.lastRun.status]}`}>
+                              Last run {describeRun(job.lastRun)}
+                            </div>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleToggle(job)}
+                          disabled={busyJobId !== null}
+                          className={job.enabled ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground'}
+                          title={job.enabled ? 'Disable' : 'Enable'}
+                        >
+                          <Power className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRunNow(job)}
+                          disabled={busyJobId !== null || job.lastRun?.status === 'running'}
+                          title="Run now"
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setForm(formFromJob(job))}
+                          disabled={busyJobId !== null}
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(job)}
+                          disabled={busyJobId !== null}
+                          className="text-red-600 dark:text-red-400"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      {expandedJobId === job.id && (
+                        <div className="mt-2 ml-8 space-y-2">
+                          {runs.length === 0 ? (
+                            <div className="text-xs text-muted-foreground">No runs yet.</div>
+                          ) : (
+                            runs.map(run => (
+                              <details key={run.id} className="rounded-md border border-border">
+                                <summary className={`cursor-pointer px-2 py-1 text-xs ${RUN_STATUS_CLASSES[run.status]}`}>
+                                  {describeRun(run)}
+                                </summary>
+                                <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words border-t border-border px-2 py-1 text-xs text-foreground">
+                                  {run.output || (run.status === 'running' ? 'Still running...' : 'No output.')}
+                                </pre>
+                              </details>
+                            ))
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulesPanel;
@@ -0,0 +1,301 @@
+/**
+ * SearchPalette.tsx - Full-text search across all sessions
+ *
+ * Queries /api/search as the user types, with optional project, date, role
+ * and tool filters. Picking a result opens its session at that message.
+ */
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Search, X, User, Bot, Wrench, SlidersHorizontal } from 'lucide-react';
+import { Input } from './ui/input';
+import { Project } from '../types/project';
+import { SearchFilters, SearchResponse, SearchResult, SearchRole } from '../types/search';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  onResultSelect: (result: SearchResult) => void;
+}
+
+const ROLE_OPTIONS: { value: '' | SearchRole; label: string }[] = [
+  { value: '', label: 'Any role' },
+  { value: 'user', label: 'You' },
+  { value: 'assistant', label: 'Claude' },
+  { value: 'tool', label: 'Tool results' }
+];
+
+const ROLE_ICONS: Record<SearchRole, React.ComponentType<{ className?: string }>> = {
+  user: User,
+  assistant: Bot,
+  tool: Wrench
+};
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const fieldClassName = 'h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground';
+
+// Snippet text with the matched ranges highlighted
+const HighlightedSnippet: React.FC<{ text: string; matches: [number, number][] }> = ({ text, matches }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(([start, end], index) => {
+    if (start < position) return;
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-foreground rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ isOpen, onClose, projects, onResultSelect }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+
+  const projectNames = useMemo(() => new Map(projects.map(project => [project.name, project.displayName])), [projects]);
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+  useEffect(() => {
+    if (isOpen) {
+      setTimeout(() => inputRef.current?.select(), 0);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setResponse(null);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const params = new URLSearchParams({ q: query });
+        Object.entries(filters).forEach(([key, value]) => {
+          if (value) params.set(key, value);
+        });
+
+        const res = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Search failed');
+        }
+        setResponse(data);
+        setSelectedIndex(0);
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Error searching sessions:', err);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, query, filters]);
+
+  // Keep the keyboard selection in view
+  useEffect(() => {
+    resultsRef.current?.querySelector(`[data-result-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  const results = response?.results || [];
+
+  const updateFilter = (changes: Partial<SearchFilters>): void => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault();
+      onResultSelect(results[selectedIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="modal-backdrop fixed inset-0 flex items-start justify-center z-[100] md:p-4 md:pt-[10vh] bg-background/80 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-background border border-border md:rounded-lg shadow-xl w-full md:max-w-2xl h-full md:h-auto md:max-h-[75vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-border">
+          <Search className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          <Input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all sessions..."
+            className="border-0 shadow-none focus-visible:ring-0 h-9 px-1"
+          />
+          <button
+            type="button"
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-1 h-8 px-2 rounded-md text-xs hover:bg-accent ${activeFilterCount > 0 ? 'text-blue-600 dark:text-blue-400' : 'text-muted-foreground'}`}
+            title="Filters"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            {activeFilterCount > 0 && activeFilterCount}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="h-8 w-8 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-accent"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-border">
+            <select
+              value={filters.projectName || ''}
+              onChange={(e) => updateFilter({ projectName: e.target.value || undefined })}
+              className={`${fieldClassName} max-w-[12rem]`}
+            >
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.name} value={project.name}>{project.displayName}</option>
+              ))}
+            </select>
+            <select
+              value={filters.role || ''}
+              onChange={(e) => updateFilter({ role: (e.target.value || undefined) as SearchRole | undefined })}
+              className={fieldClassName}
+            >
+              {ROLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Input
+              value={filters.toolName || ''}
+              onChange={(e) => updateFilter({ toolName: e.target.value.trim() || undefined })}
+              placeholder="Tool (e.g. Bash)"
+              className="h-8 w-32 text-xs"
+            />
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              From
+              <input
+                type="date"
+                value={filters.from || ''}
+                onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                className={fieldClassName}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              To
+              <input
+                type="date"
+                value={filters.to || ''}
+                onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                className={fieldClassName}
+              />
+            </label>
+            {activeFilterCount > 0 && (
+              <button
+                type="button"
+                onClick={() => setFilters({})}
+                className="text-xs text-muted-foreground hover:text-foreground underline"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
+        <div ref={resultsRef} className="flex-1 overflow-y-auto">
+          {error && (
+            <div className="m-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {!query.trim() ? (
+            <div className="py-10 text-center text-sm text-muted-foreground">
+              Type to search messages in every project
+            </div>
+          ) : response && results.length === 0 && !isSearching ? (
+            <div className="py-10 text-center text-sm text-muted-foreground">No matching messages</div>
+          ) : (
+            results.map((result, index) => {
+              const RoleIcon = ROLE_ICONS[result.role];
+              return (
+                <div
+                  key={`${result.projectName}:${result.sessionId}:${result.messageId}:${result.role}`}
+                  data-result-index={index}
+                  onClick={() => onResultSelect(result)}
+                  onMouseMove={() => setSelectedIndex(index)}
+                  className={`px-3 py-2 cursor-pointer border-b border-border/50 ${index === selectedIndex ? 'bg-accent' : ''}`}
+                >
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <RoleIcon className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate font-medium text-foreground">
+                      {result.sessionSummary || result.sessionId}
+                    </span>
+                    <span className="truncate">{projectNames.get(result.projectName) || result.projectName}</span>
+                    {result.toolNames.length > 0 && (
+                      <span className="flex-shrink-0 rounded bg-muted px-1">{result.toolNames.join(', ')}</span>
+                    )}
+                    {result.timestamp && (
+                      <span className="ml-auto flex-shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-sm text-foreground/90 line-clamp-2 break-words">
+                    <HighlightedSnippet text={result.snippet} matches={result.matches} />
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {response && (
+          <div className="px-3 py-1.5 border-t border-border text-xs text-muted-foreground flex justify-between">
+            <span>
+              {response.total > results.length
+                ? `Showing ${results.length} of ${response.total} matches`
+                : `${response.total} ${response.total === 1 ? 'match' : 'matches'}`}
+            </span>
+            <span className="hidden md:inline">↑↓ to move · Enter to open · Esc to close</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
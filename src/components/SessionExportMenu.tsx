@@ -0,0 +1,89 @@
+/**
+ * SessionExportMenu.tsx - Download a session as Markdown, HTML or JSON
+ *
+ * A download button with a small format menu, used in the sidebar's session
+ * actions and the chat header.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Download } from 'lucide-react';
+import { SESSION_EXPORT_FORMATS, SessionExportFormat, downloadSessionExport } from '../utils/sessionExport';
+
+interface SessionExportMenuProps {
+  projectName: string;
+  sessionId: string;
+  buttonClassName?: string;
+  iconClassName?: string;
+}
+
+const SessionExportMenu: React.FC<SessionExportMenuProps> = ({
+  projectName,
+  sessionId,
+  buttonClassName = 'p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent',
+  iconClassName = 'w-4 h-4'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<SessionExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: SessionExportFormat): Promise<void> => {
+    setExporting(format);
+    try {
+      await downloadSessionExport(projectName, sessionId, format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error exporting session:', error);
+      alert(`Failed to export session: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    // Keep clicks and taps from also selecting the session row behind it
+    <div
+      ref={menuRef}
+      className="relative inline-flex"
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        className={buttonClassName}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export session"
+      >
+        <Download className={iconClassName} />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50 py-1">
+          {SESSION_EXPORT_FORMATS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleExport(value)}
+              disabled={exporting !== null}
+              className="w-full text-left px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              {exporting === value ? 'Exporting...' : label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionExportMenu;
@@ -0,0 +1,220 @@
+/**
+ * SessionMetadataMenu.tsx - Pin, tag, color and annotate a session
+ *
+ * A tag button with a small editor, used in the sidebar's session actions.
+ * Changes are saved together and come back through the project events.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Tag, Pin, X } from 'lucide-react';
+import { Session, SessionColor } from '../types/project';
+import { SESSION_COLORS, updateSessionAnnotations } from '../utils/sessionMetadata';
+
+interface SessionMetadataMenuProps {
+  projectName: string;
+  session: Session;
+  // Tags used elsewhere in the project, offered as suggestions
+  knownTags?: string[];
+  buttonClassName?: string;
+  iconClassName?: string;
+}
+
+const SessionMetadataMenu: React.FC<SessionMetadataMenuProps> = ({
+  projectName,
+  session,
+  knownTags = [],
+  buttonClassName = 'p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent',
+  iconClassName = 'w-4 h-4'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [pinned, setPinned] = useState(false);
+  const [color, setColor] = useState<SessionColor | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Start from the session's current values each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setTags(session.tags || []);
+    setTagInput('');
+    setPinned(!!session.pinned);
+    setColor(session.color || null);
+    setNote(session.note || '');
+  }, [isOpen]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const addTag = (tag: string): void => {
+    const trimmed = tag.trim();
+    if (trimmed && !tags.includes(trimmed)) {
+      setTags([...tags, trimmed]);
+    }
+    setTagInput('');
+  };
+
+  const handleSave = async (): Promise<void> => {
+    // A tag still being typed counts too
+    const allTags = tagInput.trim() && !tags.includes(tagInput.trim()) ? [...tags, tagInput.trim()] : tags;
+    setIsSaving(true);
+    try {
+      await updateSessionAnnotations(projectName, session.id, {
+        tags: allTags.length > 0 ? allTags : null,
+        pinned,
+        color,
+        note: note.trim() || null
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error updating session:', error);
+      alert(`Failed to update session: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const suggestions = knownTags.filter(tag => !tags.includes(tag) && tag.toLowerCase().startsWith(tagInput.trim().toLowerCase()));
+
+  return (
+    // Keep clicks and taps from also selecting the session row behind it
+    <div
+      ref={menuRef}
+      className="relative inline-flex"
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        className={buttonClassName}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Pin, tag or annotate session"
+      >
+        <Tag className={iconClassName} />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-1 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50 p-3 space-y-3 text-xs text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pinned}
+              onChange={(e) => setPinned(e.target.checked)}
+              className="h-3.5 w-3.5"
+            />
+            <Pin className="w-3 h-3" />
+            Pin to the top of the project
+          </label>
+
+          <div>
+            <div className="mb-1 font-medium">Color</div>
+            <div className="flex items-center gap-1.5">
+              <button
+                type="button"
+                onClick={() => setColor(null)}
+                className={`w-4 h-4 rounded-full border border-gray-300 dark:border-gray-600 flex items-center justify-center ${color === null ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`}
+                title="No color"
+              >
+                <X className="w-2.5 h-2.5" />
+              </button>
+              {SESSION_COLORS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setColor(option.value)}
+                  className={`w-4 h-4 rounded-full ${option.className} ${color === option.value ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`}
+                  title={option.label}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 font-medium">Tags</div>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-1.5">
+                {tags.map(tag => (
+                  <span key={tag} className="flex items-center gap-0.5 rounded bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5">
+                    {tag}
+                    <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} title={`Remove ${tag}`}>
+                      <X className="w-2.5 h-2.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+              placeholder="Add a tag and press Enter"
+              className="w-full px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-transparent focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            {tagInput.trim() && suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {suggestions.slice(0, 6).map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => addTag(tag)}
+                    className="rounded border border-dashed border-gray-300 dark:border-gray-600 px-1.5 py-0.5 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="mb-1 font-medium">Note</div>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder="Anything to remember about this session"
+              className="w-full px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-transparent resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionMetadataMenu;
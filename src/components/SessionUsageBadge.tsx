@@ -0,0 +1,77 @@
+/**
+ * SessionUsageBadge.tsx - Running cost and token total for the open session
+ *
+ * Shows the session's recorded usage plus whatever the request in progress
+ * has used so far. The recorded total is re-read once a request finishes.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Coins } from 'lucide-react';
+import { UsageTotals, RunUsage, SessionUsageResponse } from '../types/usage';
+import { WebSocketMessageUnion } from '../types/websocket';
+import { formatCost, formatTokens, formatDuration, sumUsage } from '../utils/usage';
+
+interface SessionUsageBadgeProps {
+  projectName: string;
+  sessionId: string;
+  messages: WebSocketMessageUnion[];
+}
+
+const SessionUsageBadge: React.FC<SessionUsageBadgeProps> = ({ projectName, sessionId, messages }) => {
+  const [recorded, setRecorded] = useState<UsageTotals | null>(null);
+  const [live, setLive] = useState<RunUsage | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const processedCountRef = useRef(messages.length);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/usage/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then((data: SessionUsageResponse | null) => {
+        if (cancelled) return;
+        setRecorded(data?.totals || null);
+        setLive(null);
+      })
+      .catch(error => console.error('Error loading session usage:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectName, sessionId, reloadKey]);
+
+  useEffect(() => {
+    const newMessages = messages.slice(processedCountRef.current);
+    processedCountRef.current = messages.length;
+
+    for (const message of newMessages) {
+      if (!('sessionId' in message) || message.sessionId !== sessionId) continue;
+
+      if (message.type === 'usage-updated') {
+        setLive(message.usage);
+      } else if (message.type === 'claude-complete') {
+        setReloadKey(key => key + 1);
+      }
+    }
+  }, [messages, sessionId]);
+
+  if (!recorded) return null;
+
+  const totals = live ? sumUsage(recorded, live) : recorded;
+  if (totals.messageCount === 0) return null;
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 ml-2 text-xs text-brand-gray-text dark:text-brand-gray-text"
+      title={[
+        `${totals.inputTokens.toLocaleString()} input · ${totals.outputTokens.toLocaleString()} output tokens`,
+        `${totals.cacheReadTokens.toLocaleString()} cache read · ${totals.cacheCreationTokens.toLocaleString()} cache write`,
+        totals.durationMs > 0 ? `Run time ${formatDuration(totals.durationMs)}` : null,
+        'Estimated from list prices'
+      ].filter(Boolean).join('\n')}
+    >
+      <Coins className="w-3 h-3" />
+      {formatCost(totals.costUsd)} · {formatTokens(totals.totalTokens)} tokens
+    </span>
+  );
+};
+
+export default SessionUsageBadge;
@@ -3,9 +3,17 @@ import { ScrollArea } from './ui/scroll-area';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Input } from './ui/input';
-import { FolderOpen, Folder, Plus, MessageSquare, Clock, ChevronDown, ChevronRight, Edit3, Check, X, Trash2, Settings, FolderPlus, RefreshCw, Sparkles, Edit2 } from 'lucide-react';
+import { FolderOpen, Folder, Plus, MessageSquare, Clock, ChevronDown, ChevronRight, Edit3, Check, X, Trash2, Settings, FolderPlus, RefreshCw, Sparkles, Edit2, LogOut, BarChart3, Search, GitBranch, CornerDownRight, RotateCcw, Pin, PinOff, StickyNote, Tag, CalendarClock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
 import { cn } from '../lib/utils';
 import CalfinsLogo from './CalfinsLogo';
+import SessionExportMenu from './SessionExportMenu';
+import SessionMetadataMenu from './SessionMetadataMenu';
+import { restoreTrashItem } from '../utils/trash';
+import { getSessionColorClass, updateSessionAnnotations } from '../utils/sessionMetadata';
+
+// How long the undo toast stays up after a delete
+const UNDO_TIMEOUT_MS = 8000;
 
 // Move formatTimeAgo outside component to avoid recreation on every render
 const formatTimeAgo = (dateString, currentTime) => {
@@ -45,10 +53,17 @@ function Sidebar({
   isLoading,
   onRefresh,
   onShowSettings,
+  onShowUsage,
+  onShowSearch,
+  onShowTrash,
+  onShowSchedules,
   updateAvailable,
   latestVersion,
   currentVersion,
-  onShowVersionModal
+  onShowVersionModal,
+  activeTag,
+  onActiveTagChange,
+  taggedSessions
 }) {
   const [expandedProjects, setExpandedProjects] = useState(new Set());
   const [editingProject, setEditingProject] = useState(null);
@@ -64,6 +79,9 @@ function Sidebar({
   const [editingSession, setEditingSession] = useState(null);
   const [editingSessionName, setEditingSessionName] = useState('');
   const [generatingSummary, setGeneratingSummary] = useState({});
+  // Last deletion, which can be undone until the toast times out
+  const [undoItem, setUndoItem] = useState(null);
+  const { user, logout } = useAuth();
 
   // Touch handler to prevent double-tap issues on iPad
   const handleTouchClick = (callback) => {
@@ -83,6 +101,21 @@ function Sidebar({
     return () => clearInterval(timer);
   }, []);
 
+  useEffect(() => {
+    if (!undoItem) return;
+    const timer = setTimeout(() => setUndoItem(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoItem]);
+
+  const allTags = [...new Set(projects.flatMap(project => project.sessionTags || []))].sort();
+
+  // A filter on a tag no session has any more is dropped
+  useEffect(() => {
+    if (activeTag && !allTags.includes(activeTag)) {
+      onActiveTagChange(null);
+    }
+  }, [activeTag, allTags.join('\n')]);
+
   // Clear additional sessions when projects list changes (e.g., after refresh)
   useEffect(() => {
     setAdditionalSessions({});
@@ -132,7 +165,7 @@ function Sidebar({
 
   const saveProjectName = async (projectName) => {
     try {
-      const response = await fetch(`/api/projects/${projectName}/rename`, {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/rename`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -158,6 +191,37 @@ function Sidebar({
     setEditingName('');
   };
 
+  const generateSessionSummary = async (projectName, sessionId) => {
+    const key = `${projectName}-${sessionId}`;
+    setGeneratingSummary(prev => ({ ...prev, [key]: true }));
+
+    try {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}/summarize`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        // The new title arrives with the project events
+        if (onRefresh) {
+          onRefresh();
+        }
+      } else {
+        console.error('Failed to generate session summary:', data.error);
+        alert(`Failed to generate a session title: ${data.error || 'unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error generating session summary:', error);
+      alert('Error generating a session title. Please try again.');
+    } finally {
+      setGeneratingSummary(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
   const updateSessionSummary = async (projectName, sessionId, newSummary) => {
     if (!newSummary.trim()) {
       alert('Session name cannot be empty.');
@@ -165,7 +229,7 @@ function Sidebar({
     }
 
     try {
-      const response = await fetch(`/api/projects/${projectName}/sessions/${sessionId}`, {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -191,17 +255,18 @@ function Sidebar({
     }
   };
 
-  const deleteSession = async (projectName, sessionId) => {
-    if (!confirm('Are you sure you want to delete this session? This action cannot be undone.')) {
-      return;
-    }
-
+  // Deleted sessions and projects go to the trash, so there is no confirm
+  // step; the toast offers an undo instead
+  const deleteSession = async (projectName, sessionId, summary) => {
     try {
-      const response = await fetch(`/api/projects/${projectName}/sessions/${sessionId}`, {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}`, {
         method: 'DELETE',
       });
 
       if (response.ok) {
+        const { trashItemId } = await response.json();
+        setUndoItem({ trashItemId, label: `Deleted "${summary || 'New Session'}"` });
+
         // Call parent callback if provided
         if (onSessionDelete) {
           onSessionDelete(sessionId);
@@ -216,17 +281,16 @@ function Sidebar({
     }
   };
 
-  const deleteProject = async (projectName) => {
-    if (!confirm('Are you sure you want to delete this empty project? This action cannot be undone.')) {
-      return;
-    }
-
+  const deleteProject = async (projectName, displayName) => {
     try {
-      const response = await fetch(`/api/projects/${projectName}`, {
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}`, {
         method: 'DELETE',
       });
 
       if (response.ok) {
+        const { trashItemId } = await response.json();
+        setUndoItem({ trashItemId, label: `Deleted project "${displayName || projectName}"` });
+
         // Call parent callback if provided
         if (onProjectDelete) {
           onProjectDelete(projectName);
@@ -242,6 +306,27 @@ function Sidebar({
     }
   };
 
+  const togglePinned = async (projectName, session) => {
+    try {
+      await updateSessionAnnotations(projectName, session.id, { pinned: !session.pinned });
+    } catch (error) {
+      console.error('Error pinning session:', error);
+      alert(`Failed to ${session.pinned ? 'unpin' : 'pin'} session: ${error.message}`);
+    }
+  };
+
+  const undoDelete = async () => {
+    const item = undoItem;
+    setUndoItem(null);
+    try {
+      // The restored session or project comes back through the project events
+      await restoreTrashItem(item.trashItemId);
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      alert(`Failed to undo: ${error.message}`);
+    }
+  };
+
   const createNewProject = async () => {
     if (!newProjectPath.trim()) {
       alert('Please enter a project path');
@@ -302,7 +387,7 @@ function Sidebar({
     try {
       const currentSessionCount = (project.sessions?.length || 0) + (additionalSessions[project.name]?.length || 0);
       const response = await fetch(
-        `/api/projects/${project.name}/sessions?limit=5&offset=${currentSessionCount}`
+        `/api/projects/${encodeURIComponent(project.name)}/sessions?limit=5&offset=${currentSessionCount}`
       );
       
       if (response.ok) {
@@ -333,10 +418,77 @@ function Sidebar({
   // Helper function to get all sessions for a project (initial + additional)
   const getAllSessions = (project) => {
     const initialSessions = project.sessions || [];
-    const additional = additionalSessions[project.name] || [];
+    // Sessions added live can also turn up in a later "load more" page
+    const loadedIds = new Set(initialSessions.map(session => session.id));
+    const additional = (additionalSessions[project.name] || []).filter(session => !loadedIds.has(session.id));
     return [...initialSessions, ...additional];
   };
 
+  // Sessions to list under a project: those with the active tag, or the
+  // loaded pages
+  const getVisibleSessions = (project) =>
+    activeTag ? taggedSessions[project.name] || [] : getAllSessions(project);
+
+  // Links between a session and the loaded sessions forked from it or that it was forked from
+  const getForkInfo = (project, session) => {
+    const sessions = getAllSessions(project);
+    return {
+      parent: session.forkedFrom ? sessions.find(s => s.id === session.forkedFrom.sessionId) : null,
+      forkCount: sessions.filter(s => s.forkedFrom?.sessionId === session.id).length
+    };
+  };
+
+  // "Fork of ..." (or "Edited from ..." for an edit branch) line under a
+  // forked session's name
+  const renderForkOrigin = (session, parent) => {
+    if (!session.forkedFrom) return null;
+    const verb = session.forkedFrom.edited ? 'Edited' : 'Forked';
+    return (
+      <div
+        className="flex items-center gap-1 text-xs text-muted-foreground truncate"
+        title={parent ? `${verb} from "${parent.summary || 'New Session'}"` : `${verb} from session ${session.forkedFrom.sessionId}`}
+      >
+        <CornerDownRight className="w-2.5 h-2.5 flex-shrink-0" />
+        <span className="truncate">
+          {session.forkedFrom.edited ? 'Edited from' : 'Fork of'} {parent ? parent.summary || 'New Session' : 'an earlier session'}
+        </span>
+      </div>
+    );
+  };
+
+  // Color dot and pin before a session's name
+  const renderSessionMarkers = (session) => (
+    <>
+      {session.color && (
+        <span className={cn('w-2 h-2 rounded-full flex-shrink-0', getSessionColorClass(session.color))} />
+      )}
+      {session.pinned && <Pin className="w-2.5 h-2.5 text-muted-foreground flex-shrink-0" />}
+    </>
+  );
+
+  // Tags and note under a session's name
+  const renderSessionTags = (session) => (session.tags?.length > 0 || session.note) && (
+    <div className="flex items-center gap-1 mt-0.5 min-w-0 overflow-hidden">
+      {session.note && (
+        <span title={session.note} className="flex-shrink-0">
+          <StickyNote className="w-2.5 h-2.5 text-muted-foreground" />
+        </span>
+      )}
+      {session.tags?.map(tag => (
+        <span key={tag} className="text-[10px] leading-none rounded bg-muted px-1 py-0.5 text-muted-foreground truncate">
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderForkCount = (forkCount) => forkCount > 0 && (
+    <span className="flex items-center gap-0.5 text-xs text-muted-foreground" title={`${forkCount} fork${forkCount === 1 ? '' : 's'}`}>
+      <GitBranch className="w-2.5 h-2.5" />
+      {forkCount}
+    </span>
+  );
+
   return (
     <div className="h-full flex flex-col bg-card md:select-none">
       {/* Header */}
@@ -353,6 +505,15 @@ function Sidebar({
             </div>
           </div>
           <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-9 w-9 px-0 hover:bg-accent transition-colors duration-200"
+              onClick={onShowSearch}
+              title="Search all sessions (Ctrl+K)"
+            >
+              <Search className="w-4 h-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -395,6 +556,12 @@ function Sidebar({
               </div>
             </div>
             <div className="flex gap-2">
+              <button
+                className="w-8 h-8 rounded-md bg-background border border-border flex items-center justify-center active:scale-95 transition-all duration-150"
+                onClick={onShowSearch}
+              >
+                <Search className="w-4 h-4 text-foreground" />
+              </button>
               <button
                 className="w-8 h-8 rounded-md bg-background border border-border flex items-center justify-center active:scale-95 transition-all duration-150"
                 onClick={async () => {
@@ -521,6 +688,28 @@ function Sidebar({
         </div>
       )}
       
+      {/* Tag Filter */}
+      {allTags.length > 0 && (
+        <div className="flex items-center gap-1 px-3 md:px-4 py-2 border-b border-border overflow-x-auto flex-shrink-0">
+          <Tag className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              className={cn(
+                "text-xs rounded-full px-2 py-0.5 border whitespace-nowrap transition-colors",
+                activeTag === tag
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "border-border text-muted-foreground hover:text-foreground hover:bg-accent"
+              )}
+              onClick={() => onActiveTagChange(activeTag === tag ? null : tag)}
+              title={activeTag === tag ? 'Show all sessions' : `Show only sessions tagged ${tag}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Projects List */}
       <ScrollArea className="flex-1 md:px-2 md:py-3 overflow-y-auto overscroll-contain">
         <div className="md:space-y-1 pb-safe-area-inset-bottom">
@@ -545,8 +734,11 @@ function Sidebar({
               </p>
             </div>
           ) : (
-            projects.map((project) => {
-              const isExpanded = expandedProjects.has(project.name);
+            projects
+              .filter(project => !activeTag || project.sessionTags?.includes(activeTag))
+              .map((project) => {
+              // Projects matching a tag filter are open so their sessions show
+              const isExpanded = !!activeTag || expandedProjects.has(project.name);
               const isSelected = selectedProject?.name === project.name;
               
               return (
@@ -645,9 +837,9 @@ function Sidebar({
                                     className="w-8 h-8 rounded-lg bg-red-500/10 dark:bg-red-900/30 flex items-center justify-center active:scale-90 border border-red-200 dark:border-red-800"
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      deleteProject(project.name);
+                                      deleteProject(project.name, project.displayName);
                                     }}
-                                    onTouchEnd={handleTouchClick(() => deleteProject(project.name))}
+                                    onTouchEnd={handleTouchClick(() => deleteProject(project.name, project.displayName))}
                                   >
                                     <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
                                   </button>
@@ -783,7 +975,7 @@ function Sidebar({
                                 className="w-6 h-6 opacity-0 group-hover:opacity-100 transition-all duration-200 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center justify-center rounded cursor-pointer touch:opacity-100"
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  deleteProject(project.name);
+                                  deleteProject(project.name, project.displayName);
                                 }}
                                 title="Delete empty project (Delete)"
                               >
@@ -817,16 +1009,17 @@ function Sidebar({
                             </div>
                           </div>
                         ))
-                      ) : getAllSessions(project).length === 0 && !loadingSessions[project.name] ? (
+                      ) : getVisibleSessions(project).length === 0 && !loadingSessions[project.name] ? (
                         <div className="py-2 px-3 text-left">
-                          <p className="text-xs text-muted-foreground">No sessions yet</p>
+                          <p className="text-xs text-muted-foreground">{activeTag ? 'Loading...' : 'No sessions yet'}</p>
                         </div>
                       ) : (
-                        getAllSessions(project).map((session) => {
+                        getVisibleSessions(project).map((session) => {
                           // Calculate if session is active (within last 10 minutes)
                           const sessionDate = new Date(session.lastActivity);
                           const diffInMinutes = Math.floor((currentTime - sessionDate) / (1000 * 60));
                           const isActive = diffInMinutes < 10;
+                          const { parent: forkParent, forkCount } = getForkInfo(project, session);
                           
                           return (
                           <div key={session.id} className="group relative">
@@ -858,20 +1051,33 @@ function Sidebar({
                                     "w-5 h-5 rounded-md flex items-center justify-center flex-shrink-0",
                                     selectedSession?.id === session.id ? "bg-primary/10" : "bg-muted/50"
                                   )}>
-                                    <MessageSquare className={cn(
-                                      "w-3 h-3",
-                                      selectedSession?.id === session.id ? "text-primary" : "text-muted-foreground"
-                                    )} />
+                                    {session.forkedFrom ? (
+                                      <GitBranch className={cn(
+                                        "w-3 h-3",
+                                        selectedSession?.id === session.id ? "text-primary" : "text-muted-foreground"
+                                      )} />
+                                    ) : (
+                                      <MessageSquare className={cn(
+                                        "w-3 h-3",
+                                        selectedSession?.id === session.id ? "text-primary" : "text-muted-foreground"
+                                      )} />
+                                    )}
                                   </div>
                                   <div className="min-w-0 flex-1">
-                                    <div className="text-xs font-medium truncate text-foreground">
-                                      {session.summary || 'New Session'}
+                                    <div className="flex items-center gap-1 min-w-0">
+                                      {renderSessionMarkers(session)}
+                                      <div className="text-xs font-medium truncate text-foreground">
+                                        {session.summary || 'New Session'}
+                                      </div>
                                     </div>
+                                    {renderSessionTags(session)}
+                                    {renderForkOrigin(session, forkParent)}
                                     <div className="flex items-center gap-1 mt-0.5">
                                       <Clock className="w-2.5 h-2.5 text-muted-foreground" />
                                       <span className="text-xs text-muted-foreground">
                                         {formatTimeAgo(session.lastActivity, currentTime)}
                                       </span>
+                                      {renderForkCount(forkCount)}
                                       {session.messageCount > 0 && (
                                         <Badge variant="secondary" className="text-xs px-1 py-0 ml-auto">
                                           {session.messageCount}
@@ -879,14 +1085,29 @@ function Sidebar({
                                       )}
                                     </div>
                                   </div>
+                                  {/* Mobile tags button */}
+                                  <SessionMetadataMenu
+                                    projectName={project.name}
+                                    session={session}
+                                    knownTags={allTags}
+                                    buttonClassName="w-5 h-5 rounded-md bg-gray-100 dark:bg-gray-700 flex items-center justify-center active:scale-95 transition-transform opacity-70 ml-1"
+                                    iconClassName="w-2.5 h-2.5 text-gray-600 dark:text-gray-300"
+                                  />
+                                  {/* Mobile export button */}
+                                  <SessionExportMenu
+                                    projectName={project.name}
+                                    sessionId={session.id}
+                                    buttonClassName="w-5 h-5 rounded-md bg-gray-100 dark:bg-gray-700 flex items-center justify-center active:scale-95 transition-transform opacity-70 ml-1"
+                                    iconClassName="w-2.5 h-2.5 text-gray-600 dark:text-gray-300"
+                                  />
                                   {/* Mobile delete button */}
                                   <button
                                     className="w-5 h-5 rounded-md bg-red-50 dark:bg-red-900/20 flex items-center justify-center active:scale-95 transition-transform opacity-70 ml-1"
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      deleteSession(project.name, session.id);
+                                      deleteSession(project.name, session.id, session.summary);
                                     }}
-                                    onTouchEnd={handleTouchClick(() => deleteSession(project.name, session.id))}
+                                    onTouchEnd={handleTouchClick(() => deleteSession(project.name, session.id, session.summary))}
                                   >
                                     <Trash2 className="w-2.5 h-2.5 text-red-600 dark:text-red-400" />
                                   </button>
@@ -906,16 +1127,26 @@ function Sidebar({
                                 onTouchEnd={handleTouchClick(() => onSessionSelect(session))}
                               >
                                 <div className="flex items-start gap-2 min-w-0 w-full">
-                                  <MessageSquare className="w-3 h-3 text-muted-foreground mt-0.5 flex-shrink-0" />
+                                  {session.forkedFrom ? (
+                                    <GitBranch className="w-3 h-3 text-muted-foreground mt-0.5 flex-shrink-0" />
+                                  ) : (
+                                    <MessageSquare className="w-3 h-3 text-muted-foreground mt-0.5 flex-shrink-0" />
+                                  )}
                                   <div className="min-w-0 flex-1">
-                                    <div className="text-xs font-medium truncate text-foreground">
-                                      {session.summary || 'New Session'}
+                                    <div className="flex items-center gap-1 min-w-0">
+                                      {renderSessionMarkers(session)}
+                                      <div className="text-xs font-medium truncate text-foreground">
+                                        {session.summary || 'New Session'}
+                                      </div>
                                     </div>
+                                    {renderSessionTags(session)}
+                                    {renderForkOrigin(session, forkParent)}
                                     <div className="flex items-center gap-1 mt-0.5">
                                       <Clock className="w-2.5 h-2.5 text-muted-foreground" />
                                       <span className="text-xs text-muted-foreground">
                                         {formatTimeAgo(session.lastActivity, currentTime)}
                                       </span>
+                                      {renderForkCount(forkCount)}
                                       {session.messageCount > 0 && (
                                         <Badge variant="secondary" className="text-xs px-1 py-0 ml-auto">
                                           {session.messageCount}
@@ -971,13 +1202,13 @@ function Sidebar({
                                 ) : (
                                   <>
                                     {/* Generate summary button */}
-                                    {/* <button
+                                    <button
                                       className="w-6 h-6 bg-brand-blue/10 hover:bg-brand-blue/20 dark:bg-brand-blue/20 dark:hover:bg-brand-blue/40 rounded flex items-center justify-center"
                                       onClick={(e) => {
                                         e.stopPropagation();
                                         generateSessionSummary(project.name, session.id);
                                       }}
-                                      title="Generate AI summary for this session"
+                                      title="Generate a title for this session"
                                       disabled={generatingSummary[`${project.name}-${session.id}`]}
                                     >
                                       {generatingSummary[`${project.name}-${session.id}`] ? (
@@ -985,7 +1216,7 @@ function Sidebar({
                                       ) : (
                                         <Sparkles className="w-3 h-3 text-brand-blue dark:text-brand-blue" />
                                       )}
-                                    </button> */}
+                                    </button>
                                     {/* Edit button */}
                                     <button
                                       className="w-6 h-6 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 rounded flex items-center justify-center border border-blue-300 dark:border-blue-700"
@@ -998,14 +1229,44 @@ function Sidebar({
                                     >
                                       <Edit2 className="w-3 h-3 text-blue-700 dark:text-blue-400" />
                                     </button>
+                                    {/* Pin button */}
+                                    <button
+                                      className="w-6 h-6 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded flex items-center justify-center border border-gray-300 dark:border-gray-600"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        togglePinned(project.name, session);
+                                      }}
+                                      title={session.pinned ? 'Unpin session' : 'Pin session to the top'}
+                                    >
+                                      {session.pinned ? (
+                                        <PinOff className="w-3 h-3 text-gray-700 dark:text-gray-300" />
+                                      ) : (
+                                        <Pin className="w-3 h-3 text-gray-700 dark:text-gray-300" />
+                                      )}
+                                    </button>
+                                    {/* Tags button */}
+                                    <SessionMetadataMenu
+                                      projectName={project.name}
+                                      session={session}
+                                      knownTags={allTags}
+                                      buttonClassName="w-6 h-6 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded flex items-center justify-center border border-gray-300 dark:border-gray-600"
+                                      iconClassName="w-3 h-3 text-gray-700 dark:text-gray-300"
+                                    />
+                                    {/* Export button */}
+                                    <SessionExportMenu
+                                      projectName={project.name}
+                                      sessionId={session.id}
+                                      buttonClassName="w-6 h-6 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded flex items-center justify-center border border-gray-300 dark:border-gray-600"
+                                      iconClassName="w-3 h-3 text-gray-700 dark:text-gray-300"
+                                    />
                                     {/* Delete button */}
                                     <button
                                       className="w-6 h-6 bg-red-100 hover:bg-red-200 dark:bg-red-900/30 dark:hover:bg-red-900/50 rounded flex items-center justify-center border border-red-300 dark:border-red-700"
                                       onClick={(e) => {
                                         e.stopPropagation();
-                                        deleteSession(project.name, session.id);
+                                        deleteSession(project.name, session.id, session.summary);
                                       }}
-                                      title="Delete this session permanently"
+                                      title="Move this session to the trash"
                                     >
                                       <Trash2 className="w-3 h-3 text-red-700 dark:text-red-400" />
                                     </button>
@@ -1019,7 +1280,7 @@ function Sidebar({
                       )}
 
                       {/* Show More Sessions Button */}
-                      {getAllSessions(project).length > 0 && project.sessionMeta?.hasMore !== false && (
+                      {!activeTag && getAllSessions(project).length > 0 && project.sessionMeta?.hasMore !== false && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1117,6 +1378,29 @@ function Sidebar({
         </div>
       )}
       
+      {/* Undo Toast */}
+      {undoItem && (
+        <div className="mx-3 md:mx-2 mb-2 flex items-center gap-2 rounded-lg border border-border bg-popover px-3 py-2 shadow-lg flex-shrink-0">
+          <span className="flex-1 min-w-0 truncate text-xs text-foreground" title={undoItem.label}>
+            {undoItem.label}
+          </span>
+          <button
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            onClick={undoDelete}
+          >
+            <RotateCcw className="w-3 h-3" />
+            Undo
+          </button>
+          <button
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => setUndoItem(null)}
+            title="Dismiss"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      
       {/* Settings Section */}
       <div className="md:p-2 md:border-t md:border-border flex-shrink-0">
         {/* Mobile Settings */}
@@ -1130,6 +1414,42 @@ function Sidebar({
             </div>
             <span className="text-lg font-medium text-foreground">Settings</span>
           </button>
+          <button
+            className="w-full h-14 mt-2 bg-muted/50 hover:bg-muted/70 rounded-2xl flex items-center justify-start gap-4 px-4 active:scale-[0.98] transition-all duration-150"
+            onClick={onShowUsage}
+          >
+            <div className="w-10 h-10 rounded-2xl bg-background/80 flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <span className="text-lg font-medium text-foreground">Usage</span>
+          </button>
+          <button
+            className="w-full h-14 mt-2 bg-muted/50 hover:bg-muted/70 rounded-2xl flex items-center justify-start gap-4 px-4 active:scale-[0.98] transition-all duration-150"
+            onClick={onShowTrash}
+          >
+            <div className="w-10 h-10 rounded-2xl bg-background/80 flex items-center justify-center">
+              <Trash2 className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <span className="text-lg font-medium text-foreground">Trash</span>
+          </button>
+          <button
+            className="w-full h-14 mt-2 bg-muted/50 hover:bg-muted/70 rounded-2xl flex items-center justify-start gap-4 px-4 active:scale-[0.98] transition-all duration-150"
+            onClick={onShowSchedules}
+          >
+            <div className="w-10 h-10 rounded-2xl bg-background/80 flex items-center justify-center">
+              <CalendarClock className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <span className="text-lg font-medium text-foreground">Scheduled Runs</span>
+          </button>
+          <button
+            className="w-full h-14 mt-2 bg-muted/50 hover:bg-muted/70 rounded-2xl flex items-center justify-start gap-4 px-4 active:scale-[0.98] transition-all duration-150"
+            onClick={logout}
+          >
+            <div className="w-10 h-10 rounded-2xl bg-background/80 flex items-center justify-center">
+              <LogOut className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <span className="text-lg font-medium text-foreground">Sign out {user?.username}</span>
+          </button>
         </div>
         
         {/* Desktop Settings */}
@@ -1141,6 +1461,39 @@ function Sidebar({
           <Settings className="w-3 h-3" />
           <span className="text-xs">Tools Settings</span>
         </Button>
+        <Button
+          variant="ghost"
+          className="hidden md:flex w-full justify-start gap-2 p-2 h-auto font-normal text-muted-foreground hover:text-foreground hover:bg-accent transition-colors duration-200"
+          onClick={onShowUsage}
+        >
+          <BarChart3 className="w-3 h-3" />
+          <span className="text-xs">Usage</span>
+        </Button>
+        <Button
+          variant="ghost"
+          className="hidden md:flex w-full justify-start gap-2 p-2 h-auto font-normal text-muted-foreground hover:text-foreground hover:bg-accent transition-colors duration-200"
+          onClick={onShowTrash}
+        >
+          <Trash2 className="w-3 h-3" />
+          <span className="text-xs">Trash</span>
+        </Button>
+        <Button
+          variant="ghost"
+          className="hidden md:flex w-full justify-start gap-2 p-2 h-auto font-normal text-muted-foreground hover:text-foreground hover:bg-accent transition-colors duration-200"
+          onClick={onShowSchedules}
+        >
+          <CalendarClock className="w-3 h-3" />
+          <span className="text-xs">Scheduled Runs</span>
+        </Button>
+        <Button
+          variant="ghost"
+          className="hidden md:flex w-full justify-start gap-2 p-2 h-auto font-normal text-muted-foreground hover:text-foreground hover:bg-accent transition-colors duration-200"
+          onClick={logout}
+          title={user ? `Signed in as ${user.username}` : undefined}
+        >
+          <LogOut className="w-3 h-3" />
+          <span className="text-xs">Sign out</span>
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,67 @@
+/**
+ * SlashCommandMenu.tsx - Command suggestions for the chat composer
+ *
+ * Shown above the input while a "/command" is being typed. Selection is
+ * driven by the composer's keyboard handling; clicks pick a command directly.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { SlashCommand, SlashCommandScope } from '../types/claude';
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[];
+  selectedIndex: number;
+  onSelect: (command: SlashCommand) => void;
+  onHover: (index: number) => void;
+}
+
+const SCOPE_LABELS: Record<SlashCommandScope, string> = {
+  project: 'project',
+  user: 'user',
+  builtin: 'built-in'
+};
+
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ commands, selectedIndex, onSelect, onHover }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted command in view while moving with the arrow keys
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  if (commands.length === 0) return null;
+
+  return (
+    <div
+      ref={listRef}
+      className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-lg border border-brand-gray/30 dark:border-brand-gray/40 bg-white dark:bg-brand-app-black shadow-lg z-50"
+    >
+      {commands.map((command, index) => (
+        <div
+          key={command.name}
+          // mousedown, so the textarea keeps focus
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(command);
+          }}
+          onMouseEnter={() => onHover(index)}
+          className={`flex items-baseline gap-2 px-3 py-2 cursor-pointer text-sm ${
+            index === selectedIndex ? 'bg-brand-blue/10 dark:bg-brand-blue/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+          }`}
+        >
+          <span className="font-mono text-brand-blue whitespace-nowrap">/{command.name}</span>
+          {command.argumentHint && (
+            <span className="font-mono text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap">{command.argumentHint}</span>
+          )}
+          <span className="flex-1 min-w-0 truncate text-xs text-brand-gray-text dark:text-brand-gray">{command.description}</span>
+          <span className="text-[10px] uppercase tracking-wide text-gray-400 dark:text-gray-500 whitespace-nowrap">
+            {SCOPE_LABELS[command.scope]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SlashCommandMenu;
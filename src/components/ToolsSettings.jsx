@@ -5,11 +5,21 @@ import { ScrollArea } from './ui/scroll-area';
 import { Badge } from './ui/badge';
 import { X, Plus, Settings, Shield, AlertTriangle, Moon, Sun, Server, Wrench } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { useAuth } from '../contexts/AuthContext';
 import McpPanel from './McpPanel';
 
-function ToolsSettings({ isOpen, onClose }) {
+function ToolsSettings({ isOpen, onClose, selectedProject }) {
   const { isDarkMode, toggleDarkMode } = useTheme();
+  const { settings, updateSettings, getProjectSettings, updateProjectSettings } = useSettings();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
   const [activeTab, setActiveTab] = useState('tools');
+  // 'global' edits the settings for all projects, 'project' the additions
+  // for the selected project
+  const [scope, setScope] = useState('global');
+  const [globalSkipPermissions, setGlobalSkipPermissions] = useState(false);
+  const [hasProjectSkipPermissions, setHasProjectSkipPermissions] = useState(false);
   const [allowedTools, setAllowedTools] = useState([]);
   const [disallowedTools, setDisallowedTools] = useState([]);
   const [newAllowedTool, setNewAllowedTool] = useState('');
@@ -42,64 +52,63 @@ function ToolsSettings({ isOpen, onClose }) {
     'WebSearch'
   ];
 
+  useEffect(() => {
+    if (!selectedProject) {
+      setScope('global');
+    }
+  }, [selectedProject]);
+
   useEffect(() => {
     if (isOpen) {
       loadSettings();
     }
-  }, [isOpen]);
+  }, [isOpen, scope]);
 
-  const loadSettings = () => {
-    try {
-      
-      // Load from localStorage
-      const savedSettings = localStorage.getItem('claude-tools-settings');
-      
-      if (savedSettings) {
-        const settings = JSON.parse(savedSettings);
-        setAllowedTools(settings.allowedTools || []);
-        setDisallowedTools(settings.disallowedTools || []);
-        setSkipPermissions(settings.skipPermissions || false);
-      } else {
-        // Set defaults
-        setAllowedTools([]);
-        setDisallowedTools([]);
-        setSkipPermissions(false);
-      }
-    } catch (error) {
-      console.error('Error loading tool settings:', error);
-      // Set defaults on error
-      setAllowedTools([]);
-      setDisallowedTools([]);
-      setSkipPermissions(false);
+  const loadSettings = async () => {
+    const globalTools = settings.toolsSettings;
+    setGlobalSkipPermissions(globalTools.skipPermissions);
+    setSaveStatus(null);
+
+    if (scope === 'project' && selectedProject) {
+      const data = await getProjectSettings(selectedProject.name);
+      const projectTools = data?.settings.toolsSettings || {};
+      setAllowedTools(projectTools.allowedTools || []);
+      setDisallowedTools(projectTools.disallowedTools || []);
+      setHasProjectSkipPermissions(projectTools.skipPermissions !== undefined);
+      setSkipPermissions(projectTools.skipPermissions ?? globalTools.skipPermissions);
+    } else {
+      setAllowedTools(globalTools.allowedTools || []);
+      setDisallowedTools(globalTools.disallowedTools || []);
+      setSkipPermissions(globalTools.skipPermissions || false);
     }
   };
 
-  const saveSettings = () => {
+  const saveSettings = async () => {
     setIsSaving(true);
     setSaveStatus(null);
-    
-    try {
-      const settings = {
-        allowedTools,
-        disallowedTools,
-        skipPermissions,
-        lastUpdated: new Date().toISOString()
-      };
-      
-      
-      // Save to localStorage
-      localStorage.setItem('claude-tools-settings', JSON.stringify(settings));
-      
+
+    let saved;
+    if (scope === 'project' && selectedProject) {
+      const toolsSettings = { allowedTools, disallowedTools };
+      // Only pin skipPermissions for the project once it's been changed here
+      if (hasProjectSkipPermissions || skipPermissions !== globalSkipPermissions) {
+        toolsSettings.skipPermissions = skipPermissions;
+      }
+      saved = !!(await updateProjectSettings(selectedProject.name, { toolsSettings }));
+    } else {
+      saved = await updateSettings({
+        toolsSettings: { allowedTools, disallowedTools, skipPermissions }
+      });
+    }
+
+    setIsSaving(false);
+    if (saved) {
       setSaveStatus('success');
-      
       setTimeout(() => {
         onClose();
       }, 1000);
-    } catch (error) {
-      console.error('Error saving tool settings:', error);
+    } else {
       setSaveStatus('error');
-    } finally {
-      setIsSaving(false);
     }
   };
 
@@ -176,6 +185,35 @@ function ToolsSettings({ isOpen, onClose }) {
             {/* Tools Tab */}
             {activeTab === 'tools' && (
               <div className="space-y-6 md:space-y-8">
+
+            {/* Scope */}
+            {selectedProject && (
+              <div className="space-y-2">
+                <div className="inline-flex rounded-lg border border-border p-1">
+                  {[
+                    { id: 'global', label: 'All projects' },
+                    { id: 'project', label: 'This project' }
+                  ].map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setScope(option.id)}
+                      className={`px-3 py-1.5 text-sm rounded-md transition-colors touch-manipulation ${
+                        scope === option.id
+                          ? 'bg-blue-600 text-white'
+                          : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {scope === 'project' && (
+                  <p className="text-sm text-muted-foreground">
+                    Tools listed here apply to {selectedProject.displayName} in addition to the ones allowed or blocked for all projects.
+                  </p>
+                )}
+              </div>
+            )}
             
             {/* Skip Permissions */}
             <div className="space-y-4">
@@ -191,6 +229,7 @@ function ToolsSettings({ isOpen, onClose }) {
                     type="checkbox"
                     checked={skipPermissions}
                     onChange={(e) => setSkipPermissions(e.target.checked)}
+                    disabled={!isAdmin && !skipPermissions}
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
                   />
                   <div>
@@ -198,7 +237,7 @@ function ToolsSettings({ isOpen, onClose }) {
                       Skip permission prompts (use with caution)
                     </div>
                     <div className="text-sm text-orange-700 dark:text-orange-300">
-                      Equivalent to --dangerously-skip-permissions flag
+                      Equivalent to --dangerously-skip-permissions flag{!isAdmin && '. Only admins can turn this on.'}
                     </div>
                   </div>
                 </label>
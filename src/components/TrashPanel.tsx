@@ -0,0 +1,203 @@
+/**
+ * TrashPanel.tsx - Deleted sessions and projects
+ *
+ * Lists what is in the trash (/api/trash) with restore and delete-forever
+ * actions, and sets how long items are kept before they are purged.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { X, Trash2, RefreshCw, RotateCcw, MessageSquare, Folder } from 'lucide-react';
+import { Button } from './ui/button';
+import { Project } from '../types/project';
+import { TrashItem } from '../types/trash';
+import { listTrash, restoreTrashItem, purgeTrashItem, emptyTrash } from '../utils/trash';
+import { useSettings } from '../contexts/SettingsContext';
+
+interface TrashPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+}
+
+const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 7, label: 'Keep for 7 days' },
+  { value: 30, label: 'Keep for 30 days' },
+  { value: 90, label: 'Keep for 90 days' },
+  { value: 0, label: 'Keep until emptied' }
+];
+
+const getItemLabel = (item: TrashItem): string =>
+  item.type === 'session' ? item.summary || 'New Session' : item.displayName || item.projectName;
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ isOpen, onClose, projects }) => {
+  const { settings, updateSettings } = useSettings();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setItems((await listTrash()).items);
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTrash();
+    }
+  }, [isOpen]);
+
+  const runItemAction = async (itemId: string, action: (itemId: string) => Promise<unknown>): Promise<void> => {
+    setBusyItemId(itemId);
+    setError(null);
+    try {
+      await action(itemId);
+      setItems(prev => prev.filter(item => item.id !== itemId));
+    } catch (err) {
+      console.error('Error updating trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update trash');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handlePurge = (item: TrashItem): void => {
+    if (!confirm(`Delete "${getItemLabel(item)}" forever? This cannot be undone.`)) return;
+    runItemAction(item.id, purgeTrashItem);
+  };
+
+  const handleEmptyTrash = async (): Promise<void> => {
+    if (!confirm('Delete everything in the trash forever? This cannot be undone.')) return;
+    setError(null);
+    try {
+      await emptyTrash();
+      setItems([]);
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const projectNames = new Map(projects.map(project => [project.name, project.displayName]));
+
+  return (
+    <div className="modal-backdrop fixed inset-0 flex items-center justify-center z-[100] md:p-4 bg-background/95">
+      <div className="bg-background border border-border md:rounded-lg shadow-xl w-full md:max-w-2xl h-full md:h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-border flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <Trash2 className="w-5 h-5 md:w-6 md:h-6 text-red-600" />
+            <h2 className="text-lg md:text-xl font-semibold text-foreground">Trash</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadTrash}
+              disabled={isLoading}
+              className="text-muted-foreground hover:text-foreground"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground touch-manipulation"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 md:px-6 py-3 border-b border-border">
+          <select
+            value={settings.trashRetentionDays}
+            onChange={(e) => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleEmptyTrash}
+            disabled={items.length === 0}
+            className="ml-auto text-red-600 dark:text-red-400"
+          >
+            Empty trash
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6">
+          {error && (
+            <div className="mb-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {items.length === 0 ? (
+            <div className="text-center py-12 text-sm text-muted-foreground">
+              {isLoading ? 'Loading trash...' : 'The trash is empty.'}
+            </div>
+          ) : (
+            <div className="divide-y divide-border rounded-lg border border-border">
+              {items.map(item => (
+                <div key={item.id} className="flex items-center gap-3 px-3 py-2">
+                  {item.type === 'session' ? (
+                    <MessageSquare className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <Folder className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm text-foreground">{getItemLabel(item)}</div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {item.type === 'session'
+                        ? `Session in ${projectNames.get(item.projectName) || item.projectName}`
+                        : 'Project'}
+                      {' · deleted '}
+                      {new Date(item.deletedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runItemAction(item.id, restoreTrashItem)}
+                    disabled={busyItemId !== null}
+                    title="Restore"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePurge(item)}
+                    disabled={busyItemId !== null}
+                    className="text-red-600 dark:text-red-400"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
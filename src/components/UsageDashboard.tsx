@@ -0,0 +1,278 @@
+/**
+ * UsageDashboard.tsx - Spend and token usage across projects
+ *
+ * Totals come from /api/usage: by project, session, day and model for the
+ * chosen period. Costs are estimates from list prices.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, BarChart3, RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Project } from '../types/project';
+import { UsageReport, UsageTotals } from '../types/usage';
+import { formatCost, formatTokens, formatDuration } from '../utils/usage';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  onSessionSelect?: (projectName: string, sessionId: string) => void;
+}
+
+type UsagePeriod = '7' | '30' | '90' | 'all';
+
+const PERIODS: { value: UsagePeriod; label: string }[] = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'all', label: 'All time' }
+];
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const SummaryCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="rounded-lg border border-border p-3 sm:p-4">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="mt-1 text-xl font-semibold text-foreground">{value}</div>
+    {detail && <div className="mt-0.5 text-xs text-muted-foreground">{detail}</div>}
+  </div>
+);
+
+interface UsageTableRow extends UsageTotals {
+  key: string;
+  label: string;
+  sublabel?: string;
+  onClick?: () => void;
+}
+
+const UsageTable: React.FC<{ title: string; rows: UsageTableRow[]; emptyText: string }> = ({ title, rows, emptyText }) => {
+  const maxCost = Math.max(...rows.map(row => row.costUsd), 0);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-foreground">{title}</h3>
+      {rows.length === 0 ? (
+        <div className="text-sm text-muted-foreground py-4 text-center">{emptyText}</div>
+      ) : (
+        <div className="divide-y divide-border rounded-lg border border-border">
+          {rows.map(row => (
+            <div
+              key={row.key}
+              onClick={row.onClick}
+              className={`px-3 py-2 text-sm ${row.onClick ? 'cursor-pointer hover:bg-accent' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="truncate text-foreground">{row.label}</div>
+                  {row.sublabel && <div className="truncate text-xs text-muted-foreground">{row.sublabel}</div>}
+                </div>
+                <div className="flex-shrink-0 text-right">
+                  <div className="font-medium text-foreground">{formatCost(row.costUsd)}</div>
+                  <div className="text-xs text-muted-foreground">{formatTokens(row.totalTokens)} tokens</div>
+                </div>
+              </div>
+              <div className="mt-1.5 h-1 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-blue-500"
+                  style={{ width: `${maxCost > 0 ? (row.costUsd / maxCost) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, projects, onSessionSelect }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('30');
+  const [projectName, setProjectName] = useState<string>('');
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = async (): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (period !== 'all') {
+        const from = new Date();
+        from.setDate(from.getDate() - Number(period) + 1);
+        params.set('from', toDateString(from));
+      }
+      if (projectName) {
+        params.set('projectName', projectName);
+      }
+
+      const response = await fetch(`/api/usage?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load usage');
+      }
+      setReport(data);
+    } catch (err) {
+      console.error('Error loading usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadReport();
+    }
+  }, [isOpen, period, projectName]);
+
+  const projectNames = useMemo(() => new Map(projects.map(project => [project.name, project.displayName])), [projects]);
+  const sessionSummaries = useMemo(() => {
+    const summaries = new Map<string, string>();
+    projects.forEach(project => project.sessions?.forEach(session => {
+      if (session.summary) summaries.set(session.id, session.summary);
+    }));
+    return summaries;
+  }, [projects]);
+
+  if (!isOpen) return null;
+
+  const maxDayCost = Math.max(...(report?.byDay.map(day => day.costUsd) || []), 0);
+
+  return (
+    <div className="modal-backdrop fixed inset-0 flex items-center justify-center z-[100] md:p-4 bg-background/95">
+      <div className="bg-background border border-border md:rounded-lg shadow-xl w-full md:max-w-5xl h-full md:h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 md:p-6 border-b border-border flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+            <h2 className="text-lg md:text-xl font-semibold text-foreground">Usage</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadReport}
+              disabled={isLoading}
+              className="text-muted-foreground hover:text-foreground"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground touch-manipulation"
+            >
+              <X className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 md:px-6 py-3 border-b border-border">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+          >
+            {PERIODS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm text-foreground max-w-xs"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.name} value={project.name}>{project.displayName}</option>
+            ))}
+          </select>
+          <span className="text-xs text-muted-foreground">Costs are estimated from list prices.</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
+          {error && (
+            <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {!report && isLoading && (
+            <div className="text-center py-12 text-muted-foreground">Computing usage...</div>
+          )}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <SummaryCard label="Cost" value={formatCost(report.totals.costUsd)} />
+                <SummaryCard
+                  label="Tokens"
+                  value={formatTokens(report.totals.totalTokens)}
+                  detail={`${formatTokens(report.totals.inputTokens)} in · ${formatTokens(report.totals.outputTokens)} out · ${formatTokens(report.totals.cacheReadTokens)} cached`}
+                />
+                <SummaryCard label="Sessions" value={report.sessionCount.toLocaleString()} detail={`${report.totals.messageCount.toLocaleString()} responses`} />
+                <SummaryCard
+                  label="Run time"
+                  value={formatDuration(report.totals.durationMs)}
+                  detail="Runs started from this UI"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground">Spend by day</h3>
+                {report.byDay.length === 0 ? (
+                  <div className="text-sm text-muted-foreground py-4 text-center">No usage in this period</div>
+                ) : (
+                  <div className="flex items-end gap-0.5 h-32 rounded-lg border border-border p-3">
+                    {report.byDay.map(day => (
+                      <div
+                        key={day.date}
+                        className="flex-1 min-w-[2px] bg-blue-500/80 hover:bg-blue-500 rounded-t"
+                        style={{ height: `${maxDayCost > 0 ? Math.max((day.costUsd / maxDayCost) * 100, 1) : 1}%` }}
+                        title={`${day.date}: ${formatCost(day.costUsd)} · ${formatTokens(day.totalTokens)} tokens`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <UsageTable
+                  title="By project"
+                  emptyText="No projects with usage"
+                  rows={report.byProject.map(project => ({
+                    ...project,
+                    key: project.projectName,
+                    label: projectNames.get(project.projectName) || project.projectName,
+                    onClick: () => setProjectName(project.projectName)
+                  }))}
+                />
+                <UsageTable
+                  title="By model"
+                  emptyText="No models used"
+                  rows={report.byModel.map(model => ({ ...model, key: model.model, label: model.model }))}
+                />
+              </div>
+
+              <UsageTable
+                title="Top sessions"
+                emptyText="No sessions with usage"
+                rows={report.bySession.map(session => ({
+                  ...session,
+                  key: `${session.projectName}:${session.sessionId}`,
+                  label: sessionSummaries.get(session.sessionId) || session.sessionId,
+                  sublabel: projectNames.get(session.projectName) || session.projectName,
+                  onClick: onSessionSelect ? () => onSessionSelect(session.projectName, session.sessionId) : undefined
+                }))}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,106 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { AuthUser, AuthStatusResponse, AuthResponse } from '../types/auth';
+
+export interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  needsSetup: boolean;
+  error: string | null;
+  login: (username: string, password: string) => Promise<boolean>;
+  register: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+export interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [needsSetup, setNeedsSetup] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Check whether we already have a valid session on load
+  useEffect(() => {
+    const checkStatus = async (): Promise<void> => {
+      try {
+        const response = await fetch('/api/auth/status');
+        const data: AuthStatusResponse = await response.json();
+        setNeedsSetup(data.needsSetup);
+        setUser(data.isAuthenticated ? data.user : null);
+      } catch (err) {
+        console.error('Error checking auth status:', err);
+        setError('Could not reach the server');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    checkStatus();
+  }, []);
+
+  const authenticate = useCallback(async (endpoint: 'login' | 'register', username: string, password: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data: AuthResponse = await response.json();
+
+      if (!response.ok || !data.user) {
+        setError(data.error || 'Authentication failed');
+        return false;
+      }
+
+      // The server keeps the session in an httpOnly cookie
+      setUser(data.user);
+      setNeedsSetup(false);
+      return true;
+    } catch (err) {
+      console.error(`Error during ${endpoint}:`, err);
+      setError('Could not reach the server');
+      return false;
+    }
+  }, []);
+
+  const login = useCallback((username: string, password: string) => authenticate('login', username, password), [authenticate]);
+  const register = useCallback((username: string, password: string) => authenticate('register', username, password), [authenticate]);
+
+  const logout = useCallback(async (): Promise<void> => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Error logging out:', err);
+    }
+    setUser(null);
+  }, []);
+
+  const value: AuthContextType = {
+    user,
+    isLoading,
+    needsSetup,
+    error,
+    login,
+    register,
+    logout
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
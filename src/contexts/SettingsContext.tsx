@@ -0,0 +1,229 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import {
+  GlobalSettings,
+  ProjectSettings,
+  ProjectSettingsUpdate,
+  GlobalSettingsResponse,
+  ProjectSettingsResponse
+} from '../types/settings';
+import { SettingsUpdatedMessage } from '../types/websocket';
+import { useAuth } from './AuthContext';
+
+const DEFAULT_SETTINGS: GlobalSettings = {
+  toolsSettings: {
+    allowedTools: [],
+    disallowedTools: [],
+    skipPermissions: false
+  },
+  autoExpandTools: false,
+  showRawParameters: false,
+  autoScrollToBottom: true,
+  whisperMode: 'default',
+  trashRetentionDays: 30,
+  autoSummarizeSessions: false
+};
+
+// Settings this app used to keep in localStorage, moved to the server once
+const LEGACY_GLOBAL_KEYS: Record<string, keyof GlobalSettings> = {
+  'claude-tools-settings': 'toolsSettings',
+  autoExpandTools: 'autoExpandTools',
+  showRawParameters: 'showRawParameters',
+  autoScrollToBottom: 'autoScrollToBottom',
+  whisperMode: 'whisperMode'
+};
+const LEGACY_DRAFT_PREFIX = 'draft_input_';
+const LEGACY_MESSAGES_PREFIX = 'chat_messages_';
+
+export interface SettingsContextType {
+  settings: GlobalSettings;
+  isLoaded: boolean;
+  updateSettings: (updates: Partial<GlobalSettings>) => Promise<boolean>;
+  getProjectSettings: (projectName: string) => Promise<ProjectSettingsResponse | null>;
+  updateProjectSettings: (projectName: string, updates: ProjectSettingsUpdate) => Promise<ProjectSettings | null>;
+  applySettingsUpdate: (message: SettingsUpdatedMessage) => void;
+  onProjectSettingsChange: (listener: (projectName: string, settings: ProjectSettings) => void) => () => void;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export const useSettings = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
+
+const parseLegacyValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    // whisperMode was stored as a plain string
+    return value;
+  }
+};
+
+// Read settings left in localStorage by older versions. They are only
+// removed once the server has saved them (see clearLegacySettings).
+const readLegacySettings = (): { global: Partial<GlobalSettings>; drafts: Record<string, string> } => {
+  const global: Record<string, unknown> = {};
+  const drafts: Record<string, string> = {};
+
+  for (const [storageKey, settingKey] of Object.entries(LEGACY_GLOBAL_KEYS)) {
+    const value = localStorage.getItem(storageKey);
+    if (value !== null) {
+      global[settingKey] = parseLegacyValue(value);
+    }
+  }
+
+  for (const storageKey of Object.keys(localStorage)) {
+    if (storageKey.startsWith(LEGACY_DRAFT_PREFIX)) {
+      const draft = localStorage.getItem(storageKey);
+      if (draft) {
+        drafts[storageKey.slice(LEGACY_DRAFT_PREFIX.length)] = draft;
+      }
+    }
+  }
+
+  return { global: global as Partial<GlobalSettings>, drafts };
+};
+
+const clearLegacySettings = (): void => {
+  for (const storageKey of Object.keys(LEGACY_GLOBAL_KEYS)) {
+    localStorage.removeItem(storageKey);
+  }
+  for (const storageKey of Object.keys(localStorage)) {
+    // Messages are always reloaded from the session files now
+    if (storageKey.startsWith(LEGACY_MESSAGES_PREFIX)) {
+      localStorage.removeItem(storageKey);
+    }
+  }
+};
+
+const putJson = async <T,>(url: string, body: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to save settings');
+  }
+  return data as T;
+};
+
+export interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<GlobalSettings>(DEFAULT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const projectListenersRef = useRef<Set<(projectName: string, settings: ProjectSettings) => void>>(new Set());
+
+  useEffect(() => {
+    const loadSettings = async (): Promise<void> => {
+      try {
+        const response = await fetch('/api/settings');
+        const data: GlobalSettingsResponse = await response.json();
+        let loaded = data.settings;
+
+        if (!data.isInitialized) {
+          const legacy = readLegacySettings();
+          // Only admins may turn on skipping permission prompts
+          if (user?.role !== 'admin' && legacy.global.toolsSettings?.skipPermissions) {
+            legacy.global.toolsSettings = { ...legacy.global.toolsSettings, skipPermissions: false };
+          }
+          const saved = await putJson<{ settings: GlobalSettings }>('/api/settings', legacy.global);
+          loaded = saved.settings;
+          clearLegacySettings();
+
+          for (const [projectName, draftInput] of Object.entries(legacy.drafts)) {
+            await putJson(`/api/settings/projects/${encodeURIComponent(projectName)}`, { draftInput });
+            localStorage.removeItem(`${LEGACY_DRAFT_PREFIX}${projectName}`);
+          }
+        }
+
+        setSettings(loaded);
+      } catch (err) {
+        console.error('Error loading settings:', err);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const updateSettings = useCallback(async (updates: Partial<GlobalSettings>): Promise<boolean> => {
+    // Apply right away; the server echoes the result back to every client
+    setSettings(prev => ({ ...prev, ...updates }));
+    try {
+      const data = await putJson<{ settings: GlobalSettings }>('/api/settings', updates);
+      setSettings(data.settings);
+      return true;
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      return false;
+    }
+  }, []);
+
+  const getProjectSettings = useCallback(async (projectName: string): Promise<ProjectSettingsResponse | null> => {
+    try {
+      const response = await fetch(`/api/settings/projects/${encodeURIComponent(projectName)}`);
+      if (!response.ok) {
+        return null;
+      }
+      return await response.json();
+    } catch (err) {
+      console.error('Error loading project settings:', err);
+      return null;
+    }
+  }, []);
+
+  const updateProjectSettings = useCallback(async (projectName: string, updates: ProjectSettingsUpdate): Promise<ProjectSettings | null> => {
+    try {
+      const data = await putJson<{ settings: ProjectSettings }>(
+        `/api/settings/projects/${encodeURIComponent(projectName)}`,
+        updates
+      );
+      return data.settings;
+    } catch (err) {
+      console.error('Error saving project settings:', err);
+      return null;
+    }
+  }, []);
+
+  const applySettingsUpdate = useCallback((message: SettingsUpdatedMessage): void => {
+    if (message.scope === 'global') {
+      setSettings(message.settings);
+    } else {
+      projectListenersRef.current.forEach(listener => listener(message.projectName, message.settings));
+    }
+  }, []);
+
+  const onProjectSettingsChange = useCallback((listener: (projectName: string, settings: ProjectSettings) => void) => {
+    projectListenersRef.current.add(listener);
+    return () => {
+      projectListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const value: SettingsContextType = {
+    settings,
+    isLoaded,
+    updateSettings,
+    getProjectSettings,
+    updateProjectSettings,
+    applySettingsUpdate,
+    onProjectSettingsChange
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
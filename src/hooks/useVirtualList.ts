@@ -0,0 +1,206 @@
+import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo, RefObject } from 'react';
+
+export interface UseVirtualListOptions {
+  // A stable key per item, in display order
+  keys: string[];
+  scrollContainerRef: RefObject<HTMLElement>;
+  // Height assumed for items that haven't been rendered yet
+  estimateSize?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  // Keep the view pinned to the bottom while item heights settle
+  stickToBottom?: boolean;
+}
+
+export interface VirtualListItem {
+  index: number;
+  key: string;
+}
+
+export interface UseVirtualListReturn {
+  items: VirtualListItem[];
+  paddingTop: number;
+  paddingBottom: number;
+  listRef: RefObject<HTMLDivElement>;
+  measureElement: (key: string) => (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Renders only the items of a long list that are in or near the viewport of a
+ * scroll container. Items are measured once rendered; the rest use an
+ * estimate. When a measurement above the viewport changes, the scroll position
+ * is corrected so the items on screen don't move.
+ */
+export function useVirtualList({
+  keys,
+  scrollContainerRef,
+  estimateSize = 150,
+  overscan = 800,
+  stickToBottom = false
+}: UseVirtualListOptions): UseVirtualListReturn {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef<Map<string, number>>(new Map());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  // Scroll correction owed for items above the viewport that changed height
+  const anchorDeltaRef = useRef(0);
+  const elementsRef = useRef<Map<string, HTMLElement>>(new Map());
+  const measureCallbacksRef = useRef<Map<string, (element: HTMLElement | null) => void>>(new Map());
+  const stickToBottomRef = useRef(stickToBottom);
+  stickToBottomRef.current = stickToBottom;
+
+  // offsets[i] is where item i starts within the list; offsets[count] is the total
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, i) => {
+      result[i + 1] = result[i] + (sizesRef.current.get(key) ?? estimateSize);
+    });
+    return result;
+  }, [keys, estimateSize, measureVersion]);
+
+  const keyIndex = useMemo(() => new Map(keys.map((key, i) => [key, i])), [keys]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+  const keyIndexRef = useRef(keyIndex);
+  keyIndexRef.current = keyIndex;
+
+  const getListTop = useCallback((): number => {
+    const container = scrollContainerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return 0;
+    return list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+  }, [scrollContainerRef]);
+
+  const updateViewport = useCallback((): void => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const top = container.scrollTop - getListTop();
+    const height = container.clientHeight;
+    setViewport(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, [scrollContainerRef, getListTop]);
+
+  // The container may only be rendered once there is something to show
+  const hasItems = keys.length > 0;
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    updateViewport();
+    container.addEventListener('scroll', updateViewport, { passive: true });
+    const resizeObserver = new ResizeObserver(updateViewport);
+    resizeObserver.observe(container);
+    return () => {
+      container.removeEventListener('scroll', updateViewport);
+      resizeObserver.disconnect();
+    };
+  }, [scrollContainerRef, updateViewport, hasItems]);
+
+  const itemObserver = useMemo(() => new ResizeObserver((entries) => {
+    let changed = false;
+    const container = scrollContainerRef.current;
+    const viewportTop = container ? container.scrollTop - getListTop() : 0;
+
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      const key = element.dataset.virtualKey;
+      if (!key || !element.isConnected) continue;
+
+      const size = element.getBoundingClientRect().height;
+      const index = keyIndexRef.current.get(key);
+      const previous = sizesRef.current.get(key) ?? estimateSize;
+      if (index === undefined || size === previous) continue;
+
+      sizesRef.current.set(key, size);
+      changed = true;
+      if (offsetsRef.current[index + 1] <= viewportTop) {
+        anchorDeltaRef.current += size - previous;
+      }
+    }
+
+    if (changed) {
+      setMeasureVersion(version => version + 1);
+    }
+  }), [scrollContainerRef, getListTop, estimateSize]);
+
+  useEffect(() => () => itemObserver.disconnect(), [itemObserver]);
+
+  // One ref callback per key, so React doesn't re-attach them on every render
+  const measureElement = useCallback((key: string) => {
+    let callback = measureCallbacksRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null): void => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== element) {
+          itemObserver.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.virtualKey = key;
+          elementsRef.current.set(key, element);
+          itemObserver.observe(element);
+        }
+      };
+      measureCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, [itemObserver]);
+
+  // Forget measurements and callbacks of items no longer in the list
+  useEffect(() => {
+    for (const key of sizesRef.current.keys()) {
+      if (!keyIndex.has(key)) sizesRef.current.delete(key);
+    }
+    for (const key of measureCallbacksRef.current.keys()) {
+      if (!keyIndex.has(key) && !elementsRef.current.has(key)) measureCallbacksRef.current.delete(key);
+    }
+  }, [keyIndex]);
+
+  // Apply the correction for new measurements before the browser paints
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const delta = anchorDeltaRef.current;
+    anchorDeltaRef.current = 0;
+    if (!container) return;
+
+    if (stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (delta !== 0) {
+      container.scrollTop += delta;
+    }
+  }, [measureVersion, scrollContainerRef]);
+
+  const scrollToIndex = useCallback((index: number): void => {
+    const container = scrollContainerRef.current;
+    const itemOffsets = offsetsRef.current;
+    if (!container || index < 0 || index >= itemOffsets.length - 1) return;
+
+    const size = itemOffsets[index + 1] - itemOffsets[index];
+    container.scrollTop = getListTop() + itemOffsets[index] - container.clientHeight / 2 + size / 2;
+    updateViewport();
+  }, [scrollContainerRef, getListTop, updateViewport]);
+
+  let start = 0;
+  while (start < keys.length && offsets[start + 1] < viewport.top - overscan) {
+    start++;
+  }
+  let end = start;
+  while (end < keys.length && offsets[end] < viewport.top + viewport.height + overscan) {
+    end++;
+  }
+
+  const items: VirtualListItem[] = [];
+  for (let index = start; index < end; index++) {
+    items.push({ index, key: keys[index] });
+  }
+
+  return {
+    items,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[keys.length] - offsets[end],
+    listRef,
+    measureElement,
+    scrollToIndex
+  };
+}
@@ -0,0 +1,20 @@
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: 'admin' | 'user';
+  createdAt: string;
+  lastLogin: string | null;
+}
+
+export interface AuthStatusResponse {
+  needsSetup: boolean;
+  isAuthenticated: boolean;
+  user: AuthUser | null;
+}
+
+export interface AuthResponse {
+  success?: boolean;
+  user?: AuthUser;
+  token?: string;
+  error?: string;
+}
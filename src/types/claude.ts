@@ -10,11 +10,54 @@ export interface ClaudeResponse {
 }
 
 export interface ClaudeCommandOptions {
+  // Session to resume, or with resume false the ID to give a new session
   sessionId?: string;
   projectPath?: string;
   cwd?: string;
   resume?: boolean;
-  toolsSettings?: ToolsSettings;
+  // Encoded project name; tool permissions are read from its settings
+  projectName?: string;
+  // Model alias ('opus', 'sonnet', 'haiku') or a full model ID. New sessions
+  // default to sonnet; resumed sessions keep their model unless one is given.
+  model?: string;
+  permissionMode?: ClaudePermissionMode;
+  maxTurns?: number;
+  // Extra directories Claude may access (--add-dir), within the project's
+  // allowed roots
+  addDirs?: string[];
+  appendSystemPrompt?: string;
+  // Absolute paths of uploaded attachments, listed at the end of the prompt
+  attachments?: string[];
+}
+
+export type ClaudePermissionMode = 'default' | 'plan' | 'acceptEdits' | 'bypassPermissions';
+
+// Options picked in the chat composer, kept per session
+export type ClaudeSessionOptions = Pick<ClaudeCommandOptions, 'model' | 'permissionMode' | 'maxTurns' | 'addDirs' | 'appendSystemPrompt'>;
+
+// Where a slash command comes from: a file in the project's or the user's
+// .claude/commands, or the CLI itself
+export type SlashCommandScope = 'project' | 'user' | 'builtin';
+
+export interface SlashCommand {
+  // Without the leading "/"; subdirectories become "dir:name"
+  name: string;
+  description: string;
+  argumentHint: string | null;
+  allowedTools: string[];
+  model: string | null;
+  scope: SlashCommandScope;
+}
+
+// A file uploaded from the chat composer
+export interface ChatAttachment {
+  name: string;
+  // Absolute path on the server, as Claude reads it
+  path: string;
+  url: string;
+  // Null for attachments recovered from a prompt without a known type
+  mimeType: string | null;
+  size: number | null;
 }
 
 export interface ToolsSettings {
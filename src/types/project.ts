@@ -5,6 +5,8 @@ export interface Project {
   path?: string; // Optional for backwards compatibility
   sessionMeta: SessionMeta;
   sessions: Session[];
+  // Every tag used by the project's sessions
+  sessionTags?: string[];
 }
 
 export interface Session {
@@ -13,6 +15,55 @@ export interface Session {
   created_at: string;
   updated_at: string;
   message_count: number;
+  // Set by the projects API from the session file
+  summary?: string;
+  lastActivity?: string;
+  messageCount?: number;
+  // Set when the session was forked from another one
+  forkedFrom?: SessionForkOrigin;
+  // Set by the user (see SessionAnnotations)
+  tags?: string[];
+  pinned?: boolean;
+  color?: SessionColor;
+  note?: string;
+}
+
+export type SessionColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink' | 'gray';
+
+// Session metadata the user can edit; null clears a value
+export type SessionAnnotations = {
+  [K in 'tags' | 'pinned' | 'color' | 'note']?: Session[K] | null;
+};
+
+export interface SessionForkOrigin {
+  sessionId: string;
+  // The message the fork was taken at
+  messageId: string;
+  forkedAt?: string;
+  // Set on branches where that message (a prompt) was sent again, edited;
+  // promptIndex is its position among the session's prompts
+  edited?: boolean;
+  promptIndex?: number;
+}
+
+export interface ForkSessionResponse {
+  sessionId: string;
+  // False when there was nothing to copy and the branch starts as a new session
+  resume: boolean;
+  forkedFrom: SessionForkOrigin;
+}
+
+export interface SessionBranch {
+  sessionId: string;
+  summary: string;
+  lastActivity: string;
+}
+
+// A prompt with several versions, each continuing in its own session
+export interface SessionBranchPoint {
+  messageId: string;
+  siblings: SessionBranch[];
+  currentIndex: number;
 }
 
 export interface SessionMeta {
@@ -20,6 +71,12 @@ export interface SessionMeta {
   hasMore: boolean;
 }
 
+// The project tree as of a project event version
+export interface ProjectsSnapshot {
+  version: number;
+  projects: Project[];
+}
+
 export interface FileTreeItem {
   name: string;
   path: string;
@@ -29,6 +86,20 @@ export interface FileTreeItem {
   modified?: string;
 }
 
+// A match from the project's file index, for @-mentions
+export interface FileSearchResult {
+  name: string;
+  path: string;
+  relativePath: string;
+  type: 'file' | 'directory';
+}
+
+export interface FileSearchResponse {
+  files: FileSearchResult[];
+  // The project has more files than the index keeps
+  truncated: boolean;
+}
+
 export interface ProjectState {
   projects: Project[];
   currentProject: Project | null;
@@ -37,12 +108,6 @@ export interface ProjectState {
   error: string | null;
 }
 
-export interface SessionProtection {
-  isSessionActive: boolean;
-  sessionId: string | null;
-  protectedProjects: Set<string>;
-}
-
 export interface FileContent {
   path: string;
   content: string;
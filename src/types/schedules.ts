@@ -0,0 +1,38 @@
+// A prompt run headlessly in a project on a cron schedule
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  projectName: string;
+  prompt: string;
+  // Five-field cron expression or @hourly, @daily, @weekly, @monthly, @yearly
+  cron: string;
+  // Model alias or full model ID; null uses the CLI default
+  model: string | null;
+  allowedTools: string[];
+  disallowedTools: string[];
+  skipPermissions: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // Null while the job is disabled
+  nextRunAt: string | null;
+  // The run in progress or the most recent one, without its output
+  lastRun: Omit<ScheduledRun, 'output'> | null;
+}
+
+export type ScheduledJobInput = Pick<ScheduledJob,
+  'name' | 'projectName' | 'prompt' | 'cron' | 'model' | 'allowedTools' | 'disallowedTools' | 'skipPermissions' | 'enabled'>;
+
+export interface ScheduledRun {
+  id: string;
+  jobId: string;
+  trigger: 'manual' | 'schedule';
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt: string | null;
+  exitCode: number | null;
+  // The session the run created, once the CLI reports it
+  sessionId: string | null;
+  // The final result (or what Claude said) and anything written to stderr
+  output: string;
+}
@@ -0,0 +1,36 @@
+export type SearchRole = 'user' | 'assistant' | 'tool';
+
+export interface SearchFilters {
+  projectName?: string;
+  // Inclusive YYYY-MM-DD dates
+  from?: string;
+  to?: string;
+  role?: SearchRole;
+  toolName?: string;
+}
+
+export interface SearchResult {
+  projectName: string;
+  sessionId: string;
+  sessionSummary: string | null;
+  // JSONL entry to scroll to; tool results point at their tool call
+  messageId: string;
+  role: SearchRole;
+  toolNames: string[];
+  timestamp: string | null;
+  snippet: string;
+  // [start, end) ranges of matched terms within the snippet
+  matches: [number, number][];
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  tookMs: number;
+}
+
+// A message to scroll to once its session is open
+export interface MessageJumpTarget {
+  sessionId: string;
+  messageId: string;
+}
@@ -0,0 +1,37 @@
+import { ToolsSettings } from './claude';
+import { WhisperMode } from '../utils/whisper';
+
+// Settings shared by every project, stored on the server
+export interface GlobalSettings {
+  toolsSettings: ToolsSettings;
+  autoExpandTools: boolean;
+  showRawParameters: boolean;
+  autoScrollToBottom: boolean;
+  whisperMode: WhisperMode;
+  // Days deleted sessions and projects stay in the trash; 0 keeps them
+  trashRetentionDays: number;
+  // Have Claude title sessions that don't have a title after a run
+  autoSummarizeSessions: boolean;
+}
+
+// Per-project overrides. Tool lists are added to the global ones; a missing
+// value falls back to the global setting.
+export interface ProjectSettings {
+  toolsSettings?: Partial<ToolsSettings>;
+  draftInput?: string;
+}
+
+export interface GlobalSettingsResponse {
+  settings: GlobalSettings;
+  isInitialized: boolean;
+}
+
+export interface ProjectSettingsResponse {
+  settings: ProjectSettings;
+  effectiveToolsSettings: ToolsSettings;
+}
+
+// null removes a project value so the global one applies again
+export type ProjectSettingsUpdate = {
+  [K in keyof ProjectSettings]?: ProjectSettings[K] | null;
+};
@@ -0,0 +1,18 @@
+// A deleted session or project, kept until restored or purged
+export interface TrashItem {
+  id: string;
+  type: 'session' | 'project';
+  projectName: string;
+  deletedAt: string;
+  // Sessions
+  sessionId?: string;
+  summary?: string;
+  // Projects
+  displayName?: string;
+}
+
+export interface TrashListResponse {
+  items: TrashItem[];
+  // Days items are kept before being purged; 0 keeps them
+  retentionDays: number;
+}
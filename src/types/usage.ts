@@ -0,0 +1,53 @@
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  // Estimated from list prices for history; reported by the CLI for live runs
+  costUsd: number;
+  // Only known for runs started from this UI
+  durationMs: number;
+  messageCount: number;
+}
+
+// Usage of a run in progress, sent with `usage-updated` frames
+export interface RunUsage extends UsageTotals {
+  model: string | null;
+  numTurns: number;
+  // True once the CLI's final result (with its exact cost) has arrived
+  isFinal: boolean;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectName: string;
+}
+
+export interface SessionUsage extends UsageTotals {
+  projectName: string;
+  sessionId: string;
+}
+
+export interface DayUsage extends UsageTotals {
+  date: string;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byProject: ProjectUsage[];
+  // Top sessions by cost
+  bySession: SessionUsage[];
+  byDay: DayUsage[];
+  byModel: ModelUsage[];
+  sessionCount: number;
+  generatedAt: string;
+}
+
+export interface SessionUsageResponse {
+  sessionId: string;
+  totals: UsageTotals;
+}
@@ -12,6 +12,9 @@ import {
   ToolsSettings 
 } from './claude';
 
+import { GlobalSettings, ProjectSettings } from './settings';
+import { RunUsage } from './usage';
+
 import {
   MCPServer,
   MCPServerStatus,
@@ -19,41 +22,116 @@ import {
 } from './mcp';
 
 export interface WebSocketMessage {
-  type: 'claude-command' | 'abort-session' | 'projects_updated' | 'claude-response' | 'claude-complete' | 'session-created' | 'session-aborted' | 'file-tree-updated' | 'terminal-output' | 'terminal-input' | 'claude-status' | 'mcp-server-status' | 'mcp-server-added' | 'mcp-server-removed' | 'mcp-server-error' | 'mcp-servers-updated' | 'mcp-health-updated';
+  type: 'claude-command' | 'abort-session' | 'project-added' | 'project-updated' | 'project-removed' | 'session-added' | 'session-updated' | 'session-removed' | 'projects-version' | 'claude-response' | 'claude-output' | 'claude-error' | 'claude-complete' | 'session-created' | 'session-aborted' | 'file-tree-updated' | 'terminal-output' | 'terminal-input' | 'claude-status' | 'active-runs' | 'resume-stream' | 'stream-resumed' | 'stream-not-found' | 'permission-request' | 'permission-resolved' | 'permission-response' | 'usage-updated' | 'settings-updated' | 'mcp-server-status' | 'mcp-server-added' | 'mcp-server-removed' | 'mcp-server-error' | 'mcp-servers-updated' | 'mcp-health-updated' | 'prompt-queue-updated' | 'queued-prompt-started';
   timestamp?: string;
 }
 
 export interface ClaudeCommandMessage extends WebSocketMessage {
   type: 'claude-command';
   command: string;
+  // Client-generated ID echoed back on every frame produced by this command
+  requestId?: string;
   options?: ClaudeCommandOptions;
 }
 
-export interface ClaudeResponseMessage extends WebSocketMessage {
+// Frames streamed back from a running Claude process. sessionId is null until
+// the CLI reports it for a new session.
+export interface ClaudeRequestFrame extends WebSocketMessage {
+  requestId: string;
+  sessionId: string | null;
+  // Position in the run's event stream, used as the cursor when resuming
+  seq?: number;
+}
+
+export interface ClaudeResponseMessage extends ClaudeRequestFrame {
   type: 'claude-response';
   data: ClaudeResponse;
 }
 
-export interface ClaudeCompleteMessage extends WebSocketMessage {
+export interface ClaudeOutputMessage extends ClaudeRequestFrame {
+  type: 'claude-output';
+  data: string;
+}
+
+export interface ClaudeErrorMessage extends ClaudeRequestFrame {
+  type: 'claude-error';
+  error: string;
+}
+
+export interface ClaudeCompleteMessage extends ClaudeRequestFrame {
   type: 'claude-complete';
+  exitCode: number | null;
+  isNewSession: boolean;
+}
+
+// Project and session changes, numbered so a client can tell when it missed one
+export interface ProjectEventBase extends WebSocketMessage {
+  version: number;
+}
+
+export interface ProjectAddedMessage extends ProjectEventBase {
+  type: 'project-added';
+  project: Project;
+}
+
+// Only the project's own fields; its sessions change through session events
+export interface ProjectUpdatedMessage extends ProjectEventBase {
+  type: 'project-updated';
+  project: Partial<Omit<Project, 'sessions' | 'sessionMeta'>> & { name: string };
+}
+
+export interface ProjectRemovedMessage extends ProjectEventBase {
+  type: 'project-removed';
+  projectName: string;
+}
+
+export interface SessionAddedMessage extends ProjectEventBase {
+  type: 'session-added';
+  projectName: string;
+  session: Session;
+  sessionMeta: SessionMeta;
+}
+
+export interface SessionUpdatedMessage extends ProjectEventBase {
+  type: 'session-updated';
+  projectName: string;
+  session: Session;
+}
+
+export interface SessionRemovedMessage extends ProjectEventBase {
+  type: 'session-removed';
+  projectName: string;
   sessionId: string;
+  sessionMeta: SessionMeta;
 }
 
-export interface ProjectsUpdatedMessage extends WebSocketMessage {
-  type: 'projects_updated';
-  projects: Project[];
-  changeType: 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir';
-  changedFile: string;
+export type ProjectEventMessage =
+  | ProjectAddedMessage
+  | ProjectUpdatedMessage
+  | ProjectRemovedMessage
+  | SessionAddedMessage
+  | SessionUpdatedMessage
+  | SessionRemovedMessage;
+
+// Sent on connect so a client can check its snapshot is current
+export interface ProjectsVersionMessage extends WebSocketMessage {
+  type: 'projects-version';
+  version: number;
 }
 
 export interface SessionCreatedMessage extends WebSocketMessage {
   type: 'session-created';
   sessionId: string;
+  requestId?: string;
+  // Set when it comes through the run's event stream
+  seq?: number;
 }
 
 export interface SessionAbortedMessage extends WebSocketMessage {
   type: 'session-aborted';
-  sessionId: string;
+  sessionId?: string;
+  requestId?: string;
+  success?: boolean;
 }
 
 export interface FileTreeUpdatedMessage extends WebSocketMessage {
@@ -74,9 +152,138 @@ export interface TerminalInputMessage extends WebSocketMessage {
 
 export interface AbortSessionMessage extends WebSocketMessage {
   type: 'abort-session';
+  sessionId?: string;
+  requestId?: string;
+}
+
+// Summary of a run the server is tracking (running or recently finished)
+export interface RunSummary {
+  requestId: string;
+  sessionId: string | null;
+  // The session the run was started for, if it has since moved to a new ID
+  initialSessionId: string | null;
+  projectName: string | null;
+  projectPath: string | null;
+  status: 'running' | 'completed' | 'aborted' | 'failed';
+  startedAt: string;
+  completedAt: string | null;
+  latestSeq: number;
+  usage: RunUsage | null;
+}
+
+export interface ActiveRunsMessage extends WebSocketMessage {
+  type: 'active-runs';
+  runs: RunSummary[];
+}
+
+// Re-attach to a run after reconnecting. Events after `cursor` are replayed;
+// without a cursor only new events are streamed.
+export interface ResumeStreamMessage extends WebSocketMessage {
+  type: 'resume-stream';
+  requestId?: string;
+  sessionId?: string;
+  cursor?: number;
+}
+
+export interface StreamResumedMessage extends WebSocketMessage {
+  type: 'stream-resumed';
+  requestId: string;
+  sessionId: string | null;
+  status: RunSummary['status'];
+  cursor: number;
+  latestSeq: number;
+  truncated: boolean;
+}
+
+export interface StreamNotFoundMessage extends WebSocketMessage {
+  type: 'stream-not-found';
+  requestId?: string;
+  sessionId?: string;
+}
+
+export type PermissionDecision = 'allow-once' | 'allow-always' | 'deny';
+
+// A running Claude process is waiting for the user to approve a tool call
+export interface PermissionRequestMessage extends ClaudeRequestFrame {
+  type: 'permission-request';
+  permissionId: string;
+  toolName: string;
+  input: Record<string, any>;
+  toolUseId: string | null;
+  projectPath: string | null;
+  // The allowed-tools rule "Always allow" saves, e.g. "Bash(git log:*)"
+  alwaysAllowRule: string;
+}
+
+export interface PermissionResolvedMessage extends ClaudeRequestFrame {
+  type: 'permission-resolved';
+  permissionId: string;
+  decision: PermissionDecision;
+}
+
+export interface PermissionResponseMessage extends WebSocketMessage {
+  type: 'permission-response';
+  permissionId: string;
+  decision: PermissionDecision;
+}
+
+// Running token and cost totals for a run
+export interface UsageUpdatedMessage extends ClaudeRequestFrame {
+  type: 'usage-updated';
+  usage: RunUsage;
+}
+
+// Broadcast to every client whenever global or project settings change
+export type SettingsUpdatedMessage = WebSocketMessage & { type: 'settings-updated' } & (
+  | { scope: 'global'; settings: GlobalSettings }
+  | { scope: 'project'; projectName: string; settings: ProjectSettings }
+);
+
+// A prompt waiting for its session's current run to finish
+export interface QueuedPrompt {
+  id: string;
+  command: string;
+  createdAt: string;
+  // Absolute paths of its attachments
+  attachments: string[];
+}
+
+export interface PromptQueueState {
   sessionId: string;
+  // Set when a run was aborted; the queue waits until it is resumed
+  paused: boolean;
+  items: QueuedPrompt[];
 }
 
+// Broadcast to every client whenever a session's queue changes
+export interface PromptQueueUpdatedMessage extends WebSocketMessage, PromptQueueState {
+  type: 'prompt-queue-updated';
+  projectName: string;
+}
+
+// The server started the next queued prompt as a new run; clients follow it
+// with resume-stream
+export interface QueuedPromptStartedMessage extends WebSocketMessage {
+  type: 'queued-prompt-started';
+  projectName: string;
+  sessionId: string;
+  requestId: string;
+  command: string;
+  attachments: string[];
+}
+
+// Frames that belong to a run, matched to it by requestId
+export type RunFrameMessage =
+  | ClaudeResponseMessage
+  | ClaudeOutputMessage
+  | ClaudeErrorMessage
+  | ClaudeCompleteMessage
+  | SessionCreatedMessage
+  | SessionAbortedMessage
+  | PermissionRequestMessage
+  | PermissionResolvedMessage
+  | UsageUpdatedMessage;
+
 export interface ClaudeStatusMessage extends WebSocketMessage {
   type: 'claude-status';
   data: any;
@@ -117,8 +324,11 @@ export interface MCPHealthUpdatedMessage extends WebSocketMessage {
 export type WebSocketMessageUnion = 
   | ClaudeCommandMessage
   | ClaudeResponseMessage
+  | ClaudeOutputMessage
+  | ClaudeErrorMessage
   | ClaudeCompleteMessage
-  | ProjectsUpdatedMessage
+  | ProjectEventMessage
+  | ProjectsVersionMessage
   | SessionCreatedMessage
   | SessionAbortedMessage
   | FileTreeUpdatedMessage
@@ -126,9 +336,20 @@ export type WebSocketMessageUnion =
   | TerminalInputMessage
   | AbortSessionMessage
   | ClaudeStatusMessage
+  | ActiveRunsMessage
+  | ResumeStreamMessage
+  | StreamResumedMessage
+  | StreamNotFoundMessage
+  | PermissionRequestMessage
+  | PermissionResolvedMessage
+  | PermissionResponseMessage
+  | UsageUpdatedMessage
+  | SettingsUpdatedMessage
   | MCPServerStatusMessage
   | MCPServerAddedMessage
   | MCPServerRemovedMessage
   | MCPServerErrorMessage
   | MCPServersUpdatedMessage
-  | MCPHealthUpdatedMessage;
\ No newline at end of file
+  | MCPHealthUpdatedMessage
+  | PromptQueueUpdatedMessage
+  | QueuedPromptStartedMessage;
\ No newline at end of file
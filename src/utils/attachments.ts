@@ -0,0 +1,58 @@
+import { ChatAttachment } from '../types/claude';
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+// Upload files for a session, or for a draft ID before the session exists
+export async function uploadAttachments(projectName: string, sessionKey: string, files: File[]): Promise<ChatAttachment[]> {
+  const formData = new FormData();
+  formData.append('sessionKey', sessionKey);
+  for (const file of files) {
+    formData.append('files', file);
+  }
+
+  const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/attachments`, {
+    method: 'POST',
+    body: formData
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to upload attachments');
+  }
+  return data.attachments || [];
+}
+
+export function isImageAttachment(attachment: ChatAttachment): boolean {
+  if (attachment.mimeType) return attachment.mimeType.startsWith('image/');
+  const name = attachment.name.toLowerCase();
+  return IMAGE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+export function formatAttachmentSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// A prompt from the session file split into what was typed and the
+// attachments the server listed after it
+export function splitPromptAttachments(projectName: string, content: string): { text: string; attachments: ChatAttachment[] } {
+  const match = content.match(/(?:^|\n\n)Attached files:\n((?:- .+(?:\n|$))+)$/);
+  if (!match || match.index === undefined) {
+    return { text: content, attachments: [] };
+  }
+
+  const attachments = match[1].trim().split('\n').map(line => attachmentFromPath(projectName, line.slice(2)));
+  return { text: content.slice(0, match.index), attachments };
+}
+
+// An attachment known only by its stored path, <root>/<project>/<session>/<file>
+export function attachmentFromPath(projectName: string, filePath: string): ChatAttachment {
+  const [fileName, sessionKey] = filePath.split('/').reverse();
+  return {
+    name: fileName.replace(/^[0-9a-f]{8}-/, ''),
+    path: filePath,
+    url: `/api/projects/${encodeURIComponent(projectName)}/attachments/${encodeURIComponent(sessionKey)}/${encodeURIComponent(fileName)}`,
+    mimeType: null,
+    size: null
+  };
+}
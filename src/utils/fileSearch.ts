@@ -0,0 +1,22 @@
+import { FileSearchResponse, FileSearchResult } from '../types/project';
+
+// Files of a project matching a fuzzy query, best first
+export async function searchProjectFiles(projectName: string, query: string, signal?: AbortSignal): Promise<FileSearchResult[]> {
+  const response = await fetch(
+    `/api/projects/${encodeURIComponent(projectName)}/files/search?q=${encodeURIComponent(query)}`,
+    { signal }
+  );
+  const data: Partial<FileSearchResponse> & { error?: string } = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to search files');
+  }
+  return data.files || [];
+}
+
+// The "@path" being typed just before the cursor, if any: where its "@" is
+// and the text after it
+export function getMentionQuery(input: string, cursorPosition: number): { position: number; query: string } | null {
+  const match = input.slice(0, cursorPosition).match(/(?:^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+  return { position: cursorPosition - match[1].length - 1, query: match[1] };
+}
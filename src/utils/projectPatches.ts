@@ -0,0 +1,122 @@
+import { Project, Session } from '../types/project';
+import { ProjectEventMessage, WebSocketMessageUnion } from '../types/websocket';
+
+// First page of sessions sent with each project, as the server pages them
+const SESSIONS_PAGE_SIZE = 5;
+
+// Pinned sessions first, then the most recently active, as the server orders them
+const bySidebarOrder = (a: Session, b: Session): number => {
+  if (!!a.pinned !== !!b.pinned) {
+    return a.pinned ? -1 : 1;
+  }
+  return new Date(b.lastActivity || 0).getTime() - new Date(a.lastActivity || 0).getTime();
+};
+
+function patchProject(projects: Project[], projectName: string, patch: (project: Project) => Project): Project[] {
+  return projects.map(project => (project.name === projectName ? patch(project) : project));
+}
+
+/**
+ * Add or replace a session the way the server would list it: only sessions
+ * with the tag (if any), in sidebar order and cut to the page size. Returns
+ * the same array if the session does not belong in it.
+ */
+function placeSession(sessions: Session[], session: Session, { tag = null, limit = Infinity }: { tag?: string | null; limit?: number }): Session[] {
+  const others = sessions.filter(s => s.id !== session.id);
+  if (tag && !session.tags?.includes(tag)) {
+    return others.length === sessions.length ? sessions : others;
+  }
+  const placed = [...others, session].sort(bySidebarOrder).slice(0, limit);
+  // Sessions beyond the loaded page only matter once they become recent
+  // (or pinned)
+  return others.length === sessions.length && !placed.includes(session) ? sessions : placed;
+}
+
+/**
+ * Apply one project event to the project list. Projects and sessions that
+ * did not change keep their object identity, so only what changed re-renders.
+ */
+export function applyProjectEvent(projects: Project[], event: ProjectEventMessage): Project[] {
+  switch (event.type) {
+    case 'project-added':
+      return [...projects.filter(project => project.name !== event.project.name), event.project];
+
+    case 'project-updated':
+      return patchProject(projects, event.project.name, project => ({ ...project, ...event.project }));
+
+    case 'project-removed':
+      return projects.filter(project => project.name !== event.projectName);
+
+    case 'session-added':
+      return patchProject(projects, event.projectName, project => ({
+        ...project,
+        sessions: placeSession(project.sessions || [], event.session, { limit: SESSIONS_PAGE_SIZE }),
+        sessionMeta: event.sessionMeta
+      }));
+
+    case 'session-updated':
+      return patchProject(projects, event.projectName, project => {
+        const sessions = project.sessions || [];
+        const next = placeSession(sessions, event.session, { limit: SESSIONS_PAGE_SIZE });
+        return next === sessions ? project : { ...project, sessions: next };
+      });
+
+    case 'session-removed':
+      return patchProject(projects, event.projectName, project => ({
+        ...project,
+        sessions: (project.sessions || []).filter(session => session.id !== event.sessionId),
+        sessionMeta: event.sessionMeta
+      }));
+
+    default:
+      return projects;
+  }
+}
+
+/**
+ * Apply one project event to the sessions listed under a tag filter (every
+ * session with the tag, by project).
+ */
+export function applyTaggedSessionEvent(
+  taggedSessions: Record<string, Session[]>,
+  event: ProjectEventMessage,
+  tag: string
+): Record<string, Session[]> {
+  switch (event.type) {
+    case 'project-removed': {
+      const { [event.projectName]: _removed, ...rest } = taggedSessions;
+      return rest;
+    }
+
+    case 'session-added':
+    case 'session-updated': {
+      const sessions = taggedSessions[event.projectName] || [];
+      const next = placeSession(sessions, event.session, { tag });
+      return next === sessions ? taggedSessions : { ...taggedSessions, [event.projectName]: next };
+    }
+
+    case 'session-removed': {
+      const sessions = taggedSessions[event.projectName];
+      if (!sessions?.some(session => session.id === event.sessionId)) {
+        return taggedSessions;
+      }
+      return { ...taggedSessions, [event.projectName]: sessions.filter(session => session.id !== event.sessionId) };
+    }
+
+    default:
+      return taggedSessions;
+  }
+}
+
+const PROJECT_EVENT_TYPES = new Set([
+  'project-added',
+  'project-updated',
+  'project-removed',
+  'session-added',
+  'session-updated',
+  'session-removed'
+]);
+
+export function isProjectEvent(message: WebSocketMessageUnion): message is ProjectEventMessage {
+  return PROJECT_EVENT_TYPES.has(message.type);
+}
@@ -0,0 +1,55 @@
+import { ClaudeCommandOptions } from '../types/claude';
+import { PromptQueueState } from '../types/websocket';
+
+type QueuedPromptOptions = Omit<ClaudeCommandOptions, 'sessionId' | 'resume' | 'projectName'>;
+
+async function queueRequest(
+  projectName: string,
+  sessionId: string,
+  path: string,
+  init?: { method: string; body?: string }
+): Promise<PromptQueueState> {
+  const response = await fetch(
+    `/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}/queue${path}`,
+    init && { ...init, headers: { 'Content-Type': 'application/json' } }
+  );
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Prompt queue request failed');
+  }
+  return data;
+}
+
+export function getPromptQueue(projectName: string, sessionId: string): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, '');
+}
+
+// Runs as soon as the session's current run (and anything queued before it) is done
+export function enqueuePrompt(projectName: string, sessionId: string, command: string, options: QueuedPromptOptions): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, '', {
+    method: 'POST',
+    body: JSON.stringify({ command, options })
+  });
+}
+
+export function updateQueuedPrompt(projectName: string, sessionId: string, itemId: string, command: string): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, `/${encodeURIComponent(itemId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ command })
+  });
+}
+
+export function removeQueuedPrompt(projectName: string, sessionId: string, itemId: string): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, `/${encodeURIComponent(itemId)}`, { method: 'DELETE' });
+}
+
+export function reorderPromptQueue(projectName: string, sessionId: string, itemIds: string[]): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, '/order', {
+    method: 'PUT',
+    body: JSON.stringify({ itemIds })
+  });
+}
+
+export function resumePromptQueue(projectName: string, sessionId: string): Promise<PromptQueueState> {
+  return queueRequest(projectName, sessionId, '/resume', { method: 'POST' });
+}
@@ -0,0 +1,55 @@
+import { ScheduledJob, ScheduledJobInput, ScheduledRun } from '../types/schedules';
+
+export const CRON_PRESETS: { value: string; label: string }[] = [
+  { value: '0 * * * *', label: 'Every hour' },
+  { value: '0 9 * * *', label: 'Every day at 9:00' },
+  { value: '0 9 * * 1-5', label: 'Weekdays at 9:00' },
+  { value: '0 9 * * 1', label: 'Mondays at 9:00' },
+  { value: '0 0 1 * *', label: 'First of the month' }
+];
+
+async function scheduleRequest<T>(url: string, errorMessage: string, method = 'GET', body?: unknown): Promise<T> {
+  const response = await fetch(url, body === undefined ? { method } : {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || errorMessage);
+  }
+  return data;
+}
+
+const jobUrl = (jobId: string): string => `/api/schedules/${encodeURIComponent(jobId)}`;
+
+export async function listSchedules(): Promise<ScheduledJob[]> {
+  const data = await scheduleRequest<{ jobs: ScheduledJob[] }>('/api/schedules', 'Failed to load scheduled jobs');
+  return data.jobs;
+}
+
+export async function createSchedule(input: ScheduledJobInput): Promise<ScheduledJob> {
+  const data = await scheduleRequest<{ job: ScheduledJob }>('/api/schedules', 'Failed to create job', 'POST', input);
+  return data.job;
+}
+
+// Only the fields given change, e.g. { enabled: false }
+export async function updateSchedule(jobId: string, changes: Partial<ScheduledJobInput>): Promise<ScheduledJob> {
+  const data = await scheduleRequest<{ job: ScheduledJob }>(jobUrl(jobId), 'Failed to update job', 'PUT', changes);
+  return data.job;
+}
+
+export async function deleteSchedule(jobId: string): Promise<void> {
+  await scheduleRequest(jobUrl(jobId), 'Failed to delete job', 'DELETE');
+}
+
+// Starts the job now; resolves as soon as the run has started
+export async function runScheduleNow(jobId: string): Promise<Omit<ScheduledRun, 'output'>> {
+  const data = await scheduleRequest<{ run: Omit<ScheduledRun, 'output'> }>(`${jobUrl(jobId)}/run`, 'Failed to start job', 'POST');
+  return data.run;
+}
+
+export async function listScheduleRuns(jobId: string): Promise<ScheduledRun[]> {
+  const data = await scheduleRequest<{ runs: ScheduledRun[] }>(`${jobUrl(jobId)}/runs`, 'Failed to load run history');
+  return data.runs;
+}
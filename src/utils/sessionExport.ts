@@ -0,0 +1,30 @@
+export type SessionExportFormat = 'md' | 'html' | 'json';
+
+export const SESSION_EXPORT_FORMATS: { value: SessionExportFormat; label: string }[] = [
+  { value: 'md', label: 'Markdown' },
+  { value: 'html', label: 'HTML (shareable page)' },
+  { value: 'json', label: 'JSON' }
+];
+
+// Download a session export, named as the server suggests
+export async function downloadSessionExport(projectName: string, sessionId: string, format: SessionExportFormat): Promise<void> {
+  const response = await fetch(
+    `/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}/export?format=${format}`
+  );
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Export failed');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `session-${sessionId}.${format}`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,33 @@
+import { SessionAnnotations, SessionColor } from '../types/project';
+
+// Swatch and badge classes for each session color
+export const SESSION_COLORS: { value: SessionColor; label: string; className: string }[] = [
+  { value: 'red', label: 'Red', className: 'bg-red-500' },
+  { value: 'orange', label: 'Orange', className: 'bg-orange-500' },
+  { value: 'yellow', label: 'Yellow', className: 'bg-yellow-400' },
+  { value: 'green', label: 'Green', className: 'bg-green-500' },
+  { value: 'blue', label: 'Blue', className: 'bg-blue-500' },
+  { value: 'purple', label: 'Purple', className: 'bg-purple-500' },
+  { value: 'pink', label: 'Pink', className: 'bg-pink-500' },
+  { value: 'gray', label: 'Gray', className: 'bg-gray-400' }
+];
+
+export const getSessionColorClass = (color?: SessionColor): string | undefined =>
+  SESSION_COLORS.find(option => option.value === color)?.className;
+
+// Change a session's tags, pin, color or note; the sidebar picks the change
+// up from the session-updated event that follows
+export async function updateSessionAnnotations(projectName: string, sessionId: string, changes: SessionAnnotations): Promise<void> {
+  const response = await fetch(
+    `/api/projects/${encodeURIComponent(projectName)}/sessions/${encodeURIComponent(sessionId)}/metadata`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    }
+  );
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update session');
+  }
+}
@@ -0,0 +1,49 @@
+import { SlashCommand } from '../types/claude';
+
+export async function listSlashCommands(projectName: string): Promise<SlashCommand[]> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(projectName)}/commands`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load slash commands');
+  }
+  return data.commands || [];
+}
+
+// How well a query matches a name, with its letters in order but not
+// necessarily adjacent; null if it doesn't. Higher is better: prefixes,
+// consecutive letters and matches at word starts score more.
+function fuzzyScore(query: string, name: string): number | null {
+  if (!query) return 0;
+  const target = name.toLowerCase();
+  if (target.startsWith(query)) return 1000 - target.length;
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+  for (const char of query) {
+    const index = target.indexOf(char, position);
+    if (index === -1) return null;
+    score += index === previousMatch + 1 ? 5 : 1;
+    if (index === 0 || /[:_-]/.test(target[index - 1])) score += 3;
+    previousMatch = index;
+    position = index + 1;
+  }
+  return score - target.length / 100;
+}
+
+// Commands matching what was typed after "/", best first
+export function filterSlashCommands(commands: SlashCommand[], query: string): SlashCommand[] {
+  const normalized = query.toLowerCase();
+  return commands
+    .map(command => ({ command, score: fuzzyScore(normalized, command.name) }))
+    .filter((match): match is { command: SlashCommand; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.command);
+}
+
+// The "/query" being typed at the start of the input, if the cursor is still
+// in the command name
+export function getSlashQuery(input: string, cursorPosition: number): string | null {
+  const match = input.slice(0, cursorPosition).match(/^\/([\w:.-]*)$/);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,28 @@
+import { TrashItem, TrashListResponse } from '../types/trash';
+
+async function trashRequest<T>(url: string, method: string, errorMessage: string): Promise<T> {
+  const response = await fetch(url, { method });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || errorMessage);
+  }
+  return data;
+}
+
+export function listTrash(): Promise<TrashListResponse> {
+  return trashRequest('/api/trash', 'GET', 'Failed to load trash');
+}
+
+// Put a deleted session or project back where it was
+export async function restoreTrashItem(itemId: string): Promise<TrashItem> {
+  const data = await trashRequest<{ item: TrashItem }>(`/api/trash/${encodeURIComponent(itemId)}/restore`, 'POST', 'Failed to restore');
+  return data.item;
+}
+
+export async function purgeTrashItem(itemId: string): Promise<void> {
+  await trashRequest(`/api/trash/${encodeURIComponent(itemId)}`, 'DELETE', 'Failed to delete');
+}
+
+export async function emptyTrash(): Promise<void> {
+  await trashRequest('/api/trash', 'DELETE', 'Failed to empty trash');
+}
@@ -0,0 +1,44 @@
+import { UsageTotals } from '../types/usage';
+
+export function formatCost(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) {
+    return '<$0.01';
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+export function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Add two sets of totals, e.g. a session's history and its running request
+export function sumUsage(a: UsageTotals, b: Partial<UsageTotals>): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + (b.inputTokens || 0),
+    outputTokens: a.outputTokens + (b.outputTokens || 0),
+    cacheCreationTokens: a.cacheCreationTokens + (b.cacheCreationTokens || 0),
+    cacheReadTokens: a.cacheReadTokens + (b.cacheReadTokens || 0),
+    totalTokens: a.totalTokens + (b.totalTokens || 0),
+    costUsd: a.costUsd + (b.costUsd || 0),
+    durationMs: a.durationMs + (b.durationMs || 0),
+    messageCount: a.messageCount + (b.messageCount || 0)
+  };
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { WebSocketMessageUnion } from '../types/websocket';
 
-interface ServerConfig {
-  wsUrl: string;
+// WebSockets connect through the page's own host, so the browser sends the
+// httpOnly auth cookie with the upgrade; the dev server proxies them on
+export function getWebSocketUrl(path: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${path}`;
 }
 
 interface UseWebSocketReturn {
@@ -33,31 +36,7 @@ export function useWebSocket(): UseWebSocketReturn {
 
   const connect = async (): Promise<void> => {
     try {
-      // Fetch server configuration to get the correct WebSocket URL
-      let wsBaseUrl: string;
-      try {
-        const configResponse = await fetch('/api/config');
-        const config: ServerConfig = await configResponse.json();
-        wsBaseUrl = config.wsUrl;
-        
-        // If the config returns localhost but we're not on localhost, use current host but with API server port
-        if (wsBaseUrl.includes('localhost') && !window.location.hostname.includes('localhost')) {
-          console.warn('Config returned localhost, using current host with API server port instead');
-          const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-          // For development, API server is typically on port 3002 when Vite is on 3001
-          const apiPort = window.location.port === '3001' ? '3002' : window.location.port;
-          wsBaseUrl = `${protocol}//${window.location.hostname}:${apiPort}`;
-        }
-      } catch (error) {
-        console.warn('Could not fetch server config, falling back to current host with API server port');
-        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-        // For development, API server is typically on port 3002 when Vite is on 3001
-        const apiPort = window.location.port === '3001' ? '3002' : window.location.port;
-        wsBaseUrl = `${protocol}//${window.location.hostname}:${apiPort}`;
-      }
-      
-      const wsUrl = `${wsBaseUrl}/ws`;
-      const websocket = new WebSocket(wsUrl);
+      const websocket = new WebSocket(getWebSocketUrl('/ws'));
 
       websocket.onopen = () => {
         setIsConnected(true);
@@ -1,4 +1,6 @@
-export type WhisperMode = 'default' | 'fast' | 'accurate';
+// 'prompt', 'vibe', 'instructions' and 'architect' enhance the transcript
+// after transcribing it
+export type WhisperMode = 'default' | 'fast' | 'accurate' | 'prompt' | 'vibe' | 'instructions' | 'architect';
 
 export type TranscriptionStatus = 'transcribing' | 'error' | 'complete';
 
@@ -14,15 +16,14 @@ export interface TranscriptionError {
 
 export async function transcribeWithWhisper(
   audioBlob: Blob, 
-  onStatusChange?: (status: TranscriptionStatus) => void
+  onStatusChange?: (status: TranscriptionStatus) => void,
+  whisperMode: WhisperMode = 'default'
 ): Promise<string> {
   const formData = new FormData();
   const fileName = `recording_${Date.now()}.webm`;
   const file = new File([audioBlob], fileName, { type: audioBlob.type });
   
   formData.append('audio', file);
-  
-  const whisperMode = (window.localStorage.getItem('whisperMode') || 'default') as WhisperMode;
   formData.append('mode', whisperMode);
 
   try {
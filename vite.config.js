@@ -16,6 +16,10 @@ export default defineConfig(({ command, mode }) => {
         '/ws': {
           target: `ws://localhost:${env.PORT || 3002}`,
           ws: true
+        },
+        '/shell': {
+          target: `ws://localhost:${env.PORT || 3002}`,
+          ws: true
         }
       }
     },